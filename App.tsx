@@ -1,29 +1,55 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Timeline } from './components/Timeline';
+import { Timeline, TrimEditRequest } from './components/Timeline';
 import { CanvasControls } from './components/CanvasControls';
 import { AIAssistant } from './components/sidebar/AIAssistant';
-import { Clip, ChatMessage, ToolAction, EditPlan, WorkspaceItem, Transition } from './types';
+import { Clip, ChatMessage, ToolAction, EditPlan, WorkspaceItem, Transition, VideoIntent, Track, TrackKind, Sequence, Marker, TimeSpan } from './types';
 import { generateImage, generateVideo, generateSpeech, optimizePrompt, editImage, generateSubtitles } from './services/gemini';
 import { generateTransition } from './services/transitions';
+import { smartEdit } from './services/smartEdit';
 import { StyleAnalyzer } from './services/agents/styleAnalyzer';
 import { extractAudioFromVideo, formatTime, captureFrameFromVideoUrl } from './utils/videoUtils';
-import { drawClipToCanvas, DEFAULT_TEXT_STYLE } from './utils/canvasDrawing';
-import { GenerationApprovalModal, RangeEditorModal, TextControls, GeminiLogo, ShortcutsModal, ToastContainer } from './components/AppModals';
+import { DEFAULT_TEXT_STYLE } from './utils/canvasDrawing';
+import { renderFrameAt, createLiveSourceResolver, frameToDataUrl, getClipSourceTime, MediaSourcePool } from './utils/compositor';
+import { exportTimelineToMp4, downloadBlob } from './utils/exportVideo';
+import { audioMixer } from './utils/audioMixer';
+import { findSpeechSpans, detectSilences, SilenceOptions, DEFAULT_SILENCE, analyzeBeats, analyzeClipLoudness, analyzeMixLoudness, estimateClipLoudness, clipNormalizationGains, mixNormalizationGains } from './utils/audioAnalysis';
+import { LoudnessReport, LoudnessTargetId, LOUDNESS_TARGETS, formatLoudness, isOnTarget } from './utils/loudness';
+import { loadWaveform, WaveformPeaks } from './utils/waveforms';
+import { saveProjectFile, openProjectFile, MediaStorage, PROJECT_EXTENSION } from './services/projectFile';
+import { autosave, SavedSession } from './services/autosave';
+import { GenerationApprovalModal, RangeEditorModal, TextControls, GeminiLogo, ShortcutsModal, ToastContainer, RestoreSessionModal, PasteAttributesModal } from './components/AppModals';
 import { TransitionGeneratorModal } from './components/TransitionGeneratorModal';
 import { 
   Video, Play, Pause, Loader2, Upload, RotateCcw, RotateCw, 
   Sparkles, Scissors, Gauge, Download, Volume2, VolumeX, X, 
   Image as ImageIcon, Film, Mic, Camera, Trash2, Info, Captions, 
   Type, Check, ChevronLeft, ShieldCheck, Globe, FolderOpen, Plus,
-  MousePointer2, ScanEye, Grid3X3, HelpCircle, Key, Wand2, Maximize, Minimize
+  MousePointer2, ScanEye, Grid3X3, HelpCircle, Key, Wand2, Maximize, Minimize, Save, FolderInput, History, Unplug, Link2, Unlink, Copy, ClipboardPaste, Paintbrush, Rewind, Snowflake, AudioLines, ChevronUp, Clapperboard, ScissorsLineDashed, MicOff, FileText
 } from 'lucide-react';
 import { timelineStore } from './timeline/store';
+import { TimelineOps } from './timeline/operations';
+import { nextTrackId, normalizeTracks, getTrackOrder } from './timeline/tracks';
+import { flattenCompoundClips } from './timeline/sequences';
+import { BeatMap, isBeatSource } from './timeline/beats';
+import { MontageOptions, DEFAULT_MONTAGE } from './timeline/montage';
+import { getLinkPartner, hasOwnAudio } from './timeline/links';
+import { speedAt, hasSpeedRamp, clearSpeedRampUpdates, presetRampPoints, describeSpeed, SPEED_RAMP_PRESETS, SpeedRampPreset } from './timeline/timeRemap';
+import { clipboard, copyClips, AttributeGroup } from './timeline/clipboard';
+import { DuckingOptions, DEFAULT_DUCKING, getAudioRole } from './timeline/ducking';
+import { MAX_CLIP_VOLUME } from './timeline/fades';
+import { createMarker, getChapters, toYouTubeChapters, checkYouTubeChapters, toWebVttChapters } from './timeline/markers';
 import { AssetFoundryModal } from './components/foundry/AssetFoundryModal';
 import { AssetConfig } from './services/assetBrain';
 import { AssetScout } from './components/scout/AssetScout';
 import { ImageEditorModal } from './components/ImageEditorModal';
 import { Workspace } from './components/Workspace';
+import { HistoryPanel } from './components/HistoryPanel';
+import { LoudnessPanel } from './components/LoudnessPanel';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { TranscriptMap, timelineTranscript, wordCutSpans } from './timeline/transcript';
+import { SpeechIssue, speechCuts } from './timeline/speechCleanup';
+import { transcribeSource } from './services/transcription';
 import { AssetPlayer } from './components/foundry/AssetPlayer';
 
 // AGENTS
@@ -33,6 +59,9 @@ import { BrainAgent } from './services/agents/brain';
 import { HandsAgent } from './services/agents/hands';
 import { VerifierAgent } from './services/agents/verifier';
 
+// Internal resolution of the preview canvas and of agent observation frames
+const PREVIEW_SIZE = { width: 1280, height: 720 };
+
 // --- HELPER FOR TRACK SAFETY ---
 const getSafeTrackId = (preferredTrack: number, clips: Clip[]): number => {
     if (clips.length === 0) return preferredTrack;
@@ -53,9 +82,12 @@ const checkApiKey = async (): Promise<boolean> => {
 };
 
 export default function App() {
-  const [tracks, setTracks] = useState<number[]>([0, 1, 2, 3]);
+  const [tracks, setTracks] = useState<Track[]>(timelineStore.getTracks());
   const [clips, setClips] = useState<Clip[]>(timelineStore.getClips());
   const [transitions, setTransitions] = useState<Transition[]>(timelineStore.getTransitions());
+  const [markers, setMarkers] = useState<Marker[]>(timelineStore.getMarkers());
+  const [sequences, setSequences] = useState<Sequence[]>(timelineStore.getSequences());
+  const [sequencePath, setSequencePath] = useState(timelineStore.getSequencePath());
   const [foundryOpen, setFoundryOpen] = useState(false);
   const [imageEditorClip, setImageEditorClip] = useState<Clip | null>(null);
   
@@ -78,6 +110,8 @@ export default function App() {
 
   // UI STATE
   const [showShortcuts, setShowShortcuts] = useState(false);
+  const [hasClipboard, setHasClipboard] = useState(false);
+  const [pasteAttributesSource, setPasteAttributesSource] = useState<Clip | null>(null);
   const [showSafeZones, setShowSafeZones] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [toasts, setToasts] = useState<Array<{ id: string, message: string, type: 'success' | 'error' | 'info' }>>([]);
@@ -91,25 +125,21 @@ export default function App() {
   const removeToast = (id: string) => setToasts(prev => prev.filter(t => t.id !== id));
 
   useEffect(() => { 
-      return timelineStore.subscribe((c, t) => {
+      return timelineStore.subscribe((c, t, tr, m) => {
           setClips(c);
           setTransitions(t);
+          setTracks(tr);
+          setMarkers(m);
+          setSequences(timelineStore.getSequences());
+          setSequencePath(timelineStore.getSequencePath());
       }); 
   }, []);
 
-  useEffect(() => {
-      if (clips.length === 0) return;
-      const maxTrackInClips = Math.max(...clips.map(c => c.trackId));
-      setTracks(prev => {
-          const currentMax = Math.max(...prev);
-          if (maxTrackInClips > currentMax) {
-              const newTracks = [...prev];
-              for (let i = currentMax + 1; i <= maxTrackInClips; i++) newTracks.push(i);
-              return newTracks;
-          }
-          return prev;
-      });
-  }, [clips]);
+  // Edits the store refuses (overlaps, locked tracks, out-of-range times) would otherwise silently no-op.
+  // Agent edits are reported back through the tool result instead.
+  useEffect(() => timelineStore.onViolation(report => {
+      if (report.rejected && report.actor === 'user') addToast(report.violations[0].message, 'error');
+  }), []);
 
   // SHORTCUTS LISTENER
   useEffect(() => {
@@ -141,6 +171,13 @@ export default function App() {
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
   const [isCustomSpeed, setIsCustomSpeed] = useState(false);
   const [showVolumeMenu, setShowVolumeMenu] = useState(false);
+  const [showDuckingMenu, setShowDuckingMenu] = useState(false);
+  const [duckingOptions, setDuckingOptions] = useState<DuckingOptions>(DEFAULT_DUCKING);
+  const [isDucking, setIsDucking] = useState(false);
+  const [showMontageMenu, setShowMontageMenu] = useState(false);
+  const [montageOptions, setMontageOptions] = useState<MontageOptions>(DEFAULT_MONTAGE);
+  const [montageHighlight, setMontageHighlight] = useState('');
+  const [isBuildingMontage, setIsBuildingMontage] = useState(false);
   const [showTextStyleMenu, setShowTextStyleMenu] = useState(false);
   
   // Update default caption style for better readability
@@ -198,6 +235,15 @@ export default function App() {
   
   // CHAT & AGENT STATE
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [videoIntent, setVideoIntent] = useState<VideoIntent>({});
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [showSaveMenu, setShowSaveMenu] = useState(false);
+  const [restorableSession, setRestorableSession] = useState<SavedSession | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showLoudness, setShowLoudness] = useState(false);
+  const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTargetId>('youtube');
+  const [mixLoudness, setMixLoudness] = useState<LoudnessReport | null>(null);
+  const [isMeasuringLoudness, setIsMeasuringLoudness] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   
   const [activePlan, setActivePlan] = useState<EditPlan | null>(null);
@@ -214,19 +260,59 @@ export default function App() {
   
   // ABORT CONTROLLER REF FOR STOPPING AGENT
   const agentAbortRef = useRef<AbortController | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => { currentTimeRef.current = currentTime; }, [currentTime]);
+  const transitionsRef = useRef(transitions);
+  useEffect(() => { transitionsRef.current = transitions; }, [transitions]);
+
+  // --- PREVIEW COMPOSITING ---
+  // The preview canvas is painted by the same compositor as export. The DOM media
+  // elements only host playback and hit-testing, so they stay invisible.
+  const previewFrameRef = useRef<OffscreenCanvas | null>(null);
+  const previewRenderRef = useRef({ busy: false, pending: false });
+  const renderPreview = useCallback(async () => {
+      const state = previewRenderRef.current;
+      if (state.busy) { state.pending = true; return; }
+      state.busy = true;
+      try {
+          do {
+              state.pending = false;
+              const target = canvasRef.current;
+              if (!target) break;
+              if (!previewFrameRef.current) previewFrameRef.current = new OffscreenCanvas(PREVIEW_SIZE.width, PREVIEW_SIZE.height);
+              const frame = await renderFrameAt(clipsRef.current, transitionsRef.current, currentTimeRef.current, PREVIEW_SIZE, { canvas: previewFrameRef.current, resolveSource: createLiveSourceResolver(mediaRefs.current), tracks: timelineStore.getTracks(), sequences: timelineStore.getSequences() });
+              target.getContext('2d')?.drawImage(frame, 0, 0, target.width, target.height);
+          } while (state.pending);
+      } catch (e) {
+          console.warn("Preview render failed", e);
+      } finally {
+          state.busy = false;
+      }
+  }, []);
+  useEffect(() => { renderPreview(); }, [currentTime, clips, transitions, tracks, sequences, renderPreview]);
+  // Media inside compound clips, re-timed onto this level: hidden elements play them for the preview
+  const nestedMedia = useMemo(() => flattenCompoundClips(clips, sequences), [clips, sequences]);
+  // Paused seeks and late-loading media finish asynchronously; media events don't bubble, so listen in the capture phase
+  useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+      const events = ['seeked', 'loadeddata', 'load'];
+      events.forEach(e => container.addEventListener(e, renderPreview, true));
+      return () => events.forEach(e => container.removeEventListener(e, renderPreview, true));
+  }, [renderPreview]);
 
   const selectedClips = clips.filter(c => selectedClipIds.includes(c.id));
   const primarySelectedClip = selectedClips.length > 0 ? selectedClips[selectedClips.length - 1] : null;
   const isMultiSelection = selectedClipIds.length > 1;
   const allSelectedAreText = selectedClips.length > 0 && selectedClips.every(c => c.type === 'text');
-  const allSelectedAreMedia = selectedClips.length > 0 && selectedClips.every(c => ['video', 'audio', 'image'].includes(c.type || ''));
+  const allSelectedAreMedia = selectedClips.length > 0 && selectedClips.every(c => ['video', 'audio', 'image', 'compound'].includes(c.type || ''));
   const isSelectedClipVisible = primarySelectedClip ? (currentTime >= primarySelectedClip.startTime && currentTime < primarySelectedClip.startTime + primarySelectedClip.duration) : false;
   const availableVideo = clips.find(c => c.type === 'video');
 
   const canUndo = timelineStore.canUndo();
   const canRedo = timelineStore.canRedo();
+  const history = timelineStore.getHistory();
   
   const veoModeLabel = veoStartImg && veoEndImg ? 'Morph Mode' : veoStartImg ? 'Image-to-Video' : 'Text-to-Video';
   const veoModeColor = veoStartImg && veoEndImg ? 'text-purple-300 bg-purple-900/50 border-purple-500/50' : veoStartImg ? 'text-blue-300 bg-blue-900/50 border-blue-500/50' : 'text-neutral-400 bg-neutral-800 border-neutral-700';
@@ -358,8 +444,7 @@ export default function App() {
               const startTime = Math.max(0, x / 40); 
               const y = e.clientY - (rect?.top || 0);
               const trackIndex = Math.floor(y / 100);
-              const trackId = tracks.length - 1 - trackIndex;
-              const safeTrackId = Math.max(0, trackId);
+              const safeTrackId = ([...tracks].reverse()[trackIndex] || tracks[0]).id;
 
               timelineStore.addClip({ 
                   id: `clip-${item.id}-${Date.now()}`, 
@@ -380,8 +465,7 @@ export default function App() {
   const handleClipEject = (clip: Clip) => { if (!clip.sourceUrl) return; const newItem: WorkspaceItem = { id: `ws-eject-${Date.now()}`, type: (clip.type === 'video' || clip.type === 'audio' || clip.type === 'image') ? clip.type : 'video', url: clip.sourceUrl, name: clip.title, duration: clip.totalDuration || clip.duration }; setWorkspaceFiles(prev => [...prev, newItem]); timelineStore.removeClip(clip.id); setWorkspaceOpen(true); addToast("Clip moved to Workspace", "info"); };
   
   const handleAssetFoundryAdd = (url: string, config: AssetConfig) => { 
-      const maxTrack = clips.length > 0 ? Math.max(...clips.map(c => c.trackId)) : 0; 
-      const targetTrack = maxTrack + 1; 
+      const targetTrack = nextTrackId(timelineStore.getTracks()); 
       timelineStore.addClip({ id: `foundry-${Date.now()}`, title: config.originalPrompt.slice(0, 20), type: 'video', startTime: currentTime, duration: 5, sourceStartTime: 0, sourceUrl: url, trackId: targetTrack, strategy: config.strategy, transform: { x: 0, y: 0, scale: 1, rotation: 0 } }); 
       setWorkspaceFiles(prev => [...prev, {
           id: `foundry-ws-${Date.now()}`,
@@ -398,8 +482,7 @@ export default function App() {
       const newItem: WorkspaceItem = { id: `scout-ws-${Date.now()}`, type: 'video', url, name: description.slice(0, 20), duration: 4 }; 
       setWorkspaceFiles(prev => [...prev, newItem]); 
       if (mediaModalTarget !== 'workspace') {
-          const maxTrack = clips.length > 0 ? Math.max(...clips.map(c => c.trackId)) : 0; 
-          const targetTrack = maxTrack + 1; 
+          const targetTrack = nextTrackId(timelineStore.getTracks()); 
           const trackId = typeof mediaModalTarget === 'number' ? mediaModalTarget : targetTrack; 
           const trackClips = clips.filter(c => c.trackId === trackId); 
           let startTime = trackClips.length > 0 ? Math.max(...trackClips.map(c => c.startTime + c.duration)) : 0; 
@@ -412,8 +495,7 @@ export default function App() {
   };
 
   const handleAddEditedAsset = (url: string, type: 'image' | 'video', title: string) => { 
-      const maxTrack = clips.length > 0 ? Math.max(...clips.map(c => c.trackId)) : 0; 
-      const targetTrack = maxTrack + 1; 
+      const targetTrack = nextTrackId(timelineStore.getTracks()); 
       const originalClip = imageEditorClip; 
       const startTime = originalClip ? originalClip.startTime : currentTime; 
       const duration = type === 'video' ? 4 : 5; 
@@ -536,20 +618,23 @@ export default function App() {
               throw new Error("No subtitles returned (possibly silent video)");
           }
 
-          subs.forEach((sub, i) => {
+          const captionTrackId = timelineStore.ensureTrack('text').id;
+          timelineStore.batch(() => subs.forEach((sub, i) => {
+              // Subtitle timings can overlap slightly; captions share one track, so end each where the next starts
+              const end = i + 1 < subs.length ? Math.min(sub.end, subs[i + 1].start) : sub.end;
               timelineStore.addClip({ 
                   id: `sub-${Date.now()}-${i}`, 
                   title: `Caption ${i+1}`, 
                   type: 'text', 
                   text: sub.text, 
                   startTime: sub.start, 
-                  duration: sub.end - sub.start, 
+                  duration: end - sub.start, 
                   sourceStartTime: 0, 
-                  trackId: 3, 
+                  trackId: captionTrackId, 
                   textStyle: captionStyle,
                   transform: { x: 0, y: 0.35, scale: 1, rotation: 0 } // Position at bottom (85% height)
               });
-          });
+          }), 'Generate captions');
           
           setCaptionModalOpen(false); 
           addToast(`Generated ${subs.length} captions`, "success");
@@ -602,71 +687,148 @@ export default function App() {
       }
   };
 
-  const handleExport = async () => { setIsExporting(true); setExportProgress(0); try { const canvas = document.createElement('canvas'); canvas.width = 1280; canvas.height = 720; const ctx = canvas.getContext('2d'); if (!ctx) throw new Error("No context"); for(let i=0; i<=100; i+=10) { setExportProgress(i); await new Promise(r => setTimeout(r, 100)); } addToast("Export Complete (Simulated)", "success"); } catch (e) { console.error(e); addToast("Export Failed", "error"); } finally { setIsExporting(false); } };
-  const captureCurrentFrame = async (): Promise<string | null> => { if (!containerRef.current) return null; const width = 1280; const height = 720; const canvas = document.createElement('canvas'); canvas.width = width; canvas.height = height; const ctx = canvas.getContext('2d'); if (!ctx) return null; ctx.fillStyle = '#000000'; ctx.fillRect(0, 0, width, height); const visible = clips.filter(c => currentTime >= c.startTime && currentTime < c.startTime + c.duration).sort((a, b) => a.trackId - b.trackId); for (const clip of visible) { if (clip.type === 'audio') continue; if (clip.type === 'text') { drawClipToCanvas(ctx, clip, null, width, height); } else { const el = mediaRefs.current[clip.id] as HTMLVideoElement | null; if (clip.type === 'video' && el) { drawClipToCanvas(ctx, clip, el, width, height); } else if (clip.type === 'image') { const img = new Image(); img.crossOrigin = "anonymous"; img.src = clip.sourceUrl || ''; await new Promise((resolve) => { if (img.complete) resolve(true); img.onload = () => resolve(true); img.onerror = () => resolve(false); }); drawClipToCanvas(ctx, clip, img, width, height); } } } return canvas.toDataURL('image/jpeg', 0.8); };
-  
-  // ROBUST OBSERVATION HANDLER (Replaces simple interval)
-  const handleRequestObservation = async (): Promise<string[]> => {
-      setIsVerifying(true); 
-      setIsPlaying(false); 
-      setCurrentTime(0); 
-      await new Promise(r => setTimeout(r, 200)); 
-      // Use ref to avoid stale closure
-      const currentClips = clipsRef.current;
-      const duration = currentClips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0) || 10; 
-      const capturedFrames: string[] = []; 
-      setIsPlaying(true); 
-      
-      return new Promise((resolve) => { 
-          const checkInterval = setInterval(async () => { 
-              const frame = await captureCurrentFrame(); 
-              if (frame) capturedFrames.push(frame); 
-              if (currentTimeRef.current >= duration) { 
-                  clearInterval(checkInterval); 
-                  setIsPlaying(false); 
-                  setIsVerifying(false); 
-                  resolve(capturedFrames); 
-              } 
-          }, 1000); 
-      }); 
+  // --- AUTOSAVE / CRASH RECOVERY ---
+  // Autosave only starts once any previous session has been restored or discarded, so it can't overwrite it first
+  useEffect(() => {
+      autosave.loadSession()
+          .then(session => { if (session && (session.clips.length > 0 || (session.workspaceFiles || []).length > 0)) setRestorableSession(session); else autosave.start(timelineStore); })
+          .catch(e => { console.warn("Session recovery unavailable", e); autosave.start(timelineStore); });
+      return () => autosave.stop();
+  }, []);
+  useEffect(() => { autosave.setWorkspace(workspaceFiles); }, [workspaceFiles]);
+
+  const handleRestoreSession = () => {
+      if (!restorableSession) return;
+      timelineStore.load(restorableSession.clips, restorableSession.transitions, normalizeTracks(restorableSession.tracks, restorableSession.clips), restorableSession.sequences, restorableSession.markers);
+      if (restorableSession.workspaceFiles) setWorkspaceFiles(restorableSession.workspaceFiles);
+      setRestorableSession(null);
+      autosave.start(timelineStore);
+      addToast("Session Restored", "success");
   };
 
-  // Helper: Wait for all video elements to seek to correct positions
-  const waitForVideoSeek = async (targetTime: number): Promise<void> => {
-      // ... (Same logic as before) ...
+  const handleDiscardSession = () => {
+      setRestorableSession(null);
+      autosave.clear().catch(e => console.warn("Failed to clear autosave", e));
+      autosave.start(timelineStore);
   };
 
-  // Enhanced frame capture with better rendering
-  const captureFrameAtTime = async (time: number): Promise<string | null> => {
-      // ... (Same logic as before) ...
-      return null;
+  // --- PROJECT FILES ---
+  const handleSaveProject = async (storage: MediaStorage) => {
+      setShowSaveMenu(false);
+      setIsSavingProject(true);
+      try {
+          const blob = await saveProjectFile({
+              ...timelineStore.getRootTimeline(),
+              sequences: timelineStore.getSequences(),
+              workspaceFiles,
+              videoIntent,
+              chatHistory
+          }, storage);
+          downloadBlob(blob, `cutpilot-project-${Date.now()}${PROJECT_EXTENSION}`);
+          autosave.markSaved();
+          addToast(storage === 'embedded' ? "Project Saved" : "Project Saved (media referenced by hash)", "success");
+      } catch (e: any) {
+          console.error(e);
+          addToast(e?.message || "Failed to save project", "error");
+      } finally {
+          setIsSavingProject(false);
+      }
   };
 
-  // Render single clip to canvas
-  const renderClipToCanvas = async (
-      ctx: CanvasRenderingContext2D,
-      clip: Clip,
-      currentTime: number,
-      width: number,
-      height: number
-  ): Promise<void> => {
-      // ... (Same logic as before) ...
+  // The picker accepts the project plus any media files to relink referenced sources
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+      e.target.value = '';
+      const projectFile = files.find(f => f.name.endsWith(PROJECT_EXTENSION)) || files[0];
+      if (!projectFile) return;
+      try {
+          const { state, missingMedia } = await openProjectFile(projectFile, files.filter(f => f !== projectFile));
+          setIsPlaying(false);
+          setCurrentTime(0);
+          setSelectedClipIds([]);
+          timelineStore.load(state.clips, state.transitions, state.tracks, state.sequences, state.markers);
+          sequenceReturnTimesRef.current = [];
+          setWorkspaceFiles(state.workspaceFiles);
+          setVideoIntent(state.videoIntent);
+          setChatHistory(state.chatHistory);
+          autosave.markSaved();
+          if (missingMedia.length > 0) {
+              addToast(`Missing media: ${missingMedia.map(m => m.name).join(', ')}. Re-open with those files selected to relink.`, "error");
+          } else {
+              addToast("Project Loaded", "success");
+          }
+      } catch (err: any) {
+          console.error(err);
+          addToast(err?.message || "Failed to open project", "error");
+      }
   };
 
-  // Render transition between two clips
-  const renderTransition = async (
-      ctx: CanvasRenderingContext2D,
-      transition: Transition,
-      currentTime: number,
-      width: number,
-      height: number
-  ): Promise<void> => {
-      // ... (Same logic as before) ...
+  const handleExport = async () => {
+      // Second click while rendering cancels the export
+      if (isExporting) {
+          exportAbortRef.current?.abort();
+          return;
+      }
+      const controller = new AbortController();
+      exportAbortRef.current = controller;
+      setIsExporting(true);
+      setExportProgress(0);
+      setIsPlaying(false);
+      try {
+          // Always the whole project, even while a compound clip's sequence is open
+          const root = timelineStore.getRootTimeline();
+          const blob = await exportTimelineToMp4(root.clips, root.transitions, {
+              width: 1280,
+              height: 720,
+              fps: 30,
+              tracks: root.tracks,
+              sequences: timelineStore.getSequences(),
+              master: audioMixer.getMaster(),
+              signal: controller.signal,
+              onProgress: setExportProgress,
+              onWarning: message => addToast(message, "info")
+          });
+          downloadBlob(blob, `cutpilot-export-${Date.now()}.mp4`);
+          addToast("Export Complete", "success");
+      } catch (e: any) {
+          if (e?.name === 'AbortError') {
+              addToast("Export Cancelled", "info");
+          } else {
+              console.error(e);
+              addToast(e?.message || "Export Failed", "error");
+          }
+      } finally {
+          exportAbortRef.current = null;
+          setIsExporting(false);
+      }
   };
+  const captureCurrentFrame = async (): Promise<string | null> => { try { const frame = await renderFrameAt(timelineStore.getClips(), timelineStore.getTransitions(), currentTimeRef.current, PREVIEW_SIZE, { tracks: timelineStore.getTracks(), sequences: timelineStore.getSequences() }); return await frameToDataUrl(frame, 0.8); } catch (e) { console.warn("Frame capture failed", e); return null; } };
+  
+  // OBSERVATION HANDLER: samples the composited timeline once per second instead of recording real-time playback
+  const handleRequestObservation = async (): Promise<string[]> => {
+      setIsVerifying(true); 
+      setIsPlaying(false); 
+      // Read the store directly to avoid stale closures
+      const currentClips = timelineStore.getClips();
+      const currentTransitions = timelineStore.getTransitions();
+      const duration = currentClips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0) || 10; 
+      const capturedFrames: string[] = []; 
+      const canvas = new OffscreenCanvas(PREVIEW_SIZE.width, PREVIEW_SIZE.height);
+      const pool = new MediaSourcePool();
 
-  const applyEasing = (t: number, easing: string): number => {
-    // ... (Same logic as before) ...
-    return t;
+      try {
+          for (let t = 0; t < duration; t += 1) {
+              setCurrentTime(t);
+              const frame = await renderFrameAt(currentClips, currentTransitions, t, PREVIEW_SIZE, { canvas, resolveSource: pool.resolver(), tracks: timelineStore.getTracks(), sequences: timelineStore.getSequences() });
+              capturedFrames.push(await frameToDataUrl(frame, 0.8));
+          }
+      } catch (e) {
+          console.warn("Observation capture failed", e);
+      } finally {
+          pool.dispose();
+          setIsVerifying(false);
+      }
+      return capturedFrames;
   };
 
   // MEMOIZE AGENTS to prevent recreation on every render
@@ -693,7 +855,8 @@ export default function App() {
           (agent, thought, toolAction) => { 
               setChatHistory(prev => [...prev, { role: 'agent', agentType: agent, text: thought, toolAction: toolAction }]); 
           }, 
-          handleLoopObservation
+          handleLoopObservation,
+          intent => setVideoIntent(prev => ({ ...prev, ...intent }))
       );
   }, [agents, handleLoopObservation]);
   
@@ -720,6 +883,11 @@ export default function App() {
           const currentClips = timelineStore.getClips();
           const context = { 
               clips: currentClips, 
+              transitions: timelineStore.getTransitions(), 
+              tracks: timelineStore.getTracks(),
+              sequences: timelineStore.getSequences(),
+              markers: timelineStore.getMarkers(),
+              intent: videoIntent,
               selectedClipIds, 
               currentTime, 
               range: liveScopeRange || { start: 0, end: 0 } 
@@ -794,10 +962,8 @@ export default function App() {
       }
 
       try { 
-          const currentClips = timelineStore.getClips(); 
-          const maxTrack = currentClips.length > 0 ? Math.max(...currentClips.map(c => c.trackId)) : 0; 
           let targetTrackId = Number(params.trackId); 
-          if (isNaN(targetTrackId)) targetTrackId = maxTrack + 1; 
+          if (isNaN(targetTrackId)) targetTrackId = nextTrackId(timelineStore.getTracks()); 
           
           const rawInsertTime = Number(params.insertTime); 
           const safeStartTime = isNaN(rawInsertTime) ? 0 : rawInsertTime; 
@@ -815,7 +981,7 @@ export default function App() {
               const audioUrl = await generateSpeech(params.text, params.voice || 'Kore'); 
               const tempAudio = new Audio(audioUrl); 
               await new Promise<void>((resolve) => { tempAudio.onloadedmetadata = () => resolve(); tempAudio.onerror = () => resolve(); }); 
-              timelineStore.addClip({ id: `vo-${Date.now()}`, title: `VO: ${params.text.slice(0, 15)}...`, type: 'audio', startTime: safeStartTime, duration: tempAudio.duration || 5, sourceStartTime: 0, sourceUrl: audioUrl, trackId: targetTrackId, volume: 1, speed: 1, transform: { x: 0, y: 0, scale: 1, rotation: 0 } }); 
+              timelineStore.addClip({ id: `vo-${Date.now()}`, title: `VO: ${params.text.slice(0, 15)}...`, type: 'audio', startTime: safeStartTime, duration: tempAudio.duration || 5, sourceStartTime: 0, sourceUrl: audioUrl, trackId: targetTrackId, audioRole: 'dialogue', volume: 1, speed: 1, transform: { x: 0, y: 0, scale: 1, rotation: 0 } }); 
           } 
           
           if (activePlan) {
@@ -844,7 +1010,7 @@ export default function App() {
       
       // Capture preview frames
       try {
-          const endFrameA = await captureFrameFromVideoUrl(clipA.sourceUrl || '', clipA.sourceStartTime + clipA.duration - 0.1);
+          const endFrameA = await captureFrameFromVideoUrl(clipA.sourceUrl || '', getClipSourceTime(clipA, clipA.startTime + clipA.duration - 0.1));
           const startFrameB = await captureFrameFromVideoUrl(clipB.sourceUrl || '', clipB.sourceStartTime);
           setTransitionPreviews({ endFrameA, startFrameB });
       } catch (e) {
@@ -867,6 +1033,7 @@ export default function App() {
       try {
           let insertTime = clipA.startTime + clipA.duration;
           let transitionDuration = config.duration;
+          let applied = false;
 
           // AI MODE (Veo)
           if (config.mode === 'ai') {
@@ -878,17 +1045,20 @@ export default function App() {
 
               const url = await generateTransition(startB64, endB64, config.prompt);
               
-              // Insert Generated Transition Clip
-              timelineStore.addClip({
-                  id: `trans-${Date.now()}`,
-                  title: 'AI Transition',
-                  type: 'video',
-                  startTime: insertTime,
-                  duration: transitionDuration,
-                  sourceStartTime: 0,
-                  sourceUrl: url,
-                  trackId: clipA.trackId
-              });
+              // Push B to right, then insert the generated transition clip into the gap
+              applied = timelineStore.batch(() => {
+                  timelineStore.moveClip(clipB.id, insertTime + transitionDuration, clipB.trackId);
+                  timelineStore.addClip({
+                      id: `trans-${Date.now()}`,
+                      title: 'AI Transition',
+                      type: 'video',
+                      startTime: insertTime,
+                      duration: transitionDuration,
+                      sourceStartTime: 0,
+                      sourceUrl: url,
+                      trackId: clipA.trackId
+                  });
+              }, 'Add AI transition');
 
               // Add to workspace
               setWorkspaceFiles(prev => [...prev, {
@@ -899,27 +1069,28 @@ export default function App() {
                   duration: transitionDuration
               }]);
 
-              // Push B to right
-              timelineStore.moveClip(clipB.id, insertTime + transitionDuration, clipB.trackId);
           } 
           // STANDARD MODE
           else {
               // Adjust clip B to overlap
               const overlapDuration = config.duration;
               const newBStart = (clipA.startTime + clipA.duration) - overlapDuration;
-              timelineStore.moveClip(clipB.id, newBStart, clipB.trackId);
-
-              timelineStore.addTransition({
-                  id: `std-trans-${Date.now()}`,
-                  type: config.standardType,
-                  startTime: newBStart,
-                  duration: overlapDuration,
-                  trackId: clipA.trackId,
-                  fromClipId: clipA.id,
-                  toClipId: clipB.id
-              });
+              applied = timelineStore.batch(() => {
+                  timelineStore.moveClip(clipB.id, newBStart, clipB.trackId);
+                  timelineStore.addTransition({
+                      id: `std-trans-${Date.now()}`,
+                      type: config.standardType,
+                      startTime: newBStart,
+                      duration: overlapDuration,
+                      trackId: clipA.trackId,
+                      fromClipId: clipA.id,
+                      toClipId: clipB.id
+                  });
+              }, `Add ${config.standardType.replace(/_/g, ' ')} transition`);
           }
 
+          // Refused by validation: the violation listener has already toasted why, and the modal stays open to retry
+          if (!applied) return;
           addToast(config.mode === 'ai' ? "AI Transition Generated" : "Transition Applied", "success");
           setTransitionModalOpen(false);
           setTransitionPair(null);
@@ -933,13 +1104,425 @@ export default function App() {
   };
 
   useEffect(() => { let animationFrameId: number; let lastTimestamp = performance.now(); const updateLoop = (timestamp: number) => { const dt = (timestamp - lastTimestamp) / 1000; lastTimestamp = timestamp; if (isPlaying) setCurrentTime((prevTime) => prevTime + dt); animationFrameId = requestAnimationFrame(updateLoop); }; if (isPlaying) { lastTimestamp = performance.now(); animationFrameId = requestAnimationFrame(updateLoop); } else { Object.values(mediaRefs.current).forEach((el) => { if (el instanceof HTMLMediaElement) { el.pause(); } }); } return () => cancelAnimationFrame(animationFrameId); }, [isPlaying]);
-  useEffect(() => { clips.forEach(clip => { if (clip.type !== 'video' && clip.type !== 'audio') return; const mediaEl = mediaRefs.current[clip.id] as HTMLVideoElement | HTMLAudioElement; if (!mediaEl) return; const isActive = currentTime >= clip.startTime && currentTime < (clip.startTime + clip.duration); if (isActive) { const relativeTime = currentTime - clip.startTime; const targetTime = clip.sourceStartTime + (relativeTime * (clip.speed || 1)); if (Math.abs(mediaEl.currentTime - targetTime) > 0.25) mediaEl.currentTime = targetTime; if (isPlaying) { if (mediaEl.paused) mediaEl.play().catch(() => {}); } else { if (!mediaEl.paused) mediaEl.pause(); } mediaEl.muted = false; mediaEl.volume = clip.volume ?? 1; mediaEl.playbackRate = clip.speed ?? 1; } else { if (!mediaEl.paused) mediaEl.pause(); mediaEl.muted = true; } }); }, [currentTime, isPlaying, clips]);
+  useEffect(() => { [...clips, ...nestedMedia].forEach(clip => { if (clip.type !== 'video' && clip.type !== 'audio') return; const mediaEl = mediaRefs.current[clip.id] as HTMLVideoElement | HTMLAudioElement; if (!mediaEl) return; const isActive = currentTime >= clip.startTime && currentTime < (clip.startTime + clip.duration); if (isActive) { const relativeTime = currentTime - clip.startTime; const targetTime = getClipSourceTime(clip, currentTime); if (clip.reversed) { /* Media elements can't play backwards: hold the frame and seek every tick (the mixer plays it reversed) */ if (!mediaEl.paused) mediaEl.pause(); if (Math.abs(mediaEl.currentTime - targetTime) > 0.04) mediaEl.currentTime = targetTime; } else { if (Math.abs(mediaEl.currentTime - targetTime) > 0.25) mediaEl.currentTime = targetTime; if (isPlaying) { if (mediaEl.paused) mediaEl.play().catch(() => {}); } else { if (!mediaEl.paused) mediaEl.pause(); } } mediaEl.muted = true; /* Sound comes from the audio mixer */ mediaEl.playbackRate = speedAt(clip, relativeTime); } else { if (!mediaEl.paused) mediaEl.pause(); mediaEl.muted = true; } }); }, [currentTime, isPlaying, clips, nestedMedia]);
+  // --- AUDIO MIX ---
+  // Preview sound is the same Web Audio graph the export renders; it restarts when the edit changes mid-playback
+  useEffect(() => { if (!isPlaying) { audioMixer.stop(); return; } audioMixer.play([...clips, ...nestedMedia], transitions, timelineStore.getTracks(), currentTimeRef.current); }, [isPlaying, clips, nestedMedia, transitions]);
+  useEffect(() => { audioMixer.setTracks(tracks); }, [tracks]);
+  useEffect(() => { if (isPlaying) audioMixer.sync(currentTime); }, [currentTime, isPlaying]);
+  useEffect(() => () => audioMixer.stop(), []);
+
+  // --- WAVEFORMS ---
+  const [waveforms, setWaveforms] = useState<Record<string, WaveformPeaks>>({});
+  useEffect(() => {
+      const pending = [...clips, ...nestedMedia].filter(c => hasOwnAudio(c) && c.sourceUrl).map(c => c.sourceUrl!).filter((url, i, urls) => urls.indexOf(url) === i && !(url in waveforms));
+      pending.forEach(url => loadWaveform(url).then(peaks => { if (peaks) setWaveforms(prev => ({ ...prev, [url]: peaks })); }));
+  }, [clips, nestedMedia]);
+
+  // --- BEATS ---
+  // Each audio source is analysed once, in the background, as it arrives on the timeline
+  const [beatMap, setBeatMap] = useState<BeatMap>({});
+  useEffect(() => {
+      const pending = clips.filter(isBeatSource).map(c => c.sourceUrl!).filter((url, i, urls) => urls.indexOf(url) === i && !(url in beatMap));
+      pending.forEach(url => analyzeBeats(url).then(analysis => { if (analysis) setBeatMap(prev => ({ ...prev, [url]: analysis })); }).catch(e => console.warn("Beat detection failed", e)));
+  }, [clips]);
   const handleUndo = () => timelineStore.undo(); const handleRedo = () => timelineStore.redo(); const handleDelete = (ids: string[]) => ids.forEach(id => timelineStore.removeClip(id));
-  useEffect(() => { const handleGlobalKeyDown = (e: KeyboardEvent) => { if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return; const isMod = e.ctrlKey || e.metaKey; if (e.code === 'Space') { e.preventDefault(); togglePlay(); } else if (e.key === 'Backspace' || e.key === 'Delete') { handleDelete(selectedClipIds); } else if (isMod && e.key === 'z') { e.preventDefault(); if (e.shiftKey) handleRedo(); else handleUndo(); } }; window.addEventListener('keydown', handleGlobalKeyDown); return () => window.removeEventListener('keydown', handleGlobalKeyDown); }, [selectedClipIds, togglePlay]);
+  useEffect(() => { const handleGlobalKeyDown = (e: KeyboardEvent) => { if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return; const isMod = e.ctrlKey || e.metaKey; if (e.code === 'Space') { e.preventDefault(); togglePlay(); } else if (e.key === 'Backspace' || e.key === 'Delete') { handleDelete(selectedClipIds); } else if (isMod && e.key === 'z') { e.preventDefault(); if (e.shiftKey) handleRedo(); else handleUndo(); } else if (!isMod && e.key === 'm') { handleAddMarker(); } else if (isMod && e.key === 'c') { handleCopy(); } else if (isMod && e.key === 'x') { handleCut(); } else if (isMod && e.altKey && e.code === 'KeyV') { e.preventDefault(); handleOpenPasteAttributes(); } else if (isMod && e.key === 'v') { e.preventDefault(); handlePaste(); } }; window.addEventListener('keydown', handleGlobalKeyDown); return () => window.removeEventListener('keydown', handleGlobalKeyDown); }, [selectedClipIds, togglePlay]);
   const handleSeek = (time: number) => { setCurrentTime(Math.max(0, time)); setIsPlaying(false); }; const handleSelectClip = (id: string, e: React.MouseEvent) => { if (e.shiftKey) setSelectedClipIds(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]); else setSelectedClipIds([id]); }; const handleCanvasClick = () => setSelectedClipIds([]);
-  const updateClip = (id: string, updates: Partial<Clip>) => timelineStore.updateClip(id, updates); const handleUpdateClipTransform = (id: string, newTransform: NonNullable<Clip['transform']>) => updateClip(id, { transform: newTransform }); const handleUpdateTextContent = (id: string, text: string) => updateClip(id, { text }); const handleUpdateTextStyle = (updates: any) => primarySelectedClip && updateClip(primarySelectedClip.id, { textStyle: { ...primarySelectedClip.textStyle, ...updates } }); const handleClipSpeed = (id: string, speed: number) => updateClip(id, { speed }); const handleClipVolume = (id: string, volume: number) => updateClip(id, { volume });
+  const updateClip = (id: string, updates: Partial<Clip>) => timelineStore.updateClip(id, updates); const handleUpdateClipAnimation = (id: string, updates: Partial<Clip>, gesture?: string) => gesture ? timelineStore.duringGesture(`${id}:${gesture}`).updateClip(id, updates) : updateClip(id, updates); const handleUpdateTextContent = (id: string, text: string) => updateClip(id, { text }); const handleUpdateTextStyle = (updates: any) => primarySelectedClip && updateClip(primarySelectedClip.id, { textStyle: { ...primarySelectedClip.textStyle, ...updates } }); const handleClipSpeed = (id: string, speed: number) => { const clip = clips.find(c => c.id === id); updateClip(id, clip && hasSpeedRamp(clip) ? { ...clearSpeedRampUpdates(clip), speed } : { speed }); }; const handleClipVolume = (id: string, volume: number) => timelineStore.duringGesture(`${id}:volume`).updateClip(id, { volume });
   const handleClipResize = (id: string, newDuration: number, mode: 'start' | 'end', commit: boolean) => { if (commit) { timelineStore.updateClip(id, { duration: newDuration }); } }; const handleClipReorder = (id: string, newStartTime: number, targetTrackId: number, commit: boolean) => { if (commit) timelineStore.moveClip(id, newStartTime, targetTrackId); };
-  const handleAddTrack = (position: 'top' | 'bottom') => { setTracks(prev => { const newId = Math.max(...prev) + 1; return position === 'top' ? [...prev, newId] : [newId, ...prev]; }); };
+  const handleAddTrack = (position: 'top' | 'bottom', kind: TrackKind = 'video') => { timelineStore.addTrack(kind, position); };
+  const handleUpdateTrack = (id: number, updates: Partial<Omit<Track, 'id'>>, gesture?: string) => (gesture ? timelineStore.duringGesture(`track-${id}:${gesture}`) : timelineStore).updateTrack(id, updates);
+  const handleClipFade = (id: string, fades: { fadeIn?: number, fadeOut?: number }, gesture?: string) => { try { TimelineOps.setClipFades(gesture ? timelineStore.duringGesture(`${id}:${gesture}`) : timelineStore, id, fades); } catch (e: any) { addToast(e.message || 'Fade failed', 'error'); } };
+  // Trim edits arrive a mousemove at a time, so each drag is one gesture
+  const handleTrimEdit = (edit: TrimEditRequest): number => {
+      const store = timelineStore.duringGesture(`${edit.clipId}:${edit.tool}`);
+      try {
+          switch (edit.tool) {
+              case 'ripple': return TimelineOps.rippleTrim(store, edit.clipId, edit.edge || 'end', edit.delta);
+              case 'roll': return edit.toClipId ? TimelineOps.rollEdit(store, edit.clipId, edit.toClipId, edit.delta) : 0;
+              case 'slip': return TimelineOps.slipEdit(store, edit.clipId, edit.delta);
+              case 'slide': return TimelineOps.slideEdit(store, edit.clipId, edit.delta);
+          }
+      } catch (e: any) {
+          console.warn("Trim edit refused", e);
+          return 0;
+      }
+  };
+
+  // --- LINKED AUDIO ---
+  const handleDetachAudio = (clip: Clip) => {
+      try {
+          const audio = TimelineOps.detachAudio(timelineStore, clip.id);
+          if (audio) addToast(`Audio detached to "${audio.title}"`, "success");
+      } catch (e: any) {
+          addToast(e.message || "Could not detach audio", "error");
+      }
+  };
+
+  const handleToggleLink = (clip: Clip) => {
+      try {
+          TimelineOps.setLinked(timelineStore, clip.id, !!clip.linkBroken);
+      } catch (e: any) {
+          addToast(e.message || "Could not change the link", "error");
+      }
+  };
+
+  // --- SPEED ---
+  const handleSpeedRamp = (clip: Clip, preset: SpeedRampPreset) => {
+      try {
+          TimelineOps.setSpeedRamp(timelineStore, clip.id, presetRampPoints(clip, preset));
+      } catch (e: any) {
+          addToast(e.message || "Could not apply speed ramp", "error");
+      }
+  };
+
+  const handleReverseClip = (clip: Clip) => {
+      try {
+          TimelineOps.reverseClip(timelineStore, clip.id);
+      } catch (e: any) {
+          addToast(e.message || "Could not reverse clip", "error");
+      }
+  };
+
+  // Holds the frame under the playhead as a still, pushing the rest of the clip later
+  const handleFreezeFrame = async (clip: Clip) => {
+      if (!clip.sourceUrl) return;
+      const time = currentTimeRef.current;
+      try {
+          const imageUrl = await captureFrameFromVideoUrl(clip.sourceUrl, getClipSourceTime(clip, time));
+          const still = TimelineOps.insertFreezeFrame(timelineStore, clip.id, time, imageUrl);
+          if (still) addToast(`Freeze frame added (${still.duration}s)`, "success");
+      } catch (e: any) {
+          addToast(e.message || "Could not create freeze frame", "error");
+      }
+  };
+
+  // --- DUCKING ---
+  const hasMusic = clips.some(c => getAudioRole(c) === 'music');
+  const handleAutoDuck = async () => {
+      setIsDucking(true);
+      try {
+          const speech = await findSpeechSpans(timelineStore.getClips(), timelineStore.getTracks());
+          if (speech.length === 0) { addToast("No voiceover or dialogue found to duck under", "info"); return; }
+          const ducked = TimelineOps.duckMusic(timelineStore, speech, duckingOptions);
+          if (ducked.length === 0) { addToast("No unlocked music plays during the speech", "info"); return; }
+          addToast(`Ducked ${ducked.length} music clip${ducked.length === 1 ? '' : 's'} under ${speech.length} speech span${speech.length === 1 ? '' : 's'}`, "success");
+          setShowDuckingMenu(false);
+      } catch (e: any) {
+          addToast(e.message || "Ducking failed", "error");
+      } finally {
+          setIsDucking(false);
+      }
+  };
+
+  // --- MONTAGE ---
+  // Cuts the selected footage (or every project video and image) to the selected music
+  const montageMusic = clips.find(c => selectedClipIds.includes(c.id) && isBeatSource(c) && getAudioRole(c) === 'music');
+  const footageClips = clips.filter(c => selectedClipIds.includes(c.id) && (c.type === 'video' || c.type === 'image'));
+  const handleBuildMontage = async () => {
+      if (!montageMusic) return;
+      const footage = footageClips.length > 0 ? { clips: footageClips } : { items: workspaceFiles.filter(f => f.type !== 'audio') };
+      if (!footage.clips && footage.items!.length === 0) { addToast("Select footage clips or add videos to Files first", "info"); return; }
+      setIsBuildingMontage(true);
+      try {
+          const { clips: added, muted, stillAudible } = await smartEdit.buildMontage(montageMusic, footage, montageOptions, montageHighlight.trim() || undefined);
+          addToast(`Built a ${added.length}-shot montage to "${montageMusic.title}"${muted.length > 0 ? `, muting ${muted.length} footage clip${muted.length === 1 ? '' : 's'}` : ''}`, "success");
+          if (stillAudible.length > 0) addToast(`${stillAudible.length} footage clip${stillAudible.length === 1 ? ' is' : 's are'} on a locked track and still play under the montage`, "info");
+          setShowMontageMenu(false);
+      } catch (e: any) {
+          addToast(e.message || "Montage failed", "error");
+      } finally {
+          setIsBuildingMontage(false);
+      }
+  };
+
+  // --- SCENES ---
+  const [isDetectingScenes, setIsDetectingScenes] = useState(false);
+  const handleSplitAtScenes = async () => {
+      if (primarySelectedClip?.type !== 'video') { addToast("Select a video clip to split at its scene changes", "info"); return; }
+      setIsDetectingScenes(true);
+      try {
+          const { cuts, clips: shots } = await smartEdit.splitAtScenes(primarySelectedClip);
+          addToast(cuts.length > 0 ? `Split "${primarySelectedClip.title}" into ${shots.length} shots` : `No scene changes found in "${primarySelectedClip.title}"`, cuts.length > 0 ? "success" : "info");
+      } catch (e: any) {
+          addToast(e.message || "Scene detection failed", "error");
+      } finally {
+          setIsDetectingScenes(false);
+      }
+  };
+
+  // --- SILENCES ---
+  // Jump cuts: silences found in the selected clip are previewed on the timeline before they're cut
+  const [showSilenceMenu, setShowSilenceMenu] = useState(false);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceOptions>(DEFAULT_SILENCE);
+  const [silencePreview, setSilencePreview] = useState<{ clipId: string, spans: TimeSpan[] } | null>(null);
+  const [isFindingSilences, setIsFindingSilences] = useState(false);
+  useEffect(() => { setSilencePreview(null); }, [clips, silenceOptions, primarySelectedClip?.id]);
+
+  const handlePreviewSilences = async (clip: Clip) => {
+      setIsFindingSilences(true);
+      try {
+          const spans = await detectSilences(clip, silenceOptions);
+          setSilencePreview({ clipId: clip.id, spans });
+          if (spans.length === 0) addToast(`No silences found in "${clip.title}"`, "info");
+      } catch (e: any) {
+          addToast(e.message || "Silence detection failed", "error");
+      } finally {
+          setIsFindingSilences(false);
+      }
+  };
+
+  const handleRemoveSilences = async (clip: Clip) => {
+      setIsFindingSilences(true);
+      try {
+          const spans = silencePreview?.clipId === clip.id ? silencePreview.spans : await detectSilences(clip, silenceOptions);
+          if (spans.length === 0) { addToast(`No silences found in "${clip.title}"`, "info"); return; }
+          const removed = TimelineOps.cutSpans(timelineStore, clip.id, spans, `Remove silences from ${clip.title}`);
+          addToast(`Removed ${spans.length} silence${spans.length === 1 ? '' : 's'} (${removed.toFixed(1)}s) from "${clip.title}"`, "success");
+          setSilencePreview(null);
+          setShowSilenceMenu(false);
+      } catch (e: any) {
+          addToast(e.message || "Removing silences failed", "error");
+      } finally {
+          setIsFindingSilences(false);
+      }
+  };
+
+  // --- TRANSCRIPT ---
+  // Rough cut by text: each transcribed clip with sound is a paragraph; editing the words edits the clips
+  const [transcriptOpen, setTranscriptOpen] = useState(false);
+  const [transcripts, setTranscripts] = useState<TranscriptMap>({});
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const paragraphs = useMemo(() => timelineTranscript(clips, transcripts), [clips, transcripts]);
+  const selectedSpeech = clips.filter(c => selectedClipIds.includes(c.id) && hasOwnAudio(c) && c.sourceUrl);
+  const transcribeTargets = (selectedSpeech.length > 0 ? selectedSpeech : clips.filter(c => hasOwnAudio(c) && c.sourceUrl && getAudioRole(c) === 'dialogue'))
+      .map(c => c.sourceUrl!).filter((url, i, urls) => urls.indexOf(url) === i && !transcripts[url]);
+
+  const handleTranscribe = async () => {
+      if (!await checkApiKey()) { addToast("API Key required for transcription.", "error"); return; }
+      setIsTranscribing(true);
+      // Only finished transcripts are kept; a source that failed stays a target so it can be retried
+      let sentences = 0;
+      const failures: string[] = [];
+      for (const url of transcribeTargets) {
+          try {
+              const transcript = await transcribeSource(url);
+              sentences += transcript.length;
+              setTranscripts(prev => ({ ...prev, [url]: transcript }));
+          } catch (e: any) {
+              failures.push(e.message || "Transcription failed");
+          }
+      }
+      setIsTranscribing(false);
+      if (failures.length > 0) addToast(`${failures.length} source${failures.length === 1 ? '' : 's'} could not be transcribed: ${failures[0]}`, "error");
+      else addToast(sentences > 0 ? `Transcribed ${sentences} sentence${sentences === 1 ? '' : 's'}` : "No speech found to transcribe", sentences > 0 ? "success" : "info");
+  };
+
+  const handleDeleteWords = (selection: { clipId: string, indices: number[] }[]) => {
+      const count = selection.reduce((sum, s) => sum + s.indices.length, 0);
+      try {
+          // Latest first, so each ripple leaves the earlier cuts where they were
+          const edits = selection
+              .map(s => ({ paragraph: paragraphs.find(p => p.clip.id === s.clipId)!, indices: s.indices }))
+              .filter(e => e.paragraph)
+              .sort((a, b) => b.paragraph.clip.startTime - a.paragraph.clip.startTime);
+          timelineStore.batch(() => edits.forEach(({ paragraph, indices }) => TimelineOps.cutSpans(timelineStore, paragraph.clip.id, wordCutSpans(paragraph, indices))), `Delete ${count} word${count === 1 ? '' : 's'}`);
+      } catch (e: any) {
+          addToast(e.message || "Could not delete the words", "error");
+      }
+  };
+
+  const handleCleanUpSpeech = (issues: SpeechIssue[], fade: number) => {
+      try {
+          let removed = 0;
+          timelineStore.batch(() => speechCuts(paragraphs, issues).forEach(({ clipId, spans }) => {
+              removed += TimelineOps.cutSpans(timelineStore, clipId, spans, undefined, fade);
+          }), `Clean up ${issues.length} speech issue${issues.length === 1 ? '' : 's'}`);
+          addToast(`Cleaned up ${issues.length} spot${issues.length === 1 ? '' : 's'} of speech (${removed.toFixed(1)}s cut)`, "success");
+      } catch (e: any) {
+          addToast(e.message || "Could not clean up the speech", "error");
+      }
+  };
+
+  const handleSplitParagraph = (clipId: string, time: number) => {
+      try {
+          TimelineOps.splitClip(timelineStore, clipId, time);
+      } catch (e: any) {
+          addToast(e.message || "Could not split the paragraph", "error");
+      }
+  };
+
+  const handleReorderParagraphs = (clipIds: string[]) => {
+      try {
+          TimelineOps.reorderClips(timelineStore, clipIds, 'Reorder paragraphs');
+      } catch (e: any) {
+          addToast(e.message || "Could not reorder the paragraphs", "error");
+      }
+  };
+
+  // --- LOUDNESS ---
+  // A measured mix goes stale with any edit; clip measurements are cached by what they depend on
+  useEffect(() => { setMixLoudness(null); }, [clips, transitions, tracks, sequences]);
+  const soundingClips = clips.filter(hasOwnAudio);
+  const levelIds = selectedClipIds.length > 0 ? selectedClipIds : soundingClips.filter(c => getAudioRole(c) === 'dialogue').map(c => c.id);
+
+  const measureLoudness = async (): Promise<LoudnessReport | null> => {
+      const current = timelineStore.getClips();
+      for (const clip of current.filter(hasOwnAudio)) await analyzeClipLoudness(clip);
+      const mix = await analyzeMixLoudness([...current, ...flattenCompoundClips(current, timelineStore.getSequences())], timelineStore.getTransitions(), timelineStore.getTracks(), audioMixer.getMaster());
+      setMixLoudness(mix);
+      return mix;
+  };
+
+  const handleAnalyzeLoudness = async () => {
+      setIsMeasuringLoudness(true);
+      try {
+          await measureLoudness();
+      } catch (e: any) {
+          addToast(e.message || "Loudness analysis failed", "error");
+      } finally {
+          setIsMeasuringLoudness(false);
+      }
+  };
+
+  const handleNormalizeLoudness = async (scope: 'mix' | 'clips') => {
+      const target = LOUDNESS_TARGETS[loudnessTarget];
+      setIsMeasuringLoudness(true);
+      try {
+          let gains: Record<string, number>;
+          if (scope === 'mix') {
+              const result = await mixNormalizationGains(timelineStore.getClips(), timelineStore.getTransitions(), timelineStore.getTracks(), timelineStore.getSequences(), target.integrated);
+              if (!result) { addToast("The mix is silent; nothing to normalize", "info"); return; }
+              gains = result.gains;
+          } else {
+              gains = await clipNormalizationGains(timelineStore.getClips().filter(c => levelIds.includes(c.id)), target.integrated);
+          }
+          const changed = TimelineOps.applyClipGains(timelineStore, gains, scope === 'mix' ? `Normalize mix to ${target.label}` : `Level clips to ${target.label}`);
+          audioMixer.setMaster({ limiter: true, ceilingDb: target.truePeak });
+          // Gains are capped and locked tracks skipped, so report the level measured afterwards
+          const mix = await measureLoudness();
+          if (scope === 'mix') {
+              const reached = mix ? mix.integrated : -Infinity;
+              if (isOnTarget(reached, target)) addToast(`Mix normalized to ${formatLoudness(reached)} (${changed.length} clip${changed.length === 1 ? '' : 's'})`, "success");
+              else addToast(`Mix reached ${formatLoudness(reached)}, short of ${target.integrated} LUFS: limited by the volume cap or locked tracks`, "info");
+          } else {
+              const leveled = timelineStore.getClips().filter(c => gains[c.id] !== undefined);
+              const missed = leveled.filter(c => { const reached = estimateClipLoudness(c); return reached && !isOnTarget(reached.integrated, target); });
+              if (missed.length === 0) addToast(`Clips leveled to ${target.integrated} LUFS (${changed.length} clip${changed.length === 1 ? '' : 's'})`, "success");
+              else addToast(`${leveled.length - missed.length} of ${leveled.length} clips leveled to ${target.integrated} LUFS; ${missed.map(c => `"${c.title}"`).join(', ')} couldn't reach it (volume cap or locked track)`, "info");
+          }
+      } catch (e: any) {
+          addToast(e.message || "Normalization failed", "error");
+      } finally {
+          setIsMeasuringLoudness(false);
+      }
+  };
+
+  // --- CLIPBOARD ---
+  const handleCopy = () => {
+      const contents = copyClips(timelineStore.getClips(), timelineStore.getTransitions(), selectedClipIds);
+      if (!contents) return;
+      clipboard.set(contents);
+      setHasClipboard(true);
+      addToast(`Copied ${contents.clips.length} clip${contents.clips.length === 1 ? '' : 's'}`, "info");
+  };
+
+  const handleCut = () => {
+      try {
+          const contents = TimelineOps.cutClips(timelineStore, selectedClipIds);
+          if (!contents) return;
+          clipboard.set(contents);
+          setHasClipboard(true);
+          setSelectedClipIds([]);
+      } catch (e: any) {
+          addToast(e.message || "Could not cut clips", "error");
+      }
+  };
+
+  // At the playhead, onto the selected clip's track if there is one
+  const handlePaste = () => {
+      const contents = clipboard.get();
+      if (!contents) return;
+      try {
+          const pasted = TimelineOps.pasteClips(timelineStore, contents, currentTimeRef.current, primarySelectedClip?.trackId);
+          if (pasted.length > 0) setSelectedClipIds(pasted.map(c => c.id));
+      } catch (e: any) {
+          addToast(e.message || "Could not paste clips", "error");
+      }
+  };
+
+  const handleOpenPasteAttributes = () => {
+      const contents = clipboard.get();
+      if (!contents || selectedClipIds.length === 0) return;
+      setPasteAttributesSource(contents.clips[0]);
+  };
+
+  const handlePasteAttributes = (groups: AttributeGroup[]) => {
+      if (!pasteAttributesSource) return;
+      try {
+          const changed = TimelineOps.pasteAttributes(timelineStore, pasteAttributesSource, selectedClipIds, groups);
+          if (changed.length === 0) addToast("None of those attributes apply to the selected clips", "info");
+      } catch (e: any) {
+          addToast(e.message || "Could not paste attributes", "error");
+      }
+      setPasteAttributesSource(null);
+  };
+
+  // --- COMPOUND CLIPS ---
+  // Playhead positions to return to, one per open sequence level
+  const sequenceReturnTimesRef = useRef<number[]>([]);
+
+  const handleCreateCompound = () => {
+      if (selectedClipIds.length < 2) return;
+      const compound = timelineStore.createCompoundClip(selectedClipIds, `Compound ${timelineStore.getSequences().length + 1}`);
+      if (compound) {
+          setSelectedClipIds([compound.id]);
+          addToast(`Created ${compound.title}`, "success");
+      }
+  };
+
+  // Opens the compound clip's sequence with the playhead on the matching inner time
+  const handleOpenCompound = (clip: Clip) => {
+      if (!clip.sequenceId) return;
+      setIsPlaying(false);
+      setSelectedClipIds([]);
+      sequenceReturnTimesRef.current.push(currentTime);
+      const offset = Math.min(Math.max(0, currentTime - clip.startTime), clip.duration);
+      timelineStore.openSequence(clip.sequenceId);
+      setCurrentTime(getClipSourceTime(clip, clip.startTime + offset));
+  };
+
+  const handleCloseSequence = () => {
+      setIsPlaying(false);
+      setSelectedClipIds([]);
+      timelineStore.closeSequence();
+      setCurrentTime(sequenceReturnTimesRef.current.pop() ?? 0);
+  };
+
+  // --- MARKERS ---
+  const handleAddMarker = () => timelineStore.addMarker(createMarker(currentTimeRef.current, timelineStore.getMarkers()));
+
+  // Chapters describe what gets exported: the root timeline, even while a compound clip is open
+  const handleExportChapters = (format: 'youtube' | 'webvtt') => {
+      const root = timelineStore.getRootTimeline();
+      const duration = root.clips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0);
+      const chapters = getChapters(root.markers, duration);
+      if (chapters.length === 0) {
+          addToast("No markers inside the timeline to export as chapters", "error");
+          return;
+      }
+      if (format === 'webvtt') {
+          downloadBlob(new Blob([toWebVttChapters(chapters)], { type: 'text/vtt' }), `cutpilot-chapters-${Date.now()}.vtt`);
+          addToast(`Exported ${chapters.length} chapters`, "success");
+          return;
+      }
+      downloadBlob(new Blob([toYouTubeChapters(chapters)], { type: 'text/plain' }), `cutpilot-chapters-${Date.now()}.txt`);
+      const problems = checkYouTubeChapters(chapters);
+      if (problems.length > 0) addToast(`Exported ${chapters.length} chapters. ${problems.join(' ')}`, "info");
+      else addToast(`Exported ${chapters.length} chapters`, "success");
+  };
+
   const handleRangeSelected = () => { setRangeModalOpen(true); }; const handleSplitClip = () => { if (primarySelectedClip) { timelineStore.splitClip(primarySelectedClip.id, currentTime); } };
   const handleRangeConfirm = (range: { start: number, end: number }) => { setLiveScopeRange(range); setRangeModalOpen(false); }; const handleCaptureFrame = async (target: 'start' | 'end') => { const frame = await captureCurrentFrame(); if (frame) { if (target === 'start') setVeoStartImg(frame); else setVeoEndImg(frame); } }; const handleVeoReferenceUpload = (target: 'start' | 'end') => { setUploadTarget(target); referenceImageInputRef.current?.click(); }; const handleReferenceImageFileChange = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (file) { const reader = new FileReader(); reader.onload = () => { const b64 = reader.result as string; if (uploadTarget === 'start') setVeoStartImg(b64); else setVeoEndImg(b64); }; reader.readAsDataURL(file); } e.target.value = ''; };
 
@@ -973,8 +1556,10 @@ export default function App() {
       )}
 
       <GenerationApprovalModal isOpen={!!pendingApproval} onClose={() => { setPendingApproval(null); setIsProcessing(false); }} onConfirm={handleApprovalConfirm} request={pendingApproval} />
-      <RangeEditorModal isOpen={rangeModalOpen} onClose={() => { setRangeModalOpen(false); setIsSelectingScope(false); }} onConfirm={handleRangeConfirm} initialRange={liveScopeRange || { start: 0, end: 5 }} clips={clips} mediaRefs={mediaRefs} />
+      <RestoreSessionModal session={restorableSession} onRestore={handleRestoreSession} onDiscard={handleDiscardSession} />
+      <RangeEditorModal isOpen={rangeModalOpen} onClose={() => { setRangeModalOpen(false); setIsSelectingScope(false); }} onConfirm={handleRangeConfirm} initialRange={liveScopeRange || { start: 0, end: 5 }} clips={clips} transitions={transitions} mediaRefs={mediaRefs} />
       <ShortcutsModal isOpen={showShortcuts} onClose={() => setShowShortcuts(false)} />
+      <PasteAttributesModal source={pasteAttributesSource} targetCount={selectedClipIds.length} onApply={handlePasteAttributes} onClose={() => setPasteAttributesSource(null)} />
       <ToastContainer toasts={toasts} removeToast={removeToast} />
       
       <TransitionGeneratorModal
@@ -1117,7 +1702,7 @@ export default function App() {
                                         </div>
                                         <textarea value={genPrompt} onChange={(e) => setGenPrompt(e.target.value)} placeholder={genTab === 'audio' ? "Enter text..." : "Describe what you want to generate..."} className="w-full h-24 bg-neutral-900 border border-neutral-700 rounded-xl p-3 text-sm focus:outline-none focus:border-purple-500 focus:ring-1 focus:ring-purple-500 resize-none transition-all" autoFocus />
                                     </div>
-                                    {genTab === 'video' && (<div className="space-y-4 pt-2 border-t border-neutral-800"><div className="flex items-center justify-between mb-2"><span className="text-sm font-medium text-neutral-300">Reference Images</span><span className={`text-xs font-medium px-2 py-0.5 rounded-full bg-neutral-800 border border-neutral-700 ${veoModeColor}`}>{veoModeLabel}</span></div><div className="grid grid-cols-2 gap-4"><div className="space-y-2"><div className="flex items-center justify-between"><label className="text-xs font-medium text-neutral-500">Start Frame (Optional)</label>{veoStartImg && <button onClick={() => setVeoStartImg(null)} className="text-xs text-red-400 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>}</div><div className="relative aspect-video bg-neutral-900 border border-neutral-700 rounded-lg overflow-hidden group hover:border-blue-500/50 transition-colors">{veoStartImg ? (<img src={veoStartImg} className="w-full h-full object-cover" alt="Start Frame" />) : (<div className="absolute inset-0 flex flex-col items-center justify-center gap-2"><button onClick={() => handleCaptureFrame('start')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Camera className="w-3 h-3" /> Timeline</button><button onClick={() => handleVeoReferenceUpload('start')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Upload className="w-3 h-3" /> Upload</button></div>)}</div><p className="text-[10px] text-neutral-600">Tip: Position playhead to capture specific timeline frame.</p></div><div className="space-y-2"><div className="flex items-center justify-between"><label className={`text-xs font-medium ${!veoStartImg ? 'text-neutral-700' : 'text-neutral-500'}`}>End Frame (Requires Start Frame)</label>{veoEndImg && <button onClick={() => setVeoEndImg(null)} className="text-xs text-red-400 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>}</div><div className={`relative aspect-video bg-neutral-900 border rounded-lg overflow-hidden group transition-colors ${!veoStartImg ? 'border-neutral-800 opacity-50 pointer-events-none' : 'border-neutral-700 hover:border-purple-500/50'}`}>{veoEndImg ? (<img src={veoEndImg} className="w-full h-full object-cover" alt="End Frame" />) : (<div className="absolute inset-0 flex flex-col items-center justify-center gap-2"><button onClick={() => handleCaptureFrame('end')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Camera className="w-3 h-3" /> Timeline</button><button onClick={() => handleVeoReferenceUpload('end')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Upload className="w-3 h-3" /> Upload</button></div>)}</div></div></div></div>)}{genTab === 'image' && (<div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium text-neutral-500 mb-1">Model</label><select value={imgModel} onChange={(e) => setImgModel(e.target.value as any)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="gemini-2.5-flash-image">Fast (Flash)</option><option value="gemini-3-pro-image-preview">High Quality (Pro)</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Aspect Ratio</label><select value={imgAspect} onChange={(e) => setImgAspect(e.target.value)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="16:9">16:9 (Landscape)</option><option value="9:16">9:16 (Portrait)</option><option value="1:1">1:1 (Square)</option></select></div></div>)}{genTab === 'video' && (<div className="grid grid-cols-2 gap-4"><div className="col-span-2 grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium text-neutral-500 mb-1">Model</label><select value={vidModel} onChange={(e) => setVidModel(e.target.value as any)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="veo-3.1-fast-generate-preview">Veo 3.1 Fast</option><option value="veo-3.1-generate-preview">Veo 3.1 Quality</option><option value="veo-3.0-fast-generate-preview">Veo 3 Fast</option><option value="veo-3.0-generate-preview">Veo 3 Quality</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Resolution</label><select value={vidResolution} onChange={(e) => setVidResolution(e.target.value as any)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="720p">720p</option><option value="1080p">1080p (8s only)</option><option value="4k">4k (8s only)</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Duration</label><select value={vidDuration} onChange={(e) => setVidDuration(e.target.value as any)} disabled={vidResolution === '1080p' || vidResolution === '4k' || !!veoStartImg || !!veoEndImg} className={`w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500 ${vidResolution === '1080p' || vidResolution === '4k' || !!veoStartImg || !!veoEndImg ? 'opacity-50 cursor-not-allowed bg-neutral-800' : ''}`}><option value="4">4s</option><option value="8">8s</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Aspect Ratio</label><select value={vidAspect} onChange={(e) => setVidAspect(e.target.value)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="16:9">16:9 (Landscape)</option><option value="9:16">9:16 (Portrait)</option></select></div></div><div className="col-span-2 p-3 bg-blue-900/20 border border-blue-500/20 rounded-lg flex items-start gap-2"><Info className="w-4 h-4 text-blue-400 mt-0.5 shrink-0" /><span className="text-xs text-blue-300 leading-relaxed">Video generation takes 1-2 minutes. A paid billing project is required.<br/><strong>Note:</strong> 1080p, 4K, and Image-to-Video operations are locked to 8s duration.</span></div></div>)}{genTab === 'audio' && (<div><label className="block text-xs font-medium text-neutral-500 mb-1">Voice</label><div className="grid grid-cols-5 gap-2">{['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'].map(voice => (<button key={voice} onClick={() => setAudioVoice(voice)} className={`p-2 rounded border text-xs font-medium transition-all ${audioVoice === voice ? 'bg-purple-600 border-purple-500 text-white' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:border-neutral-600'}`}>{voice}</button>))}</div></div>)}<div className="flex justify-end pt-4"><button onClick={handleGenerate} disabled={isGenerating || (genTab !== 'video' && !genPrompt.trim()) || (genTab === 'video' && !genPrompt.trim() && !veoStartImg)} className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white px-8 py-3 rounded-lg font-medium text-sm transition-all disabled:opacity-50 shadow-lg shadow-purple-900/20 w-full justify-center">{isGenerating ? (<><Loader2 className="w-5 h-5 animate-spin" />{genTab === 'video' ? 'Generating Video...' : 'Generating...'}</>) : (<><Sparkles className="w-5 h-5" />Generate {genTab.charAt(0).toUpperCase() + genTab.slice(1)}</>)}</button></div></div></div></div>)}</div></div>)}
+                                    {genTab === 'video' && (<div className="space-y-4 pt-2 border-t border-neutral-800"><div className="flex items-center justify-between mb-2"><span className="text-sm font-medium text-neutral-300">Reference Images</span><span className={`text-xs font-medium px-2 py-0.5 rounded-full bg-neutral-800 border border-neutral-700 ${veoModeColor}`}>{veoModeLabel}</span></div><div className="grid grid-cols-2 gap-4"><div className="space-y-2"><div className="flex items-center justify-between"><label className="text-xs font-medium text-neutral-500">Start Frame (Optional)</label>{veoStartImg && <button onClick={() => setVeoStartImg(null)} className="text-xs text-red-400 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>}</div><div className="relative aspect-video bg-neutral-900 border border-neutral-700 rounded-lg overflow-hidden group hover:border-blue-500/50 transition-colors">{veoStartImg ? (<img src={veoStartImg} className="w-full h-full object-cover" alt="Start Frame" />) : (<div className="absolute inset-0 flex flex-col items-center justify-center gap-2"><button onClick={() => handleCaptureFrame('start')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Camera className="w-3 h-3" /> Timeline</button><button onClick={() => handleVeoReferenceUpload('start')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Upload className="w-3 h-3" /> Upload</button></div>)}</div><p className="text-[10px] text-neutral-600">Tip: Position playhead to capture specific timeline frame.</p></div><div className="space-y-2"><div className="flex items-center justify-between"><label className={`text-xs font-medium ${!veoStartImg ? 'text-neutral-700' : 'text-neutral-500'}`}>End Frame (Requires Start Frame)</label>{veoEndImg && <button onClick={() => setVeoEndImg(null)} className="text-xs text-red-400 hover:text-red-300"><Trash2 className="w-3 h-3" /></button>}</div><div className={`relative aspect-video bg-neutral-900 border rounded-lg overflow-hidden group transition-colors ${!veoStartImg ? 'border-neutral-800 opacity-50 pointer-events-none' : 'border-neutral-700 hover:border-purple-500/50'}`}>{veoEndImg ? (<img src={veoEndImg} className="w-full h-full object-cover" alt="End Frame" />) : (<div className="absolute inset-0 flex flex-col items-center justify-center gap-2"><button onClick={() => handleCaptureFrame('end')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Camera className="w-3 h-3" /> Timeline</button><button onClick={() => handleVeoReferenceUpload('end')} className="flex items-center gap-1.5 px-3 py-1.5 bg-neutral-800 hover:bg-neutral-700 rounded text-xs text-neutral-300 transition-colors"><Upload className="w-3 h-3" /> Upload</button></div>)}</div></div></div></div>)}{genTab === 'image' && (<div className="grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium text-neutral-500 mb-1">Model</label><select value={imgModel} onChange={(e) => setImgModel(e.target.value as any)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="gemini-2.5-flash-image">Fast (Flash)</option><option value="gemini-3-pro-image-preview">High Quality (Pro)</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Aspect Ratio</label><select value={imgAspect} onChange={(e) => setImgAspect(e.target.value)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="16:9">16:9 (Landscape)</option><option value="9:16">9:16 (Portrait)</option><option value="1:1">1:1 (Square)</option></select></div></div>)}{genTab === 'video' && (<div className="grid grid-cols-2 gap-4"><div className="col-span-2 grid grid-cols-2 gap-4"><div><label className="block text-xs font-medium text-neutral-500 mb-1">Model</label><select value={vidModel} onChange={(e) => setVidModel(e.target.value as any)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="veo-3.1-fast-generate-preview">Veo 3.1 Fast</option><option value="veo-3.1-generate-preview">Veo 3.1 Quality</option><option value="veo-3.0-fast-generate-preview">Veo 3 Fast</option><option value="veo-3.0-generate-preview">Veo 3 Quality</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Resolution</label><select value={vidResolution} onChange={(e) => setVidResolution(e.target.value as any)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="720p">720p</option><option value="1080p">1080p (8s only)</option><option value="4k">4k (8s only)</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Duration</label><select value={vidDuration} onChange={(e) => setVidDuration(e.target.value as any)} disabled={vidResolution === '1080p' || vidResolution === '4k' || !!veoStartImg || !!veoEndImg} className={`w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500 ${vidResolution === '1080p' || vidResolution === '4k' || !!veoStartImg || !!veoEndImg ? 'opacity-50 cursor-not-allowed bg-neutral-800' : ''}`}><option value="4">4s</option><option value="8">8s</option></select></div><div><label className="block text-xs font-medium text-neutral-500 mb-1">Aspect Ratio</label><select value={vidAspect} onChange={(e) => setVidAspect(e.target.value)} className="w-full bg-neutral-900 border border-neutral-700 rounded-lg p-2 text-sm focus:outline-none focus:border-purple-500"><option value="16:9">16:9 (Landscape)</option><option value="9:16">9:16 (Portrait)</option></select></div></div><div className="col-span-2 p-3 bg-blue-900/20 border border-blue-500/20 rounded-lg flex items-start gap-2"><Info className="w-4 h-4 text-blue-400 mt-0.5 shrink-0" /><span className="text-xs text-blue-300 leading-relaxed">Video generation takes 1-2 minutes. A paid billing project is required.<br/><strong>Note:</strong> 1080p, 4K, and Image-to-Video operations are locked to 8s duration.</span></div></div>)}{genTab === 'audio' && (<div><label className="block text-xs font-medium text-neutral-500 mb-1">Voice</label><div className="grid grid-cols-5 gap-2">{['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'].map(voice => (<button key={voice} onClick={() => setAudioVoice(voice)} className={`p-2 rounded border text-xs font-medium transition-all ${audioVoice === voice ? 'bg-purple-600 border-purple-500 text-white' : 'bg-neutral-800 border-neutral-700 text-neutral-400 hover:border-neutral-600'}`}>{voice}</button>))}</div></div>)}<div className="flex justify-end pt-4"><button onClick={handleGenerate} disabled={isGenerating || (genTab !== 'video' && !genPrompt.trim()) || (genTab === 'video' && !genPrompt.trim() && !veoStartImg)} className="flex items-center gap-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white px-8 py-3 rounded-lg font-medium text-sm transition-all disabled:opacity-50 shadow-lg shadow-purple-900/20 w-full justify-center">{isGenerating ? (<><Loader2 className="w-5 h-5 animate-spin" />{genTab === 'video' ? 'Generating Video...' : 'Generating...'}</>) : (<><Sparkles className="w-5 h-5" />Generate {genTab.charAt(0).toUpperCase() + genTab.slice(1)}</>)}</button></div></div>)}</div></div>)}</div></div>)}
 
       {/* HEADER omitted for brevity */}
       <header className="h-14 border-b border-neutral-800 flex items-center px-4 justify-between bg-neutral-900/50 backdrop-blur-sm z-10 relative z-[100]">
@@ -1146,18 +1731,44 @@ export default function App() {
             Files ({workspaceFiles.length})
           </button>
 
+          <button 
+            onClick={() => setTranscriptOpen(!transcriptOpen)}
+            className={`flex items-center gap-2 text-xs font-medium px-3 py-1.5 rounded-lg border transition-all ${transcriptOpen ? 'bg-neutral-800 border-neutral-600 text-white' : 'bg-transparent border-transparent text-neutral-400 hover:bg-neutral-800'}`}
+          >
+            <FileText className="w-4 h-4" /> 
+            Transcript
+          </button>
+
           <div className="flex items-center gap-2">
               <button onClick={checkApiKey} className="p-1.5 rounded-md border border-transparent text-neutral-500 hover:text-neutral-300 hover:bg-neutral-800 transition-all" title="Select API Key"><Key size={16} /></button>
               <button onClick={() => setShowSafeZones(!showSafeZones)} className={`p-1.5 rounded-md border transition-all ${showSafeZones ? 'bg-neutral-800 border-neutral-600 text-white' : 'bg-transparent border-transparent text-neutral-500 hover:text-neutral-300'}`} title="Toggle Safe Zones"><Grid3X3 size={16} /></button>
               <button onClick={() => setShowShortcuts(true)} className="p-1.5 rounded-md border border-transparent text-neutral-500 hover:text-neutral-300 hover:bg-neutral-800 transition-all" title="Shortcuts Help (?)"><HelpCircle size={16} /></button>
           </div>
 
-          <div className="flex items-center bg-neutral-800 rounded-lg p-0.5 border border-neutral-700 mr-2">
+          <div className="relative flex items-center bg-neutral-800 rounded-lg p-0.5 border border-neutral-700">
+            <label className="p-1.5 hover:bg-neutral-700 rounded-md text-neutral-400 hover:text-white transition-colors cursor-pointer" title="Open Project"><FolderInput className="w-4 h-4" /><input type="file" accept={`${PROJECT_EXTENSION},video/*,audio/*,image/*`} multiple className="hidden" onChange={handleOpenProject} /></label>
+            <div className="w-px h-4 bg-neutral-700 mx-0.5" />
+            <button onClick={() => setShowSaveMenu(!showSaveMenu)} disabled={isSavingProject} className="p-1.5 hover:bg-neutral-700 rounded-md text-neutral-400 hover:text-white disabled:opacity-30 transition-colors" title="Save Project">{isSavingProject ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}</button>
+            {showSaveMenu && (
+                <div className="absolute top-full mt-2 right-0 w-60 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-1 z-50">
+                    <button onClick={() => handleSaveProject('embedded')} className="w-full text-left px-3 py-2 rounded-md hover:bg-neutral-700 transition-colors"><div className="text-xs text-white font-medium">Save with media</div><div className="text-[10px] text-neutral-500">Single {PROJECT_EXTENSION} file, ready to hand off</div></button>
+                    <button onClick={() => handleSaveProject('referenced')} className="w-full text-left px-3 py-2 rounded-md hover:bg-neutral-700 transition-colors"><div className="text-xs text-white font-medium">Save project only</div><div className="text-[10px] text-neutral-500">Media referenced by content hash</div></button>
+                </div>
+            )}
+          </div>
+
+          <div className="relative flex items-center bg-neutral-800 rounded-lg p-0.5 border border-neutral-700 mr-2">
             <button onClick={handleUndo} disabled={!canUndo} className="p-1.5 hover:bg-neutral-700 rounded-md text-neutral-400 hover:text-white disabled:opacity-30 transition-colors"><RotateCcw className="w-4 h-4" /></button>
             <div className="w-px h-4 bg-neutral-700 mx-0.5" />
             <button onClick={handleRedo} disabled={!canRedo} className="p-1.5 hover:bg-neutral-700 rounded-md text-neutral-400 hover:text-white disabled:opacity-30 transition-colors"><RotateCw className="w-4 h-4" /></button>
+            <div className="w-px h-4 bg-neutral-700 mx-0.5" />
+            <button onClick={() => { setShowHistory(!showHistory); setShowLoudness(false); }} className={`p-1.5 hover:bg-neutral-700 rounded-md transition-colors ${showHistory ? 'text-white bg-neutral-700' : 'text-neutral-400 hover:text-white'}`} title="History"><History className="w-4 h-4" /></button>
+            <HistoryPanel isOpen={showHistory} onClose={() => setShowHistory(false)} entries={history.entries} cursor={history.cursor} onJump={(index) => timelineStore.jumpTo(index)} />
+            <div className="w-px h-4 bg-neutral-700 mx-0.5" />
+            <button onClick={() => { setShowLoudness(!showLoudness); setShowHistory(false); }} className={`p-1.5 hover:bg-neutral-700 rounded-md transition-colors ${showLoudness ? 'text-white bg-neutral-700' : 'text-neutral-400 hover:text-white'}`} title="Loudness"><Gauge className="w-4 h-4" /></button>
+            <LoudnessPanel isOpen={showLoudness} onClose={() => setShowLoudness(false)} target={loudnessTarget} onTargetChange={setLoudnessTarget} mix={mixLoudness} clips={soundingClips.map(clip => ({ clip, loudness: estimateClipLoudness(clip) }))} isBusy={isMeasuringLoudness} levelLabel={selectedClipIds.length > 0 ? 'selected' : 'dialogue'} onAnalyze={handleAnalyzeLoudness} onNormalizeMix={() => handleNormalizeLoudness('mix')} onLevelClips={() => handleNormalizeLoudness('clips')} />
           </div>
-           <button onClick={handleExport} disabled={isExporting} className="flex items-center gap-2 text-sm text-white bg-green-600 hover:bg-green-700 px-4 py-1.5 rounded-full shadow-lg transition-all disabled:opacity-50">{isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}<span>{isExporting ? `${exportProgress}%` : 'Export MP4'}</span></button>
+           <button onClick={handleExport} title={isExporting ? 'Cancel Export' : 'Export MP4'} className={`group flex items-center gap-2 text-sm text-white px-4 py-1.5 rounded-full shadow-lg transition-all ${isExporting ? 'bg-neutral-700 hover:bg-red-600' : 'bg-green-600 hover:bg-green-700'}`}>{isExporting ? <><Loader2 className="w-4 h-4 animate-spin group-hover:hidden" /><X className="w-4 h-4 hidden group-hover:block" /></> : <Download className="w-4 h-4" />}<span>{isExporting ? `${exportProgress}%` : 'Export MP4'}</span></button>
            <label className="flex items-center gap-2 text-sm text-white cursor-pointer transition-all bg-blue-600 hover:bg-blue-700 px-4 py-1.5 rounded-full shadow-lg hover:shadow-blue-500/20 active:scale-95 font-medium"><Upload className="w-4 h-4" /><span>Import Video</span><input type="file" accept="video/*" className="hidden" onChange={handleFileUpload} /></label>
         </div>
       </header>
@@ -1176,56 +1787,41 @@ export default function App() {
             onPick={handleAssetPickedForChat}
         />
 
+        <TranscriptPanel
+            isOpen={transcriptOpen}
+            onClose={() => setTranscriptOpen(false)}
+            paragraphs={paragraphs}
+            currentTime={currentTime}
+            transcribeLabel={transcribeTargets.length > 0 ? (selectedSpeech.length > 0 ? 'Transcribe selected' : 'Transcribe dialogue') : null}
+            isTranscribing={isTranscribing}
+            onTranscribe={handleTranscribe}
+            onSeek={handleSeek}
+            onDeleteWords={handleDeleteWords}
+            onSplitParagraph={handleSplitParagraph}
+            onReorder={handleReorderParagraphs}
+            onCleanUp={handleCleanUpSpeech}
+        />
+
         <div className="flex-1 flex flex-col min-w-0">
           <div className="flex-1 bg-neutral-950 flex flex-col">
               <div className="flex-1 relative flex items-center justify-center p-8 overflow-hidden" onClick={handleCanvasClick}>
                 <div ref={containerRef} className="relative w-full max-w-4xl aspect-video bg-neutral-900 rounded-xl overflow-hidden shadow-2xl ring-1 ring-white/10 group">
-                    {/* Render clips */}
+                    {/* Composited frame (same renderer as export) */}
+                    <canvas ref={canvasRef} width={PREVIEW_SIZE.width} height={PREVIEW_SIZE.height} className="absolute inset-0 w-full h-full pointer-events-none" />
+                    {/* Clip elements: invisible media hosts and click targets for the canvas above */}
                     {clips.map(clip => {
-                        // Check if this clip is involved in an active transition
-                        const activeTransition = transitions.find(t => 
-                            t.toClipId === clip.id && 
-                            currentTime >= t.startTime && 
-                            currentTime < t.startTime + t.duration
-                        );
-
-                        const isVisible = (currentTime >= clip.startTime && currentTime < clip.startTime + clip.duration) || activeTransition;
+                        const isVisible = currentTime >= clip.startTime && currentTime < clip.startTime + clip.duration;
                         const transform = clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 };
                         
-                        // If active transition, we need to ensure it's rendered even if technically 'before' start time (due to overlap logic)
-                        // Actually, our `add_transition` tool moves the clip start time, so `isVisible` check handles it naturally.
-                        
-                        const style: React.CSSProperties = { position: 'absolute', left: '50%', top: '50%', width: '100%', height: '100%', transform: `translate(-50%, -50%) translate(${transform.x * 100}%, ${transform.y * 100}%) scale(${transform.scale}) rotate(${transform.rotation}deg)`, objectFit: 'contain', cursor: isPlaying ? 'default' : 'pointer', zIndex: clip.trackId * 10, opacity: isVisible ? 1 : 0, pointerEvents: isVisible ? (isPlaying ? 'none' : 'auto') : 'none' };
+                        const style: React.CSSProperties = { position: 'absolute', left: '50%', top: '50%', width: '100%', height: '100%', transform: `translate(-50%, -50%) translate(${transform.x * 100}%, ${transform.y * 100}%) scale(${transform.scale}) rotate(${transform.rotation}deg)`, objectFit: 'contain', cursor: isPlaying ? 'default' : 'pointer', zIndex: getTrackOrder(tracks, clip.trackId) * 10, opacity: 0, pointerEvents: isVisible ? (isPlaying ? 'none' : 'auto') : 'none' };
                         const handleClipClick = (e: React.MouseEvent) => { e.stopPropagation(); if (!isPlaying && isVisible) { handleSelectClip(clip.id, e); } };
-                        
-                        // TRANSITION RENDER LOGIC
-                        // We use CSS masking for real-time preview
-                        let transitionStyle: React.CSSProperties = {};
-                        if (activeTransition) {
-                            const progress = (currentTime - activeTransition.startTime) / activeTransition.duration;
-                            
-                            // Visual Effects logic in DOM
-                            if (activeTransition.type === 'fade') {
-                                style.opacity = progress;
-                            } else if (activeTransition.type === 'wipe_right') {
-                                transitionStyle = { clipPath: `inset(0 0 0 ${100 - (progress * 100)}%)` };
-                            } else if (activeTransition.type === 'wipe_left') {
-                                transitionStyle = { clipPath: `inset(0 ${100 - (progress * 100)}% 0 0)` };
-                            } else if (activeTransition.type === 'wipe_down') {
-                                transitionStyle = { clipPath: `inset(0 0 ${100 - (progress * 100)}% 0)` };
-                            } else if (activeTransition.type === 'wipe_up') {
-                                transitionStyle = { clipPath: `inset(${100 - (progress * 100)}% 0 0 0)` };
-                            } else if (activeTransition.type === 'circle_open') {
-                                transitionStyle = { clipPath: `circle(${progress * 150}% at 50% 50%)` };
-                            } else if (activeTransition.type === 'zoom_in') {
-                                style.transform += ` scale(${0.5 + (0.5 * progress)})`;
-                                style.opacity = progress;
-                            }
-                        }
 
                         if (clip.type === 'text' && clip.text) {
                             const ts = clip.textStyle || DEFAULT_TEXT_STYLE;
-                            return ( <div key={clip.id} style={{...style, ...transitionStyle}} onClick={handleClipClick} className="flex items-center justify-center"><span className="px-4 py-2 text-center whitespace-pre-wrap" style={{ fontFamily: ts.fontFamily || 'Plus Jakarta Sans', fontSize: `${ts.fontSize}px`, fontWeight: ts.isBold ? 'bold' : 'normal', fontStyle: ts.isItalic ? 'italic' : 'normal', textDecoration: ts.isUnderline ? 'underline' : 'none', color: ts.color, backgroundColor: ts.backgroundColor ? `${ts.backgroundColor}${Math.round((ts.backgroundOpacity ?? 0) * 255).toString(16).padStart(2,'0')}` : 'transparent', lineHeight: 1.2, textShadow: (ts.backgroundOpacity ?? 0) < 0.3 ? '1px 1px 2px rgba(0,0,0,0.8)' : 'none' }}>{clip.text}</span></div> );
+                            return ( <div key={clip.id} style={style} onClick={handleClipClick} className="flex items-center justify-center"><span className="px-4 py-2 text-center whitespace-pre-wrap" style={{ fontFamily: ts.fontFamily || 'Plus Jakarta Sans', fontSize: `${ts.fontSize}px`, fontWeight: ts.isBold ? 'bold' : 'normal', fontStyle: ts.isItalic ? 'italic' : 'normal', textDecoration: ts.isUnderline ? 'underline' : 'none', color: ts.color, backgroundColor: ts.backgroundColor ? `${ts.backgroundColor}${Math.round((ts.backgroundOpacity ?? 0) * 255).toString(16).padStart(2,'0')}` : 'transparent', lineHeight: 1.2, textShadow: (ts.backgroundOpacity ?? 0) < 0.3 ? '1px 1px 2px rgba(0,0,0,0.8)' : 'none' }}>{clip.text}</span></div> );
+                        }
+                        if (clip.type === 'compound') {
+                            return ( <div key={clip.id} style={style} onClick={handleClipClick} onDoubleClick={(e) => { e.stopPropagation(); handleOpenCompound(clip); }} title="Double-click to open" /> );
                         }
                         if (clip.type === 'video' || clip.type === 'audio') {
                             const isAudio = clip.type === 'audio';
@@ -1240,7 +1836,7 @@ export default function App() {
                                         key={clip.id}
                                         src={url}
                                         strategy={clip.strategy}
-                                        style={{...style, display: isAudio ? 'none' : 'block', ...transitionStyle}}
+                                        style={{...style, display: isAudio ? 'none' : 'block'}}
                                         onClick={handleClipClick}
                                         videoRef={(el) => { mediaRefs.current[clip.id] = el; }}
                                         autoPlay={isPlaying}
@@ -1249,10 +1845,10 @@ export default function App() {
                                 );
                             }
 
-                            return ( <div key={clip.id} style={{...style, display: isAudio ? 'none' : 'block', ...transitionStyle}} onClick={handleClipClick}>{isAudio ? ( <audio ref={(el) => { mediaRefs.current[clip.id] = el; }} src={url} muted={false} /> ) : ( <video ref={(el) => { mediaRefs.current[clip.id] = el; }} src={url} className="w-full h-full object-contain pointer-events-none" muted={false} playsInline crossOrigin={isBlob ? undefined : "anonymous"} /> )}</div> );
+                            return ( <div key={clip.id} style={{...style, display: isAudio ? 'none' : 'block'}} onClick={handleClipClick}>{isAudio ? ( <audio ref={(el) => { mediaRefs.current[clip.id] = el; }} src={url} muted /> ) : ( <video ref={(el) => { mediaRefs.current[clip.id] = el; }} src={url} className="w-full h-full object-contain pointer-events-none" muted playsInline crossOrigin={isBlob ? undefined : "anonymous"} /> )}</div> );
                         } else { 
                             return ( 
-                                <div key={clip.id} style={{...style, ...transitionStyle}} onClick={handleClipClick}>
+                                <div key={clip.id} style={style} onClick={handleClipClick}>
                                     <img 
                                         ref={(el) => { if (el) mediaRefs.current[clip.id] = el; }}
                                         src={clip.sourceUrl || ''} 
@@ -1263,9 +1859,17 @@ export default function App() {
                             ); 
                         }
                     })}
+                    {/* Media hosts for clips inside compound clips (drawn by the compositor, never clicked) */}
+                    {nestedMedia.map(clip => {
+                        const url = clip.sourceUrl || '';
+                        const setRef = (el: HTMLVideoElement | HTMLAudioElement | HTMLImageElement | null) => { mediaRefs.current[clip.id] = el; };
+                        if (clip.type === 'image') return <img key={clip.id} ref={setRef} src={url} alt="" className="hidden" />;
+                        if (clip.type === 'audio') return <audio key={clip.id} ref={setRef} src={url} className="hidden" />;
+                        return <video key={clip.id} ref={setRef} src={url} className="hidden" playsInline crossOrigin={url.startsWith('blob:') ? undefined : "anonymous"} />;
+                    })}
                     {!videoUrl && clips.length === 0 && ( <label className="absolute inset-0 flex flex-col items-center justify-center text-neutral-500 hover:text-neutral-300 cursor-pointer transition-colors z-20"><Video className="w-16 h-16 mb-4 opacity-20" /><p className="font-medium text-lg mb-2">Click to upload video</p><p className="text-sm opacity-50">or drag and drop here</p><input type="file" accept="video/*" className="hidden" onChange={handleFileUpload} /></label> )}
                     {!isPlaying && isSelectedClipVisible && primarySelectedClip && primarySelectedClip.type !== 'audio' && !isMultiSelection && ( 
-                        <CanvasControls clip={primarySelectedClip} containerRef={containerRef} onUpdate={handleUpdateClipTransform} /> 
+                        <CanvasControls clip={primarySelectedClip} containerRef={containerRef} currentTime={currentTime} onUpdate={handleUpdateClipAnimation} /> 
                     )}
                     
                     {/* Safe Zones Overlay */}
@@ -1313,16 +1917,85 @@ export default function App() {
                        {allSelectedAreMedia && (
                            <>
                            <div className="relative">
-                                <button onClick={() => { setShowSpeedMenu(!showSpeedMenu); setShowVolumeMenu(false); setIsCustomSpeed(false); setShowTextStyleMenu(false); }} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${showSpeedMenu ? 'bg-blue-600 text-white' : 'bg-neutral-800 text-neutral-300 hover:text-white hover:bg-neutral-700'}`}><Gauge className="w-3.5 h-3.5" />{primarySelectedClip?.speed}x</button>
-                               {showSpeedMenu && (<div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl overflow-hidden min-w-[140px] flex flex-col p-1 z-50">{[0.5, 1, 1.5, 2].map(s => (<button key={s} onClick={() => primarySelectedClip && handleClipSpeed(primarySelectedClip.id, s)} className="text-left px-3 py-1.5 text-xs rounded hover:bg-neutral-700 transition-colors w-full text-neutral-300">{s}x</button>))}</div>)}
+                                <button onClick={() => { setShowSpeedMenu(!showSpeedMenu); setShowVolumeMenu(false); setIsCustomSpeed(false); setShowTextStyleMenu(false); }} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${showSpeedMenu ? 'bg-blue-600 text-white' : 'bg-neutral-800 text-neutral-300 hover:text-white hover:bg-neutral-700'}`}><Gauge className="w-3.5 h-3.5" />{primarySelectedClip ? describeSpeed(primarySelectedClip) : ''}</button>
+                               {showSpeedMenu && (<div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl overflow-hidden min-w-[140px] flex flex-col p-1 z-50">{[0.5, 1, 1.5, 2].map(s => (<button key={s} onClick={() => primarySelectedClip && handleClipSpeed(primarySelectedClip.id, s)} className="text-left px-3 py-1.5 text-xs rounded hover:bg-neutral-700 transition-colors w-full text-neutral-300">{s}x</button>))}{!isMultiSelection && primarySelectedClip && (primarySelectedClip.type === 'video' || primarySelectedClip.type === 'audio') && (<><div className="h-px bg-neutral-700 my-1" />{(Object.keys(SPEED_RAMP_PRESETS) as SpeedRampPreset[]).map(p => (<button key={p} onClick={() => handleSpeedRamp(primarySelectedClip, p)} className="text-left px-3 py-1.5 text-xs rounded hover:bg-neutral-700 transition-colors w-full text-neutral-300 whitespace-nowrap">{SPEED_RAMP_PRESETS[p].label}</button>))}<div className="h-px bg-neutral-700 my-1" /><button onClick={() => handleReverseClip(primarySelectedClip)} className={`flex items-center gap-2 text-left px-3 py-1.5 text-xs rounded hover:bg-neutral-700 transition-colors w-full ${primarySelectedClip.reversed ? 'text-blue-400' : 'text-neutral-300'}`}><Rewind className="w-3.5 h-3.5" />{primarySelectedClip.reversed ? 'Play Forward' : 'Reverse'}</button></>)}</div>)}
                            </div>
                            <div className="relative">
                                 <button onClick={() => { setShowVolumeMenu(!showVolumeMenu); setShowSpeedMenu(false); setShowTextStyleMenu(false); }} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium transition-colors ${showVolumeMenu ? 'bg-blue-600 text-white' : 'bg-neutral-800 text-neutral-300 hover:text-white hover:bg-neutral-700'}`}>{primarySelectedClip?.volume === 0 ? <VolumeX className="w-3.5 h-3.5" /> : <Volume2 className="w-3.5 h-3.5" />}{Math.round((primarySelectedClip?.volume ?? 1) * 100)}%</button>
-                                {showVolumeMenu && (<div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-3 z-50 min-w-[120px]"><input type="range" min="0" max="1" step="0.05" value={primarySelectedClip?.volume ?? 1} onChange={(e) => primarySelectedClip && handleClipVolume(primarySelectedClip.id, parseFloat(e.target.value))} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></div>)}
+                                {showVolumeMenu && (<div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-3 z-50 min-w-[120px]"><input type="range" min="0" max={MAX_CLIP_VOLUME} step="0.05" value={primarySelectedClip?.volume ?? 1} onChange={(e) => primarySelectedClip && handleClipVolume(primarySelectedClip.id, parseFloat(e.target.value))} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></div>)}
                             </div>
+                           {!isMultiSelection && primarySelectedClip?.type === 'video' && currentTime >= primarySelectedClip.startTime && currentTime <= primarySelectedClip.startTime + primarySelectedClip.duration && (
+                               <button onClick={() => handleFreezeFrame(primarySelectedClip)} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title="Freeze Frame at Playhead"><Snowflake className="w-4 h-4" /></button>
+                           )}
+                           {!isMultiSelection && primarySelectedClip?.type === 'video' && !primarySelectedClip.audioDetached && (
+                               <button onClick={() => handleDetachAudio(primarySelectedClip)} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title="Detach Audio"><Unplug className="w-4 h-4" /></button>
+                           )}
+                           {!isMultiSelection && primarySelectedClip && (primarySelectedClip.type === 'video' || primarySelectedClip.type === 'audio') && (
+                               <div className="relative">
+                                   <button onClick={() => { setShowSilenceMenu(!showSilenceMenu); setShowDuckingMenu(false); setShowVolumeMenu(false); setShowSpeedMenu(false); setShowTextStyleMenu(false); }} className={`p-2 rounded-md transition-colors ${showSilenceMenu ? 'bg-blue-600 text-white' : 'text-neutral-400 hover:text-white hover:bg-neutral-800'}`} title="Remove Silences">{isFindingSilences ? <Loader2 className="w-4 h-4 animate-spin" /> : <MicOff className="w-4 h-4" />}</button>
+                                   {showSilenceMenu && (
+                                       <div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-3 z-50 min-w-[220px] flex flex-col gap-2 text-xs text-neutral-300">
+                                           <label className="flex flex-col gap-1">Quieter than {silenceOptions.thresholdDb} dB<input type="range" min="-60" max="-20" step="1" value={silenceOptions.thresholdDb} onChange={(e) => setSilenceOptions({ ...silenceOptions, thresholdDb: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                           <label className="flex flex-col gap-1">For at least {silenceOptions.minSilence.toFixed(2)}s<input type="range" min="0.2" max="3" step="0.05" value={silenceOptions.minSilence} onChange={(e) => setSilenceOptions({ ...silenceOptions, minSilence: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                           <label className="flex flex-col gap-1">Keep {silenceOptions.padding.toFixed(2)}s padding<input type="range" min="0" max="0.5" step="0.01" value={silenceOptions.padding} onChange={(e) => setSilenceOptions({ ...silenceOptions, padding: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                           {silencePreview?.clipId === primarySelectedClip.id && (
+                                               <div className="text-[10px] text-neutral-400">{silencePreview.spans.length} silence{silencePreview.spans.length === 1 ? '' : 's'}, {silencePreview.spans.reduce((sum, s) => sum + s.end - s.start, 0).toFixed(1)}s marked in red</div>
+                                           )}
+                                           <div className="mt-1 flex gap-1">
+                                               <button onClick={() => handlePreviewSilences(primarySelectedClip)} disabled={isFindingSilences} className="flex-1 px-2 py-1.5 rounded-md bg-neutral-700 hover:bg-neutral-600 disabled:opacity-50">Preview</button>
+                                               <button onClick={() => handleRemoveSilences(primarySelectedClip)} disabled={isFindingSilences} className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-50"><MicOff className="w-3.5 h-3.5" /> Remove</button>
+                                           </div>
+                                       </div>
+                                   )}
+                               </div>
+                           )}
+                           {!isMultiSelection && primarySelectedClip && getLinkPartner(clips, primarySelectedClip) && (
+                               <button onClick={() => handleToggleLink(primarySelectedClip)} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title={primarySelectedClip.linkBroken ? 'Link Audio and Video' : 'Unlink Audio and Video'}>{primarySelectedClip.linkBroken ? <Link2 className="w-4 h-4" /> : <Unlink className="w-4 h-4" />}</button>
+                           )}
                            </>
                        )}
+                       {selectedClips.length > 0 && (
+                           <button onClick={handleCopy} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title="Copy (Ctrl+C)"><Copy className="w-4 h-4" /></button>
+                       )}
+                       {hasClipboard && (
+                           <button onClick={handlePaste} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title="Paste at Playhead (Ctrl+V)"><ClipboardPaste className="w-4 h-4" /></button>
+                       )}
+                       {hasClipboard && selectedClips.length > 0 && (
+                           <button onClick={handleOpenPasteAttributes} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title="Paste Attributes (Ctrl+Alt+V)"><Paintbrush className="w-4 h-4" /></button>
+                       )}
+                       {montageMusic && (
+                           <div className="relative">
+                               <button onClick={() => { setShowMontageMenu(!showMontageMenu); setShowDuckingMenu(false); setShowVolumeMenu(false); setShowSpeedMenu(false); setShowTextStyleMenu(false); }} className={`p-2 rounded-md transition-colors ${showMontageMenu ? 'bg-blue-600 text-white' : 'text-neutral-400 hover:text-white hover:bg-neutral-800'}`} title="Beat Montage">{isBuildingMontage ? <Loader2 className="w-4 h-4 animate-spin" /> : <Clapperboard className="w-4 h-4" />}</button>
+                               {showMontageMenu && (
+                                   <div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-3 z-50 min-w-[220px] flex flex-col gap-2 text-xs text-neutral-300">
+                                       <div className="text-[10px] text-neutral-500">Cuts {footageClips.length > 0 ? `the ${footageClips.length} selected clip${footageClips.length === 1 ? '' : 's'}` : 'every video and image in Files'} to "{montageMusic.title}"</div>
+                                       <label className="flex flex-col gap-1">Shortest shot {montageOptions.minShot.toFixed(1)}s<input type="range" min="0.25" max="4" step="0.25" value={montageOptions.minShot} onChange={(e) => { const minShot = Number(e.target.value); setMontageOptions({ ...montageOptions, minShot, maxShot: Math.max(minShot, montageOptions.maxShot) }); }} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                       <label className="flex flex-col gap-1">Longest shot {montageOptions.maxShot.toFixed(1)}s<input type="range" min="0.5" max="10" step="0.25" value={montageOptions.maxShot} onChange={(e) => { const maxShot = Number(e.target.value); setMontageOptions({ ...montageOptions, maxShot, minShot: Math.min(maxShot, montageOptions.minShot) }); }} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                       <div className="flex gap-1">{(['beat', 'downbeat'] as const).map(cutOn => <button key={cutOn} onClick={() => setMontageOptions({ ...montageOptions, cutOn })} className={`flex-1 px-2 py-1 rounded-md capitalize ${montageOptions.cutOn === cutOn ? 'bg-blue-600 text-white' : 'bg-neutral-700 hover:bg-neutral-600'}`}>{cutOn}s</button>)}</div>
+                                       <input type="text" value={montageHighlight} onChange={(e) => setMontageHighlight(e.target.value)} placeholder="Only shots showing... (optional)" className="bg-neutral-900 border border-neutral-700 rounded-md px-2 py-1 text-xs text-white placeholder-neutral-500" />
+                                       <button onClick={handleBuildMontage} disabled={isBuildingMontage} className="mt-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-50">{isBuildingMontage ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Clapperboard className="w-3.5 h-3.5" />} Build Montage</button>
+                                   </div>
+                               )}
+                           </div>
+                       )}
+                       {hasMusic && (
+                           <div className="relative">
+                               <div className="flex items-center">
+                                   <button onClick={handleAutoDuck} disabled={isDucking} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors disabled:opacity-50" title="Duck Music Under Speech">{isDucking ? <Loader2 className="w-4 h-4 animate-spin" /> : <AudioLines className="w-4 h-4" />}</button>
+                                   <button onClick={() => { setShowDuckingMenu(!showDuckingMenu); setShowVolumeMenu(false); setShowSpeedMenu(false); setShowTextStyleMenu(false); }} className={`py-2 px-0.5 rounded-md transition-colors ${showDuckingMenu ? 'bg-blue-600 text-white' : 'text-neutral-500 hover:text-white hover:bg-neutral-800'}`} title="Ducking Settings"><ChevronUp className="w-3 h-3" /></button>
+                               </div>
+                               {showDuckingMenu && (
+                                   <div className="absolute bottom-full mb-2 right-0 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-3 z-50 min-w-[200px] flex flex-col gap-2 text-xs text-neutral-300">
+                                       <label className="flex flex-col gap-1">Depth {duckingOptions.depthDb} dB<input type="range" min="-30" max="-3" step="1" value={duckingOptions.depthDb} onChange={(e) => setDuckingOptions({ ...duckingOptions, depthDb: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                       <label className="flex flex-col gap-1">Attack {duckingOptions.attack.toFixed(2)}s<input type="range" min="0" max="2" step="0.05" value={duckingOptions.attack} onChange={(e) => setDuckingOptions({ ...duckingOptions, attack: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                       <label className="flex flex-col gap-1">Release {duckingOptions.release.toFixed(2)}s<input type="range" min="0" max="3" step="0.05" value={duckingOptions.release} onChange={(e) => setDuckingOptions({ ...duckingOptions, release: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+                                       <button onClick={handleAutoDuck} disabled={isDucking} className="mt-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-50">{isDucking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <AudioLines className="w-3.5 h-3.5" />} Duck Music Now</button>
+                                   </div>
+                               )}
+                           </div>
+                       )}
                        <button onClick={handleSplitClip} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors" title="Split Clip at Playhead"><Scissors className="w-4 h-4" /></button>
+                       <button onClick={handleSplitAtScenes} disabled={isDetectingScenes} className="p-2 hover:bg-neutral-800 rounded-md text-neutral-400 hover:text-white transition-colors disabled:opacity-50" title="Split at Scene Changes">{isDetectingScenes ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScissorsLineDashed className="w-4 h-4" />}</button>
                   </div>
               </div>
           </div>
@@ -1341,7 +2014,22 @@ export default function App() {
                 onAddMediaRequest={(tid) => { setMediaModalTarget(tid); setModalMode('initial'); }} 
                 onResize={handleClipResize} 
                 onReorder={handleClipReorder} 
-                onAddTrack={handleAddTrack} 
+                onAddTrack={handleAddTrack}
+                onUpdateTrack={handleUpdateTrack}
+                onClipFade={handleClipFade}
+                beats={beatMap}
+                waveforms={waveforms}
+                cutPreview={silencePreview}
+                onTrimEdit={handleTrimEdit} 
+                sequencePath={sequencePath}
+                onCreateCompound={handleCreateCompound}
+                onOpenCompound={handleOpenCompound}
+                onCloseSequence={handleCloseSequence}
+                markers={markers}
+                onAddMarker={handleAddMarker}
+                onUpdateMarker={(id, updates, gesture) => (gesture ? timelineStore.duringGesture(`marker-${id}:${gesture}`) : timelineStore).updateMarker(id, updates)}
+                onRemoveMarker={(id) => timelineStore.removeMarker(id)}
+                onExportChapters={handleExportChapters}
                 selectedClipIds={selectedClipIds} 
                 onTransitionRequest={handleTransitionRequest}
                 onCaptionRequest={() => setCaptionModalOpen(true)} 
@@ -1,9 +1,10 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Check, Play, Pause, Scissors, Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, Film, Image as ImageIcon, Mic, Sparkles, Keyboard } from 'lucide-react';
-import { Clip } from '../types';
-import { drawClipToCanvas } from '../utils/canvasDrawing';
+import { X, Check, Play, Pause, Scissors, Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, Film, Image as ImageIcon, Mic, Sparkles, Keyboard, History, Paintbrush } from 'lucide-react';
+import { Clip, Transition, WorkspaceItem } from '../types';
+import { renderFrameAt, createLiveSourceResolver, getClipSourceTime } from '../utils/compositor';
 import { formatTime } from '../utils/videoUtils';
+import { AttributeGroup, ATTRIBUTE_GROUPS } from '../timeline/clipboard';
 
 export const TextControls = ({ values, onChange }: { values: any, onChange: (updates: any) => void }) => (
     <div className="space-y-3">
@@ -69,6 +70,7 @@ export const RangeEditorModal = ({
     onConfirm, 
     initialRange,
     clips,
+    transitions,
     mediaRefs
 }: { 
     isOpen: boolean; 
@@ -76,6 +78,7 @@ export const RangeEditorModal = ({
     onConfirm: (range: { start: number, end: number }) => void;
     initialRange: { start: number, end: number };
     clips: Clip[];
+    transitions: Transition[];
     mediaRefs: React.MutableRefObject<{[key: string]: HTMLVideoElement | HTMLAudioElement | HTMLImageElement | null}>;
 }) => {
     const [range, setRange] = useState(initialRange);
@@ -95,6 +98,9 @@ export const RangeEditorModal = ({
         if (!isOpen) return;
         let animationFrameId: number;
         let lastTime = performance.now();
+        let isRendering = false;
+        const frameCanvas = new OffscreenCanvas(1, 1);
+        const resolveSource = createLiveSourceResolver(mediaRefs.current);
 
         const loop = (time: number) => {
             const dt = (time - lastTime) / 1000;
@@ -108,19 +114,16 @@ export const RangeEditorModal = ({
             }
 
             const currentT = playbackTimeRef.current;
-            const visibleClipIds = new Set<string>();
 
             clips.forEach(clip => {
                  const isVisible = currentT >= clip.startTime && currentT < clip.startTime + clip.duration;
-                 if (isVisible) visibleClipIds.add(clip.id);
 
                  if (clip.type === 'video' || clip.type === 'audio') {
                      const el = mediaRefs.current[clip.id];
                      if (el) {
                          const mediaEl = el as HTMLMediaElement;
                          if (isVisible) {
-                             const offset = currentT - clip.startTime;
-                             const mediaTime = clip.sourceStartTime + offset * (clip.speed || 1);
+                             const mediaTime = getClipSourceTime(clip, currentT);
                              if (Math.abs(mediaEl.currentTime - mediaTime) > 0.15) mediaEl.currentTime = mediaTime;
                              mediaEl.muted = false;
                              const vol = clip.volume ?? 1;
@@ -135,42 +138,14 @@ export const RangeEditorModal = ({
                  }
             });
             
-            if (canvasRef.current) {
-                const ctx = canvasRef.current.getContext('2d');
-                if (ctx) {
-                    const width = canvasRef.current.width;
-                    const height = canvasRef.current.height;
-                    ctx.clearRect(0, 0, width, height);
-                    ctx.fillStyle = '#000000';
-                    ctx.fillRect(0, 0, width, height);
-
-                    const visibleClips = clips
-                        .filter(c => visibleClipIds.has(c.id))
-                        .sort((a, b) => a.trackId - b.trackId);
-
-                    visibleClips.forEach(clip => {
-                        if (clip.type === 'audio') return;
-                        if (clip.type === 'text') {
-                            drawClipToCanvas(ctx, clip, null, width, height);
-                        } else {
-                            let source: CanvasImageSource | null = null;
-                            if (clip.type === 'video') {
-                                const el = mediaRefs.current[clip.id] as HTMLVideoElement;
-                                if (el) source = el;
-                            } else if (clip.type === 'image') {
-                                const el = mediaRefs.current[clip.id] as unknown as HTMLImageElement;
-                                if (el && el.complete) {
-                                    source = el;
-                                } else if (clip.sourceUrl) {
-                                    const img = new Image();
-                                    img.src = clip.sourceUrl;
-                                    if (img.complete) source = img;
-                                }
-                            }
-                            if (source) drawClipToCanvas(ctx, clip, source, width, height);
-                        }
-                    });
-                }
+            // Skip a tick rather than queue frames if the previous composite hasn't landed yet
+            const target = canvasRef.current;
+            if (target && !isRendering) {
+                isRendering = true;
+                renderFrameAt(clips, transitions, currentT, { width: target.width, height: target.height }, { canvas: frameCanvas, resolveSource })
+                    .then(frame => target.getContext('2d')?.drawImage(frame, 0, 0))
+                    .catch(e => console.warn("Range preview render failed", e))
+                    .finally(() => { isRendering = false; });
             }
             animationFrameId = requestAnimationFrame(loop);
         };
@@ -184,7 +159,7 @@ export const RangeEditorModal = ({
                  }
              });
         };
-    }, [isOpen, isPlaying, range, clips, mediaRefs]);
+    }, [isOpen, isPlaying, range, clips, transitions, mediaRefs]);
 
     useEffect(() => {
         const handleMouseMove = (e: MouseEvent) => {
@@ -437,6 +412,9 @@ export const ShortcutsModal = ({ isOpen, onClose }: { isOpen: boolean; onClose:
            <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Play / Pause</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Space</span></div>
            <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Delete Clip</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Del / Backspace</span></div>
            <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Split Clip</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">S</span></div>
+           <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Add Marker</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">M</span></div>
+           <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Copy / Cut / Paste</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Ctrl + C / X / V</span></div>
+           <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Paste Attributes</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Ctrl + Alt + V</span></div>
            <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Undo</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Ctrl + Z</span></div>
            <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Redo</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Ctrl + Shift + Z</span></div>
            <div className="flex justify-between items-center text-xs"><span className="text-neutral-400 font-medium">Select Multiple</span> <span className="font-mono text-white bg-neutral-800 border border-neutral-700 px-2 py-1 rounded shadow-sm">Shift + Click</span></div>
@@ -447,6 +425,60 @@ export const ShortcutsModal = ({ isOpen, onClose }: { isOpen: boolean; onClose:
   );
 };
 
+export const RestoreSessionModal = ({ session, onRestore, onDiscard }: { session: { savedAt: number; clips: Clip[]; workspaceFiles?: WorkspaceItem[] } | null; onRestore: () => void; onDiscard: () => void }) => {
+  if (!session) return null;
+  const mediaCount = session.clips.filter(c => c.type !== 'text').length;
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" />
+      <div className="relative w-full max-w-md bg-neutral-900 border border-neutral-700 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-4 border-b border-neutral-800 flex items-center gap-2 bg-neutral-950">
+          <History className="w-5 h-5 text-blue-400" />
+          <h3 className="font-bold text-white text-sm uppercase tracking-wide">Restore Previous Session?</h3>
+        </div>
+        <div className="p-6 space-y-2 bg-neutral-900">
+          <p className="text-sm text-neutral-300">CutPilot found unsaved work from your last session.</p>
+          <p className="text-xs text-neutral-500">Autosaved {new Date(session.savedAt).toLocaleString()} · {session.clips.length} clips ({mediaCount} with media){session.workspaceFiles?.length ? ` · ${session.workspaceFiles.length} workspace files` : ''}</p>
+        </div>
+        <div className="p-4 border-t border-neutral-800 flex justify-end gap-2 bg-neutral-950">
+          <button onClick={onDiscard} className="px-4 py-2 text-xs font-medium rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors">Discard</button>
+          <button onClick={onRestore} className="px-4 py-2 text-xs font-bold rounded-lg bg-blue-600 hover:bg-blue-700 text-white transition-colors">Restore</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const PasteAttributesModal = ({ source, targetCount, onApply, onClose }: { source: Clip | null; targetCount: number; onApply: (groups: AttributeGroup[]) => void; onClose: () => void }) => {
+  const [groups, setGroups] = useState<AttributeGroup[]>(['transform', 'opacity']);
+  if (!source) return null;
+  const toggle = (id: AttributeGroup) => setGroups(prev => prev.includes(id) ? prev.filter(g => g !== id) : [...prev, id]);
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-md bg-neutral-900 border border-neutral-700 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-4 border-b border-neutral-800 flex items-center gap-2 bg-neutral-950">
+          <Paintbrush className="w-5 h-5 text-blue-400" />
+          <h3 className="font-bold text-white text-sm uppercase tracking-wide">Paste Attributes</h3>
+        </div>
+        <div className="p-6 space-y-2 bg-neutral-900">
+          <p className="text-xs text-neutral-500 mb-3">From "{source.title}" to {targetCount} selected clip{targetCount === 1 ? '' : 's'}. Keyframes come along with their property.</p>
+          {ATTRIBUTE_GROUPS.map(g => (
+            <label key={g.id} className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+              <input type="checkbox" checked={groups.includes(g.id)} onChange={() => toggle(g.id)} className="accent-blue-500" />
+              {g.label}
+            </label>
+          ))}
+        </div>
+        <div className="p-4 border-t border-neutral-800 flex justify-end gap-2 bg-neutral-950">
+          <button onClick={onClose} className="px-4 py-2 text-xs font-medium rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 transition-colors">Cancel</button>
+          <button onClick={() => onApply(groups)} disabled={groups.length === 0} className="px-4 py-2 text-xs font-bold rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white transition-colors">Paste</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 export const ToastContainer = ({ toasts, removeToast }: { toasts: any[], removeToast: (id: string) => void }) => (
     <div className="fixed bottom-6 right-6 z-[9999] flex flex-col gap-2 pointer-events-none">
         {toasts.map(t => (
@@ -1,18 +1,34 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Clip } from '../types';
-import { Move } from 'lucide-react';
+import { Clip, AnimatableProperty, KeyframeEasing } from '../types';
+import { Move, Diamond } from 'lucide-react';
+import { resolveClipAt, applyAnimatedValues, findKeyframeAt, setKeyframe, removeKeyframesAt, KEYFRAME_EASINGS, KEYFRAME_EPSILON } from '../timeline/keyframes';
+import { MAX_CLIP_VOLUME } from '../timeline/fades';
 
 interface CanvasControlsProps {
   clip: Clip;
   containerRef: React.RefObject<HTMLDivElement>;
-  onUpdate: (id: string, newTransform: NonNullable<Clip['transform']>) => void;
+  currentTime: number;
+  onUpdate: (id: string, updates: Partial<Clip>, gesture?: string) => void; // Updates from one drag or slider share a `gesture`
 }
 
-export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerRef, onUpdate }) => {
+const VISUAL_PROPERTIES: AnimatableProperty[] = ['x', 'y', 'scale', 'rotation', 'opacity'];
+
+const EASING_LABELS: Record<KeyframeEasing, string> = {
+  linear: 'Linear',
+  ease_in: 'Ease In',
+  ease_out: 'Ease Out',
+  ease_in_out: 'Ease In-Out',
+  bezier: 'Bezier'
+};
+
+export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerRef, currentTime, onUpdate }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [startPos, setStartPos] = useState({ x: 0, y: 0 });
-  const [initialTransform, setInitialTransform] = useState(clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 });
+  // Edits land on the keyframed value at the playhead, so everything works on the resolved clip
+  const localTime = currentTime - clip.startTime;
+  const animated = resolveClipAt(clip, currentTime);
+  const [initialTransform, setInitialTransform] = useState(animated.transform || { x: 0, y: 0, scale: 1, rotation: 0 });
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -29,11 +45,10 @@ export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerR
         const xPercent = deltaX / rect.width;
         const yPercent = deltaY / rect.height;
 
-        onUpdate(clip.id, {
-          ...initialTransform,
+        onUpdate(clip.id, applyAnimatedValues(clip, localTime, {
           x: initialTransform.x + xPercent,
           y: initialTransform.y + yPercent,
-        });
+        }), 'move');
       } else if (isResizing) {
         // Distance-based uniform scaling relative to center
         const centerX = rect.left + rect.width / 2;
@@ -49,10 +64,7 @@ export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerR
         const scaleFactor = currentDist / startDist;
         const newScale = Math.max(0.1, initialTransform.scale * scaleFactor);
 
-        onUpdate(clip.id, {
-          ...initialTransform,
-          scale: newScale,
-        });
+        onUpdate(clip.id, applyAnimatedValues(clip, localTime, { scale: newScale }), 'scale');
       }
     };
 
@@ -70,7 +82,7 @@ export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerR
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDragging, isResizing, startPos, initialTransform, clip.id, containerRef, onUpdate]);
+  }, [isDragging, isResizing, startPos, initialTransform, clip, localTime, containerRef, onUpdate]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
     // Only drag if clicking the border box itself, not handles
@@ -80,7 +92,7 @@ export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerR
     e.preventDefault();
     setIsDragging(true);
     setStartPos({ x: e.clientX, y: e.clientY });
-    setInitialTransform(clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 });
+    setInitialTransform(animated.transform || { x: 0, y: 0, scale: 1, rotation: 0 });
   };
 
   const handleResizeDown = (e: React.MouseEvent) => {
@@ -88,10 +100,43 @@ export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerR
     e.preventDefault();
     setIsResizing(true);
     setStartPos({ x: e.clientX, y: e.clientY });
-    setInitialTransform(clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 });
+    setInitialTransform(animated.transform || { x: 0, y: 0, scale: 1, rotation: 0 });
+  };
+
+  const transform = animated.transform || { x: 0, y: 0, scale: 1, rotation: 0 };
+
+  // --- KEYFRAMES ---
+  const isKeyed = VISUAL_PROPERTIES.some(p => findKeyframeAt(clip, p, localTime));
+  const isVolumeKeyed = !!findKeyframeAt(clip, 'volume', localTime);
+  const keyAtPlayhead = VISUAL_PROPERTIES.map(p => findKeyframeAt(clip, p, localTime)).find(Boolean) || findKeyframeAt(clip, 'volume', localTime);
+  const hasAudio = clip.type === 'video' || clip.type === 'audio';
+
+  const toggleKeyframes = (properties: AnimatableProperty[], keyed: boolean) => {
+    if (keyed) {
+      onUpdate(clip.id, { keyframes: removeKeyframesAt(clip, localTime, properties) });
+      return;
+    }
+    let working = clip;
+    properties.forEach(p => {
+      const value = p === 'opacity' ? animated.opacity ?? 1 : p === 'volume' ? animated.volume ?? 1 : transform[p as 'x' | 'y' | 'scale' | 'rotation'];
+      working = { ...working, keyframes: setKeyframe(working, p, localTime, value) };
+    });
+    onUpdate(clip.id, { keyframes: working.keyframes });
+  };
+
+  // Easing belongs to the segment leaving this keyframe
+  const setEasingAtPlayhead = (easing: KeyframeEasing, bezier?: [number, number, number, number]) => {
+    const keyframes = { ...clip.keyframes };
+    (Object.keys(keyframes) as AnimatableProperty[]).forEach(p => {
+      keyframes[p] = keyframes[p]!.map(k => Math.abs(k.time - localTime) < KEYFRAME_EPSILON ? { ...k, easing, bezier: easing === 'bezier' ? bezier || k.bezier || [0.25, 0.1, 0.25, 1] : undefined } : k);
+    });
+    onUpdate(clip.id, { keyframes });
   };
 
-  const transform = clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 };
+  const handleBezierInput = (text: string) => {
+    const points = text.split(',').map(v => parseFloat(v.trim()));
+    if (points.length === 4 && points.every(Number.isFinite)) setEasingAtPlayhead('bezier', points as [number, number, number, number]);
+  };
   
   const style: React.CSSProperties = {
     position: 'absolute',
@@ -106,6 +151,36 @@ export const CanvasControls: React.FC<CanvasControlsProps> = ({ clip, containerR
 
   return (
     <div className="absolute inset-0 pointer-events-none overflow-hidden">
+        {/* Keyframe toolbar */}
+        <div className="absolute top-2 left-2 z-[110] flex items-center gap-2 bg-neutral-900/90 border border-neutral-700 rounded-lg px-2 py-1 pointer-events-auto text-[10px] text-neutral-300 shadow-lg" onMouseDown={(e) => e.stopPropagation()} onClick={(e) => e.stopPropagation()}>
+            <button onClick={() => toggleKeyframes(VISUAL_PROPERTIES, isKeyed)} className={`flex items-center gap-1 px-1.5 py-0.5 rounded transition-colors ${isKeyed ? 'text-yellow-300 bg-yellow-500/20' : 'hover:text-white hover:bg-neutral-800'}`} title={isKeyed ? 'Remove keyframe at playhead' : 'Add keyframe at playhead'}>
+                <Diamond size={10} className={isKeyed ? 'fill-yellow-300' : ''} /> Key
+            </button>
+            <label className="flex items-center gap-1">Rotate
+                <input type="range" min="-180" max="180" step="1" value={transform.rotation} onChange={(e) => onUpdate(clip.id, applyAnimatedValues(clip, localTime, { rotation: parseFloat(e.target.value) }), 'rotation')} onDoubleClick={() => onUpdate(clip.id, applyAnimatedValues(clip, localTime, { rotation: 0 }))} className="w-16 h-1 accent-blue-500" title={`${Math.round(transform.rotation)}°`} />
+            </label>
+            <label className="flex items-center gap-1">Opacity
+                <input type="range" min="0" max="1" step="0.01" value={animated.opacity ?? 1} onChange={(e) => onUpdate(clip.id, applyAnimatedValues(clip, localTime, { opacity: parseFloat(e.target.value) }), 'opacity')} className="w-16 h-1 accent-blue-500" />
+            </label>
+            {hasAudio && (
+                <label className="flex items-center gap-1">
+                    <button onClick={() => toggleKeyframes(['volume'], isVolumeKeyed)} title={isVolumeKeyed ? 'Remove volume keyframe' : 'Add volume keyframe'}><Diamond size={10} className={isVolumeKeyed ? 'text-yellow-300 fill-yellow-300' : 'hover:text-white'} /></button>
+                    Vol
+                    <input type="range" min="0" max={MAX_CLIP_VOLUME} step="0.01" value={animated.volume ?? 1} onChange={(e) => onUpdate(clip.id, applyAnimatedValues(clip, localTime, { volume: parseFloat(e.target.value) }), 'volume')} className="w-16 h-1 accent-blue-500" />
+                </label>
+            )}
+            {keyAtPlayhead && (
+                <>
+                    <select value={keyAtPlayhead.easing || 'linear'} onChange={(e) => setEasingAtPlayhead(e.target.value as KeyframeEasing)} className="bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 outline-none">
+                        {KEYFRAME_EASINGS.map(e => <option key={e} value={e}>{EASING_LABELS[e]}</option>)}
+                    </select>
+                    {keyAtPlayhead.easing === 'bezier' && (
+                        <input key={(keyAtPlayhead.bezier || []).join(',')} defaultValue={(keyAtPlayhead.bezier || [0.25, 0.1, 0.25, 1]).join(', ')} onBlur={(e) => handleBezierInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleBezierInput((e.target as HTMLInputElement).value); }} className="w-24 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 font-mono outline-none" title="cubic-bezier(x1, y1, x2, y2)" />
+                    )}
+                </>
+            )}
+        </div>
+
         <div style={style}>
              {/* The Interaction Box */}
              <div 
@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react';
+import { Clip } from '../types';
+import { getSourceTime } from '../timeline/timeRemap';
+import { THUMBNAIL_HEIGHT, drawThumbnail, getThumbnail, peekThumbnail } from '../utils/thumbnails';
+
+interface ClipFilmstripProps {
+  clip: Clip;
+  pxPerSec: number;
+  duration: number; // Displayed duration (follows a trim while it's being dragged)
+  height: number;
+}
+
+const MAX_CANVAS_WIDTH = 8192;
+const FRAME_ASPECT = 16 / 9; // Slot shape; frames of other shapes are cropped to it
+
+export const ClipFilmstrip: React.FC<ClipFilmstripProps> = ({ clip, pxPerSec, duration, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = duration * pxPerSec;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !clip.sourceUrl || height <= 0) return;
+    const url = clip.sourceUrl;
+    const columns = Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.ceil(width)));
+    const scale = columns / width;
+    canvas.width = columns;
+    canvas.height = THUMBNAIL_HEIGHT;
+
+    // One frame per slot, showing the source at the slot's middle
+    const slotWidth = height * FRAME_ASPECT;
+    const controller = new AbortController();
+    for (let x = 0; x < width; x += slotWidth) {
+      const time = getSourceTime(clip, Math.min(duration, (x + slotWidth / 2) / pxPerSec));
+      const draw = (frame: ImageBitmap) => drawThumbnail(ctx, frame, x * scale, slotWidth * scale, THUMBNAIL_HEIGHT);
+      const cached = peekThumbnail(url, time);
+      if (cached) draw(cached);
+      else getThumbnail(url, time, controller.signal).then(frame => { if (frame && !controller.signal.aborted) draw(frame); });
+    }
+    return () => controller.abort();
+  }, [clip.sourceUrl, pxPerSec, width, duration, height, clip.sourceStartTime, clip.speed, clip.keyframes?.speed, clip.reversed]);
+
+  return <canvas ref={canvasRef} className="absolute inset-y-0 left-0 h-full pointer-events-none opacity-50" style={{ width: `${width}px` }} />;
+};
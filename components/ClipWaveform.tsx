@@ -0,0 +1,39 @@
+import React, { useEffect, useRef } from 'react';
+import { Clip } from '../types';
+import { WaveformPeaks, clipWaveform } from '../utils/waveforms';
+
+interface ClipWaveformProps {
+  clip: Clip;
+  waveform: WaveformPeaks;
+  pxPerSec: number;
+  duration: number; // Displayed duration (follows a trim while it's being dragged)
+  color: string;
+}
+
+// Canvases wider than this are drawn at reduced horizontal resolution and stretched
+const MAX_CANVAS_WIDTH = 8192;
+const CANVAS_HEIGHT = 48;
+
+export const ClipWaveform: React.FC<ClipWaveformProps> = ({ clip, waveform, pxPerSec, duration, color }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const width = duration * pxPerSec;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const columns = Math.max(1, Math.min(MAX_CANVAS_WIDTH, Math.ceil(width)));
+    canvas.width = columns;
+    canvas.height = CANVAS_HEIGHT;
+    const heights = clipWaveform({ ...clip, duration }, waveform, pxPerSec * columns / width, columns);
+    ctx.clearRect(0, 0, columns, CANVAS_HEIGHT);
+    ctx.fillStyle = color;
+    const middle = CANVAS_HEIGHT / 2;
+    heights.forEach((h, x) => {
+      const half = Math.max(0.5, h * middle);
+      ctx.fillRect(x, middle - half, 1, half * 2);
+    });
+  }, [waveform, pxPerSec, width, duration, color, clip.sourceStartTime, clip.speed, clip.keyframes?.speed, clip.reversed, clip.volume]);
+
+  return <canvas ref={canvasRef} className="absolute inset-x-0 bottom-0 h-2/3 w-full pointer-events-none" style={{ width: `${width}px` }} />;
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { HistoryEntry } from '../timeline/store';
+import { History, X, Bot, User, CircleDot } from 'lucide-react';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[];
+  cursor: number; // Number of entries currently applied
+  onJump: (index: number) => void; // -1 jumps to before the first entry
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, entries, cursor, onJump }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="absolute top-full mt-2 right-0 w-72 max-h-[60vh] flex flex-col bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+      <div className="p-3 border-b border-neutral-800 flex justify-between items-center bg-neutral-950">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-neutral-400" />
+          <h3 className="font-bold text-white text-xs uppercase tracking-wide">History</h3>
+          <span className="text-[10px] text-neutral-500">{entries.length} steps</span>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-neutral-800 rounded text-neutral-400 hover:text-white transition-colors"><X className="w-4 h-4" /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-1">
+        <button onClick={() => onJump(-1)} className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-xs transition-colors hover:bg-neutral-800 ${cursor === 0 ? 'bg-blue-600/20 text-blue-200' : 'text-neutral-400'}`}>
+          <CircleDot className="w-3 h-3 shrink-0" />
+          <span className="truncate">Start of session</span>
+        </button>
+        {entries.map((entry, i) => {
+          const isCurrent = i === cursor - 1;
+          const isUndone = i >= cursor;
+          return (
+            <button
+              key={entry.id}
+              onClick={() => onJump(i)}
+              title={new Date(entry.timestamp).toLocaleTimeString()}
+              className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-xs transition-colors hover:bg-neutral-800 ${isCurrent ? 'bg-blue-600/20 text-blue-200' : isUndone ? 'text-neutral-600 line-through' : 'text-neutral-300'}`}
+            >
+              {entry.actor === 'agent' ? <Bot className="w-3 h-3 shrink-0 text-purple-400" /> : <User className="w-3 h-3 shrink-0 text-neutral-500" />}
+              <span className="truncate">{entry.actor === 'agent' ? `Agent: ${entry.label}` : entry.label}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Clip } from '../types';
+import { LoudnessReport, LoudnessTargetId, LOUDNESS_TARGETS, formatLoudness, isOnTarget } from '../utils/loudness';
+import { Gauge, X, Loader2 } from 'lucide-react';
+
+export interface ClipLoudness {
+  clip: Clip;
+  loudness: { integrated: number, truePeak: number } | null; // Null until measured
+}
+
+interface LoudnessPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: LoudnessTargetId;
+  onTargetChange: (target: LoudnessTargetId) => void;
+  mix: LoudnessReport | null; // Null until analyzed (or after the timeline changed)
+  clips: ClipLoudness[];
+  isBusy: boolean;
+  levelLabel: string; // What "level clips" applies to, e.g. "selected" or "dialogue"
+  onAnalyze: () => void;
+  onNormalizeMix: () => void;
+  onLevelClips: () => void;
+}
+
+// Meter scale, LUFS
+const METER_FLOOR = -40;
+const METER_CEILING = 0;
+const meterPercent = (value: number) => Math.max(0, Math.min(100, (value - METER_FLOOR) / (METER_CEILING - METER_FLOOR) * 100));
+
+export const LoudnessPanel: React.FC<LoudnessPanelProps> = ({ isOpen, onClose, target, onTargetChange, mix, clips, isBusy, levelLabel, onAnalyze, onNormalizeMix, onLevelClips }) => {
+  if (!isOpen) return null;
+  const goal = LOUDNESS_TARGETS[target];
+  const onTarget = mix ? isOnTarget(mix.integrated, goal) : false;
+
+  return (
+    <div className="absolute top-full mt-2 right-0 w-80 max-h-[70vh] flex flex-col bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+      <div className="p-3 border-b border-neutral-800 flex justify-between items-center bg-neutral-950">
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-neutral-400" />
+          <h3 className="font-bold text-white text-xs uppercase tracking-wide">Loudness</h3>
+          <select value={target} onChange={(e) => onTargetChange(e.target.value as LoudnessTargetId)} className="bg-neutral-800 border border-neutral-700 rounded text-[10px] text-neutral-300 px-1 py-0.5">
+            {(Object.keys(LOUDNESS_TARGETS) as LoudnessTargetId[]).map(id => <option key={id} value={id}>{LOUDNESS_TARGETS[id].label} ({LOUDNESS_TARGETS[id].integrated} LUFS)</option>)}
+          </select>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-neutral-800 rounded text-neutral-400 hover:text-white transition-colors"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="p-3 border-b border-neutral-800 space-y-2">
+        {mix ? (
+          <>
+            <div className="flex items-baseline justify-between">
+              <span className="text-[10px] text-neutral-500 uppercase">Integrated</span>
+              <span className={`text-lg font-mono ${onTarget ? 'text-green-400' : 'text-amber-400'}`}>{formatLoudness(mix.integrated)}</span>
+            </div>
+            <div className="relative h-2 bg-neutral-800 rounded-full overflow-hidden">
+              <div className={`h-full ${onTarget ? 'bg-green-500' : 'bg-amber-500'}`} style={{ width: `${meterPercent(mix.integrated)}%` }} />
+              <div className="absolute top-0 bottom-0 w-0.5 bg-white" style={{ left: `${meterPercent(goal.integrated)}%` }} title={`Target ${goal.integrated} LUFS`} />
+            </div>
+            {/* Short-term loudness over time */}
+            <div className="flex items-end gap-px h-8" title="Short-term loudness (3 s windows)">
+              {mix.shortTerm.map((value, i) => <div key={i} className="flex-1 bg-blue-500/60 rounded-t-sm min-w-px" style={{ height: `${meterPercent(value)}%` }} />)}
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-[10px]">
+              <div className="flex justify-between"><span className="text-neutral-500">Short-term max</span><span className="font-mono text-neutral-300">{formatLoudness(mix.shortTermMax)}</span></div>
+              <div className="flex justify-between"><span className="text-neutral-500">True peak</span><span className={`font-mono ${mix.truePeak > goal.truePeak ? 'text-red-400' : 'text-neutral-300'}`}>{formatLoudness(mix.truePeak, 'dBTP')}</span></div>
+            </div>
+          </>
+        ) : (
+          <p className="text-[11px] text-neutral-500">Analyze to measure the mix as it will export.</p>
+        )}
+        <div className="flex gap-1.5 pt-1">
+          <button onClick={onAnalyze} disabled={isBusy} className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] bg-neutral-800 hover:bg-neutral-700 text-neutral-200 disabled:opacity-50 transition-colors">{isBusy && <Loader2 className="w-3 h-3 animate-spin" />}Analyze</button>
+          <button onClick={onNormalizeMix} disabled={isBusy} className="flex-1 px-2 py-1.5 rounded-md text-[11px] bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50 transition-colors" title={`Move every clip so the mix hits ${goal.integrated} LUFS, limiter at ${goal.truePeak} dBTP`}>Normalize mix</button>
+          <button onClick={onLevelClips} disabled={isBusy} className="flex-1 px-2 py-1.5 rounded-md text-[11px] bg-neutral-800 hover:bg-neutral-700 text-neutral-200 disabled:opacity-50 transition-colors" title={`Bring each ${levelLabel} clip to ${goal.integrated} LUFS on its own`}>Level {levelLabel}</button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {clips.length === 0 && <p className="p-2 text-[11px] text-neutral-500">No clips with sound.</p>}
+        {clips.map(({ clip, loudness }) => (
+          <div key={clip.id} className="flex items-center gap-2 px-2 py-1 text-[11px]">
+            <span className="flex-1 truncate text-neutral-300">{clip.title}</span>
+            {loudness ? (
+              <>
+                <span className="font-mono text-neutral-400">{formatLoudness(loudness.integrated)}</span>
+                <span className={`font-mono w-16 text-right ${loudness.truePeak > 0 ? 'text-red-400' : 'text-neutral-500'}`}>{formatLoudness(loudness.truePeak, 'dBTP')}</span>
+              </>
+            ) : <span className="text-neutral-600">not measured</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
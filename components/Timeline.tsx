@@ -1,11 +1,43 @@
 
-import React, { useRef, useEffect, useState } from 'react';
-import { Clip, Transition } from '../types';
-import { X, Plus, Image as ImageIcon, Video, Layers, GripVertical, Mic, Wand2, Captions, Check, FlaskConical, Edit, Film, Trash2, MousePointer2, ZoomIn, ZoomOut, Minus, Magnet, Sparkles } from 'lucide-react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Clip, Transition, Track, TrackKind, Marker, TimeSpan } from '../types';
+import { getKeyframeTimes } from '../timeline/keyframes';
+import { DEFAULT_TRACK_HEIGHT, MAX_TRACK_GAIN, formatGain, formatPan } from '../timeline/tracks';
+import { MARKER_COLORS, markerEnd } from '../timeline/markers';
+import { getLinkPartner, getSyncOffset, isOutOfSync, formatSyncOffset, hasOwnAudio } from '../timeline/links';
+import { getFades } from '../timeline/fades';
+import { isTimeRemapped, describeSpeed } from '../timeline/timeRemap';
+import { BeatMap, getClipBeats, isBeatSource } from '../timeline/beats';
+import { WaveformPeaks } from '../utils/waveforms';
+import { ClipWaveform } from './ClipWaveform';
+import { ClipFilmstrip } from './ClipFilmstrip';
+import { X, Plus, Image as ImageIcon, Video, Layers, GripVertical, Mic, Wand2, Captions, Check, FlaskConical, Edit, Film, Trash2, MousePointer2, ZoomIn, ZoomOut, Minus, Magnet, Sparkles, Lock, Unlock, Eye, EyeOff, Volume2, VolumeX, Music, Type, Boxes, ChevronLeft, Flag, ListOrdered, Link2, Unlink, Gauge } from 'lucide-react';
+
+const MIN_TRACK_HEIGHT = 48;
+const MAX_TRACK_HEIGHT = 240;
+
+// Edit tools: 'select' moves and trims freely; the others map to the TimelineOps trim modes
+export type TimelineTool = 'select' | 'ripple' | 'roll' | 'slip' | 'slide';
+
+export interface TrimEditRequest {
+  tool: Exclude<TimelineTool, 'select'>;
+  clipId: string;
+  toClipId?: string; // Roll: the incoming clip at the cut
+  edge?: 'start' | 'end'; // Ripple: which edge is trimmed
+  delta: number; // Timeline seconds, positive = later
+}
+
+const TOOLS: { id: TimelineTool, label: string, hint: string }[] = [
+  { id: 'select', label: 'Select', hint: 'Move clips and trim edges' },
+  { id: 'ripple', label: 'Ripple', hint: 'Trim an edge and shift everything after it' },
+  { id: 'roll', label: 'Roll', hint: 'Drag a cut between two touching clips' },
+  { id: 'slip', label: 'Slip', hint: 'Drag a clip to change which part of its source plays' },
+  { id: 'slide', label: 'Slide', hint: 'Drag a clip between its neighbors, trimming them to fit' }
+];
 
 interface TimelineProps {
   clips: Clip[];
-  tracks: number[]; // Array of track IDs
+  tracks: Track[]; // Bottom to top
   currentTime: number;
   onSeek: (time: number) => void;
   onDelete: (ids: string[]) => void;
@@ -13,7 +45,19 @@ interface TimelineProps {
   onAddMediaRequest: (trackId: number) => void;
   onResize: (id: string, newDuration: number, mode: 'start' | 'end', commit: boolean) => void;
   onReorder: (sourceId: string, newStartTime: number, targetTrackId: number, commit: boolean) => void;
-  onAddTrack: (position: 'top' | 'bottom') => void;
+  onAddTrack: (position: 'top' | 'bottom', kind: TrackKind) => void;
+  onUpdateTrack?: (id: number, updates: Partial<Omit<Track, 'id'>>, gesture?: string) => void; // `gesture` names a drag or slider whose updates make one undo step
+  onClipFade?: (id: string, fades: { fadeIn?: number, fadeOut?: number }, gesture?: string) => void;
+  onTrimEdit?: (edit: TrimEditRequest) => number; // Returns the delta actually applied; one drag's steps make one undo step
+  sequencePath?: { id: string | null, name: string }[]; // Root timeline first; longer than one while a compound clip is open
+  onCreateCompound?: () => void;
+  onOpenCompound?: (clip: Clip) => void;
+  onCloseSequence?: () => void;
+  markers?: Marker[];
+  onAddMarker?: () => void; // At the playhead
+  onUpdateMarker?: (id: string, updates: Partial<Omit<Marker, 'id'>>, gesture?: string) => void;
+  onRemoveMarker?: (id: string) => void;
+  onExportChapters?: (format: 'youtube' | 'webvtt') => void;
   selectedClipIds: string[];
   onTransitionRequest?: (clipA: Clip, clipB: Clip) => void;
   onCaptionRequest?: () => void;
@@ -27,6 +71,9 @@ interface TimelineProps {
   onPick?: (id: string, name: string) => void; 
   transitions?: Transition[]; // New Prop
   onDeleteTransition?: (id: string) => void; // New Prop
+  beats?: BeatMap; // Analysed sources; their beats are drawn on audio clips and snapped to
+  waveforms?: Record<string, WaveformPeaks>; // Peaks by source URL, drawn inside clips with sound
+  cutPreview?: { clipId: string, spans: TimeSpan[] } | null; // Stretches about to be cut from a clip (timeline seconds)
 }
 
 export const Timeline: React.FC<TimelineProps> = ({ 
@@ -40,6 +87,18 @@ export const Timeline: React.FC<TimelineProps> = ({
     onResize,
     onReorder,
     onAddTrack,
+    onUpdateTrack,
+    onClipFade,
+    onTrimEdit,
+    sequencePath = [],
+    onCreateCompound,
+    onOpenCompound,
+    onCloseSequence,
+    markers = [],
+    onAddMarker,
+    onUpdateMarker,
+    onRemoveMarker,
+    onExportChapters,
     selectedClipIds,
     onTransitionRequest,
     onCaptionRequest,
@@ -52,7 +111,10 @@ export const Timeline: React.FC<TimelineProps> = ({
     isPickingMode = false,
     onPick,
     transitions = [],
-    onDeleteTransition
+    onDeleteTransition,
+    beats = {},
+    waveforms = {},
+    cutPreview
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -63,6 +125,25 @@ export const Timeline: React.FC<TimelineProps> = ({
   // SNAP STATE
   const [isSnappingEnabled, setIsSnappingEnabled] = useState(true);
 
+  // BEAT STATE
+  const clipBeats = useMemo(() => getClipBeats(clips.filter(isBeatSource), beats), [clips, beats]);
+
+  // TRACK STATE
+  const [newTrackKind, setNewTrackKind] = useState<TrackKind>('video');
+  const [renamingTrackId, setRenamingTrackId] = useState<number | null>(null);
+  const isLocked = (trackId: number) => !!tracks.find(t => t.id === trackId)?.locked;
+
+  // MARKER STATE
+  const [editingMarkerId, setEditingMarkerId] = useState<string | null>(null);
+  const [showChapterMenu, setShowChapterMenu] = useState(false);
+  const editingMarker = markers.find(m => m.id === editingMarkerId);
+
+  // EDIT TOOL STATE
+  const [tool, setTool] = useState<TimelineTool>('select');
+  const findTouching = (clip: Clip, side: 'prev' | 'next') => clips.find(c => c.id !== clip.id && c.trackId === clip.trackId && (side === 'prev'
+      ? Math.abs(c.startTime + c.duration - clip.startTime) < 0.05
+      : Math.abs(clip.startTime + clip.duration - c.startTime) < 0.05));
+
   const [dragState, setDragState] = useState<{
       type: 'move' | 'resize';
       clipId: string;
@@ -119,6 +200,13 @@ export const Timeline: React.FC<TimelineProps> = ({
           points.push(c.startTime);
           points.push(c.startTime + c.duration);
       });
+      markers.forEach(m => {
+          points.push(m.time);
+          if (m.duration) points.push(markerEnd(m));
+      });
+      clipBeats.forEach((clipBeatList, clipId) => {
+          if (clipId !== ignoreId) clipBeatList.forEach(b => points.push(b.time));
+      });
       
       let snappedTime = candidateTime;
       let isSnapped = false;
@@ -244,13 +332,13 @@ export const Timeline: React.FC<TimelineProps> = ({
           document.removeEventListener('mousemove', handleMouseMove);
           document.removeEventListener('mouseup', handleMouseUp);
       };
-  }, [dragState, onResize, onReorder, clips, currentTime, dragOverTrackId, isEjectCandidate, onClipEject, pxPerSec, isSnappingEnabled]);
+  }, [dragState, onResize, onReorder, clips, markers, clipBeats, currentTime, dragOverTrackId, isEjectCandidate, onClipEject, pxPerSec, isSnappingEnabled]);
 
   const totalDuration = clips.reduce((acc, clip) => Math.max(acc, clip.startTime + clip.duration), 0);
-  const markers: number[] = [];
+  const ticks: number[] = [];
   const interval = 5;
   const endMarker = Math.max(Math.ceil(totalDuration / interval) * interval + interval, 30);
-  for (let t = 0; t <= endMarker; t += interval) markers.push(t);
+  for (let t = 0; t <= endMarker; t += interval) ticks.push(t);
 
   const formatTime = (seconds: number) => {
     const m = Math.floor(seconds / 60);
@@ -318,10 +406,37 @@ export const Timeline: React.FC<TimelineProps> = ({
       document.addEventListener('mouseup', handleMouseUp);
   };
 
+  // Trim tools edit the store live; each mousemove sends only the not-yet-applied part of the drag
+  const startTrimDrag = (e: React.MouseEvent, request: Omit<TrimEditRequest, 'delta'>, direction: 1 | -1 = 1) => {
+      if (!onTrimEdit) return;
+      const startX = e.clientX;
+      let applied = 0;
+      const handleMove = (moveEvent: MouseEvent) => {
+          const step = (direction * (moveEvent.clientX - startX)) / pxPerSec - applied;
+          if (Math.abs(step) < 0.001) return;
+          applied += onTrimEdit({ ...request, delta: step });
+      };
+      const handleUp = () => {
+          document.removeEventListener('mousemove', handleMove);
+          document.removeEventListener('mouseup', handleUp);
+      };
+      document.addEventListener('mousemove', handleMove);
+      document.addEventListener('mouseup', handleUp);
+  };
+
   const startResize = (e: React.MouseEvent, clip: Clip, mode: 'start' | 'end') => {
       if (isSelectionMode || isPickingMode) return;
       e.preventDefault();
       e.stopPropagation();
+      if (isLocked(clip.trackId)) return;
+      if (tool === 'ripple') return startTrimDrag(e, { tool: 'ripple', clipId: clip.id, edge: mode });
+      if (tool === 'roll') {
+          const neighbor = findTouching(clip, mode === 'end' ? 'next' : 'prev');
+          if (!neighbor) return;
+          const [from, to] = mode === 'end' ? [clip, neighbor] : [neighbor, clip];
+          return startTrimDrag(e, { tool: 'roll', clipId: from.id, toClipId: to.id });
+      }
+      if (tool === 'slip' || tool === 'slide') return startMove(e, clip);
       setDragState({ 
           type: 'resize',
           clipId: clip.id, 
@@ -341,6 +456,11 @@ export const Timeline: React.FC<TimelineProps> = ({
       e.preventDefault();
       e.stopPropagation();
       onSelect(clip.id, e);
+      if (isLocked(clip.trackId)) return;
+      // Slip drags the footage under the clip, so it follows the mouse the other way
+      if (tool === 'slip') return startTrimDrag(e, { tool: 'slip', clipId: clip.id }, -1);
+      if (tool === 'slide') return startTrimDrag(e, { tool: 'slide', clipId: clip.id });
+      if (tool !== 'select') return;
       setDragState({
           type: 'move',
           clipId: clip.id,
@@ -362,6 +482,67 @@ export const Timeline: React.FC<TimelineProps> = ({
   const endTimeStr = formatTime(selectionEnd / pxPerSec);
   const durationStr = (selectionWidth / pxPerSec).toFixed(1) + 's';
 
+  // Drag the bottom edge of a lane to resize it; consecutive updates fold into one history step
+  const startTrackResize = (e: React.MouseEvent, track: Track) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const startY = e.clientY;
+      const startHeight = track.height ?? DEFAULT_TRACK_HEIGHT;
+      const handleMove = (moveEvent: MouseEvent) => {
+          const height = Math.round(Math.min(MAX_TRACK_HEIGHT, Math.max(MIN_TRACK_HEIGHT, startHeight + moveEvent.clientY - startY)));
+          onUpdateTrack?.(track.id, { height }, 'height');
+      };
+      const handleUp = () => {
+          document.removeEventListener('mousemove', handleMove);
+          document.removeEventListener('mouseup', handleUp);
+      };
+      document.addEventListener('mousemove', handleMove);
+      document.addEventListener('mouseup', handleUp);
+  };
+
+  // Dragging a marker pin moves it; a click without movement seeks there and opens its editor
+  const startMarkerDrag = (e: React.MouseEvent, marker: Marker) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (isSelectionMode || isPickingMode) return;
+      const startX = e.clientX;
+      let moved = false;
+      const handleMove = (moveEvent: MouseEvent) => {
+          if (!moved && Math.abs(moveEvent.clientX - startX) < 3) return;
+          moved = true;
+          onUpdateMarker?.(marker.id, { time: Math.max(0, marker.time + (moveEvent.clientX - startX) / pxPerSec) }, 'time');
+      };
+      const handleUp = () => {
+          document.removeEventListener('mousemove', handleMove);
+          document.removeEventListener('mouseup', handleUp);
+          if (moved) return;
+          onSeek(marker.time);
+          setEditingMarkerId(marker.id);
+      };
+      document.addEventListener('mousemove', handleMove);
+      document.addEventListener('mouseup', handleUp);
+  };
+
+  // Dragging a fade handle inwards lengthens the fade; the two fades never overlap
+  const startFadeDrag = (e: React.MouseEvent, clip: Clip, edge: 'in' | 'out') => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (isSelectionMode || isPickingMode || isLocked(clip.trackId)) return;
+      const startX = e.clientX;
+      const { fadeIn, fadeOut } = getFades(clip);
+      const handleMove = (moveEvent: MouseEvent) => {
+          const delta = (moveEvent.clientX - startX) / pxPerSec;
+          const length = (value: number, other: number) => Math.round(Math.min(clip.duration - other, Math.max(0, value)) * 100) / 100;
+          onClipFade?.(clip.id, edge === 'in' ? { fadeIn: length(fadeIn + delta, fadeOut) } : { fadeOut: length(fadeOut - delta, fadeIn) }, `fade-${edge}`);
+      };
+      const handleUp = () => {
+          document.removeEventListener('mousemove', handleMove);
+          document.removeEventListener('mouseup', handleUp);
+      };
+      document.addEventListener('mousemove', handleMove);
+      document.addEventListener('mouseup', handleUp);
+  };
+
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev * 1.2, 5));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev / 1.2, 0.5));
 
@@ -369,10 +550,15 @@ export const Timeline: React.FC<TimelineProps> = ({
     <div className={`w-full h-full bg-neutral-900 border-t border-neutral-800 flex flex-col relative select-none ${isSelectionMode ? 'cursor-crosshair' : ''}`}>
        <div className="h-8 border-b border-neutral-800 flex items-center justify-between px-2 bg-neutral-800/50">
            <div className="flex items-center gap-2">
-                <button disabled={isSelectionMode || isPickingMode} onClick={() => onAddTrack('top')} className="flex items-center gap-1 text-[10px] bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 px-2 py-0.5 rounded text-neutral-300 hover:text-white transition-colors disabled:opacity-50">
+                <select value={newTrackKind} onChange={(e) => setNewTrackKind(e.target.value as TrackKind)} disabled={isSelectionMode || isPickingMode} className="text-[10px] bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-300 outline-none disabled:opacity-50" title="Kind of track to add">
+                    <option value="video">Video</option>
+                    <option value="audio">Audio</option>
+                    <option value="text">Text</option>
+                </select>
+                <button disabled={isSelectionMode || isPickingMode} onClick={() => onAddTrack('top', newTrackKind)} className="flex items-center gap-1 text-[10px] bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 px-2 py-0.5 rounded text-neutral-300 hover:text-white transition-colors disabled:opacity-50">
                     <Layers size={10} /> Add Track Above
                 </button>
-                <button disabled={isSelectionMode || isPickingMode} onClick={() => onAddTrack('bottom')} className="flex items-center gap-1 text-[10px] bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 px-2 py-0.5 rounded text-neutral-300 hover:text-white transition-colors disabled:opacity-50">
+                <button disabled={isSelectionMode || isPickingMode} onClick={() => onAddTrack('bottom', newTrackKind)} className="flex items-center gap-1 text-[10px] bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 px-2 py-0.5 rounded text-neutral-300 hover:text-white transition-colors disabled:opacity-50">
                     <Layers size={10} /> Add Track Below
                 </button>
                 <div className="w-px h-4 bg-neutral-700 mx-1" />
@@ -382,8 +568,55 @@ export const Timeline: React.FC<TimelineProps> = ({
                 <button disabled={isSelectionMode || isPickingMode} onClick={onOpenFoundry} className="flex items-center gap-1.5 text-[10px] bg-indigo-900/30 hover:bg-indigo-900/50 border border-indigo-500/30 px-2 py-0.5 rounded text-indigo-200 hover:text-white transition-colors disabled:opacity-50">
                     <FlaskConical size={10} /> Asset Foundry
                 </button>
+                {onCreateCompound && (
+                    <button disabled={isSelectionMode || isPickingMode || selectedClipIds.length < 2} onClick={onCreateCompound} className="flex items-center gap-1.5 text-[10px] bg-teal-900/30 hover:bg-teal-900/50 border border-teal-500/30 px-2 py-0.5 rounded text-teal-200 hover:text-white transition-colors disabled:opacity-50" title="Collapse the selected clips into one compound clip">
+                        <Boxes size={10} /> Compound
+                    </button>
+                )}
+                {onAddMarker && (
+                    <button disabled={isSelectionMode || isPickingMode} onClick={onAddMarker} className="flex items-center gap-1.5 text-[10px] bg-amber-900/30 hover:bg-amber-900/50 border border-amber-500/30 px-2 py-0.5 rounded text-amber-200 hover:text-white transition-colors disabled:opacity-50" title="Add a marker at the playhead (M)">
+                        <Flag size={10} /> Marker
+                    </button>
+                )}
+                {onExportChapters && (
+                    <div className="relative">
+                        <button disabled={isSelectionMode || isPickingMode || markers.length === 0} onClick={() => setShowChapterMenu(p => !p)} className="flex items-center gap-1.5 text-[10px] bg-neutral-800 hover:bg-neutral-700 border border-neutral-700 px-2 py-0.5 rounded text-neutral-300 hover:text-white transition-colors disabled:opacity-50" title="Export markers as chapters">
+                            <ListOrdered size={10} /> Chapters
+                        </button>
+                        {showChapterMenu && (
+                            <div className="absolute top-full mt-1 left-0 w-48 bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-1 z-[120]">
+                                <button onClick={() => { setShowChapterMenu(false); onExportChapters('youtube'); }} className="w-full text-left px-2 py-1.5 rounded-md hover:bg-neutral-700 transition-colors"><div className="text-[10px] text-white font-medium">YouTube chapters</div><div className="text-[9px] text-neutral-500">Timestamps for the description (.txt)</div></button>
+                                <button onClick={() => { setShowChapterMenu(false); onExportChapters('webvtt'); }} className="w-full text-left px-2 py-1.5 rounded-md hover:bg-neutral-700 transition-colors"><div className="text-[10px] text-white font-medium">WebVTT chapters</div><div className="text-[9px] text-neutral-500">For HTML5 players (.vtt)</div></button>
+                            </div>
+                        )}
+                    </div>
+                )}
+                {sequencePath.length > 1 && (
+                    <div className="flex items-center gap-1 text-[10px] text-teal-200">
+                        <div className="w-px h-4 bg-neutral-700 mx-1" />
+                        <button onClick={onCloseSequence} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-teal-500/10 hover:bg-teal-500/20 border border-teal-500/30 transition-colors" title="Back to the enclosing timeline">
+                            <ChevronLeft size={10} /> Back
+                        </button>
+                        <span className="text-neutral-500 truncate max-w-[240px]">{sequencePath.map(p => p.name).join(' › ')}</span>
+                    </div>
+                )}
            </div>
            <div className="flex items-center gap-3">
+               {onTrimEdit && (
+                   <div className="flex items-center gap-0.5 bg-neutral-800 rounded p-0.5 border border-neutral-700">
+                       {TOOLS.map(t => (
+                           <button
+                               key={t.id}
+                               disabled={isSelectionMode || isPickingMode}
+                               onClick={() => setTool(t.id)}
+                               className={`px-1.5 py-0.5 rounded text-[9px] font-medium transition-colors disabled:opacity-50 ${tool === t.id ? 'text-blue-300 bg-blue-400/10' : 'text-neutral-500 hover:text-neutral-300'}`}
+                               title={t.hint}
+                           >
+                               {t.label}
+                           </button>
+                       ))}
+                   </div>
+               )}
                <div className="flex items-center gap-1 bg-neutral-800 rounded p-0.5 border border-neutral-700">
                    <button 
                        onClick={() => setIsSnappingEnabled(p => !p)} 
@@ -401,6 +634,49 @@ export const Timeline: React.FC<TimelineProps> = ({
            </div>
        </div>
 
+      {editingMarker && (
+          <div className="absolute top-9 right-2 w-64 z-[120] bg-neutral-800 border border-neutral-700 rounded-lg shadow-xl p-2 flex flex-col gap-2 text-[10px]" key={editingMarker.id}>
+              <div className="flex items-center gap-2">
+                  <Flag size={10} style={{ color: editingMarker.color }} />
+                  <input
+                      autoFocus
+                      defaultValue={editingMarker.name}
+                      onBlur={(e) => { const name = e.target.value.trim(); if (name && name !== editingMarker.name) onUpdateMarker?.(editingMarker.id, { name }); }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); if (e.key === 'Escape') setEditingMarkerId(null); }}
+                      className="flex-1 min-w-0 bg-neutral-900 border border-neutral-700 rounded px-1.5 py-0.5 text-neutral-200 outline-none focus:border-amber-500/50"
+                  />
+                  <span className="text-neutral-500 font-mono">{editingMarker.time.toFixed(2)}s</span>
+                  <button onClick={() => setEditingMarkerId(null)} className="text-neutral-500 hover:text-white" title="Close"><X size={10} /></button>
+              </div>
+              <div className="flex items-center gap-1">
+                  {MARKER_COLORS.map(color => (
+                      <button key={color} onClick={() => onUpdateMarker?.(editingMarker.id, { color })} className={`w-3.5 h-3.5 rounded-full border ${editingMarker.color === color ? 'border-white' : 'border-transparent'}`} style={{ backgroundColor: color }} title={color} />
+                  ))}
+                  <label className="ml-auto flex items-center gap-1 text-neutral-500" title="Make this a range marker (0 for a point)">
+                      Range
+                      <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          defaultValue={editingMarker.duration || 0}
+                          onBlur={(e) => { const duration = Math.max(0, Number(e.target.value) || 0); if (duration !== (editingMarker.duration || 0)) onUpdateMarker?.(editingMarker.id, { duration: duration || undefined }); }}
+                          onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                          className="w-12 bg-neutral-900 border border-neutral-700 rounded px-1 py-0.5 text-neutral-200 outline-none"
+                      />
+                      s
+                  </label>
+              </div>
+              <textarea
+                  defaultValue={editingMarker.note || ''}
+                  placeholder="Note"
+                  rows={2}
+                  onBlur={(e) => { const note = e.target.value.trim() || undefined; if (note !== editingMarker.note) onUpdateMarker?.(editingMarker.id, { note }); }}
+                  className="bg-neutral-900 border border-neutral-700 rounded px-1.5 py-1 text-neutral-200 outline-none resize-none focus:border-amber-500/50"
+              />
+              <button onClick={() => { onRemoveMarker?.(editingMarker.id); setEditingMarkerId(null); }} className="self-start flex items-center gap-1 text-red-400 hover:text-red-300"><Trash2 size={10} /> Delete marker</button>
+          </div>
+      )}
+
       <div className="flex-1 overflow-x-auto overflow-y-auto scroll-smooth relative custom-scrollbar">
         {isEjectCandidate && (
             <div className="fixed top-14 left-0 right-80 h-32 z-[200] bg-red-500/20 border-b border-red-500/50 flex items-center justify-center pointer-events-none backdrop-blur-sm animate-in fade-in">
@@ -438,18 +714,57 @@ export const Timeline: React.FC<TimelineProps> = ({
                 <div className="absolute top-0 bottom-0 left-0 right-0 bg-red-500/20 w-px blur-[1px]" />
             </div>
 
+            {markers.map(marker => (
+                <div key={marker.id} className="absolute top-0 bottom-8 z-40 pointer-events-none" style={{ left: `${marker.time * pxPerSec}px`, width: `${Math.max(1, (marker.duration || 0) * pxPerSec)}px`, borderLeft: `1px dashed ${marker.color}`, backgroundColor: marker.duration ? `${marker.color}14` : undefined, opacity: 0.6 }} />
+            ))}
+
             {snapLineX !== null && (<div className="absolute top-0 bottom-0 w-px bg-yellow-400 z-[60] pointer-events-none shadow-[0_0_8px_rgba(250,204,21,0.8)]" style={{ left: `${snapLineX}px` }} />)}
 
             <div className={`flex flex-col py-4 gap-2 transition-opacity duration-300 ${isSelectionMode ? 'opacity-100' : 'opacity-100'}`}>
-                {[...tracks].reverse().map((trackId) => {
+                {[...tracks].reverse().map((track) => {
+                    const trackId = track.id;
                     const trackClips = clips.filter(c => c.trackId === trackId).sort((a, b) => a.startTime - b.startTime);
                     const trackTransitions = transitions.filter(t => t.trackId === trackId);
                     const isTrackDragOver = dragOverTrackId === trackId;
+                    const KindIcon = track.kind === 'audio' ? Music : track.kind === 'text' ? Type : Video;
+                    const toggleClass = (active: boolean, activeClass: string) => `p-0.5 rounded transition-colors ${active ? activeClass : 'text-neutral-600 hover:text-neutral-300'}`;
                     
                     return (
-                        <div key={trackId} className="relative" onMouseEnter={() => dragState?.type === 'move' && setDragOverTrackId(trackId)}>
-                            <div className="absolute left-2 -top-3 text-[9px] font-bold text-neutral-600 uppercase tracking-widest pointer-events-none z-10">Track {trackId + 1}</div>
-                            <div className={`h-24 w-full relative transition-colors ${isTrackDragOver ? 'bg-blue-900/10' : 'bg-neutral-800/20'} border-y border-neutral-800/30`} style={{ minWidth: `${(endMarker + 10) * pxPerSec}px` }}>
+                        <div key={trackId} className="relative" onMouseEnter={() => dragState?.type === 'move' && !track.locked && setDragOverTrackId(trackId)}>
+                            {/* TRACK HEADER */}
+                            <div className="absolute left-2 -top-3.5 flex items-center gap-1 text-[9px] font-bold text-neutral-600 uppercase tracking-widest z-30" onMouseDown={(e) => e.stopPropagation()}>
+                                <KindIcon size={9} />
+                                {renamingTrackId === trackId ? (
+                                    <input
+                                        autoFocus
+                                        defaultValue={track.name}
+                                        onBlur={(e) => { if (e.target.value.trim()) onUpdateTrack?.(trackId, { name: e.target.value.trim() }); setRenamingTrackId(null); }}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); if (e.key === 'Escape') setRenamingTrackId(null); }}
+                                        className="w-24 bg-neutral-800 border border-neutral-600 rounded px-1 text-neutral-200 normal-case tracking-normal outline-none"
+                                    />
+                                ) : (
+                                    <span onDoubleClick={() => setRenamingTrackId(trackId)} className="cursor-text" title="Double-click to rename">{track.name}</span>
+                                )}
+                                <button onClick={() => onUpdateTrack?.(trackId, { locked: !track.locked })} className={toggleClass(!!track.locked, 'text-amber-400')} title={track.locked ? 'Unlock track' : 'Lock track'}>{track.locked ? <Lock size={9} /> : <Unlock size={9} />}</button>
+                                {track.kind !== 'text' && (
+                                    <button onClick={() => onUpdateTrack?.(trackId, { muted: !track.muted })} className={toggleClass(!!track.muted, 'text-red-400')} title={track.muted ? 'Unmute track' : 'Mute track'}>{track.muted ? <VolumeX size={9} /> : <Volume2 size={9} />}</button>
+                                )}
+                                {track.kind !== 'text' && (
+                                    <>
+                                        <input type="range" min={0} max={MAX_TRACK_GAIN} step={0.01} value={track.gain ?? 1} onChange={(e) => onUpdateTrack?.(trackId, { gain: Number(e.target.value) }, 'gain')} onDoubleClick={() => onUpdateTrack?.(trackId, { gain: 1 })} className="w-12 h-1 accent-neutral-400 cursor-pointer" title={`Track gain ${formatGain(track.gain ?? 1)} (double-click to reset)`} />
+                                        <input type="range" min={-1} max={1} step={0.01} value={track.pan ?? 0} onChange={(e) => onUpdateTrack?.(trackId, { pan: Number(e.target.value) }, 'pan')} onDoubleClick={() => onUpdateTrack?.(trackId, { pan: 0 })} className="w-8 h-1 accent-neutral-400 cursor-pointer" title={`Pan ${formatPan(track.pan ?? 0)} (double-click to centre)`} />
+                                    </>
+                                )}
+                                <button onClick={() => onUpdateTrack?.(trackId, { solo: !track.solo })} className={`${toggleClass(!!track.solo, 'text-yellow-300 bg-yellow-500/20')} px-1 leading-none`} title={track.solo ? 'Unsolo track' : 'Solo track'}>S</button>
+                                {track.kind !== 'audio' && (
+                                    <button onClick={() => onUpdateTrack?.(trackId, { hidden: !track.hidden })} className={toggleClass(!!track.hidden, 'text-blue-400')} title={track.hidden ? 'Show track' : 'Hide track'}>{track.hidden ? <EyeOff size={9} /> : <Eye size={9} />}</button>
+                                )}
+                            </div>
+                            <div className={`w-full relative transition-colors ${isTrackDragOver ? 'bg-blue-900/10' : 'bg-neutral-800/20'} border-y border-neutral-800/30 ${track.hidden || track.muted ? 'opacity-50' : ''}`} style={{ minWidth: `${(endMarker + 10) * pxPerSec}px`, height: `${track.height ?? DEFAULT_TRACK_HEIGHT}px` }}>
+                                {track.locked && (
+                                    <div className="absolute inset-0 z-[25] pointer-events-none bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(255,255,255,0.03)_6px,rgba(255,255,255,0.03)_12px)]" />
+                                )}
+                                <div className="absolute left-0 right-0 -bottom-1 h-2 cursor-ns-resize z-30" onMouseDown={(e) => startTrackResize(e, track)} title="Drag to resize track" />
                                 {trackClips.map((clip, index) => {
                                     const isDraggingThis = dragState?.clipId === clip.id;
                                     const isActive = currentTime >= clip.startTime && currentTime < (clip.startTime + clip.duration);
@@ -457,6 +772,9 @@ export const Timeline: React.FC<TimelineProps> = ({
                                     const isAudio = clip.type === 'audio';
                                     const isText = clip.type === 'text';
                                     const isImage = clip.type === 'image';
+                                    const isCompound = clip.type === 'compound';
+                                    const linkPartner = getLinkPartner(clips, clip);
+                                    const showFades = hasOwnAudio(clip);
 
                                     const displayStart = isDraggingThis ? dragState.currentStartTime : clip.startTime;
                                     const displayDuration = isDraggingThis ? dragState.currentDuration : clip.duration;
@@ -468,6 +786,9 @@ export const Timeline: React.FC<TimelineProps> = ({
                                     if (isAudio) {
                                         bgClass = isSelected ? 'bg-orange-500/50' : isActive ? 'bg-orange-500/40' : 'bg-orange-500/20 border-orange-500/30 hover:bg-orange-600/30';
                                         icon = <Mic size={10} className="text-orange-300" />;
+                                    } else if (isCompound) {
+                                        bgClass = isSelected ? 'bg-teal-500/50' : isActive ? 'bg-teal-500/40' : 'bg-teal-500/20 border-teal-500/30 hover:bg-teal-600/30';
+                                        icon = <Boxes size={10} className="text-teal-300" />;
                                     } else if (isText) {
                                         bgClass = isSelected ? 'bg-emerald-500/50' : isActive ? 'bg-emerald-500/40' : 'bg-emerald-500/20 border-emerald-500/30 hover:bg-emerald-600/30';
                                         icon = <Captions size={10} className="text-emerald-300" />;
@@ -502,7 +823,8 @@ export const Timeline: React.FC<TimelineProps> = ({
                                                     }
                                                 }}
                                                 onMouseDown={(e) => startMove(e, clip)}
-                                                className={`group absolute top-1 bottom-1 rounded-md flex flex-col justify-between p-2 transition-all duration-0 ease-linear border overflow-hidden ${isPickingMode ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'} ${bgClass} ${isSelected ? 'border-white ring-2 ring-white/50 z-20' : 'z-10'}`}
+                                                onDoubleClick={(e) => { if (isCompound && !isPickingMode && onOpenCompound) { e.stopPropagation(); onOpenCompound(clip); } }}
+                                                className={`group absolute top-1 bottom-1 rounded-md flex flex-col justify-between p-2 transition-all duration-0 ease-linear border overflow-hidden ${isPickingMode ? 'cursor-crosshair' : track.locked ? 'cursor-not-allowed' : tool === 'slip' || tool === 'slide' ? 'cursor-ew-resize' : 'cursor-grab active:cursor-grabbing'} ${bgClass} ${isSelected ? 'border-white ring-2 ring-white/50 z-20' : 'z-10'}`}
                                                 style={{ left: `${displayStart * pxPerSec}px`, width: `${displayDuration * pxPerSec}px`, boxShadow: isDraggingThis ? '0 4px 12px rgba(0,0,0,0.5)' : undefined, opacity: isDraggingThis ? 0.9 : 1, zIndex: isDraggingThis ? 100 : undefined }}
                                             >
                                                 {isPickingMode && (
@@ -513,12 +835,59 @@ export const Timeline: React.FC<TimelineProps> = ({
                                                     </div>
                                                 )}
 
-                                                <div data-resize-handle className={`absolute left-0 top-0 bottom-0 w-3 cursor-w-resize hover:bg-white/20 z-40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity ${isPickingMode ? 'hidden' : ''}`} onMouseDown={(e) => startResize(e, clip, 'start')}><div className="w-0.5 h-6 bg-white/50 rounded-full" /></div>
-                                                <div data-resize-handle className={`absolute right-0 top-0 bottom-0 w-3 cursor-e-resize hover:bg-white/20 z-40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity ${isPickingMode ? 'hidden' : ''}`} onMouseDown={(e) => startResize(e, clip, 'end')}><div className="w-0.5 h-6 bg-white/50 rounded-full" /></div>
+                                                <div data-resize-handle className={`absolute left-0 top-0 bottom-0 w-3 cursor-w-resize hover:bg-white/20 z-40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity ${isPickingMode || track.locked ? 'hidden' : ''}`} onMouseDown={(e) => startResize(e, clip, 'start')}><div className="w-0.5 h-6 bg-white/50 rounded-full" /></div>
+                                                <div data-resize-handle className={`absolute right-0 top-0 bottom-0 w-3 cursor-e-resize hover:bg-white/20 z-40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity ${isPickingMode || track.locked ? 'hidden' : ''}`} onMouseDown={(e) => startResize(e, clip, 'end')}><div className="w-0.5 h-6 bg-white/50 rounded-full" /></div>
+
+                                                {/* FILMSTRIP: frames of the part of the source the clip shows */}
+                                                {clip.type === 'video' && clip.sourceUrl && (
+                                                    <ClipFilmstrip clip={clip} pxPerSec={pxPerSec} duration={displayDuration} height={(track.height ?? DEFAULT_TRACK_HEIGHT) - 8} />
+                                                )}
+
+                                                {/* WAVEFORM: the part of the source the clip plays, at its speed */}
+                                                {showFades && clip.sourceUrl && waveforms[clip.sourceUrl] && (
+                                                    <ClipWaveform clip={clip} waveform={waveforms[clip.sourceUrl]} pxPerSec={pxPerSec} duration={displayDuration} color={isAudio ? 'rgba(253, 186, 116, 0.55)' : 'rgba(147, 197, 253, 0.4)'} />
+                                                )}
+
+                                                {/* CUT PREVIEW: what a jump-cut tool is about to remove */}
+                                                {cutPreview?.clipId === clip.id && cutPreview.spans.map((span, i) => (
+                                                    <div key={i} className="absolute inset-y-0 bg-red-500/40 border-x border-red-400 pointer-events-none z-30" style={{ left: `${(span.start - clip.startTime) * pxPerSec}px`, width: `${(span.end - span.start) * pxPerSec}px` }} />
+                                                ))}
+
+                                                {/* BEATS: a tick per beat, taller on downbeats */}
+                                                {clipBeats.get(clip.id)?.map((beat, i) => (
+                                                    <div key={i} className={`absolute bottom-0 w-px pointer-events-none ${beat.isDownbeat ? 'h-1/2 bg-white/70' : 'h-1/4 bg-white/40'}`} style={{ left: `${(beat.time - clip.startTime) * pxPerSec}px`, opacity: 0.4 + beat.strength * 0.6 }} />
+                                                ))}
+
+                                                {/* FADES: shaded ramps, with handles in the top corners that drag inwards */}
+                                                {showFades && (() => {
+                                                    const { fadeIn, fadeOut } = getFades({ ...clip, duration: displayDuration });
+                                                    const canDrag = !isPickingMode && !track.locked && !!onClipFade;
+                                                    const handleClass = (length: number) => `absolute top-0 w-2.5 h-2.5 bg-white border border-neutral-900 cursor-ew-resize z-50 ${length > 0 ? '' : 'opacity-0 group-hover:opacity-100'} ${canDrag ? '' : 'hidden'}`;
+                                                    return (
+                                                        <>
+                                                            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${displayDuration} 100`} preserveAspectRatio="none">
+                                                                {fadeIn > 0 && <polygon points={`0,0 ${fadeIn},0 0,100`} fill="rgba(0,0,0,0.35)" />}
+                                                                {fadeIn > 0 && <polyline points={`0,100 ${fadeIn},0`} fill="none" stroke="rgba(255,255,255,0.6)" strokeWidth={1} vectorEffect="non-scaling-stroke" />}
+                                                                {fadeOut > 0 && <polygon points={`${displayDuration},0 ${displayDuration - fadeOut},0 ${displayDuration},100`} fill="rgba(0,0,0,0.35)" />}
+                                                                {fadeOut > 0 && <polyline points={`${displayDuration - fadeOut},0 ${displayDuration},100`} fill="none" stroke="rgba(255,255,255,0.6)" strokeWidth={1} vectorEffect="non-scaling-stroke" />}
+                                                            </svg>
+                                                            <div data-resize-handle className={`${handleClass(fadeIn)} rounded-br-sm`} style={{ left: `${fadeIn * pxPerSec}px` }} onMouseDown={(e) => startFadeDrag(e, clip, 'in')} title={`Fade in ${fadeIn.toFixed(2)}s`} />
+                                                            <div data-resize-handle className={`${handleClass(fadeOut)} rounded-bl-sm`} style={{ right: `${fadeOut * pxPerSec}px` }} onMouseDown={(e) => startFadeDrag(e, clip, 'out')} title={`Fade out ${fadeOut.toFixed(2)}s`} />
+                                                        </>
+                                                    );
+                                                })()}
                                                 
-                                                <div className="flex items-center gap-1.5 mb-1 pointer-events-none">
+                                                <div className="relative flex items-center gap-1.5 mb-1 pointer-events-none">
                                                     {icon}
-                                                    <span className={`text-xs font-medium truncate ${isActive || isSelected ? 'text-white' : isText ? 'text-emerald-100' : 'text-blue-100'}`}>{clip.title}</span>
+                                                    <span className={`text-xs font-medium truncate ${isActive || isSelected ? 'text-white' : isText ? 'text-emerald-100' : isCompound ? 'text-teal-100' : 'text-blue-100'}`}>{clip.title}</span>
+                                                    {isTimeRemapped(clip) && <span className="shrink-0 pointer-events-auto" title={describeSpeed(clip)}><Gauge size={9} className="text-amber-300" /></span>}
+                                                    {clipBeats.has(clip.id) && clip.sourceUrl && <span className="shrink-0 text-[9px] font-mono text-orange-200/70">{Math.round(beats[clip.sourceUrl].bpm * (clip.speed || 1))} BPM</span>}
+                                                    {linkPartner && (clip.linkBroken ? <Unlink size={9} className="shrink-0 text-neutral-400" /> : <Link2 size={9} className="shrink-0 text-white/60" />)}
+                                                    {linkPartner && isOutOfSync(clips, clip) && (
+                                                        <span className="shrink-0 pointer-events-auto px-1 rounded-sm bg-red-600 text-white text-[9px] font-mono font-bold" title={`Out of sync with "${linkPartner.title}"`}>
+                                                            {formatSyncOffset(-getSyncOffset(clips, clip))}
+                                                        </span>
+                                                    )}
                                                 </div>
 
                                                 {/* THE ADD MOTION / EDIT BUTTON */}
@@ -537,8 +906,20 @@ export const Timeline: React.FC<TimelineProps> = ({
                                                     </button>
                                                 )}
 
-                                                <span className={`text-[10px] pointer-events-none ${isActive || isSelected ? 'text-yellow-200' : 'text-white/50'}`}>{displayDuration.toFixed(1)}s</span>
-                                                <button onClick={(e) => { e.stopPropagation(); onDelete([clip.id]); }} className={`absolute top-1 right-1 p-0.5 rounded-full bg-black/40 hover:bg-red-500 text-white/70 hover:text-white opacity-0 group-hover:opacity-100 transition-all z-30 ${isPickingMode ? 'hidden' : ''}`}><X size={10} strokeWidth={3} /></button>
+                                                {/* KEYFRAME DIAMONDS (click to seek) */}
+                                                {!isPickingMode && getKeyframeTimes(clip).filter(t => t >= 0 && t <= displayDuration).map(t => (
+                                                    <div
+                                                        key={t}
+                                                        onMouseDown={(e) => e.stopPropagation()}
+                                                        onClick={(e) => { e.stopPropagation(); onSeek(displayStart + t); }}
+                                                        className="absolute bottom-1 w-2 h-2 -ml-1 rotate-45 bg-yellow-300 border border-yellow-600 hover:scale-150 transition-transform cursor-pointer z-30"
+                                                        style={{ left: `${t * pxPerSec}px` }}
+                                                        title={`Keyframe at ${(displayStart + t).toFixed(2)}s`}
+                                                    />
+                                                ))}
+
+                                                <span className={`relative text-[10px] pointer-events-none ${isActive || isSelected ? 'text-yellow-200' : 'text-white/50'}`}>{displayDuration.toFixed(1)}s</span>
+                                                <button onClick={(e) => { e.stopPropagation(); onDelete([clip.id]); }} className={`absolute top-1 right-4 p-0.5 rounded-full bg-black/40 hover:bg-red-500 text-white/70 hover:text-white opacity-0 group-hover:opacity-100 transition-all z-30 ${isPickingMode || track.locked ? 'hidden' : ''}`}><X size={10} strokeWidth={3} /></button>
                                             </div>
 
                                             {/* MAGIC WAND TRIGGER FOR TRANSITIONS */}
@@ -585,7 +966,7 @@ export const Timeline: React.FC<TimelineProps> = ({
                                     );
                                 })}
 
-                                <button disabled={isSelectionMode || isPickingMode} onClick={() => onAddMediaRequest(trackId)} className="group absolute h-20 w-20 border-2 border-dashed border-neutral-700/50 hover:border-blue-500/50 bg-neutral-800/10 hover:bg-blue-500/5 rounded-lg flex flex-col items-center justify-center cursor-pointer transition-all z-0 top-2 hover:scale-105 active:scale-95 disabled:opacity-30 disabled:pointer-events-none" style={{ left: `${(trackClips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0) * pxPerSec) + 20}px` }}>
+                                <button disabled={isSelectionMode || isPickingMode || track.locked} onClick={() => onAddMediaRequest(trackId)} className="group absolute h-20 w-20 border-2 border-dashed border-neutral-700/50 hover:border-blue-500/50 bg-neutral-800/10 hover:bg-blue-500/5 rounded-lg flex flex-col items-center justify-center cursor-pointer transition-all z-0 top-2 hover:scale-105 active:scale-95 disabled:opacity-30 disabled:pointer-events-none" style={{ left: `${(trackClips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0) * pxPerSec) + 20}px` }}>
                                     <div className="w-6 h-6 rounded-full bg-neutral-700 group-hover:bg-blue-500 flex items-center justify-center transition-colors"><Plus className="w-3 h-3 text-neutral-400 group-hover:text-white" strokeWidth={3} /></div>
                                     <span className="text-[9px] text-neutral-500 group-hover:text-blue-200 mt-1 font-medium">Add Media</span>
                                 </button>
@@ -595,12 +976,23 @@ export const Timeline: React.FC<TimelineProps> = ({
                 })}
             </div>
             <div className="relative mt-2 h-6 border-t border-neutral-800/50 pt-1" style={{ width: `${(endMarker + 10) * pxPerSec}px` }}>
-            {markers.map((time) => (
+            {ticks.map((time) => (
                 <div key={time} className="absolute top-0 flex flex-col items-center" style={{ left: `${time * pxPerSec}px`, transform: 'translateX(-50%)' }}>
                     <div className="h-1.5 w-px bg-neutral-600 mb-1"></div>
                     <span className="text-[10px] text-neutral-500 font-mono select-none">{formatTime(time)}</span>
                 </div>
             ))}
+            {markers.map(marker => (
+                <div
+                    key={marker.id}
+                    onMouseDown={(e) => startMarkerDrag(e, marker)}
+                    className={`absolute -top-2.5 flex items-center gap-0.5 h-3.5 pl-0.5 pr-1 rounded-r-sm cursor-grab z-[55] text-[9px] font-semibold text-black whitespace-nowrap ${editingMarkerId === marker.id ? 'ring-1 ring-white' : ''}`}
+                    style={{ left: `${marker.time * pxPerSec}px`, backgroundColor: marker.color }}
+                    title={`${marker.name} (${marker.time.toFixed(2)}s)${marker.note ? `: ${marker.note}` : ''}`}
+                >
+                    <Flag size={8} /> {marker.name}
+                </div>
+            ))}
             </div>
         </div>
       </div>
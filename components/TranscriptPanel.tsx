@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TranscriptParagraph } from '../timeline/transcript';
+import { SpeechIssue, SpeechIssueKind, SpeechCleanupOptions, DEFAULT_SPEECH_CLEANUP, findTranscriptIssues } from '../timeline/speechCleanup';
+import { formatTime } from '../utils/videoUtils';
+import { FileText, X, Loader2, Trash2, Pilcrow, GripVertical, Eraser } from 'lucide-react';
+
+interface TranscriptPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  paragraphs: TranscriptParagraph[];
+  currentTime: number;
+  transcribeLabel: string | null; // What the transcribe button covers; null hides it
+  isTranscribing: boolean;
+  onTranscribe: () => void;
+  onSeek: (time: number) => void;
+  onDeleteWords: (selection: { clipId: string, indices: number[] }[]) => void;
+  onSplitParagraph: (clipId: string, time: number) => void;
+  onReorder: (clipIds: string[]) => void; // Paragraphs of one track in their new order
+  onCleanUp: (issues: SpeechIssue[], fade: number) => void;
+}
+
+// A word's place in the panel: paragraph and word index
+type WordRef = { p: number, i: number };
+
+const ISSUE_LABELS: Record<SpeechIssueKind, string> = { filler: 'Filler', false_start: 'False start', pause: 'Pause' };
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  isOpen, onClose, paragraphs, currentTime, transcribeLabel, isTranscribing, onTranscribe, onSeek, onDeleteWords, onSplitParagraph, onReorder, onCleanUp
+}) => {
+  // Selection runs between two positions in reading order (across paragraphs)
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const [focus, setFocus] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const flat = useMemo(() => paragraphs.flatMap((paragraph, p) => paragraph.words.map((_, i): WordRef => ({ p, i }))), [paragraphs]);
+  // Reading-order index of each paragraph's first word
+  const offsets = useMemo(() => {
+    let total = 0;
+    return paragraphs.map(paragraph => { const offset = total; total += paragraph.words.length; return offset; });
+  }, [paragraphs]);
+  useEffect(() => { setAnchor(null); setFocus(null); }, [paragraphs]);
+
+  // Auto clean: issues are listed for review (all accepted to start with) and struck through in the text
+  const [cleaning, setCleaning] = useState(false);
+  const [cleanupOptions, setCleanupOptions] = useState<SpeechCleanupOptions>(DEFAULT_SPEECH_CLEANUP);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  useEffect(() => { setRejected(new Set()); }, [paragraphs]); // Issue ids follow word positions
+  const issues = useMemo(() => cleaning ? findTranscriptIssues(paragraphs, cleanupOptions) : [], [cleaning, paragraphs, cleanupOptions]);
+  const accepted = issues.filter(issue => !rejected.has(issue.id));
+  const struck = new Set(accepted.flatMap(issue => issue.words.map(i => `${issue.clipId}:${i}`)));
+
+  if (!isOpen) return null;
+
+  const [from, to] = anchor === null || focus === null ? [-1, -2] : [Math.min(anchor, focus), Math.max(anchor, focus)];
+  const selected = flat.slice(Math.max(0, from), to + 1);
+  const clearSelection = () => { setAnchor(null); setFocus(null); };
+
+  const deleteSelection = () => {
+    if (selected.length === 0) return;
+    const byParagraph = new Map<number, number[]>();
+    selected.forEach(({ p, i }) => byParagraph.set(p, [...(byParagraph.get(p) || []), i]));
+    onDeleteWords([...byParagraph].map(([p, indices]) => ({ clipId: paragraphs[p].clip.id, indices })));
+  };
+
+  const selectSentence = (p: number, i: number) => {
+    const { words } = paragraphs[p];
+    let first = i, last = i;
+    while (first > 0 && words[first - 1].sentence === words[i].sentence) first--;
+    while (last < words.length - 1 && words[last + 1].sentence === words[i].sentence) last++;
+    setAnchor(offsets[p] + first);
+    setFocus(offsets[p] + last);
+  };
+
+  // Paragraphs move among those on the same track; the clips are laid out again in the new order
+  const handleDrop = (target: number) => {
+    if (dragging === null || dragging === target) return;
+    const trackId = paragraphs[dragging].clip.trackId;
+    if (paragraphs[target].clip.trackId !== trackId) return;
+    const order = paragraphs.map((_, p) => p).filter(p => p !== dragging);
+    order.splice(order.indexOf(target) + (dragging < target ? 1 : 0), 0, dragging);
+    onReorder(order.filter(p => paragraphs[p].clip.trackId === trackId).map(p => paragraphs[p].clip.id));
+  };
+
+  const first = selected[0];
+  const toggleIssue = (id: string) => setRejected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+  const acceptedSeconds = accepted.reduce((sum, issue) => sum + issue.span.end - issue.span.start, 0);
+
+  return (
+    <div
+      className="w-[360px] min-w-[360px] bg-neutral-900 flex flex-col border-r border-neutral-800 relative z-[150] outline-none"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+          if (selected.length === 0) return;
+          e.preventDefault();
+          e.stopPropagation(); // Not the timeline's delete-clip shortcut
+          deleteSelection();
+        } else if (e.key === 'Escape') clearSelection();
+      }}
+    >
+      <div className="h-12 flex items-center justify-between px-4 border-b border-neutral-800 bg-neutral-900/50 shrink-0">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-neutral-400" />
+          <h3 className="font-bold text-white text-xs uppercase tracking-wide">Transcript</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          {paragraphs.length > 0 && (
+            <button onClick={() => { setCleaning(!cleaning); setRejected(new Set()); }} className={`p-1 rounded transition-colors ${cleaning ? 'bg-blue-600 text-white' : 'text-neutral-500 hover:bg-neutral-800 hover:text-white'}`} title="Auto clean: filler words, false starts and long pauses"><Eraser className="w-4 h-4" /></button>
+          )}
+          {transcribeLabel && (
+            <button onClick={onTranscribe} disabled={isTranscribing} className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-medium disabled:opacity-50">
+              {isTranscribing ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileText className="w-3 h-3" />} {transcribeLabel}
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 hover:bg-neutral-800 rounded text-neutral-500 hover:text-white transition-colors"><X className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      {cleaning && paragraphs.length > 0 && (
+        <div className="flex flex-col gap-2 px-4 py-3 border-b border-neutral-800 bg-neutral-950 text-xs text-neutral-300 shrink-0 max-h-[45%]">
+          <div className="flex items-center gap-3 text-[10px]">
+            <label className="flex items-center gap-1"><input type="checkbox" checked={cleanupOptions.fillers} onChange={(e) => setCleanupOptions({ ...cleanupOptions, fillers: e.target.checked })} className="accent-blue-500" /> Fillers</label>
+            <label className="flex items-center gap-1"><input type="checkbox" checked={cleanupOptions.falseStarts} onChange={(e) => setCleanupOptions({ ...cleanupOptions, falseStarts: e.target.checked })} className="accent-blue-500" /> False starts</label>
+            <label className="flex items-center gap-1"><input type="checkbox" checked={cleanupOptions.fade > 0} onChange={(e) => setCleanupOptions({ ...cleanupOptions, fade: e.target.checked ? DEFAULT_SPEECH_CLEANUP.fade : 0 })} className="accent-blue-500" /> Micro crossfades</label>
+          </div>
+          <label className="flex flex-col gap-1 text-[10px]">{cleanupOptions.maxPause > 0 ? `Trim pauses over ${cleanupOptions.maxPause.toFixed(1)}s` : 'Keep all pauses'}<input type="range" min="0" max="3" step="0.1" value={cleanupOptions.maxPause} onChange={(e) => setCleanupOptions({ ...cleanupOptions, maxPause: Number(e.target.value) })} className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" /></label>
+          <div className="flex-1 overflow-y-auto flex flex-col gap-0.5 -mx-1">
+            {issues.length === 0 ? (
+              <p className="text-[10px] text-neutral-500 px-1">Nothing to clean up.</p>
+            ) : issues.map(issue => (
+              <div key={issue.id} className="flex items-center gap-2 px-1 py-0.5 rounded hover:bg-neutral-800 text-[11px]">
+                <input type="checkbox" checked={!rejected.has(issue.id)} onChange={() => toggleIssue(issue.id)} className="accent-blue-500" />
+                <button onClick={() => onSeek(Math.max(0, issue.span.start - 1))} className="font-mono text-[10px] text-neutral-500 hover:text-white">{formatTime(issue.span.start)}</button>
+                <span className="text-[10px] text-neutral-500 w-16 shrink-0">{ISSUE_LABELS[issue.kind]}</span>
+                <span className={`truncate ${rejected.has(issue.id) ? 'text-neutral-500' : 'text-neutral-200'}`}>{issue.text}</span>
+              </div>
+            ))}
+          </div>
+          <button onClick={() => { onCleanUp(accepted, cleanupOptions.fade); setCleaning(false); }} disabled={accepted.length === 0} className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white font-medium disabled:opacity-50">
+            <Eraser className="w-3.5 h-3.5" /> Cut {accepted.length} ({acceptedSeconds.toFixed(1)}s)
+          </button>
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <div className="flex items-center gap-2 px-4 py-1.5 border-b border-neutral-800 bg-neutral-950 text-[10px] text-neutral-400 shrink-0">
+          <span className="flex-1">{selected.length} word{selected.length === 1 ? '' : 's'} selected</span>
+          <button onClick={() => onSplitParagraph(paragraphs[first.p].clip.id, paragraphs[first.p].words[first.i].start)} disabled={first.i === 0} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-neutral-800 hover:text-white disabled:opacity-30" title="Start a new paragraph (split the clip) at the selection"><Pilcrow className="w-3 h-3" /> New paragraph</button>
+          <button onClick={deleteSelection} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-red-600 hover:text-white" title="Cut these words from the timeline (Delete)"><Trash2 className="w-3 h-3" /> Delete</button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4 select-none" onMouseUp={() => setDragging(null)}>
+        {paragraphs.length === 0 ? (
+          <div className="h-40 flex flex-col items-center justify-center text-neutral-600 text-center gap-2">
+            <FileText className="w-8 h-8 opacity-20" />
+            <p className="text-xs">No transcript yet. Transcribe the dialogue, then edit the text: deleting words cuts them from the timeline.</p>
+          </div>
+        ) : paragraphs.map((paragraph, p) => (
+          <div
+            key={paragraph.clip.id}
+            onDragOver={(e) => { if (dragging !== null && paragraphs[dragging].clip.trackId === paragraph.clip.trackId) { e.preventDefault(); setDropTarget(p); } }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => { e.preventDefault(); handleDrop(p); setDragging(null); setDropTarget(null); }}
+            className={`rounded-lg p-2 -m-2 transition-colors ${dropTarget === p && dragging !== p ? 'bg-blue-600/10 ring-1 ring-blue-500/50' : ''} ${dragging === p ? 'opacity-40' : ''}`}
+          >
+            <div className="flex items-center gap-1.5 mb-1 text-[10px] text-neutral-500">
+              <span draggable onDragStart={(e) => { setDragging(p); e.dataTransfer.effectAllowed = 'move'; }} onDragEnd={() => { setDragging(null); setDropTarget(null); }} className="cursor-grab active:cursor-grabbing hover:text-white" title="Drag to reorder"><GripVertical className="w-3 h-3" /></span>
+              <button onClick={() => onSeek(paragraph.clip.startTime)} className="font-mono hover:text-white">{formatTime(paragraph.clip.startTime)}</button>
+              <span className="truncate">{paragraph.clip.title}</span>
+            </div>
+            <p className="text-sm leading-relaxed text-neutral-300">
+              {paragraph.words.map((word, i) => {
+                const index = offsets[p] + i;
+                const isSelected = index >= from && index <= to;
+                const isCurrent = currentTime >= word.start && currentTime < word.end;
+                const isStruck = struck.has(`${paragraph.clip.id}:${i}`);
+                return (
+                  <React.Fragment key={i}>
+                    <span
+                      onMouseDown={(e) => { if (e.shiftKey && anchor !== null) setFocus(index); else { setAnchor(index); setFocus(index); } }}
+                      onMouseEnter={(e) => { if (e.buttons === 1 && anchor !== null) setFocus(index); }}
+                      onClick={(e) => { if (!e.shiftKey) onSeek(word.start); }}
+                      onDoubleClick={() => selectSentence(p, i)}
+                      className={`rounded-sm cursor-text px-px ${isSelected ? 'bg-blue-600/60 text-white' : isCurrent ? 'bg-yellow-500/30 text-white' : 'hover:bg-neutral-700'} ${isStruck ? 'line-through decoration-red-500 text-neutral-500' : ''}`}
+                    >{word.text}</span>{' '}
+                  </React.Fragment>
+                );
+              })}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
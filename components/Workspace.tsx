@@ -2,6 +2,7 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { WorkspaceItem } from '../types';
 import { Upload, Film, Image as ImageIcon, Music, Trash2, X, Volume2, FolderOpen, Grid, Plus, MousePointer2 } from 'lucide-react';
+import { THUMBNAIL_HEIGHT, drawThumbnail, getThumbnail, peekThumbnail } from '../utils/thumbnails';
 
 interface WorkspaceProps {
   isOpen: boolean;
@@ -15,6 +16,35 @@ interface WorkspaceProps {
   onPick?: (id: string, name: string) => void; // New Prop
 }
 
+// A video's first frame; moving the pointer across it scrubs through the clip
+const VideoThumbnail: React.FC<{ item: WorkspaceItem }> = ({ item }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scrub, setScrub] = useState<number | null>(null); // Pointer position, 0-1
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const time = scrub === null ? 0.1 : scrub * item.duration;
+    const draw = (frame: ImageBitmap) => drawThumbnail(ctx, frame, 0, THUMBNAIL_HEIGHT, THUMBNAIL_HEIGHT);
+    const cached = peekThumbnail(item.url, time);
+    if (cached) { draw(cached); return; }
+    const controller = new AbortController();
+    getThumbnail(item.url, time, controller.signal).then(frame => { if (frame && !controller.signal.aborted) draw(frame); });
+    return () => controller.abort();
+  }, [item.url, item.duration, scrub]);
+
+  return (
+    <div
+      className="w-full h-full"
+      onMouseMove={(e) => { const rect = e.currentTarget.getBoundingClientRect(); setScrub(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))); }}
+      onMouseLeave={() => setScrub(null)}
+    >
+      <canvas ref={canvasRef} width={THUMBNAIL_HEIGHT} height={THUMBNAIL_HEIGHT} className="w-full h-full" />
+      {scrub !== null && <div className="absolute top-0 h-0.5 bg-blue-500 pointer-events-none" style={{ width: `${scrub * 100}%` }} />}
+    </div>
+  );
+};
+
 export const Workspace: React.FC<WorkspaceProps> = ({ 
   isOpen, 
   onClose,
@@ -104,15 +134,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({
       return <img src={item.url} className="w-full h-full object-cover" alt={item.name} />;
     }
     if (item.type === 'video') {
-      return (
-        <video 
-          src={`${item.url}#t=0.1`} 
-          className="w-full h-full object-cover" 
-          muted 
-          preload="metadata"
-          disablePictureInPicture
-        />
-      );
+      return <VideoThumbnail item={item} />;
     }
     if (item.type === 'audio') {
       return (
@@ -213,11 +235,11 @@ export const Workspace: React.FC<WorkspaceProps> = ({
                         
                         {/* Hover Overlay */}
                         {!isPickingMode && (
-                            <div className={`absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-2`}>
+                            <div className={`absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-2 pointer-events-none`}>
                                 <div className="flex justify-end mb-auto pt-1 pr-1">
                                     <button 
                                         onClick={(e) => { e.stopPropagation(); onDeleteItem(item.id); }}
-                                        className="p-1 bg-black/60 hover:bg-red-500 rounded text-white/70 hover:text-white transition-colors"
+                                        className="p-1 bg-black/60 hover:bg-red-500 rounded text-white/70 hover:text-white transition-colors pointer-events-auto"
                                     >
                                         <Trash2 size={10} />
                                     </button>
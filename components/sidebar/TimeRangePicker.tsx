@@ -2,6 +2,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Clip } from '../../types';
 import { formatTime } from '../../utils/videoUtils';
+import { renderFrameAt, createLiveSourceResolver, getClipSourceTime } from '../../utils/compositor';
 import { X, Check, Play, Pause, ScanEye, ChevronLeft, ChevronRight } from 'lucide-react';
 
 interface TimeRangePickerProps {
@@ -12,80 +13,15 @@ interface TimeRangePickerProps {
     onCancel: () => void;
 }
 
-const drawPreviewFrame = (
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    height: number,
+// Paints the composited timeline at `time` using the live preview elements as sources
+const drawPreviewFrame = async (
+    canvas: HTMLCanvasElement,
     time: number,
     clips: Clip[],
     mediaRefs: any
 ) => {
-    ctx.fillStyle = '#000000';
-    ctx.fillRect(0, 0, width, height);
-
-    const visibleClips = clips
-        .filter(c => time >= c.startTime && time < c.startTime + c.duration)
-        .sort((a, b) => a.trackId - b.trackId);
-
-    visibleClips.forEach(clip => {
-        if (clip.type === 'audio') return;
-
-        const transform = clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 };
-        
-        ctx.save();
-        ctx.translate(width / 2, height / 2);
-        ctx.translate(transform.x * width, transform.y * height);
-        ctx.scale(transform.scale, transform.scale);
-        ctx.rotate((transform.rotation * Math.PI) / 180);
-
-        if (clip.type === 'text' && clip.text) {
-            const style = clip.textStyle || { 
-                fontSize: 40, color: 'white', fontFamily: 'sans-serif', 
-                backgroundColor: 'black', backgroundOpacity: 0,
-                isBold: false, isItalic: false, isUnderline: false, align: 'center'
-            };
-            ctx.font = `${style.isBold ? 'bold' : ''} ${style.fontSize}px ${style.fontFamily || 'sans-serif'}`;
-            ctx.textAlign = (style.align as any) || 'center';
-            ctx.textBaseline = 'middle';
-            
-            if (style.backgroundOpacity > 0) {
-                const metrics = ctx.measureText(clip.text);
-                const bgH = style.fontSize * 1.2;
-                ctx.globalAlpha = style.backgroundOpacity;
-                ctx.fillStyle = style.backgroundColor;
-                ctx.fillRect(-metrics.width/2 - 10, -bgH/2, metrics.width + 20, bgH);
-                ctx.globalAlpha = 1.0;
-            }
-            
-            ctx.fillStyle = style.color;
-            ctx.fillText(clip.text, 0, 0);
-        } 
-        else if (clip.type === 'video' || clip.type === 'image') {
-            const el = mediaRefs.current[clip.id];
-            if (el) {
-                if (el instanceof HTMLVideoElement) {
-                    try {
-                       const aspectSrc = el.videoWidth / el.videoHeight;
-                       const aspectDest = width / height;
-                       let drawW, drawH;
-                       if (aspectSrc > aspectDest) { drawW = width; drawH = width / aspectSrc; } 
-                       else { drawH = height; drawW = height * aspectSrc; }
-                       ctx.drawImage(el, -drawW/2, -drawH/2, drawW, drawH);
-                    } catch(e) {}
-                } else if (el instanceof HTMLImageElement) {
-                    try {
-                       const aspectSrc = el.naturalWidth / el.naturalHeight;
-                       const aspectDest = width / height;
-                       let drawW, drawH;
-                       if (aspectSrc > aspectDest) { drawW = width; drawH = width / aspectSrc; } 
-                       else { drawH = height; drawW = height * aspectSrc; }
-                       ctx.drawImage(el, -drawW/2, -drawH/2, drawW, drawH);
-                    } catch(e) {}
-                }
-            }
-        }
-        ctx.restore();
-    });
+    const frame = await renderFrameAt(clips, [], time, { width: canvas.width, height: canvas.height }, { resolveSource: createLiveSourceResolver(mediaRefs.current) });
+    canvas.getContext('2d')?.drawImage(frame, 0, 0);
 };
 
 export const TimeRangePicker: React.FC<TimeRangePickerProps> = ({ totalDuration, clips, mediaRefs, onConfirm, onCancel }) => {
@@ -128,7 +64,7 @@ export const TimeRangePicker: React.FC<TimeRangePickerProps> = ({ totalDuration,
                 if (clip.type === 'video') {
                     const el = mediaRefs.current[clip.id] as HTMLVideoElement;
                     if (el) {
-                        const targetTime = clip.sourceStartTime + (previewTime - clip.startTime) * (clip.speed || 1);
+                        const targetTime = getClipSourceTime(clip, previewTime);
                         if (!el.paused && Math.abs(el.currentTime - targetTime) > 0.5) {
                             el.currentTime = targetTime;
                         } else if (el.paused && targetTime >= 0 && targetTime <= el.duration) {
@@ -145,9 +81,8 @@ export const TimeRangePicker: React.FC<TimeRangePickerProps> = ({ totalDuration,
     }, [isPlaying, start, end, clips, mediaRefs, previewTime]); // Added previewTime to dependency to ensure updated value in loop closure if needed, though ref pattern usually handles it.
 
     useEffect(() => {
-        const ctx = canvasRef.current?.getContext('2d');
-        if (!ctx || !canvasRef.current) return;
-        drawPreviewFrame(ctx, canvasRef.current.width, canvasRef.current.height, previewTime, clips, mediaRefs);
+        if (!canvasRef.current) return;
+        drawPreviewFrame(canvasRef.current, previewTime, clips, mediaRefs).catch(e => console.warn("Range preview render failed", e));
     }, [previewTime, clips, mediaRefs]);
 
     const handleConfirm = async () => {
@@ -157,9 +92,7 @@ export const TimeRangePicker: React.FC<TimeRangePickerProps> = ({ totalDuration,
         const frames: string[] = [];
         const captureCount = 6; 
         const step = (end - start) / captureCount;
-        const ctx = canvasRef.current?.getContext('2d');
-
-        if (ctx && canvasRef.current) {
+        if (canvasRef.current) {
             for (let i = 0; i <= captureCount; i++) {
                 const t = start + (step * i);
                 
@@ -167,7 +100,7 @@ export const TimeRangePicker: React.FC<TimeRangePickerProps> = ({ totalDuration,
                     if (clip.type === 'video' && t >= clip.startTime && t < clip.startTime + clip.duration) {
                         const el = mediaRefs.current[clip.id] as HTMLVideoElement;
                         if (el) {
-                            const targetTime = clip.sourceStartTime + (t - clip.startTime) * (clip.speed || 1);
+                            const targetTime = getClipSourceTime(clip, t);
                             el.currentTime = targetTime;
                             await new Promise(r => {
                                 const onSeek = () => { el.removeEventListener('seeked', onSeek); r(true); };
@@ -178,7 +111,7 @@ export const TimeRangePicker: React.FC<TimeRangePickerProps> = ({ totalDuration,
                     }
                 }));
 
-                drawPreviewFrame(ctx, canvasRef.current.width, canvasRef.current.height, t, clips, mediaRefs);
+                await drawPreviewFrame(canvasRef.current, t, clips, mediaRefs);
                 frames.push(canvasRef.current.toDataURL('image/jpeg', 0.7));
             }
         }
@@ -1,9 +1,13 @@
 
-import { Clip, PlanStep, AgentContext } from '../../types';
+import { Clip, PlanStep, AgentContext, VideoIntent } from '../../types';
 import { getAiClient } from '../gemini';
 import { TIMELINE_PRIMITIVES } from '../timelinePrimitives';
 import { VideoAnalysis } from './eyes';
 import { getToolDescriptions } from '../toolRegistry';
+import { normalizeTracks, describeTrack } from '../../timeline/tracks';
+import { sortMarkers, describeMarker } from '../../timeline/markers';
+import { isTimeRemapped, describeSpeed } from '../../timeline/timeRemap';
+import { hasFades } from '../../timeline/fades';
 
 export interface BrainOutput {
   thought: string;
@@ -18,12 +22,21 @@ export interface BrainOutput {
       reasoning: string;
     }>;
   };
+  intentUpdate?: VideoIntent; // Platform, goal or tone the user's message established
 }
 
+// Only the string fields the model actually set
+const parseIntentUpdate = (raw: any): VideoIntent | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const update: VideoIntent = {};
+    (['platform', 'goal', 'tone'] as const).forEach(key => { if (typeof raw[key] === 'string' && raw[key].trim()) update[key] = raw[key].trim(); });
+    return Object.keys(update).length > 0 ? update : undefined;
+};
+
 export class BrainAgent {
   async plan(userIntent: string, analysis: VideoAnalysis, context: AgentContext): Promise<BrainOutput> {
     const ai = getAiClient();
-    const { clips, selectedClipIds, currentTime } = context;
+    const { clips, selectedClipIds, currentTime, intent } = context;
     
     // Calculate timeline bounds
     const timelineDuration = clips.length > 0 
@@ -33,11 +46,11 @@ export class BrainAgent {
     // --- TRACK AWARENESS ---
     // Group clips by track to give the LLM a spatial understanding of the timeline
     const trackMap: Record<number, any[]> = {};
-    const allTracks = Array.from(new Set(clips.map(c => c.trackId))).sort((a, b) => a - b);
+    const allTracks = context.tracks?.length ? context.tracks : normalizeTracks(undefined, clips);
     
-    allTracks.forEach(tid => {
-        trackMap[tid] = clips
-            .filter(c => c.trackId === tid)
+    allTracks.forEach(track => {
+        trackMap[track.id] = clips
+            .filter(c => c.trackId === track.id)
             .sort((a, b) => a.startTime - b.startTime)
             .map(c => ({
                 id: c.id,
@@ -45,20 +58,27 @@ export class BrainAgent {
                 type: c.type,
                 range: `${c.startTime.toFixed(1)}s - ${(c.startTime + c.duration).toFixed(1)}s`,
                 content: c.text ? `"${c.text}"` : (c.type === 'audio' ? 'Audio Track' : 'Visual Asset'),
-                isSelected: selectedClipIds.includes(c.id)
+                isSelected: selectedClipIds.includes(c.id),
+                linkedTo: c.linkedClipId && !c.linkBroken ? c.linkedClipId : null,
+                speed: isTimeRemapped(c) || (c.speed ?? 1) !== 1 ? describeSpeed(c) : null,
+                fades: hasFades(c) ? `in ${(c.fadeIn || 0).toFixed(1)}s / out ${(c.fadeOut || 0).toFixed(1)}s` : null
             }));
     });
 
     // Format the track view for the prompt
+    // Listed bottom (background) to top, in compositing order
     let trackStructureDescription = "";
-    if (Object.keys(trackMap).length === 0) {
-        trackStructureDescription = "Timeline is empty.";
+    if (clips.length === 0) {
+        trackStructureDescription = "Timeline is empty. Tracks: " + allTracks.map(describeTrack).join(', ');
     } else {
-        trackStructureDescription = Object.entries(trackMap)
-            .map(([tid, trackClips]) => `TRACK ${tid} (${tid === '0' ? 'Bottom/Background' : 'Overlay/Audio'}):\n` + trackClips.map(c => `  - [${c.id}] ${c.title} (${c.type}): ${c.range} ${c.isSelected ? '(*SELECTED*)' : ''}`).join('\n'))
+        trackStructureDescription = allTracks
+            .map((track, i) => `${describeTrack(track)}${i === 0 ? ' - Bottom/Background' : ''}:\n` + (trackMap[track.id].length > 0 ? trackMap[track.id].map(c => `  - [${c.id}] ${c.title} (${c.type}): ${c.range}${c.speed ? ` [speed ${c.speed}]` : ''}${c.fades ? ` [fade ${c.fades}]` : ''}${c.linkedTo ? ` (linked to ${c.linkedTo}: moves and trims with it)` : ''} ${c.isSelected ? '(*SELECTED*)' : ''}`).join('\n') : '  (empty)'))
             .join('\n\n');
     }
 
+    const markers = sortMarkers(context.markers || []);
+    const markerDescription = markers.length > 0 ? markers.map(m => `- ${describeMarker(m)}`).join('\n    ') : 'None';
+
     // Extract visual style for consistency
     const detectedStyle = analysis.visual?.styleDescription || "Cinematic, high quality, consistent with existing footage";
     
@@ -69,11 +89,14 @@ export class BrainAgent {
     TASK: Create a concrete editing plan to satisfy the User Intent, considering the Visual Analysis and Track Structure.
     
     USER INTENT: "${userIntent}"
+
+    ESTABLISHED VIDEO INTENT: ${intent && (intent.platform || intent.goal || intent.tone) ? `Platform ${intent.platform || 'unknown'}, goal ${intent.goal || 'unknown'}, tone ${intent.tone || 'unknown'}` : 'None yet'}
     
     EYES ANALYSIS: 
     - Thought: ${analysis.thought}
     - Visual Style: ${detectedStyle}
     - Editing Needs: ${analysis.editingNeeds?.join(', ')}
+    - Pacing: ${analysis.pacing?.rhythm || 'unknown'}; dead air (measured) starts at ${analysis.pacing?.deadMoments?.length ? analysis.pacing.deadMoments.map(t => `${t.toFixed(1)}s`).join(', ') : 'none'}
     
     TIMELINE STATE:
     - Total Duration: ${timelineDuration.toFixed(2)}s
@@ -82,12 +105,15 @@ export class BrainAgent {
     
     TRACK STRUCTURE (Layering Context):
     ${trackStructureDescription}
+
+    MARKERS:
+    ${markerDescription}
     
     AVAILABLE TOOLS:
     ${toolDescriptions}
 
     INSTRUCTIONS:
-    1. **TRACK AWARENESS**: Understand that Track 0 is the background. Higher tracks (1, 2...) overlay on top. Audio usually goes on specific tracks.
+    1. **TRACK AWARENESS**: Tracks are listed bottom to top; later tracks overlay earlier ones. Refer to tracks by id. Put text on a 'text' track and voiceover/music on an 'audio' track. Never edit clips on a locked track; muted, solo and hidden only change what is seen and heard.
     2. **APPENDING CONTENT**: If adding an Outro or End Screen, use 'insertTime' = ${timelineDuration.toFixed(2)}. Do NOT put it at 0.
     3. **PRIORITIZE GENERATION**: If the user asks to "create", "generate", or "make" something (like an intro) and you don't have the files, DO NOT ask them to upload. Use 'generate_video_asset' or 'generate_image_asset'.
     4. **STYLE MATCHING & MODEL SELECTION**: 
@@ -95,7 +121,14 @@ export class BrainAgent {
        - Use 'gemini-3-pro-image-preview' for high quality images.
     5. **SMART EDITING**: 
        - If the user asks for a "loop", "beat sync", or identifying objects, use the 'perform_smart_edit' tool.
+       - For a montage or "cut to the music", use 'build_montage' (shot lengths, beats vs downbeats, optional highlight).
+       - To tighten talking-head footage ("remove pauses", "jump cut", dead air above), use 'remove_silences' on the speaking clip rather than trimming by hand. To take out "ums", stumbles and false starts, use 'clean_speech' (preview first).
+       - A long single-take or multi-shot video is one clip until split: use 'detect_scenes' (split=true) before editing it shot by shot, rather than guessing where shots change.
        - Example: "Loop this clip" -> perform_smart_edit(type='loop', targetClipId=...)
+    6. **MARKERS**: When the user names a marker ("at marker 'Reveal'", "after the chorus marker"), use that marker's time from MARKERS. Never guess seconds for a named point; if it isn't listed, say so or add it with 'add_marker'.
+    7. **DUCKING**: After adding a voiceover (or when speech and music play together), follow up with 'duck_music' so the music dips under the speech instead of clashing with it.
+    8. **LOUDNESS**: When the user mentions a platform's loudness, "too quiet/loud", or uneven dialogue, use 'normalize_loudness' (scope 'mix' for the platform target, 'clips' to even out dialogue) rather than guessing volumes; 'analyze_loudness' reports LUFS and true peak.
+    9. **VIDEO INTENT**: Fit the plan to the ESTABLISHED VIDEO INTENT. When the user's message states or changes the platform, goal or tone, return it in "intentUpdate" (only the fields that changed); otherwise leave "intentUpdate" out.
     
     OUTPUT JSON SCHEMA:
     {
@@ -112,7 +145,8 @@ export class BrainAgent {
                     "reasoning": "Why this specific step"
                 }
             ]
-        }
+        },
+        "intentUpdate": { "platform": "TikTok", "goal": "Viral", "tone": "Energetic" }
     }
     `;
 
@@ -153,7 +187,8 @@ export class BrainAgent {
                 goal: parsed.plan?.goal || "Edit Timeline",
                 reasoning: parsed.plan?.reasoning || "Executing based on user request.",
                 steps: Array.isArray(parsed.plan?.steps) ? parsed.plan.steps : []
-            }
+            },
+            intentUpdate: parseIntentUpdate(parsed.intentUpdate)
         };
 
         return finalPlan;
@@ -1,5 +1,8 @@
 
 import { Clip } from '../../types';
+import { getLinkPartner, getSyncOffset, isOutOfSync, formatSyncOffset, SYNC_TOLERANCE } from '../../timeline/links';
+import { getAudioRole, isDuckedDuring } from '../../timeline/ducking';
+import { estimateClipLoudness } from '../../utils/audioAnalysis';
 
 export interface CheckResult {
   passed: boolean;
@@ -108,6 +111,38 @@ export const structuralChecks: VerificationCheck[] = [
       return issues;
     }
   },
+  {
+    id: 'linked_sync',
+    name: 'Linked Audio Sync Check',
+    category: 'structural',
+    run: (pre, post) => {
+      const issues: CheckResult[] = [];
+      // Only drift this edit introduced; an offset the pair already had may be intentional
+      post.filter(c => c.type === 'video' && c.linkedClipId).forEach(video => {
+        const audio = getLinkPartner(post, video);
+        const before = pre.find(c => c.id === video.id);
+        if (!audio) {
+          if (video.audioDetached && before && getLinkPartner(pre, before)) {
+            issues.push({
+              passed: false,
+              issue: `The detached audio of "${video.title}" was removed, so the video now plays silent.`,
+              remediationHint: `Restore the audio clip linked to "${video.title}", or undo the deletion.`
+            });
+          }
+          return;
+        }
+        if (!isOutOfSync(post, video)) return;
+        const offset = getSyncOffset(post, video);
+        if (before && getLinkPartner(pre, before) && Math.abs(getSyncOffset(pre, before) - offset) <= SYNC_TOLERANCE) return;
+        issues.push({
+          passed: false,
+          issue: `A/V SYNC: "${audio.title}" is ${formatSyncOffset(offset)} out of sync with "${video.title}".`,
+          remediationHint: `Move or slip "${audio.title}" by ${formatSyncOffset(-offset)} so it lines up with "${video.title}" again.`
+        });
+      });
+      return issues;
+    }
+  },
   {
     id: 'audio_overlap',
     name: 'Audio Overlap Check',
@@ -126,15 +161,64 @@ export const structuralChecks: VerificationCheck[] = [
         const overlapDuration = overlapEnd - overlapStart;
 
         if (overlapDuration > 0.5) {
+           // Music under speech is fine once it's ducked there
+           const music = [current, next].find(c => getAudioRole(c) === 'music');
+           const speech = [current, next].find(c => getAudioRole(c) === 'dialogue');
+           if (music && speech && isDuckedDuring(music, { start: overlapStart, end: overlapEnd })) continue;
            issues.push({
              passed: false,
              issue: `AUDIO CLASH: Audio clip "${current.title}" overlaps with "${next.title}" by ${overlapDuration.toFixed(1)}s.`,
-             remediationHint: `Move "${next.title}" to start after "${current.title}" ends.`
+             remediationHint: music && speech
+               ? `Duck "${music.title}" under "${speech.title}" with duck_music, or lower its volume.`
+               : `Move "${next.title}" to start after "${current.title}" ends.`
            });
         }
       }
       return issues;
     }
+  },
+  {
+    // Uses clip measurements from the loudness panel or analyze_loudness; unmeasured clips are skipped
+    id: 'loudness',
+    name: 'Loudness Consistency Check',
+    category: 'structural',
+    run: (pre, post) => {
+      const issues: CheckResult[] = [];
+      const MAX_DIALOGUE_SPREAD = 6; // LU
+      const changed = (c: Clip) => {
+        const before = pre.find(p => p.id === c.id);
+        return !before || (before.volume ?? 1) !== (c.volume ?? 1) || before.sourceUrl !== c.sourceUrl;
+      };
+
+      const dialogue = post
+        .filter(c => getAudioRole(c) === 'dialogue')
+        .map(c => ({ clip: c, loudness: estimateClipLoudness(c) }))
+        .filter((d): d is { clip: Clip, loudness: { integrated: number, truePeak: number } } => !!d.loudness && Number.isFinite(d.loudness.integrated));
+      const levels = dialogue.map(d => d.loudness.integrated).sort((a, b) => a - b);
+      const median = levels[Math.floor(levels.length / 2)];
+      if (levels.length >= 2) {
+        dialogue.filter(d => changed(d.clip) && Math.abs(d.loudness.integrated - median) > MAX_DIALOGUE_SPREAD).forEach(({ clip, loudness }) => {
+          const offset = loudness.integrated - median;
+          issues.push({
+            passed: false,
+            issue: `LOUDNESS JUMP: Dialogue "${clip.title}" is ${Math.abs(offset).toFixed(1)} LU ${offset > 0 ? 'louder' : 'quieter'} than the rest of the dialogue.`,
+            remediationHint: `Normalize "${clip.title}" with normalize_loudness (scope "clips"), or change its volume.`
+          });
+        });
+      }
+
+      post.filter(changed).forEach(c => {
+        const loudness = estimateClipLoudness(c);
+        if (loudness && loudness.truePeak > 0) {
+          issues.push({
+            passed: false,
+            issue: `CLIPPING: "${c.title}" peaks at +${loudness.truePeak.toFixed(1)} dBTP at its current volume.`,
+            remediationHint: `Lower the volume of "${c.title}" or normalize it with normalize_loudness.`
+          });
+        }
+      });
+      return issues;
+    }
   }
 ];
 
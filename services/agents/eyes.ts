@@ -2,11 +2,12 @@
 import { AgentContext } from '../../types';
 import { getAiClient } from '../gemini';
 import { rangeToGeminiParts, storyboardToGeminiParts } from '../geminiAdapter';
+import { findDeadAir } from '../../utils/audioAnalysis';
 import { Type } from '@google/genai';
 
 export interface VideoAnalysis {
   thought: string;
-  pacing: { rhythm: string, deadMoments: number[] };
+  pacing: { rhythm: string, deadMoments: number[] }; // Dead moments: where measured silences start (timeline seconds)
   visual: { quality: string, issues: string[], styleDescription: string };
   audio: { hasSpeech: boolean, clarity: string };
   editingNeeds: string[];
@@ -23,6 +24,16 @@ export class EyesAgent {
     let mediaParts: any[] = [];
     let instructions = "";
 
+    // Dead air is measured, not judged by the model
+    const timelineEnd = clips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0);
+    let deadAir: { start: number, end: number }[] = [];
+    try {
+        deadAir = await findDeadAir(clips, context.tracks, hasSelection ? range : { start: 0, end: timelineEnd });
+    } catch (error) {
+        console.warn("Dead air detection failed:", error);
+    }
+    const deadMoments = deadAir.map(s => Math.round(s.start * 100) / 100);
+
     try {
         if (isSurveyMode) {
             mediaParts = await storyboardToGeminiParts(clips);
@@ -31,12 +42,11 @@ export class EyesAgent {
             TASK: Look at the individual clips provided. Identify clip types (Intros, Interviews, B-roll).
             `;
         } else {
-            const duration = clips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0);
             const analysisRange = hasSelection ? 
                 { start: range.start, end: range.end, tracks: [] as any } : 
-                { start: 0, end: Math.min(duration, 45), tracks: [] as any };
+                { start: 0, end: Math.min(timelineEnd, 45), tracks: [] as any };
 
-            mediaParts = await rangeToGeminiParts(analysisRange, clips, mediaRefs);
+            mediaParts = await rangeToGeminiParts(analysisRange, clips, context.transitions, context.tracks, context.sequences);
             instructions = `
             MODE: TIMELINE PLAYBACK.
             RANGE: ${analysisRange.start.toFixed(1)}s to ${analysisRange.end.toFixed(1)}s.
@@ -51,11 +61,12 @@ export class EyesAgent {
     const prompt = `
     ROLE: You are the EYES of a video editor.
     ${instructions}
+    MEASURED DEAD AIR (silences, timeline seconds): ${deadAir.length > 0 ? deadAir.map(s => `${s.start.toFixed(1)}-${s.end.toFixed(1)}s`).join(', ') : 'none'}
     
     OUTPUT JSON SCHEMA:
     {
       "thought": "Brief first-person thought about what you see.",
-      "pacing": { "rhythm": "slow|fast|inconsistent", "deadMoments": [0.0] },
+      "pacing": { "rhythm": "slow|fast|inconsistent" },
       "visual": { 
           "quality": "string", 
           "issues": ["shaky", "dark", "static"],
@@ -113,7 +124,7 @@ export class EyesAgent {
         // Defaults to prevent crashes
         return {
             thought: parsed.thought || "I have analyzed the timeline.",
-            pacing: parsed.pacing || { rhythm: "unknown", deadMoments: [] },
+            pacing: { rhythm: parsed.pacing?.rhythm || "unknown", deadMoments },
             visual: { 
                 quality: parsed.visual?.quality || "unknown", 
                 issues: parsed.visual?.issues || [],
@@ -127,7 +138,7 @@ export class EyesAgent {
         console.error("Eyes Agent Fatal Error", e);
         return {
             thought: "I couldn't analyze the visuals due to a processing error. Assuming standard style.",
-            pacing: { rhythm: "unknown", deadMoments: [] },
+            pacing: { rhythm: "unknown", deadMoments },
             visual: { quality: "unknown", issues: [], styleDescription: "Standard video style" },
             audio: { hasSpeech: false, clarity: "unknown" },
             editingNeeds: []
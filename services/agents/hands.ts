@@ -1,6 +1,7 @@
 
 import { executeTool, getToolDefinition } from '../toolRegistry';
 import { timelineStore } from '../../timeline/store';
+import { nextTrackId } from '../../timeline/tracks';
 
 export interface HandsOutput {
   thought: string;
@@ -26,9 +27,8 @@ export class HandsAgent {
       if (toolDef && toolDef.requiresApproval) {
           // Safety defaults for generation parameters if not provided
           if (parameters.trackId === undefined) {
-              const clips = timelineStore.getClips();
-              const safeTrack = clips.length === 0 ? 1 : Math.max(...clips.map(c => c.trackId)) + 1;
-              parameters.trackId = safeTrack;
+              const audioTrack = operation === 'generate_voiceover' ? timelineStore.findTrack('audio') : undefined;
+              parameters.trackId = audioTrack ? audioTrack.id : nextTrackId(timelineStore.getTracks());
           }
 
           return {
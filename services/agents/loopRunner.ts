@@ -3,7 +3,7 @@ import { EyesAgent } from './eyes';
 import { BrainAgent } from './brain';
 import { HandsAgent } from './hands';
 import { VerifierAgent } from './verifier';
-import { Clip, ToolAction, AgentContext, EditPlan, PlanStep } from '../../types';
+import { Clip, ToolAction, AgentContext, EditPlan, PlanStep, VideoIntent } from '../../types';
 import { timelineStore } from '../../timeline/store';
 
 export class AgenticLoop {
@@ -13,7 +13,8 @@ export class AgenticLoop {
     private hands: HandsAgent,
     private verifier: VerifierAgent,
     private onThought: (agent: 'eyes' | 'brain' | 'hands' | 'verifier' | 'system', thought: string, action?: ToolAction) => void,
-    private onRequestObservation?: () => Promise<string[]>
+    private onRequestObservation?: () => Promise<string[]>,
+    private onIntentUpdate?: (intent: VideoIntent) => void
   ) {}
 
   // Phase 1: Analyze & Plan
@@ -26,6 +27,8 @@ export class AgenticLoop {
         this.onThought('system', "🧠 Activating Planning...");
         const brainOutput = await this.brain.plan(userIntent, analysis, context);
         this.onThought('brain', brainOutput.thought);
+        // Kept even when there's nothing to edit ("it's for TikTok")
+        if (brainOutput?.intentUpdate) this.onIntentUpdate?.(brainOutput.intentUpdate);
 
         // Defensive check for brain output structure
         if (!brainOutput || !brainOutput.plan || !brainOutput.plan.steps || brainOutput.plan.steps.length === 0) {
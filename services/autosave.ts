@@ -0,0 +1,241 @@
+import { Clip, Transition, Track, Sequence, Marker, WorkspaceItem } from '../types';
+import { TimelineStore } from '../timeline/store';
+import { hashBlob, fetchBlob } from '../utils/mediaHash';
+import { toMediaReference, parseMediaReference } from './projectFile';
+import { allClipLists } from '../timeline/sequences';
+
+/**
+ * THE AUTOSAVER
+ *
+ * Mirrors the TimelineStore and the workspace's media list into IndexedDB so a
+ * reload or crash never loses work (especially Veo generations, which only ever
+ * live behind a `blob:` URL).
+ * Media blobs are stored once per content hash; the session record references
+ * them the same way project files do (`cutpilot-media:<sha256>`).
+ */
+
+const DB_NAME = 'cutpilot';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const MEDIA_STORE = 'media';
+const SESSION_KEY = 'current';
+const AUTOSAVE_DELAY_MS = 1500;
+
+export interface SavedSession {
+    savedAt: number;
+    clips: Clip[];
+    transitions: Transition[];
+    tracks?: Track[]; // Absent in sessions saved before tracks were entities
+    sequences?: Sequence[]; // Contents of compound clips
+    markers?: Marker[];
+    workspaceFiles?: WorkspaceItem[]; // Absent in sessions saved before the workspace was kept
+    dirty: boolean; // False once the same state has been saved to a project file
+}
+
+// What gets written: always the root timeline, even while a compound clip's sequence is open
+type TimelineSnapshot = Pick<SavedSession, 'clips' | 'transitions' | 'tracks' | 'sequences' | 'markers' | 'workspaceFiles'>;
+
+const isLocalUrl = (url?: string): url is string => !!url && (url.startsWith('blob:') || url.startsWith('data:'));
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+            if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export class AutosaveService {
+    private db: Promise<IDBDatabase> | null = null;
+    private store: TimelineStore | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private urlHashes = new Map<string, string>(); // blob/data URL -> stored media hash
+    private workspace: WorkspaceItem[] = [];
+
+    private getDb(): Promise<IDBDatabase> {
+        if (!this.db) this.db = openDatabase();
+        return this.db;
+    }
+
+    /** Starts mirroring `store`. Call only after any pending restore has been resolved. */
+    start(store: TimelineStore) {
+        if (this.unsubscribe) return;
+        this.store = store;
+        let isInitialEmit = true;
+        this.unsubscribe = store.subscribe(() => {
+            if (isInitialEmit) { isInitialEmit = false; return; }
+            this.schedule(this.snapshot());
+        });
+    }
+
+    stop() {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    /** The workspace lives outside the store, so its owner hands each new list over. */
+    setWorkspace(items: WorkspaceItem[]) {
+        if (items === this.workspace) return;
+        this.workspace = items;
+        if (this.unsubscribe) this.schedule(this.snapshot());
+    }
+
+    /** Records the current timeline as saved, so the next startup won't offer to restore it. */
+    markSaved() {
+        if (!this.store) return;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.enqueue(this.snapshot(), false);
+    }
+
+    private snapshot(): TimelineSnapshot {
+        return { ...this.store!.getRootTimeline(), sequences: this.store!.getSequences(), workspaceFiles: this.workspace };
+    }
+
+    private schedule(snapshot: TimelineSnapshot) {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.enqueue(snapshot, true);
+        }, AUTOSAVE_DELAY_MS);
+    }
+
+    private enqueue(snapshot: TimelineSnapshot, dirty: boolean) {
+        this.writeQueue = this.writeQueue
+            .then(() => this.write(snapshot, dirty))
+            .catch(e => console.warn("Autosave failed", e));
+    }
+
+    // Copies a clip's media into the media store (once per content hash)
+    private async persistMedia(db: IDBDatabase, url: string): Promise<string | null> {
+        if (this.urlHashes.has(url)) return this.urlHashes.get(url)!;
+        try {
+            const blob = await fetchBlob(url);
+            const hash = await hashBlob(blob);
+            const existing = await promisify(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).getKey(hash));
+            if (existing === undefined) {
+                await promisify(db.transaction(MEDIA_STORE, 'readwrite').objectStore(MEDIA_STORE).put(blob, hash));
+            }
+            this.urlHashes.set(url, hash);
+            return hash;
+        } catch (e) {
+            console.warn("Autosave: could not store media", e);
+            return null;
+        }
+    }
+
+    // A local media URL as a stored reference (other URLs, and media that couldn't be stored, stay as they are)
+    private async storeUrl(db: IDBDatabase, url: string): Promise<string> {
+        if (!isLocalUrl(url)) return url;
+        const hash = await this.persistMedia(db, url);
+        return hash ? toMediaReference(hash) : url;
+    }
+
+    // Swaps local media URLs for stored references
+    private async storeClips(db: IDBDatabase, clips: Clip[]): Promise<Clip[]> {
+        const storedClips: Clip[] = [];
+        for (const clip of clips) {
+            storedClips.push(isLocalUrl(clip.sourceUrl) ? { ...clip, sourceUrl: await this.storeUrl(db, clip.sourceUrl) } : clip);
+        }
+        return storedClips;
+    }
+
+    private async storeWorkspace(db: IDBDatabase, items: WorkspaceItem[]): Promise<WorkspaceItem[]> {
+        const stored: WorkspaceItem[] = [];
+        for (const item of items) {
+            stored.push({ ...item, url: await this.storeUrl(db, item.url), thumbnail: item.thumbnail ? await this.storeUrl(db, item.thumbnail) : item.thumbnail });
+        }
+        return stored;
+    }
+
+    private async write(snapshot: TimelineSnapshot, dirty: boolean) {
+        const db = await this.getDb();
+        const clips = await this.storeClips(db, snapshot.clips);
+        const sequences: Sequence[] = [];
+        for (const sequence of snapshot.sequences || []) {
+            sequences.push({ ...sequence, clips: await this.storeClips(db, sequence.clips) });
+        }
+        const workspaceFiles = await this.storeWorkspace(db, snapshot.workspaceFiles || []);
+        const session: SavedSession = { ...snapshot, savedAt: Date.now(), clips, sequences, workspaceFiles, dirty };
+        await promisify(db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE).put(session, SESSION_KEY));
+        await this.pruneMedia(db, [
+            ...allClipLists(clips, sequences).flat().map(c => c.sourceUrl),
+            ...workspaceFiles.flatMap(w => [w.url, w.thumbnail])
+        ]);
+    }
+
+    // Drops media no longer referenced by the session (deleted clips and files, replaced generations)
+    private async pruneMedia(db: IDBDatabase, urls: (string | undefined)[]) {
+        const live = new Set(urls.map(parseMediaReference).filter(Boolean));
+        const keys = await promisify(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).getAllKeys());
+        const stale = keys.filter(k => !live.has(k as string));
+        if (stale.length === 0) return;
+        const store = db.transaction(MEDIA_STORE, 'readwrite').objectStore(MEDIA_STORE);
+        await Promise.all(stale.map(k => promisify(store.delete(k))));
+        this.urlHashes.forEach((hash, url) => { if (!live.has(hash)) this.urlHashes.delete(url); });
+    }
+
+    /**
+     * Returns the previous session if it holds unsaved work, with media rehydrated as
+     * fresh blob URLs. Clips whose media could not be recovered keep their reference URL.
+     */
+    async loadSession(): Promise<SavedSession | null> {
+        const db = await this.getDb();
+        const session = await promisify(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY)) as SavedSession | undefined;
+        if (!session || !session.dirty) return null;
+
+        const urls = new Map<string, string>();
+        const rehydrateUrl = async (stored: string): Promise<string> => {
+            const hash = parseMediaReference(stored);
+            if (!hash) return stored;
+            if (!urls.has(hash)) {
+                const blob = await promisify(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).get(hash)) as Blob | undefined;
+                if (blob) {
+                    const url = URL.createObjectURL(blob);
+                    urls.set(hash, url);
+                    this.urlHashes.set(url, hash);
+                }
+            }
+            return urls.get(hash) || stored;
+        };
+        const rehydrate = async (stored: Clip[]): Promise<Clip[]> => {
+            const clips: Clip[] = [];
+            for (const clip of stored) {
+                clips.push(clip.sourceUrl ? { ...clip, sourceUrl: await rehydrateUrl(clip.sourceUrl) } : clip);
+            }
+            return clips;
+        };
+        const sequences: Sequence[] = [];
+        for (const sequence of session.sequences || []) {
+            sequences.push({ ...sequence, clips: await rehydrate(sequence.clips) });
+        }
+        const workspaceFiles: WorkspaceItem[] = [];
+        for (const item of session.workspaceFiles || []) {
+            workspaceFiles.push({ ...item, url: await rehydrateUrl(item.url), thumbnail: item.thumbnail ? await rehydrateUrl(item.thumbnail) : item.thumbnail });
+        }
+        return { ...session, clips: await rehydrate(session.clips), sequences, workspaceFiles };
+    }
+
+    async clear() {
+        const db = await this.getDb();
+        await promisify(db.transaction(SESSION_STORE, 'readwrite').objectStore(SESSION_STORE).delete(SESSION_KEY));
+        await promisify(db.transaction(MEDIA_STORE, 'readwrite').objectStore(MEDIA_STORE).clear());
+        this.urlHashes.clear();
+    }
+}
+
+export const autosave = new AutosaveService();
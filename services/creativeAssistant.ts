@@ -1,11 +1,12 @@
 
 import { getAiClient } from './gemini';
-import { ChatMessage, Clip, WorkspaceItem } from '../types';
+import { ChatMessage, Clip, Transition, WorkspaceItem } from '../types';
 import { rangeToGeminiParts } from './geminiAdapter';
 import { captureFrameFromVideoUrl, extractAudioFromVideo, sliceAudioBlob } from '../utils/videoUtils';
 
 export interface AssistantContext {
     clips: Clip[];
+    transitions?: Transition[];
     workspaceFiles: WorkspaceItem[];
     mediaRefs: any;
 }
@@ -68,7 +69,7 @@ export const sendMessageToCreativeAssistant = async (
         const rangeParts = await rangeToGeminiParts(
             { start, end, tracks: [] },
             context.clips,
-            context.mediaRefs
+            context.transitions
         );
         parts.push(...rangeParts);
         
@@ -1,6 +1,6 @@
 
 import { GoogleGenAI, Type, FunctionDeclaration, Modality, FunctionCallingConfigMode, GenerateContentResponse } from "@google/genai";
-import { Clip, ToolAction, PlacementDecision, EditPlan, Suggestion, PlanStep, VideoIntent } from "../types";
+import { Clip, ToolAction, PlacementDecision, EditPlan, Suggestion, PlanStep, VideoIntent, TranscriptSentence } from "../types";
 import { TIMELINE_PRIMITIVES } from "./timelinePrimitives";
 
 // Export this for agents to use
@@ -581,6 +581,53 @@ export const generateSpeech = async (text: string, voiceName: string = 'Kore'):
     return pcmToWav(pcmData, 24000, 1);
 };
 
+/**
+ * Transcribes speech into sentences with word timings (seconds from the start
+ * of the audio). Empty when nothing is said; throws when the request fails, so
+ * a failed chunk never passes for silence.
+ */
+export const generateTranscript = async (audioBase64: string): Promise<TranscriptSentence[]> => {
+    const ai = getAiClient();
+    const response: GenerateContentResponse = await callWithRetry(() => ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: {
+            parts: [
+                { inlineData: { mimeType: "audio/wav", data: audioBase64 } },
+                { text: "Transcribe the speech verbatim, including filler words (um, uh, like) and repetitions. Split it into sentences; for each give 'start' and 'end' (float seconds), 'text', and 'words': every word with its own 'text', 'start' and 'end'." }
+            ]
+        },
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        start: { type: Type.NUMBER },
+                        end: { type: Type.NUMBER },
+                        text: { type: Type.STRING },
+                        words: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: { text: { type: Type.STRING }, start: { type: Type.NUMBER }, end: { type: Type.NUMBER } },
+                                required: ['text', 'start', 'end']
+                            }
+                        }
+                    },
+                    required: ['start', 'end', 'text', 'words']
+                }
+            }
+        }
+    }));
+
+    const parsed = tryParseJSON(response.text || "");
+    if (!Array.isArray(parsed)) throw new Error("The transcription came back unreadable");
+    return parsed
+        .filter((s: any) => Number.isFinite(s?.start) && Number.isFinite(s?.end) && typeof s.text === 'string')
+        .map((s: any) => ({ start: s.start, end: s.end, text: s.text, words: Array.isArray(s.words) ? s.words.filter((w: any) => typeof w?.text === 'string') : [] }));
+};
+
 export const generateSubtitles = async (audioBase64: string): Promise<{start: number, end: number, text: string}[]> => {
     const ai = getAiClient();
     try {
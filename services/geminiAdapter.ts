@@ -1,6 +1,10 @@
 
-import { Clip, TimelineRange } from '../types';
+import { Clip, TimelineRange, Transition, Track, Sequence } from '../types';
 import { sliceAudioBlob, captureFrameFromVideoUrl } from '../utils/videoUtils';
+import { renderFrameAt, frameToDataUrl, getClipSourceTime, MediaSourcePool } from '../utils/compositor';
+import { isTrackAudible } from '../timeline/tracks';
+import { flattenCompoundClips } from '../timeline/sequences';
+import { hasOwnAudio } from '../timeline/links';
 
 /**
  * THE GEMINI ADAPTER
@@ -20,125 +24,6 @@ const loadImage = (url: string): Promise<HTMLImageElement> => {
     });
 };
 
-// Renders a specific clip onto the given canvas context
-const drawClipToContext = (
-    ctx: CanvasRenderingContext2D,
-    clip: Clip,
-    source: CanvasImageSource | null,
-    width: number,
-    height: number
-) => {
-    const transform = clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 };
-
-    ctx.save();
-    // Center origin
-    ctx.translate(width / 2, height / 2);
-    // Apply transforms
-    ctx.translate(transform.x * width, transform.y * height);
-    ctx.scale(transform.scale, transform.scale);
-    ctx.rotate((transform.rotation * Math.PI) / 180);
-
-    if (clip.type === 'text' && clip.text) {
-        const style = clip.textStyle || {
-            fontFamily: 'Plus Jakarta Sans',
-            fontSize: 40,
-            isBold: true,
-            isItalic: false,
-            isUnderline: false,
-            color: '#ffffff',
-            backgroundColor: '#000000',
-            backgroundOpacity: 0,
-            align: 'center'
-        };
-
-        const fontWeight = style.isBold ? 'bold' : 'normal';
-        const fontStyle = style.isItalic ? 'italic' : 'normal';
-        ctx.font = `${fontStyle} ${fontWeight} ${style.fontSize}px ${style.fontFamily}, sans-serif`;
-        ctx.textAlign = style.align as any || 'center';
-        ctx.textBaseline = 'middle';
-
-        const lines = clip.text.split('\n');
-        const lineHeight = style.fontSize * 1.2;
-        const metrics = ctx.measureText(lines[0]); 
-        if (style.backgroundOpacity > 0) {
-            const bgWidth = metrics.width + (style.fontSize * 1.5);
-            const bgHeight = lineHeight * lines.length + (style.fontSize * 0.5);
-            ctx.save();
-            ctx.globalAlpha = style.backgroundOpacity;
-            ctx.fillStyle = style.backgroundColor;
-            ctx.fillRect(-bgWidth/2, -bgHeight/2, bgWidth, bgHeight);
-            ctx.restore();
-        }
-
-        ctx.fillStyle = style.color;
-        lines.forEach((line, i) => {
-            const yOffset = (i - (lines.length - 1) / 2) * lineHeight;
-            if (style.backgroundOpacity < 0.5) {
-                ctx.strokeStyle = 'black';
-                ctx.lineWidth = style.fontSize / 15;
-                ctx.strokeText(line, 0, yOffset);
-            }
-            ctx.fillText(line, 0, yOffset);
-            if (style.isUnderline) {
-                const lineWidth = ctx.measureText(line).width;
-                ctx.fillRect(-lineWidth / 2, yOffset + style.fontSize/2, lineWidth, style.fontSize/15);
-            }
-        });
-
-    } else if (source) {
-        let srcW = 0, srcH = 0;
-        if (source instanceof HTMLVideoElement) {
-            srcW = source.videoWidth;
-            srcH = source.videoHeight;
-        } else if (source instanceof HTMLImageElement) {
-            srcW = source.naturalWidth;
-            srcH = source.naturalHeight;
-        } else if (source instanceof ImageBitmap) {
-            srcW = source.width;
-            srcH = source.height;
-        }
-
-        if (srcW && srcH) {
-            const aspectSrc = srcW / srcH;
-            const aspectDest = width / height;
-            let drawW, drawH;
-            if (aspectSrc > aspectDest) {
-                drawW = width;
-                drawH = width / aspectSrc;
-            } else {
-                drawH = height;
-                drawW = height * aspectSrc;
-            }
-            ctx.drawImage(source, -drawW/2, -drawH/2, drawW, drawH);
-        }
-    }
-    ctx.restore();
-};
-
-const drawPlaceholder = (
-    ctx: CanvasRenderingContext2D,
-    clip: Clip,
-    width: number,
-    height: number
-) => {
-    ctx.save();
-    ctx.translate(width / 2, height / 2);
-    ctx.fillStyle = '#1a1a1a'; // Dark gray
-    ctx.fillRect(-width/2, -height/2, width, height);
-    
-    ctx.fillStyle = '#404040';
-    ctx.fillRect(-width/4, -height/4, width/2, height/2);
-    
-    ctx.fillStyle = '#ffffff';
-    ctx.font = 'bold 30px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText(`[${clip.type.toUpperCase()}]`, 0, -20);
-    ctx.font = '20px sans-serif';
-    ctx.fillText(clip.title, 0, 20);
-    ctx.restore();
-};
-
 /**
  * STORYBOARD MODE
  * Extracts a representative frame from EVERY clip to help the AI understand
@@ -215,7 +100,9 @@ export const storyboardToGeminiParts = async (
 export const rangeToGeminiParts = async (
     range: TimelineRange,
     clips: Clip[], 
-    mediaRefs: { [key: string]: HTMLVideoElement | HTMLAudioElement | null } 
+    transitions: Transition[] = [],
+    tracks: Track[] = [],
+    sequences: Sequence[] = []
 ): Promise<any[]> => {
     const parts: any[] = [];
     
@@ -233,18 +120,18 @@ export const rangeToGeminiParts = async (
     };
     parts.push({ text: `Timeline Metadata: ${JSON.stringify(contextDescription)}` });
 
-    // Audio Slicing (same as before)
-    const activeAudioVideo = clips.filter(c => 
+    // Audio Slicing (same as before; media inside compound clips counts too)
+    const activeAudioVideo = [...clips, ...flattenCompoundClips(clips, sequences)].filter(c => 
         c.startTime < range.end && (c.startTime + c.duration) > range.start &&
-        (c.type === 'video' || c.type === 'audio')
+        hasOwnAudio(c) && isTrackAudible(tracks, c.trackId)
     );
     const dominantClip = activeAudioVideo.find(c => c.type === 'audio') || activeAudioVideo.find(c => c.type === 'video');
 
     if (dominantClip && dominantClip.sourceUrl) {
         const intersectionStart = Math.max(range.start, dominantClip.startTime);
         const intersectionEnd = Math.min(range.end, dominantClip.startTime + dominantClip.duration);
-        const offsetInClip = intersectionStart - dominantClip.startTime;
-        const sourceStart = dominantClip.sourceStartTime + (offsetInClip * (dominantClip.speed || 1));
+        // A reversed clip plays this range from its later source time backwards
+        const sourceStart = Math.min(getClipSourceTime(dominantClip, intersectionStart), getClipSourceTime(dominantClip, intersectionEnd));
         
         try {
             const audioBase64 = await sliceAudioBlob(dominantClip.sourceUrl, sourceStart, intersectionEnd - intersectionStart);
@@ -257,7 +144,7 @@ export const rangeToGeminiParts = async (
         }
     }
 
-    // Visual Composition (same as before)
+    // Visual Composition
     const duration = range.end - range.start;
     let frameCount = Math.min(Math.ceil(duration / 5), 8);
     if (frameCount < 1) frameCount = 1;
@@ -268,64 +155,21 @@ export const rangeToGeminiParts = async (
         sampleTimes.push(range.start + (step * i));
     }
 
+    // Frames come from the same compositor as preview and export; unloadable sources get a placeholder so the AI doesn't see black
+    const pool = new MediaSourcePool();
     for (const t of sampleTimes) {
-        const canvas = document.createElement('canvas');
-        canvas.width = 1280;
-        canvas.height = 720;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) continue;
-
-        ctx.fillStyle = '#000000';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-        const activeClips = clips
-            .filter(c => t >= c.startTime && t < c.startTime + c.duration)
-            .sort((a, b) => a.trackId - b.trackId); 
-
-        for (const clip of activeClips) {
-            if (clip.type === 'audio') continue;
-            let renderSource: HTMLImageElement | null = null;
-            let captureSuccess = false;
-
-            if (clip.type === 'text') {
-                // Handled in draw
-                captureSuccess = true;
-            } 
-            else if (clip.type === 'image' && clip.sourceUrl) {
-                try {
-                    renderSource = await loadImage(clip.sourceUrl);
-                    captureSuccess = true;
-                } catch (e) { }
-            } 
-            else if (clip.type === 'video' && clip.sourceUrl) {
-                const offset = t - clip.startTime;
-                const sourceTime = clip.sourceStartTime + (offset * (clip.speed || 1));
-                try {
-                    const frameBase64 = await captureFrameFromVideoUrl(clip.sourceUrl, sourceTime);
-                    renderSource = await loadImage(frameBase64);
-                    captureSuccess = true;
-                } catch (e) { 
-                    console.warn(`GeminiAdapter: Frame capture failed for ${clip.title}`, e);
-                }
-            }
-
-            if (captureSuccess) {
-                drawClipToContext(ctx, clip, renderSource, canvas.width, canvas.height);
-            } else {
-                // Use fallback placeholder so AI doesn't see black
-                drawPlaceholder(ctx, clip, canvas.width, canvas.height);
-            }
-        }
-
         try {
-            const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-            const base64 = dataUrl.split(',')[1];
+            const frame = await renderFrameAt(clips, transitions, t, { width: 1280, height: 720 }, { placeholders: true, resolveSource: pool.resolver(), tracks, sequences });
+            const base64 = (await frameToDataUrl(frame, 0.7)).split(',')[1];
             parts.push({
                 inlineData: { mimeType: 'image/jpeg', data: base64 }
             });
             parts.push({ text: `[Composed Visual Frame at ${t.toFixed(1)}s]` });
-        } catch (e) { }
+        } catch (e) {
+            console.warn(`GeminiAdapter: Frame composition failed at ${t.toFixed(1)}s`, e);
+        }
     }
+    pool.dispose();
 
     return parts;
 };
@@ -0,0 +1,224 @@
+import { Clip, Transition, Track, Sequence, Marker, WorkspaceItem, VideoIntent, ChatMessage } from '../types';
+import { createZip, readZip, isZip } from '../utils/zip';
+import { hashBlob, fetchBlob } from '../utils/mediaHash';
+import { normalizeTracks } from '../timeline/tracks';
+import { mapSequenceClips, allClipLists } from '../timeline/sequences';
+
+/**
+ * THE PROJECT FILE
+ *
+ * A `.cutpilot` file is one of two shapes:
+ * - embedded:   a zip holding `project.json` plus every media blob under `media/<sha256>`
+ * - referenced: a bare `project.json`; media are identified by content hash and
+ *               relinked from files the user selects alongside the project on open.
+ *
+ * Inside the document, every local media URL is rewritten to `cutpilot-media:<sha256>`
+ * so nothing depends on session-scoped `blob:` URLs.
+ */
+
+export const PROJECT_FORMAT = 'cutpilot';
+export const PROJECT_VERSION = 3; // v3: compound clips and their sequences; v2: tracks are Track entities (v1 stored bare track ids)
+export const PROJECT_EXTENSION = '.cutpilot';
+
+const MANIFEST_NAME = 'project.json';
+const MEDIA_DIR = 'media/';
+const MEDIA_SCHEME = 'cutpilot-media:';
+
+export type MediaStorage = 'embedded' | 'referenced';
+
+export interface ProjectState {
+    clips: Clip[];
+    transitions: Transition[];
+    tracks: Track[];
+    sequences: Sequence[];
+    markers: Marker[]; // Root timeline markers; sequences carry their own
+    workspaceFiles: WorkspaceItem[];
+    videoIntent: VideoIntent;
+    chatHistory: ChatMessage[];
+}
+
+export interface ProjectMediaRef {
+    hash: string;
+    mimeType: string;
+    size: number;
+    name: string; // Human-readable hint for relinking
+}
+
+export interface ProjectDocument {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string;
+    mediaStorage: MediaStorage;
+    media: ProjectMediaRef[];
+    project: ProjectState;
+}
+
+export interface LoadedProject {
+    state: ProjectState;
+    missingMedia: ProjectMediaRef[];
+}
+
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+// Media that were missing when a project was opened, so re-saving keeps describing them
+const unresolvedMedia = new Map<string, ProjectMediaRef>();
+
+export const isMediaReference = (url?: string): boolean => !!url && url.startsWith(MEDIA_SCHEME);
+export const toMediaReference = (hash: string): string => `${MEDIA_SCHEME}${hash}`;
+export const parseMediaReference = (url?: string): string | null => isMediaReference(url) ? url!.slice(MEDIA_SCHEME.length) : null;
+
+// Applies `fn` to every URL field that can point at project media
+const mapMediaUrls = (state: ProjectState, fn: (url: string) => string): ProjectState => {
+    const mapClip = (c: Clip): Clip => c.sourceUrl ? { ...c, sourceUrl: fn(c.sourceUrl) } : c;
+    return {
+        ...state,
+        clips: (state.clips || []).map(mapClip),
+        sequences: mapSequenceClips(state.sequences || [], mapClip),
+        workspaceFiles: (state.workspaceFiles || []).map(w => ({
+            ...w,
+            url: fn(w.url),
+            thumbnail: w.thumbnail ? fn(w.thumbnail) : w.thumbnail
+        }))
+    };
+};
+
+const collectMediaNames = (state: ProjectState): Map<string, string> => {
+    const names = new Map<string, string>();
+    state.workspaceFiles.forEach(w => { names.set(w.url, w.name); if (w.thumbnail) names.set(w.thumbnail, `${w.name} (thumbnail)`); });
+    allClipLists(state.clips, state.sequences || []).forEach(clips => clips.forEach(c => {
+        if (c.sourceUrl && !names.has(c.sourceUrl)) names.set(c.sourceUrl, c.title);
+    }));
+    return names;
+};
+
+// blob: URLs die with the tab; data: URLs are self-contained and only move into the zip when embedding
+const isStoredUrl = (url: string, storage: MediaStorage): boolean =>
+    url.startsWith('blob:') || (storage === 'embedded' && url.startsWith('data:'));
+
+/**
+ * Serializes the project into a `.cutpilot` Blob.
+ */
+export const saveProjectFile = async (state: ProjectState, storage: MediaStorage = 'embedded'): Promise<Blob> => {
+    const names = collectMediaNames(state);
+    const urlToHash = new Map<string, string>();
+    const media = new Map<string, { ref: ProjectMediaRef, blob: Blob }>();
+    const referencedOnly: ProjectMediaRef[] = [];
+
+    for (const [url, name] of names) {
+        if (isMediaReference(url)) {
+            const ref = unresolvedMedia.get(parseMediaReference(url)!);
+            if (ref && !media.has(ref.hash)) referencedOnly.push(ref);
+            continue;
+        }
+        if (!isStoredUrl(url, storage)) continue;
+        try {
+            const blob = await fetchBlob(url);
+            const hash = await hashBlob(blob);
+            urlToHash.set(url, hash);
+            if (!media.has(hash)) {
+                media.set(hash, { ref: { hash, mimeType: blob.type || 'application/octet-stream', size: blob.size, name }, blob });
+            }
+        } catch (e) {
+            console.warn(`ProjectFile: could not read media "${name}", keeping its URL as-is`, e);
+        }
+    }
+
+    const doc: ProjectDocument = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        mediaStorage: storage,
+        media: [...Array.from(media.values()).map(m => m.ref), ...referencedOnly],
+        project: mapMediaUrls(state, url => urlToHash.has(url) ? toMediaReference(urlToHash.get(url)!) : url)
+    };
+    const manifest = new TextEncoder().encode(JSON.stringify(doc));
+
+    if (storage === 'referenced') {
+        return new Blob([manifest], { type: 'application/json' });
+    }
+
+    const entries = [{ name: MANIFEST_NAME, data: manifest }];
+    for (const { ref, blob } of media.values()) {
+        entries.push({ name: `${MEDIA_DIR}${ref.hash}`, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    return createZip(entries);
+};
+
+const parseDocument = (text: string): ProjectDocument => {
+    let doc: ProjectDocument;
+    try {
+        doc = JSON.parse(text);
+    } catch {
+        throw new ProjectFileError('Project file is not valid JSON.');
+    }
+    if (!doc || doc.format !== PROJECT_FORMAT || !doc.project) {
+        throw new ProjectFileError('Not a CutPilot project file.');
+    }
+    if (typeof doc.version !== 'number' || doc.version > PROJECT_VERSION) {
+        throw new ProjectFileError(`Project was saved by a newer version of CutPilot (format v${doc.version}).`);
+    }
+    return doc;
+};
+
+/**
+ * Reads a `.cutpilot` file and rehydrates its media as fresh blob URLs.
+ * `candidates` are extra files picked alongside the project; they are matched
+ * to referenced media by size, then by content hash.
+ */
+export const openProjectFile = async (file: Blob, candidates: File[] = []): Promise<LoadedProject> => {
+    let doc: ProjectDocument;
+    const blobs = new Map<string, Blob>();
+
+    if (await isZip(file)) {
+        const entries = await readZip(file);
+        const manifest = entries.get(MANIFEST_NAME);
+        if (!manifest) throw new ProjectFileError('Project archive has no project.json.');
+        doc = parseDocument(await manifest.text());
+        entries.forEach((blob, name) => {
+            if (name.startsWith(MEDIA_DIR)) blobs.set(name.slice(MEDIA_DIR.length), blob);
+        });
+    } else {
+        doc = parseDocument(await file.text());
+    }
+
+    const unresolved = doc.media.filter(m => !blobs.has(m.hash));
+    for (const candidate of candidates) {
+        if (!unresolved.some(m => m.size === candidate.size && !blobs.has(m.hash))) continue;
+        const hash = await hashBlob(candidate);
+        if (unresolved.some(m => m.hash === hash)) blobs.set(hash, candidate);
+    }
+
+    const urls = new Map<string, string>();
+    doc.media.forEach(ref => {
+        const blob = blobs.get(ref.hash);
+        if (blob) urls.set(ref.hash, URL.createObjectURL(new Blob([blob], { type: ref.mimeType })));
+    });
+
+    // Missing media keep their `cutpilot-media:` reference so a later save doesn't lose the link
+    const state = mapMediaUrls(doc.project, url => {
+        const hash = parseMediaReference(url);
+        return hash ? urls.get(hash) || url : url;
+    });
+
+    const missingMedia = doc.media.filter(m => !urls.has(m.hash));
+    missingMedia.forEach(m => unresolvedMedia.set(m.hash, m));
+
+    return {
+        state: {
+            clips: state.clips || [],
+            transitions: state.transitions || [],
+            tracks: normalizeTracks(state.tracks as Array<Track | number>, state.clips || []),
+            sequences: (state.sequences || []).map(s => ({ ...s, tracks: normalizeTracks(s.tracks, s.clips) })),
+            markers: state.markers || [],
+            workspaceFiles: state.workspaceFiles || [],
+            videoIntent: state.videoIntent || {},
+            chatHistory: state.chatHistory || []
+        },
+        missingMedia
+    };
+};
@@ -1,7 +1,14 @@
 
 import { getAiClient, callWithRetry } from './gemini';
-import { captureFrameFromVideoUrl, extractAudioFromVideo } from '../utils/videoUtils';
-import { Clip } from '../types';
+import { captureFrameFromVideoUrl } from '../utils/videoUtils';
+import { analyzeBeats } from '../utils/audioAnalysis';
+import { beatsInClip } from '../timeline/beats';
+import { getSourceSpan, sourceEventsInClip } from '../timeline/timeRemap';
+import { SceneOptions, DEFAULT_SCENES, detectScenes } from '../utils/sceneDetection';
+import { timelineStore, TimelineStore } from '../timeline/store';
+import { TimelineOps } from '../timeline/operations';
+import { MontageOptions, MontageSource, MontageResult, montageSourceFromClip, montageSourceFromItem } from '../timeline/montage';
+import { Clip, BeatAnalysis, SceneCut, WorkspaceItem } from '../types';
 import { GenerateContentResponse } from "@google/genai";
 
 export class SmartEditService {
@@ -57,35 +64,67 @@ export class SmartEditService {
     }
 
     /**
-     * Analyzes audio to find beat markers.
+     * Finds the tempo and the beats the clip plays, in timeline seconds. Runs
+     * locally on the decoded audio and is cached per source.
      */
-    async detectBeats(clip: Clip): Promise<number[]> {
-        if (!clip.sourceUrl || clip.type !== 'audio' && clip.type !== 'video') return [];
+    async detectBeats(clip: Clip): Promise<BeatAnalysis | null> {
+        if (!clip.sourceUrl || clip.type !== 'audio' && clip.type !== 'video') return null;
         
-        const ai = getAiClient();
         try {
-            // Fetch blob to extract audio
-            const response = await fetch(clip.sourceUrl);
-            const blob = await response.blob();
-            const audioB64 = await extractAudioFromVideo(blob);
-
-            const result: GenerateContentResponse = await callWithRetry(() => ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: {
-                    parts: [
-                        { inlineData: { mimeType: 'audio/wav', data: audioB64 } },
-                        { text: "Analyze this audio. Return a JSON array of timestamps (in seconds) for the main downbeats/rhythm hits. Format: [0.5, 1.2, ...]" }
-                    ]
-                },
-                config: { responseMimeType: 'application/json' }
-            }));
-
-            const beats = JSON.parse(result.text || "[]");
-            return Array.isArray(beats) ? beats : [];
+            const analysis = await analyzeBeats(clip.sourceUrl);
+            return analysis ? { bpm: analysis.bpm, beats: beatsInClip(clip, analysis) } : null;
         } catch (e) {
             console.error("Beat Detection Failed", e);
-            return [];
+            return null;
+        }
+    }
+
+    /**
+     * Finds the shot changes inside a video clip, in timeline seconds. Runs
+     * locally on sampled frames and is cached per source range.
+     */
+    async detectScenes(clip: Clip, options: SceneOptions = DEFAULT_SCENES): Promise<SceneCut[]> {
+        if (clip.type !== 'video' || !clip.sourceUrl) throw new Error(`"${clip.title}" is not a video clip`);
+        const span = getSourceSpan(clip);
+        const start = clip.reversed ? clip.sourceStartTime - span : clip.sourceStartTime;
+        const cuts = await detectScenes(clip.sourceUrl, start, start + span, options);
+        return sourceEventsInClip(clip, cuts).filter(c => c.time > clip.startTime && c.time < clip.startTime + clip.duration);
+    }
+
+    /**
+     * Splits a video clip at every shot change as one undo step (on `store`, e.g.
+     * an agent's view of the timeline). Returns the cuts found and the resulting clips.
+     */
+    async splitAtScenes(clip: Clip, options: SceneOptions = DEFAULT_SCENES, store: TimelineStore = timelineStore): Promise<{ cuts: SceneCut[], clips: Clip[] }> {
+        const cuts = await this.detectScenes(clip, options);
+        if (cuts.length === 0) return { cuts, clips: [clip] };
+        const clips = TimelineOps.splitClipAt(store, clip.id, cuts.map(c => c.time), `Split ${clip.title} at scene changes`);
+        return { cuts, clips };
+    }
+
+    /**
+     * Cuts footage (timeline clips and/or project files) to the beats of `music`
+     * on a new track, as one undo step; footage clips' own sound is muted. With
+     * `highlight`, only the parts of each video that show it are used (where any are found).
+     */
+    async buildMontage(music: Clip, footage: { clips?: Clip[], items?: WorkspaceItem[] }, options: MontageOptions, highlight?: string, store: TimelineStore = timelineStore): Promise<MontageResult> {
+        const analysis = await this.detectBeats(music);
+        if (!analysis || analysis.beats.length === 0) throw new Error(`No steady beat found in "${music.title}"`);
+
+        const highlightsOf = async (clip: Clip) => highlight && clip.type === 'video' ? await this.findHighlights(clip, highlight) : [];
+        const sources: MontageSource[] = [];
+        for (const clip of footage.clips || []) {
+            const source = montageSourceFromClip(clip, await highlightsOf(clip));
+            if (source) sources.push(source);
+        }
+        for (const item of footage.items || []) {
+            if (item.type === 'audio') continue;
+            // Searched as if the whole file were on the timeline
+            const whole: Clip = { id: item.id, title: item.name, type: item.type, sourceUrl: item.url, startTime: 0, duration: item.duration, sourceStartTime: 0, totalDuration: item.duration, trackId: 0 };
+            const source = montageSourceFromItem(item, await highlightsOf(whole));
+            if (source) sources.push(source);
         }
+        return TimelineOps.buildMontage(store, music.id, analysis.beats, sources, options, (footage.clips || []).map(c => c.id));
     }
 
     /**
@@ -10,7 +10,7 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
           properties: {
               clipId: { type: Type.STRING },
               startTime: { type: Type.NUMBER, description: 'New start time in seconds' },
-              trackId: { type: Type.NUMBER, description: 'Target track (0-bottom, 3-top)' }
+              trackId: { type: Type.NUMBER, description: 'Target track id (see TRACK STRUCTURE). Locked tracks cannot be edited.' }
           },
           required: ['clipId', 'startTime', 'trackId']
       }
@@ -29,19 +29,33 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
   },
   {
     name: 'update_clip_property',
-    description: 'Modify standard properties: duration, volume, speed. Use move_clip for position.',
+    description: 'Modify standard properties: duration, volume, speed, fadeIn, fadeOut. Use move_clip for position. For speed, a constant value removes any ramp; use speedRamp or rampPreset for variable speed, and reverse to play backwards. fadeIn/fadeOut are audio fade lengths in seconds (0 removes the fade).',
     parameters: {
       type: Type.OBJECT,
       properties: {
         clipId: { type: Type.STRING, description: 'Target clip ID (required)' },
         property: { 
           type: Type.STRING, 
-          enum: ['duration', 'volume', 'speed'],
+          enum: ['duration', 'volume', 'speed', 'fadeIn', 'fadeOut'],
           description: 'Property to modify'
         },
-        value: { type: Type.NUMBER, description: 'New value' }
+        value: { type: Type.NUMBER, description: 'New value (optional for speed when ramping or reversing)' },
+        speedRamp: {
+          type: Type.ARRAY,
+          description: "Speed only: curve points, eased between. Times are seconds from the clip's start.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              time: { type: Type.NUMBER },
+              speed: { type: Type.NUMBER, description: '1 is normal, 0.25 slow motion, 3 fast' }
+            },
+            required: ['time', 'speed']
+          }
+        },
+        rampPreset: { type: Type.STRING, enum: ['ramp_up', 'ramp_down', 'bullet_time', 'speed_bump'], description: 'Speed only: a ready-made ramp stretched over the clip' },
+        reverse: { type: Type.BOOLEAN, description: 'Speed only: true plays the clip backwards, false forwards' }
       },
-      required: ['clipId', 'property', 'value']
+      required: ['clipId', 'property']
     }
   },
   {
@@ -70,6 +84,56 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
       required: ['clipId', 'timeToRemove']
     }
   },
+  {
+    name: 'roll_edit',
+    description: 'Move the cut point between two touching clips on the same track. The outgoing clip gets longer by exactly as much as the incoming clip gets shorter; nothing else moves.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        fromClipId: { type: Type.STRING, description: 'The outgoing (left) clip ID' },
+        toClipId: { type: Type.STRING, description: 'The incoming (right) clip ID' },
+        delta: { type: Type.NUMBER, description: 'Seconds to move the cut (positive = later). Clamped to available source media.' }
+      },
+      required: ['fromClipId', 'toClipId', 'delta']
+    }
+  },
+  {
+    name: 'slip_clip',
+    description: 'Show a different part of the source media without changing the clip position or length.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        clipId: { type: Type.STRING },
+        delta: { type: Type.NUMBER, description: 'Seconds to offset the source (positive = later footage). Clamped to available source media.' }
+      },
+      required: ['clipId', 'delta']
+    }
+  },
+  {
+    name: 'slide_clip',
+    description: 'Move a clip left/right between its neighbors, trimming the touching neighbors so no gap or overlap is created. Total timeline length is unchanged.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        clipId: { type: Type.STRING },
+        delta: { type: Type.NUMBER, description: 'Seconds to move the clip (positive = later).' }
+      },
+      required: ['clipId', 'delta']
+    }
+  },
+  {
+    name: 'ripple_trim',
+    description: 'Trim the start or end of a clip and shift all later clips on the same track to close (or open) the gap.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        clipId: { type: Type.STRING },
+        edge: { type: Type.STRING, enum: ['start', 'end'], description: 'Which edge to trim' },
+        delta: { type: Type.NUMBER, description: 'Seconds to move the edge (positive = later). E.g. edge=end, delta=-1 shortens the clip by 1s; edge=start, delta=1 removes its first second.' }
+      },
+      required: ['clipId', 'edge', 'delta']
+    }
+  },
   {
     name: 'set_clip_layer',
     description: 'Move a clip to a specific track (layer) without changing its time.',
@@ -77,7 +141,7 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
       type: Type.OBJECT,
       properties: {
         clipId: { type: Type.STRING },
-        trackId: { type: Type.NUMBER, description: 'Target track index (0 is bottom)' }
+        trackId: { type: Type.NUMBER, description: 'Target track id (see TRACK STRUCTURE). Locked tracks cannot be edited.' }
       },
       required: ['clipId', 'trackId']
     }
@@ -102,7 +166,7 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
         text: { type: Type.STRING, description: 'Script to speak' },
         voice: { type: Type.STRING, enum: ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'], description: 'Voice personality' },
         insertTime: { type: Type.NUMBER, description: 'Timeline position (seconds)' },
-        trackId: { type: Type.NUMBER, description: 'Audio track (default: 2)' }
+        trackId: { type: Type.NUMBER, description: 'Audio track id (default: the topmost unlocked audio track)' }
       },
       required: ['text', 'insertTime']
     }
@@ -149,6 +213,28 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
           required: ['clipId', 'newDuration']
       }
   },
+  {
+      name: 'add_marker',
+      description: 'Drop a named marker on the timeline ruler (e.g. "Reveal", "Chorus"). Markers are snap points for the user and become chapters on export.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              name: { type: Type.STRING, description: 'Marker / chapter title' },
+              time: { type: Type.NUMBER, description: 'Timeline position in seconds' },
+              duration: { type: Type.NUMBER, description: 'Optional length in seconds, for a range marker' },
+              note: { type: Type.STRING, description: 'Optional note for the editor' }
+          },
+          required: ['name', 'time']
+      }
+  },
+  {
+      name: 'list_markers',
+      description: 'List the timeline markers with their exact times. Use this to resolve references like "at marker Reveal" instead of guessing seconds.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {}
+      }
+  },
   {
       name: 'split_clip',
       description: 'Split a video/audio clip into two parts at a specific time.',
@@ -161,6 +247,159 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
           required: ['clipId', 'splitTime']
       }
   },
+  {
+      name: 'detect_scenes',
+      description: 'Find the shot changes (cuts) inside a video clip by comparing its frames locally. Returns each cut in timeline seconds with a confidence (0-1). With split=true the clip (and its linked audio) is split at every cut as one undo step, so each shot becomes its own clip.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              clipId: { type: Type.STRING, description: 'Video clip to analyse' },
+              split: { type: Type.BOOLEAN, description: 'Also split the clip at the cuts (default false)' },
+              threshold: { type: Type.NUMBER, description: 'Sensitivity 0.05-1, lower finds more cuts (default 0.3)' },
+              minShot: { type: Type.NUMBER, description: 'Shortest shot in seconds; closer cuts keep only the stronger (default 0.5)' }
+          },
+          required: ['clipId']
+      }
+  },
+  {
+      name: 'freeze_frame',
+      description: 'Hold the frame of a video clip at a timeline time as a still image. The clip is split there and everything after it on its track moves later by the hold duration.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              clipId: { type: Type.STRING, description: 'Video clip to freeze' },
+              time: { type: Type.NUMBER, description: 'Timeline time (seconds) of the frame to hold' },
+              duration: { type: Type.NUMBER, description: 'Hold length in seconds (default 2)' }
+          },
+          required: ['clipId', 'time']
+      }
+  },
+  {
+      name: 'paste_clips',
+      description: 'Duplicate clips (with the transitions between them and any linked audio) at a new time, as one undo step. The copies get new ids and keep their relative spacing.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              clipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Clips to copy' },
+              time: { type: Type.NUMBER, description: 'Timeline position (seconds) for the earliest copied clip' },
+              trackId: { type: Type.NUMBER, description: 'Optional target track; defaults to the original tracks' }
+          },
+          required: ['clipIds', 'time']
+      }
+  },
+  {
+      name: 'paste_attributes',
+      description: "Copy one clip's look or settings onto other clips (keyframes included), as one undo step.",
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              sourceClipId: { type: Type.STRING, description: 'Clip to take the attributes from' },
+              targetClipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Clips to apply them to' },
+              attributes: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING, enum: ['transform', 'opacity', 'volume', 'speed', 'textStyle', 'effects'] },
+                  description: 'Which attributes to paste'
+              }
+          },
+          required: ['sourceClipId', 'targetClipIds', 'attributes']
+      }
+  },
+  {
+      name: 'set_track_mix',
+      description: "Set a track's fader and/or pan in the audio mix. Works on locked tracks. Crossfades between clips come from transitions (add_transition); per-clip fades from update_clip_property.",
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              trackId: { type: Type.NUMBER, description: 'Track to mix' },
+              gain: { type: Type.NUMBER, description: 'Linear gain 0-2 (1 is unchanged, 0.5 is about -6 dB)' },
+              pan: { type: Type.NUMBER, description: '-1 is full left, 0 centre, 1 full right' }
+          },
+          required: ['trackId']
+      }
+  },
+  {
+      name: 'duck_music',
+      description: 'Lower music automatically wherever someone speaks (voiceovers and dialogue heard in video/dialogue clips) by writing volume automation onto the music clips, as one undo step. Replaces those clips\' volume keyframes. Use after adding a voiceover over music.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              depthDb: { type: Type.NUMBER, description: 'How far the music dips in dB (default -12; -6 is subtle, -20 nearly silent)' },
+              attack: { type: Type.NUMBER, description: 'Seconds to fade down before speech starts (default 0.25)' },
+              release: { type: Type.NUMBER, description: 'Seconds to come back up after speech ends (default 0.5)' },
+              musicClipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional: clips to duck; defaults to every music clip' },
+              speechClipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional: clips that count as speech; defaults to voiceovers and dialogue' }
+          }
+      }
+  },
+  {
+      name: 'remove_silences',
+      description: 'Jump-cut a talking clip: find its silent stretches and remove them, splitting and ripple-deleting so the rest closes up (linked audio/video is cut too). One undo step. Use preview=true first to see what would go.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              clipId: { type: Type.STRING, description: 'Video or audio clip to tighten' },
+              thresholdDb: { type: Type.NUMBER, description: 'Quieter than this (dBFS) counts as silence (default -40)' },
+              minSilence: { type: Type.NUMBER, description: 'Only pauses at least this long in seconds are cut (default 0.5)' },
+              padding: { type: Type.NUMBER, description: 'Seconds of pause kept beside the speech on each side (default 0.1)' },
+              preview: { type: Type.BOOLEAN, description: 'Only report the silences (timeline seconds), cut nothing' }
+          },
+          required: ['clipId']
+      }
+  },
+  {
+      name: 'clean_speech',
+      description: 'Auto-clean talking footage from its word-timed transcript (transcribed on first use): cut filler words ("um", "uh", a set-off "like" or "you know"), false starts (cut-off words, repeated words where the first try goes) and long pauses, as tight jump cuts with micro crossfades. Linked audio/video is cut too; one undo step. Use preview=true first to review what would go.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              clipId: { type: Type.STRING, description: 'Optional: the speaking clip; defaults to every dialogue clip' },
+              fillers: { type: Type.BOOLEAN, description: 'Cut filler words (default true)' },
+              falseStarts: { type: Type.BOOLEAN, description: 'Cut false starts and stutters (default true)' },
+              maxPause: { type: Type.NUMBER, description: 'Pauses between words longer than this in seconds are trimmed (default 1; 0 keeps all pauses)' },
+              keepPause: { type: Type.NUMBER, description: 'Seconds of each trimmed pause that stay (default 0.3)' },
+              crossfade: { type: Type.BOOLEAN, description: 'Fade the sound over a few milliseconds at each cut so joins do not click (default true)' },
+              preview: { type: Type.BOOLEAN, description: 'Only list what would be cut (timeline seconds), cut nothing' }
+          }
+      }
+  },
+  {
+      name: 'analyze_loudness',
+      description: 'Measure loudness (EBU R128): integrated and short-term LUFS plus true peak (dBTP), for the whole mix as it would export and for each clip with sound at its current volume. Read-only.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              clipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional: clips to measure; defaults to every clip with sound' }
+          }
+      }
+  },
+  {
+      name: 'normalize_loudness',
+      description: 'Bring loudness to a platform target by changing clip volumes (one undo step) and set the master limiter ceiling to the target true peak. Scope "mix" raises or lowers every clip by the same amount so the whole mix hits the target; "clips" levels each clip on its own (evens out dialogue recorded at different levels).',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              target: { type: Type.STRING, enum: ['youtube', 'tiktok', 'podcast'], description: 'youtube and tiktok: -14 LUFS; podcast: -16 LUFS; all -1 dBTP' },
+              scope: { type: Type.STRING, enum: ['mix', 'clips'], description: 'Default "mix"' },
+              clipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Scope "clips" only: clips to level; defaults to every dialogue clip' }
+          },
+          required: ['target']
+      }
+  },
+  {
+      name: 'build_montage',
+      description: 'Cut footage to the beat of a music clip: a sequence of shots on a new video track over the music, every cut on a beat (or downbeat), each shot between minShot and maxShot seconds, cycling through the footage. The shots are silent and the sound of the footage clips is muted (except on locked tracks), so the music carries it. One undo step.',
+      parameters: {
+          type: Type.OBJECT,
+          properties: {
+              musicClipId: { type: Type.STRING, description: 'Music to cut to; defaults to the first music clip' },
+              footageClipIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Video/image clips to use; defaults to every video and image clip' },
+              minShot: { type: Type.NUMBER, description: 'Shortest shot in seconds (default 1)' },
+              maxShot: { type: Type.NUMBER, description: 'Longest shot in seconds (default 4)' },
+              cutOn: { type: Type.STRING, enum: ['beat', 'downbeat'], description: 'Cut on any beat (default) or only on bar downbeats' },
+              highlight: { type: Type.STRING, description: 'Optional: only use the parts of each video showing this (e.g. "surfer on a wave")' }
+          }
+      }
+  },
   {
       name: 'apply_visual_transform',
       description: 'Apply visual transformations like Zoom, Pan, or Scale.',
@@ -186,6 +425,7 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
               startTime: { type: Type.NUMBER, description: 'Start time in seconds' },
               duration: { type: Type.NUMBER, description: 'Duration in seconds' },
               style: { type: Type.STRING, enum: ['subtitle', 'title', 'label'], description: 'Visual style preset' },
+              trackId: { type: Type.NUMBER, description: 'Text track id (default: the topmost unlocked text track)' },
               textStyle: { 
                   type: Type.OBJECT, 
                   description: 'Optional overrides for text style',
@@ -203,13 +443,16 @@ export const TIMELINE_PRIMITIVES: FunctionDeclaration[] = [
   },
   {
       name: 'perform_smart_edit',
-      description: 'Perform advanced AI editing analysis: Create loops, Sync to Beats, or Find Object Highlights.',
+      description: 'Perform advanced AI editing analysis: Create loops, Sync to Beats, or Find Object Highlights. beat_sync on a music clip cuts all footage to it; on a video clip it cuts that clip to the music (see build_montage for full control).',
       parameters: {
           type: Type.OBJECT,
           properties: {
               editType: { type: Type.STRING, enum: ['loop', 'beat_sync', 'highlight'], description: 'Type of smart edit to perform.' },
               targetClipId: { type: Type.STRING, description: 'The ID of the clip to analyze/edit.' },
-              description: { type: Type.STRING, description: 'Optional description for highlight search (e.g. "red car").' }
+              description: { type: Type.STRING, description: 'Optional description for highlight search (e.g. "red car").' },
+              minShot: { type: Type.NUMBER, description: 'beat_sync: shortest shot in seconds (default 1)' },
+              maxShot: { type: Type.NUMBER, description: 'beat_sync: longest shot in seconds (default 4)' },
+              cutOn: { type: Type.STRING, enum: ['beat', 'downbeat'], description: 'beat_sync: cut on any beat or only downbeats' }
           },
           required: ['editType', 'targetClipId']
       }
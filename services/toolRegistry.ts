@@ -1,8 +1,26 @@
 
-import { Clip, Transition } from '../types';
-import { timelineStore } from '../timeline/store';
+import { Clip, Transition, SceneCut } from '../types';
+import { timelineStore, TimelineStore, TrackLockedError, ValidationReport } from '../timeline/store';
+import { MIN_CLIP_DURATION, TimelineViolation, formatViolations } from '../timeline/validation';
 import { TimelineOps } from '../timeline/operations';
+import { nextTrackId, getTrackMix, formatGain, formatPan } from '../timeline/tracks';
+import { createMarker, sortMarkers, describeMarker } from '../timeline/markers';
+import { copyClips, ATTRIBUTE_GROUPS } from '../timeline/clipboard';
+import { SPEED_RAMP_PRESETS, presetRampPoints, describeSpeed } from '../timeline/timeRemap';
+import { DuckingOptions, DEFAULT_DUCKING, getAudioRole } from '../timeline/ducking';
+import { MontageOptions, DEFAULT_MONTAGE } from '../timeline/montage';
+import { hasOwnAudio, getLinkPartner } from '../timeline/links';
+import { TranscriptMap, timelineTranscript } from '../timeline/transcript';
+import { SpeechCleanupOptions, DEFAULT_SPEECH_CLEANUP, findTranscriptIssues, speechCuts } from '../timeline/speechCleanup';
+import { getClipSourceTime } from '../utils/compositor';
+import { findSpeechSpans, detectSilences, SilenceOptions, DEFAULT_SILENCE, analyzeClipLoudness, analyzeMixLoudness, estimateClipLoudness, clipNormalizationGains, mixNormalizationGains, toDb } from '../utils/audioAnalysis';
+import { flattenCompoundClips } from '../timeline/sequences';
+import { LOUDNESS_TARGETS, LoudnessTargetId, LoudnessReport, formatLoudness, isOnTarget } from '../utils/loudness';
+import { audioMixer } from '../utils/audioMixer';
+import { captureFrameFromVideoUrl } from '../utils/videoUtils';
+import { DEFAULT_SCENES } from '../utils/sceneDetection';
 import { generateSpeech, generateVideo, generateImage } from './gemini';
+import { transcribeSource } from './transcription';
 import { TIMELINE_PRIMITIVES } from './timelinePrimitives';
 import { smartEdit } from './smartEdit';
 
@@ -15,43 +33,100 @@ export interface ToolExecutionResult {
 }
 
 export interface ToolDefinition {
-    execute: (args: any) => Promise<ToolExecutionResult>;
+    execute: (args: any, store: TimelineStore) => Promise<ToolExecutionResult>; // `store` records its edits as the agent's
     requiresApproval?: boolean;
     description?: string;
 }
 
-// Helper for safe track assignment
-const getSafeTrackId = () => {
-    const clips = timelineStore.getClips();
-    if (clips.length === 0) return 1;
-    return Math.max(...clips.map(c => c.trackId)) + 1;
+// A numeric tool argument, or the default when it's left out (NaN when it isn't a number, for the caller to reject)
+const option = <T extends number | undefined>(value: any, fallback: T): number | T => value !== undefined ? Number(value) : fallback;
+
+// Music and footage for a montage: explicit ids, else the first music clip and every picture clip
+const runMontage = async (store: TimelineStore, args: any, musicClipId?: string, footageClipIds?: string[]): Promise<ToolExecutionResult> => {
+    const clips = store.getClips();
+    const music = musicClipId ? clips.find(c => c.id === musicClipId) : clips.find(c => getAudioRole(c) === 'music');
+    if (!music || !hasOwnAudio(music)) return { success: false, error: musicClipId ? `Clip ${musicClipId} is not a music clip` : 'No music clip on the timeline to cut to' };
+    const footage = clips.filter(c => (c.type === 'video' || c.type === 'image') && (footageClipIds ? footageClipIds.includes(c.id) : true));
+    if (footage.length === 0) return { success: false, error: 'No video or image clips to use as footage' };
+    const options: MontageOptions = {
+        minShot: option(args.minShot, DEFAULT_MONTAGE.minShot),
+        maxShot: option(args.maxShot, DEFAULT_MONTAGE.maxShot),
+        cutOn: args.cutOn === 'downbeat' ? 'downbeat' : 'beat'
+    };
+    const { clips: added, muted, stillAudible } = await smartEdit.buildMontage(music, { clips: footage }, options, args.highlight || undefined, store);
+    const kept = stillAudible.length > 0 ? `; ${stillAudible.map(c => `"${c.title}"`).join(', ')} still play(s) under it (locked track)` : '';
+    return {
+        success: true,
+        message: `Built a ${added.length}-shot montage over "${music.title}" on track ${added[0]?.trackId}, cutting on ${options.cutOn}s. Muted the sound of ${muted.length} footage clip(s)${kept}`,
+        data: { clipIds: added.map(c => c.id), cuts: added.map(c => +c.startTime.toFixed(2)), mutedClipIds: muted.map(c => c.id) }
+    };
 };
 
+// update_clip_property for speed: reverse, then a ramp (explicit points or a preset) or a constant value
+const setClipSpeed = (store: TimelineStore, args: any): ToolExecutionResult => {
+    const clip = store.getClips().find(c => c.id === args.clipId);
+    if (!clip) return { success: false, error: `Clip ${args.clipId} not found` };
+    const points: [number, number][] | null = Array.isArray(args.speedRamp) && args.speedRamp.length > 0
+        ? args.speedRamp.map((p: any) => [Number(p.time), Number(p.speed)])
+        : args.rampPreset in SPEED_RAMP_PRESETS ? presetRampPoints(clip, args.rampPreset) : null;
+    const value = args.value !== undefined ? Number(args.value) : undefined;
+    if (!points && value === undefined && typeof args.reverse !== 'boolean') return { success: false, error: 'Give a value, speedRamp, rampPreset or reverse' };
+    // Checked up front so a bad ramp doesn't leave a half-applied batch behind
+    if ((points || typeof args.reverse === 'boolean') && clip.type !== 'video' && clip.type !== 'audio') return { success: false, error: `"${clip.title}" has no media to re-time` };
+    if (points && (points.length < 2 || !points.every(([t, v]) => Number.isFinite(t) && Number.isFinite(v) && v > 0))) return { success: false, error: 'speedRamp needs at least two points with positive speeds' };
+
+    store.batch(() => {
+        if (typeof args.reverse === 'boolean' && args.reverse !== !!clip.reversed) TimelineOps.reverseClip(store, clip.id);
+        if (points) TimelineOps.setSpeedRamp(store, clip.id, points);
+        else if (value !== undefined) {
+            TimelineOps.clearSpeedRamp(store, clip.id);
+            TimelineOps.updateClipProperty(store, clip.id, 'speed', value);
+        }
+    }, `Set speed of ${clip.title}`);
+    const updated = store.getClips().find(c => c.id === clip.id);
+    return { success: true, message: `Speed of ${clip.id} is now ${updated ? describeSpeed(updated) : 'unchanged'}` };
+};
+
+// Trim ops clamp to source handles; tell the agent when it didn't get what it asked for
+const describeTrim = (action: string, requested: number, applied: number): string =>
+    Math.abs(applied - requested) < 1e-3
+        ? `${action} by ${applied.toFixed(2)}s`
+        : `${action} by ${applied.toFixed(2)}s (requested ${requested.toFixed(2)}s, limited by source media or clip length)`;
+
+// Helper for safe track assignment: a fresh track on top (the store creates it with the clip)
+const getSafeTrackId = (store: TimelineStore) => nextTrackId(store.getTracks());
+
 const toolRegistry: Record<string, ToolDefinition> = {
     'move_clip': {
-        execute: async (args) => {
-            TimelineOps.moveClip(timelineStore, args.clipId, Number(args.startTime), args.trackId !== undefined ? Number(args.trackId) : undefined);
+        execute: async (args, store) => {
+            TimelineOps.moveClip(store, args.clipId, Number(args.startTime), args.trackId !== undefined ? Number(args.trackId) : undefined);
             return { success: true, message: `Moved clip ${args.clipId}` };
         }
     },
 
     'request_user_assistance': {
-        execute: async (args) => {
+        execute: async (args, store) => {
             return { success: true, message: `Requested user assistance: ${args.message}`, clipId: 'system-request' };
         }
     },
 
     'update_clip_property': {
-        execute: async (args) => {
-            TimelineOps.updateClipProperty(timelineStore, args.clipId, args.property, Number(args.value));
+        execute: async (args, store) => {
+            if (args.property === 'speed') return setClipSpeed(store, args);
+            if (args.property === 'fadeIn' || args.property === 'fadeOut') {
+                TimelineOps.setClipFades(store, args.clipId, { [args.property]: Number(args.value) });
+                const clip = store.getClips().find(c => c.id === args.clipId);
+                return { success: true, message: `${args.clipId} fades in over ${(clip?.fadeIn || 0).toFixed(2)}s and out over ${(clip?.fadeOut || 0).toFixed(2)}s` };
+            }
+            TimelineOps.updateClipProperty(store, args.clipId, args.property, Number(args.value));
             return { success: true, message: `Updated ${args.property} for ${args.clipId}` };
         }
     },
 
     'add_transition': {
-        execute: async (args) => {
+        execute: async (args, store) => {
             const { fromClipId, toClipId, type, duration = 1.0 } = args;
-            const clips = timelineStore.getClips();
+            const clips = store.getClips();
             const fromClip = clips.find(c => c.id === fromClipId);
             const toClip = clips.find(c => c.id === toClipId);
 
@@ -60,73 +135,351 @@ const toolRegistry: Record<string, ToolDefinition> = {
 
             // AUTO-ADJUST: Ensure overlap exists
             // Standard NLE behavior: Move incoming clip (toClip) BACKWARD by `duration` seconds
-            // so it overlaps with the end of fromClip.
-            
-            const desiredStartTime = (fromClip.startTime + fromClip.duration) - duration;
-            const currentGap = toClip.startTime - (fromClip.startTime + fromClip.duration);
-            
-            // Logic: If there is a gap, close it AND overlap. If they are touching, just overlap.
-            // We just set toClip.startTime to `desiredStartTime`.
-            // BUT we must check if toClip has room (source handles). 
-            // For this demo, we assume infinite handles or allow freezing.
-            
-            TimelineOps.moveClip(timelineStore, toClipId, desiredStartTime);
+            // so it overlaps with the end of fromClip. The overlap can't swallow either clip whole.
+            const overlap = Math.min(Number(duration), fromClip.duration - MIN_CLIP_DURATION, toClip.duration - MIN_CLIP_DURATION);
+            if (!(overlap > 0)) return { success: false, error: "Clips are too short for a transition" };
+            const desiredStartTime = (fromClip.startTime + fromClip.duration) - overlap;
 
             // Create Transition Object
             const transition: Transition = {
                 id: `trans-${Date.now()}`,
                 type: type,
                 startTime: desiredStartTime,
-                duration: duration,
+                duration: overlap,
                 trackId: fromClip.trackId,
                 fromClipId: fromClipId,
                 toClipId: toClipId
             };
 
-            timelineStore.addTransition(transition);
+            // One entry: the overlap is only valid once the transition exists
+            store.batch(() => {
+                TimelineOps.moveClip(store, toClipId, desiredStartTime);
+                store.addTransition(transition);
+            }, `Add ${type} transition`);
 
-            return { success: true, message: `Added ${type} transition (created ${duration}s overlap).` };
+            return { success: true, message: `Added ${type} transition (created ${overlap.toFixed(2)}s overlap).` };
         }
     },
 
     'ripple_delete': {
-        execute: async (args) => {
-            TimelineOps.rippleDelete(timelineStore, args.clipId);
+        execute: async (args, store) => {
+            TimelineOps.rippleDelete(store, args.clipId);
             return { success: true, message: `Ripple deleted ${args.clipId}` };
         }
     },
 
     'smart_trim': {
-        execute: async (args) => {
-            TimelineOps.trimClip(timelineStore, args.clipId, Number(args.newDuration));
+        execute: async (args, store) => {
+            TimelineOps.trimClip(store, args.clipId, Number(args.newDuration));
             return { success: true, message: `Trimmed end of ${args.clipId}` };
         }
     },
 
     'trim_clip_start': {
-        execute: async (args) => {
-            TimelineOps.trimClipStart(timelineStore, args.clipId, Number(args.timeToRemove));
+        execute: async (args, store) => {
+            TimelineOps.trimClipStart(store, args.clipId, Number(args.timeToRemove));
             return { success: true, message: `Trimmed start of ${args.clipId}` };
         }
     },
 
+    'roll_edit': {
+        execute: async (args, store) => {
+            const applied = TimelineOps.rollEdit(store, args.fromClipId, args.toClipId, Number(args.delta));
+            return { success: true, message: describeTrim(`Rolled cut between ${args.fromClipId} and ${args.toClipId}`, Number(args.delta), applied) };
+        }
+    },
+
+    'slip_clip': {
+        execute: async (args, store) => {
+            const applied = TimelineOps.slipEdit(store, args.clipId, Number(args.delta));
+            return { success: true, message: describeTrim(`Slipped ${args.clipId}`, Number(args.delta), applied) };
+        }
+    },
+
+    'slide_clip': {
+        execute: async (args, store) => {
+            const applied = TimelineOps.slideEdit(store, args.clipId, Number(args.delta));
+            return { success: true, message: describeTrim(`Slid ${args.clipId}`, Number(args.delta), applied) };
+        }
+    },
+
+    'ripple_trim': {
+        execute: async (args, store) => {
+            const edge = args.edge === 'start' ? 'start' : 'end';
+            const applied = TimelineOps.rippleTrim(store, args.clipId, edge, Number(args.delta));
+            return { success: true, message: describeTrim(`Ripple trimmed ${edge} of ${args.clipId}`, Number(args.delta), applied) };
+        }
+    },
+
     'set_clip_layer': {
-        execute: async (args) => {
-            TimelineOps.setClipLayer(timelineStore, args.clipId, Number(args.trackId));
+        execute: async (args, store) => {
+            TimelineOps.setClipLayer(store, args.clipId, Number(args.trackId));
             return { success: true, message: `Moved ${args.clipId} to track ${args.trackId}` };
         }
     },
 
+    'add_marker': {
+        execute: async (args, store) => {
+            const time = Number(args.time);
+            if (!Number.isFinite(time) || time < 0) return { success: false, error: `Invalid marker time: ${args.time}` };
+            const marker = createMarker(time, store.getMarkers(), args.name);
+            if (Number(args.duration) > 0) marker.duration = Number(args.duration);
+            if (args.note) marker.note = String(args.note);
+            store.addMarker(marker);
+            return { success: true, message: `Added marker ${describeMarker(marker)}`, data: { marker } };
+        }
+    },
+
+    'list_markers': {
+        execute: async (_args, store) => {
+            const markers = sortMarkers(store.getMarkers());
+            if (markers.length === 0) return { success: true, message: 'The timeline has no markers.', data: { markers } };
+            return { success: true, message: `Markers: ${markers.map(describeMarker).join('; ')}`, data: { markers } };
+        }
+    },
+
     'split_clip': {
-        execute: async (args) => {
-            TimelineOps.splitClip(timelineStore, args.clipId, Number(args.splitTime));
+        execute: async (args, store) => {
+            TimelineOps.splitClip(store, args.clipId, Number(args.splitTime));
             return { success: true, message: `Split ${args.clipId}` };
         }
     },
 
+    'detect_scenes': {
+        execute: async (args, store) => {
+            const clip = store.getClips().find(c => c.id === args.clipId);
+            if (!clip) return { success: false, error: `Clip ${args.clipId} not found` };
+            const options = {
+                threshold: Math.min(1, Math.max(0.05, option(args.threshold, DEFAULT_SCENES.threshold))),
+                minShot: Math.max(0.1, option(args.minShot, DEFAULT_SCENES.minShot))
+            };
+            if (!Object.values(options).every(Number.isFinite)) return { success: false, error: 'threshold and minShot must be numbers' };
+            const shots = (cuts: SceneCut[]) => cuts.map(c => ({ time: +c.time.toFixed(3), confidence: c.confidence }));
+            if (!args.split) {
+                const cuts = await smartEdit.detectScenes(clip, options);
+                return { success: true, message: `Found ${cuts.length} shot change(s) in "${clip.title}"`, data: { cuts: shots(cuts) } };
+            }
+            const { cuts, clips } = await smartEdit.splitAtScenes(clip, options, store);
+            return {
+                success: true,
+                message: cuts.length > 0 ? `Split "${clip.title}" into ${clips.length} shots: ${clips.map(c => c.id).join(', ')}` : `No shot changes found in "${clip.title}"`,
+                data: { cuts: shots(cuts), clipIds: clips.map(c => c.id) }
+            };
+        }
+    },
+
+    'freeze_frame': {
+        execute: async (args, store) => {
+            const clip = store.getClips().find(c => c.id === args.clipId);
+            if (!clip || clip.type !== 'video' || !clip.sourceUrl) return { success: false, error: `Clip ${args.clipId} is not a video clip` };
+            const time = Number(args.time);
+            if (!Number.isFinite(time)) return { success: false, error: `Invalid time: ${args.time}` };
+            const imageUrl = await captureFrameFromVideoUrl(clip.sourceUrl, getClipSourceTime(clip, time));
+            const still = TimelineOps.insertFreezeFrame(store, clip.id, time, imageUrl, args.duration !== undefined ? Number(args.duration) : undefined);
+            if (!still) return { success: false, error: 'Freeze frame was rejected' };
+            return { success: true, message: `Held "${clip.title}" at ${still.startTime.toFixed(2)}s for ${still.duration}s as ${still.id}; later clips on the track moved ${still.duration}s later`, clipId: still.id };
+        }
+    },
+
+    'paste_clips': {
+        execute: async (args, store) => {
+            const clipIds: string[] = Array.isArray(args.clipIds) ? args.clipIds : [];
+            const time = Number(args.time);
+            if (!Number.isFinite(time) || time < 0) return { success: false, error: `Invalid paste time: ${args.time}` };
+            const contents = copyClips(store.getClips(), store.getTransitions(), clipIds);
+            if (!contents) return { success: false, error: `None of these clips exist: ${clipIds.join(', ')}` };
+            const trackId = args.trackId !== undefined ? Number(args.trackId) : undefined;
+            if (trackId !== undefined && !store.getTrack(trackId)) return { success: false, error: `Track ${args.trackId} does not exist` };
+            const pasted = TimelineOps.pasteClips(store, contents, time, trackId);
+            if (pasted.length === 0) return { success: false, error: 'Paste was rejected' };
+            return { success: true, message: `Pasted ${pasted.map(c => `"${c.title}" (${c.id}) at ${c.startTime.toFixed(2)}s`).join(', ')}`, data: { clipIds: pasted.map(c => c.id) } };
+        }
+    },
+
+    'paste_attributes': {
+        execute: async (args, store) => {
+            const source = store.getClips().find(c => c.id === args.sourceClipId);
+            if (!source) return { success: false, error: `Clip ${args.sourceClipId} not found` };
+            const groups = (Array.isArray(args.attributes) ? args.attributes : []).filter((a: string) => ATTRIBUTE_GROUPS.some(g => g.id === a));
+            if (groups.length === 0) return { success: false, error: `No valid attributes; use ${ATTRIBUTE_GROUPS.map(g => g.id).join(', ')}` };
+            const changed = TimelineOps.pasteAttributes(store, source, Array.isArray(args.targetClipIds) ? args.targetClipIds : [], groups);
+            if (changed.length === 0) return { success: false, error: `None of ${groups.join(', ')} apply to the target clips` };
+            return { success: true, message: `Pasted ${groups.join(', ')} from ${source.id} onto ${changed.join(', ')}` };
+        }
+    },
+
+    'set_track_mix': {
+        execute: async (args, store) => {
+            const trackId = Number(args.trackId);
+            if (args.gain === undefined && args.pan === undefined) return { success: false, error: 'Give a gain and/or a pan' };
+            TimelineOps.setTrackMix(store, trackId, {
+                gain: option(args.gain, undefined),
+                pan: option(args.pan, undefined)
+            });
+            const mix = getTrackMix(store.getTracks(), trackId);
+            return { success: true, message: `Track ${trackId} at ${formatGain(mix.gain)}, pan ${formatPan(mix.pan)}` };
+        }
+    },
+
+    'duck_music': {
+        execute: async (args, store) => {
+            const options: DuckingOptions = {
+                depthDb: -Math.abs(option(args.depthDb, DEFAULT_DUCKING.depthDb)),
+                attack: Math.max(0, option(args.attack, DEFAULT_DUCKING.attack)),
+                release: Math.max(0, option(args.release, DEFAULT_DUCKING.release))
+            };
+            if (!Object.values(options).every(Number.isFinite)) return { success: false, error: 'depthDb, attack and release must be numbers' };
+            const speech = await findSpeechSpans(store.getClips(), store.getTracks(), Array.isArray(args.speechClipIds) ? args.speechClipIds : undefined);
+            if (speech.length === 0) return { success: false, error: 'No speech found to duck under' };
+            const ducked = TimelineOps.duckMusic(store, speech, options, Array.isArray(args.musicClipIds) ? args.musicClipIds : undefined);
+            if (ducked.length === 0) return { success: false, error: 'No unlocked music clips play during the speech' };
+            return {
+                success: true,
+                message: `Ducked ${ducked.join(', ')} by ${options.depthDb} dB under ${speech.length} speech span(s)`,
+                data: { clipIds: ducked, speech: speech.map(s => ({ start: +s.start.toFixed(2), end: +s.end.toFixed(2) })) }
+            };
+        }
+    },
+
+    'remove_silences': {
+        execute: async (args, store) => {
+            const clip = store.getClips().find(c => c.id === args.clipId);
+            if (!clip) return { success: false, error: `Clip ${args.clipId} not found` };
+            if (clip.type !== 'video' && clip.type !== 'audio') return { success: false, error: `"${clip.title}" has no sound to cut` };
+            const options: SilenceOptions = {
+                thresholdDb: -Math.abs(option(args.thresholdDb, DEFAULT_SILENCE.thresholdDb)),
+                minSilence: Math.max(0.1, option(args.minSilence, DEFAULT_SILENCE.minSilence)),
+                padding: Math.max(0, option(args.padding, DEFAULT_SILENCE.padding))
+            };
+            if (!Object.values(options).every(Number.isFinite)) return { success: false, error: 'thresholdDb, minSilence and padding must be numbers' };
+            const silences = await detectSilences(clip, options);
+            const spans = silences.map(s => ({ start: +s.start.toFixed(2), end: +s.end.toFixed(2) }));
+            const total = silences.reduce((sum, s) => sum + s.end - s.start, 0);
+            if (silences.length === 0) return { success: true, message: `No silences found in "${clip.title}"`, data: { silences: [] } };
+            if (args.preview) return { success: true, message: `Would remove ${silences.length} silence(s), ${total.toFixed(1)}s, from "${clip.title}"`, data: { silences: spans } };
+            const removed = TimelineOps.cutSpans(store, clip.id, silences, `Remove silences from ${clip.title}`);
+            return { success: true, message: `Removed ${silences.length} silence(s), ${removed.toFixed(1)}s, from "${clip.title}"; later clips on its track moved up`, data: { silences: spans } };
+        }
+    },
+
+    'clean_speech': {
+        execute: async (args, store) => {
+            const clips = store.getClips();
+            let speakers: Clip[];
+            if (args.clipId) {
+                const clip = clips.find(c => c.id === args.clipId);
+                if (!clip) return { success: false, error: `Clip ${args.clipId} not found` };
+                // A video whose sound was detached speaks through its linked audio
+                const sounding = hasOwnAudio(clip) ? clip : getLinkPartner(clips, clip);
+                if (!sounding || !hasOwnAudio(sounding) || !sounding.sourceUrl) return { success: false, error: `"${clip.title}" has no sound to clean up` };
+                speakers = [sounding];
+            } else {
+                speakers = clips.filter(c => hasOwnAudio(c) && c.sourceUrl && getAudioRole(c) === 'dialogue');
+                if (speakers.length === 0) return { success: false, error: 'No dialogue clips to clean up' };
+            }
+            const options: SpeechCleanupOptions = {
+                fillers: args.fillers !== false,
+                falseStarts: args.falseStarts !== false,
+                maxPause: Math.max(0, option(args.maxPause, DEFAULT_SPEECH_CLEANUP.maxPause)),
+                keepPause: Math.max(0, option(args.keepPause, DEFAULT_SPEECH_CLEANUP.keepPause)),
+                fade: args.crossfade === false ? 0 : DEFAULT_SPEECH_CLEANUP.fade
+            };
+            if (![options.maxPause, options.keepPause].every(Number.isFinite)) return { success: false, error: 'maxPause and keepPause must be numbers' };
+
+            // Transcripts are cached per source, so this only calls the transcriber the first time
+            const transcripts: TranscriptMap = {};
+            try {
+                for (const url of new Set(speakers.map(c => c.sourceUrl!))) transcripts[url] = await transcribeSource(url);
+            } catch (e: any) {
+                return { success: false, error: `Transcription failed: ${e.message || e}` };
+            }
+            const paragraphs = timelineTranscript(speakers, transcripts);
+            const issues = findTranscriptIssues(paragraphs, options);
+            const found = issues.map(i => ({ clipId: i.clipId, kind: i.kind, text: i.text, start: +i.span.start.toFixed(2), end: +i.span.end.toFixed(2) }));
+            const total = issues.reduce((sum, i) => sum + i.span.end - i.span.start, 0);
+            if (issues.length === 0) return { success: true, message: 'No filler words, false starts or long pauses found', data: { issues: [] } };
+            if (args.preview) return { success: true, message: `Would cut ${issues.length} spot(s), about ${total.toFixed(1)}s`, data: { issues: found } };
+
+            let removed = 0;
+            store.batch(() => speechCuts(paragraphs, issues).forEach(({ clipId, spans }) => {
+                removed += TimelineOps.cutSpans(store, clipId, spans, undefined, options.fade);
+            }), `Clean up ${issues.length} speech issues`);
+            return { success: true, message: `Cut ${issues.length} spot(s), ${removed.toFixed(1)}s, as jump cuts${options.fade > 0 ? ' with micro crossfades' : ''}; later clips on their tracks moved up`, data: { issues: found } };
+        }
+    },
+
+    'analyze_loudness': {
+        execute: async (args, store) => {
+            const clips = store.getClips();
+            const round = (v: number) => Number.isFinite(v) ? +v.toFixed(1) : null;
+            const summary = (r: LoudnessReport) => ({ integrated: round(r.integrated), shortTermMax: round(r.shortTermMax), truePeak: round(r.truePeak) });
+            const mix = await analyzeMixLoudness([...clips, ...flattenCompoundClips(clips, store.getSequences())], store.getTransitions(), store.getTracks(), audioMixer.getMaster());
+            const measured = clips.filter(c => hasOwnAudio(c) && (!Array.isArray(args.clipIds) || args.clipIds.includes(c.id)));
+            const perClip: Record<string, any> = {};
+            for (const clip of measured) {
+                const report = await analyzeClipLoudness(clip);
+                if (!report) continue;
+                // Reports are at unity gain; shift them to the clip's volume
+                const gain = toDb(clip.volume ?? 1);
+                perClip[clip.id] = summary({ ...report, integrated: report.integrated + gain, shortTermMax: report.shortTermMax + gain, truePeak: report.truePeak + gain });
+            }
+            return {
+                success: true,
+                message: mix ? `Mix: ${round(mix.integrated)} LUFS integrated, ${round(mix.truePeak)} dBTP true peak` : 'The mix is silent',
+                data: { mix: mix ? summary(mix) : null, clips: perClip }
+            };
+        }
+    },
+
+    'normalize_loudness': {
+        execute: async (args, store) => {
+            const target = LOUDNESS_TARGETS[args.target as LoudnessTargetId];
+            if (!target) return { success: false, error: `Unknown target "${args.target}". Use one of: ${Object.keys(LOUDNESS_TARGETS).join(', ')}` };
+            const clips = store.getClips();
+            const chosen = clips.filter(c => Array.isArray(args.clipIds) ? args.clipIds.includes(c.id) : getAudioRole(c) === 'dialogue');
+            let gains: Record<string, number>;
+            let before: number | null = null;
+            if (args.scope === 'clips') {
+                gains = await clipNormalizationGains(chosen, target.integrated);
+            } else {
+                const result = await mixNormalizationGains(clips, store.getTransitions(), store.getTracks(), store.getSequences(), target.integrated);
+                if (!result) return { success: false, error: 'The mix is silent; nothing to normalize' };
+                gains = result.gains;
+                before = result.before.integrated;
+            }
+            const changed = TimelineOps.applyClipGains(store, gains, `Normalize to ${target.label}`);
+            audioMixer.setMaster({ limiter: true, ceilingDb: target.truePeak });
+
+            // Gains are capped and locked tracks skipped, so measure what was actually reached
+            let summary: string;
+            if (args.scope === 'clips') {
+                const missed = store.getClips()
+                    .filter(c => gains[c.id] !== undefined)
+                    .map(c => ({ clip: c, reached: estimateClipLoudness(c) }))
+                    .filter(({ reached }) => reached && !isOnTarget(reached.integrated, target))
+                    .map(({ clip, reached }) => `${clip.id} at ${formatLoudness(reached!.integrated)}`);
+                summary = `${Object.keys(gains).length - missed.length} of ${Object.keys(gains).length} clip(s) leveled to ${target.integrated} LUFS${missed.length > 0 ? ` (short of it: ${missed.join(', ')})` : ''}`;
+            } else {
+                const current = store.getClips();
+                const after = await analyzeMixLoudness([...current, ...flattenCompoundClips(current, store.getSequences())], store.getTransitions(), store.getTracks(), audioMixer.getMaster());
+                const reached = after ? after.integrated : -Infinity;
+                summary = `Mix moved from ${formatLoudness(before!)} to ${formatLoudness(reached)}${!isOnTarget(reached, target) ? ` (target ${target.integrated}; limited by the +6 dB volume cap or locked tracks)` : ''}`;
+            }
+            return {
+                success: true,
+                message: `${summary} for ${target.label}; ${changed.length} clip volume(s) changed, limiter ceiling ${target.truePeak} dBTP`,
+                data: { clipIds: changed, gainsDb: Object.fromEntries(Object.entries(gains).map(([id, db]) => [id, +db.toFixed(1)])) }
+            };
+        }
+    },
+
+    'build_montage': {
+        execute: async (args, store) => runMontage(store, args, args.musicClipId, Array.isArray(args.footageClipIds) ? args.footageClipIds : undefined)
+    },
+
     'apply_visual_transform': {
-        execute: async (args) => {
-            TimelineOps.updateClipProperty(timelineStore, args.clipId, 'transform', {
+        execute: async (args, store) => {
+            TimelineOps.updateClipProperty(store, args.clipId, 'transform', {
                 scale: Number(args.scale || 1),
                 x: Number(args.x || 0),
                 y: Number(args.y || 0),
@@ -137,7 +490,7 @@ const toolRegistry: Record<string, ToolDefinition> = {
     },
 
     'add_text_overlay': {
-        execute: async (args) => {
+        execute: async (args, store) => {
             const stylePreset = args.style || 'subtitle';
             const isTitle = stylePreset === 'title';
             
@@ -157,18 +510,18 @@ const toolRegistry: Record<string, ToolDefinition> = {
                 startTime: Number(args.startTime),
                 duration: Number(args.duration),
                 sourceStartTime: 0,
-                trackId: 3, // Text usually stays on top
+                trackId: args.trackId !== undefined ? Number(args.trackId) : store.ensureTrack('text').id,
                 textStyle: finalStyle as any,
                 transform: { x: 0, y: isTitle ? 0 : 0.35, scale: 1, rotation: 0 } 
             };
-            TimelineOps.addClip(timelineStore, textClip);
+            TimelineOps.addClip(store, textClip);
             return { success: true, message: `Added text "${args.text}"`, clipId: textClip.id };
         }
     },
 
     'generate_voiceover': {
         requiresApproval: true,
-        execute: async (args) => {
+        execute: async (args, store) => {
             const audioUrl = await generateSpeech(args.text, args.voice || 'Kore');
             const tempAudio = new Audio(audioUrl);
             await new Promise<void>((resolve) => {
@@ -184,19 +537,20 @@ const toolRegistry: Record<string, ToolDefinition> = {
                 duration: tempAudio.duration || 5,
                 sourceStartTime: 0,
                 sourceUrl: audioUrl,
-                trackId: args.trackId !== undefined ? Number(args.trackId) : 2,
+                trackId: args.trackId !== undefined ? Number(args.trackId) : store.ensureTrack('audio').id,
+                audioRole: 'dialogue',
                 volume: 1,
                 speed: 1,
                 transform: { x: 0, y: 0, scale: 1, rotation: 0 }
             };
-            TimelineOps.addClip(timelineStore, newClip);
+            TimelineOps.addClip(store, newClip);
             return { success: true, message: `Generated voiceover`, clipId: newClip.id };
         }
     },
 
     'generate_video_asset': {
         requiresApproval: true,
-        execute: async (args) => {
+        execute: async (args, store) => {
             const videoUrl = await generateVideo(
                 args.prompt, 
                 args.model || 'veo-3.1-fast-generate-preview',
@@ -213,19 +567,19 @@ const toolRegistry: Record<string, ToolDefinition> = {
                 duration: Number(args.duration) || 4,
                 sourceStartTime: 0,
                 sourceUrl: videoUrl,
-                trackId: args.trackId !== undefined ? Number(args.trackId) : getSafeTrackId(),
+                trackId: args.trackId !== undefined ? Number(args.trackId) : getSafeTrackId(store),
                 volume: 1,
                 speed: 1,
                 transform: { x: 0, y: 0, scale: 1, rotation: 0 }
             };
-            TimelineOps.addClip(timelineStore, videoClip);
+            TimelineOps.addClip(store, videoClip);
             return { success: true, message: `Generated video`, clipId: videoClip.id };
         }
     },
 
     'generate_image_asset': {
         requiresApproval: true,
-        execute: async (args) => {
+        execute: async (args, store) => {
             const base64Img = await generateImage(args.prompt, args.model || 'gemini-2.5-flash-image');
             const imgUrl = `data:image/png;base64,${base64Img}`;
             
@@ -237,17 +591,17 @@ const toolRegistry: Record<string, ToolDefinition> = {
                 duration: Number(args.duration) || 5,
                 sourceStartTime: 0,
                 sourceUrl: imgUrl,
-                trackId: args.trackId !== undefined ? Number(args.trackId) : getSafeTrackId(),
+                trackId: args.trackId !== undefined ? Number(args.trackId) : getSafeTrackId(store),
                 transform: { x: 0, y: 0, scale: 1, rotation: 0 }
             };
-            TimelineOps.addClip(timelineStore, imgClip);
+            TimelineOps.addClip(store, imgClip);
             return { success: true, message: `Generated image`, clipId: imgClip.id };
         }
     },
 
     'perform_smart_edit': {
-        execute: async (args) => {
-            const clip = timelineStore.getClips().find(c => c.id === args.targetClipId);
+        execute: async (args, store) => {
+            const clip = store.getClips().find(c => c.id === args.targetClipId);
             if (!clip) return { success: false, error: "Clip not found" };
 
             if (args.editType === 'loop') {
@@ -257,11 +611,11 @@ const toolRegistry: Record<string, ToolDefinition> = {
                     const endOffset = loopPoints.end;
                     // Apply cuts to create the loop section
                     // 1. Trim start
-                    TimelineOps.trimClipStart(timelineStore, clip.id, startOffset);
+                    TimelineOps.trimClipStart(store, clip.id, startOffset);
                     
                     // 2. Trim end (Need to fetch updated clip ref or calculate)
                     const newDuration = endOffset - startOffset;
-                    TimelineOps.trimClip(timelineStore, clip.id, newDuration);
+                    TimelineOps.trimClip(store, clip.id, newDuration);
                     
                     return { success: true, message: `Created seamless loop (trimmed ${startOffset.toFixed(1)}s start, set dur to ${newDuration.toFixed(1)}s)` };
                 }
@@ -269,17 +623,8 @@ const toolRegistry: Record<string, ToolDefinition> = {
             }
 
             if (args.editType === 'beat_sync') {
-                const beats = await smartEdit.detectBeats(clip);
-                if (beats.length > 0) {
-                    // Split clip at beats
-                    // Limit to first 3 beats to avoid chaos for demo
-                    for (const beat of beats.slice(0, 3)) {
-                        const splitTime = clip.startTime + beat;
-                        TimelineOps.splitClip(timelineStore, clip.id, splitTime);
-                    }
-                    return { success: true, message: `Synced to ${beats.length} detected beats.` };
-                }
-                return { success: false, message: "No clear beats detected." };
+                // Music target: cut all footage to it; footage target: cut it to the music
+                return clip.type === 'audio' ? runMontage(store, args, clip.id) : runMontage(store, args, undefined, [clip.id]);
             }
 
             if (args.editType === 'highlight') {
@@ -287,8 +632,8 @@ const toolRegistry: Record<string, ToolDefinition> = {
                 if (highlights.length > 0) {
                     // Just take the first highlight and trim the clip to it
                     const h = highlights[0];
-                    TimelineOps.trimClipStart(timelineStore, clip.id, h.start);
-                    TimelineOps.trimClip(timelineStore, clip.id, h.end - h.start);
+                    TimelineOps.trimClipStart(store, clip.id, h.start);
+                    TimelineOps.trimClip(store, clip.id, h.end - h.start);
                     return { success: true, message: `Isolated highlight "${args.description}" (${h.start}-${h.end}s).` };
                 }
                 return { success: false, message: `No highlights found for "${args.description}".` };
@@ -308,7 +653,40 @@ export const executeTool = async (name: string, args: any): Promise<ToolExecutio
     if (!toolDef) {
         throw new Error(`Tool "${name}" is not implemented in the registry.`);
     }
-    return toolDef.execute(args);
+    // Everything the tool changes is recorded in history as an agent edit. The store's
+    // validation reports (refused or clamped edits) are folded into the result.
+    const reports: ValidationReport[] = [];
+    const stopListening = timelineStore.onViolation(report => { if (report.actor === 'agent') reports.push(report); });
+    let result: ToolExecutionResult;
+    try {
+        result = await toolDef.execute(args, timelineStore.actingAs('agent', describeToolCall(name, args)));
+    } catch (e) {
+        if (!(e instanceof TrackLockedError)) throw e;
+        result = { success: false, error: e.message, data: { violations: [{ code: 'track_locked', message: e.message, trackId: e.trackId }] } };
+    } finally {
+        stopListening();
+    }
+    return withValidationReports(result, reports);
+};
+
+// A tool "succeeds" only if the store accepted its edits; clamps are reported alongside
+const withValidationReports = (result: ToolExecutionResult, reports: ValidationReport[]): ToolExecutionResult => {
+    const rejected: TimelineViolation[] = reports.filter(r => r.rejected).flatMap(r => r.violations);
+    const adjusted: TimelineViolation[] = reports.filter(r => !r.rejected).flatMap(r => r.violations);
+    if (rejected.length === 0 && adjusted.length === 0) return result;
+
+    const data = { ...result.data, violations: rejected, adjustments: adjusted };
+    if (rejected.length > 0) {
+        return { ...result, success: false, error: `Edit rejected: ${formatViolations(rejected)}`, data };
+    }
+    return { ...result, message: `${result.message || 'Done'} (adjusted: ${formatViolations(adjusted)})`, data };
+};
+
+// e.g. add_transition + { type: 'fade' } -> "Add transition (fade)"
+const describeToolCall = (name: string, args: any): string => {
+    const action = name.replace(/_/g, ' ');
+    const detail = args?.type || args?.editType || args?.property;
+    return `${action.charAt(0).toUpperCase()}${action.slice(1)}${detail ? ` (${detail})` : ''}`;
 };
 
 export const getToolDescriptions = (): string => {
@@ -0,0 +1,45 @@
+import { TranscriptSentence } from '../types';
+import { decodeAudio } from '../utils/audioAnalysis';
+import { samplesToWavBase64 } from '../utils/videoUtils';
+import { withWordTimings } from '../timeline/transcript';
+import { generateTranscript } from './gemini';
+
+/**
+ * TRANSCRIPTION
+ *
+ * Word-timed transcripts of sources, requested once per URL. The source is sent
+ * as low-rate mono audio in chunks short enough for an inline request, and the
+ * chunks' timings are moved back to source seconds.
+ */
+
+const CHUNK_SECONDS = 240;
+
+const transcripts = new Map<string, Promise<TranscriptSentence[]>>();
+
+const transcribe = async (url: string): Promise<TranscriptSentence[]> => {
+    const audio = await decodeAudio(url);
+    if (!audio) throw new Error("This clip has no sound to transcribe");
+    const chunk = CHUNK_SECONDS * audio.sampleRate;
+    const sentences: TranscriptSentence[] = [];
+    for (let from = 0; from < audio.samples.length; from += chunk) {
+        const offset = from / audio.sampleRate;
+        const part = await generateTranscript(await samplesToWavBase64(audio.samples.subarray(from, from + chunk), audio.sampleRate));
+        part.forEach(s => sentences.push(withWordTimings({
+            start: s.start + offset,
+            end: s.end + offset,
+            text: s.text,
+            words: s.words.map(w => ({ text: w.text, start: w.start + offset, end: w.end + offset }))
+        })));
+    }
+    return sentences;
+};
+
+/** The source's transcript in source seconds; failed requests aren't cached, so they can be retried. */
+export const transcribeSource = (url: string): Promise<TranscriptSentence[]> => {
+    if (!transcripts.has(url)) {
+        const request = transcribe(url);
+        transcripts.set(url, request);
+        request.catch(() => transcripts.delete(url));
+    }
+    return transcripts.get(url)!;
+};
@@ -0,0 +1,23 @@
+import { Clip, BeatAnalysis, BeatInfo } from '../types';
+import { sourceEventsInClip } from './timeRemap';
+import { getAudioRole } from './ducking';
+
+/**
+ * BEATS
+ *
+ * Beat analysis belongs to a source (in source seconds); a clip hears the part
+ * of it between its in and out points, moved by its start time and stretched
+ * by its speed, ramps and direction. Analyses are keyed by source URL.
+ */
+
+export type BeatMap = Record<string, BeatAnalysis>;
+
+/** The source's beats that fall inside `clip`, in timeline seconds and timeline order. */
+export const beatsInClip = (clip: Clip, analysis: BeatAnalysis): BeatInfo[] => sourceEventsInClip(clip, analysis.beats);
+
+/** Every beat heard on the timeline, per clip, for clips whose source has been analysed. */
+export const getClipBeats = (clips: Clip[], beatMap: BeatMap): Map<string, BeatInfo[]> =>
+    new Map(clips.filter(c => c.sourceUrl && beatMap[c.sourceUrl]).map(c => [c.id, beatsInClip(c, beatMap[c.sourceUrl!])]));
+
+/** Whether a clip's beats are worth analysing and drawing: audio clips that aren't speech. */
+export const isBeatSource = (clip: Clip): boolean => clip.type === 'audio' && !!clip.sourceUrl && getAudioRole(clip) !== 'dialogue';
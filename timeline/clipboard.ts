@@ -0,0 +1,143 @@
+import { Clip, Transition, Track, ClipKeyframes, AnimatableProperty } from '../types';
+import { getLinkedClip, unlinked } from './links';
+import { getTrackOrder, trackKindForClip } from './tracks';
+
+/**
+ * THE CLIPBOARD
+ *
+ * Copied clips are stored detached from the timeline: times relative to the
+ * earliest copied clip, original ids kept only so transitions and links can be
+ * re-wired. Every paste instantiates fresh ids, so the same contents can be
+ * pasted any number of times.
+ */
+
+export interface ClipboardContents {
+    clips: Clip[];             // startTime relative to the earliest copied clip
+    transitions: Transition[]; // Only those between two copied clips
+}
+
+// What "paste attributes" can carry over; keyframes travel with the property they animate
+export type AttributeGroup = 'transform' | 'opacity' | 'volume' | 'speed' | 'textStyle' | 'effects';
+
+export const ATTRIBUTE_GROUPS: { id: AttributeGroup, label: string }[] = [
+    { id: 'transform', label: 'Position, scale & rotation' },
+    { id: 'opacity', label: 'Opacity' },
+    { id: 'volume', label: 'Volume' },
+    { id: 'speed', label: 'Speed & speed ramp' },
+    { id: 'textStyle', label: 'Text style' },
+    { id: 'effects', label: 'Effects (keying / blend)' }
+];
+
+const GROUP_KEYFRAMES: Partial<Record<AttributeGroup, AnimatableProperty[]>> = {
+    transform: ['x', 'y', 'scale', 'rotation'],
+    opacity: ['opacity'],
+    volume: ['volume'],
+    speed: ['speed']
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+/**
+ * Copies `ids` (plus any linked partners, which always travel together) and the
+ * transitions between them.
+ */
+export const copyClips = (clips: Clip[], transitions: Transition[], ids: string[]): ClipboardContents | null => {
+    const picked = clips.filter(c => ids.includes(c.id));
+    const withPartners = [...picked, ...picked.map(c => getLinkedClip(clips, c)).filter((c): c is Clip => !!c && !ids.includes(c.id))];
+    const copied = withPartners.filter((c, i) => withPartners.findIndex(o => o.id === c.id) === i);
+    if (copied.length === 0) return null;
+
+    const origin = Math.min(...copied.map(c => c.startTime));
+    const copiedIds = new Set(copied.map(c => c.id));
+    return {
+        clips: copied.map(c => JSON.parse(JSON.stringify({ ...c, startTime: c.startTime - origin }))),
+        transitions: transitions
+            .filter(t => copiedIds.has(t.fromClipId) && copiedIds.has(t.toClipId))
+            .map(t => ({ ...t, startTime: t.startTime - origin }))
+    };
+};
+
+// The copied track that pastes onto the target: the lowest one holding clips of the target's kind
+const baseTrackFor = (contents: ClipboardContents, tracks: Track[], targetTrackId: number): number => {
+    const kind = tracks.find(t => t.id === targetTrackId)?.kind;
+    const matching = contents.clips.filter(c => trackKindForClip(c) === kind);
+    const candidates = (matching.length > 0 ? matching : contents.clips).map(c => c.trackId);
+    return candidates.reduce((low, id) => getTrackOrder(tracks, id) < getTrackOrder(tracks, low) ? id : low);
+};
+
+/**
+ * Fresh clips and transitions for pasting `contents` at `time`. With a
+ * `targetTrackId`, clips from one copied track land on it and the rest keep
+ * their own tracks (so detached audio stays on its audio track).
+ */
+export const instantiatePaste = (contents: ClipboardContents, time: number, tracks: Track[], targetTrackId?: number): ClipboardContents => {
+    const ids = new Map(contents.clips.map(c => [c.id, newId('paste')]));
+    const baseTrack = targetTrackId !== undefined ? baseTrackFor(contents, tracks, targetTrackId) : undefined;
+
+    const clips = contents.clips.map(c => {
+        // A link only survives if both halves were pasted
+        const linkedId = c.linkedClipId && ids.get(c.linkedClipId);
+        const clip: Clip = linkedId ? { ...c, linkedClipId: linkedId } : unlinked(c);
+        clip.id = ids.get(c.id)!;
+        clip.startTime = c.startTime + time;
+        if (baseTrack !== undefined && c.trackId === baseTrack) clip.trackId = targetTrackId!;
+        return clip;
+    });
+    const transitions = contents.transitions.map(t => ({
+        ...t,
+        id: newId('trans'),
+        startTime: t.startTime + time,
+        fromClipId: ids.get(t.fromClipId)!,
+        toClipId: ids.get(t.toClipId)!,
+        trackId: clips.find(c => c.id === ids.get(t.toClipId))!.trackId
+    }));
+    return { clips, transitions };
+};
+
+// Replaces the keyframe lanes of `properties` on `target` with the source's (or removes them)
+const mergeKeyframes = (target: ClipKeyframes | undefined, source: ClipKeyframes | undefined, properties: AnimatableProperty[]): ClipKeyframes | undefined => {
+    const merged: ClipKeyframes = { ...target };
+    properties.forEach(p => {
+        if (source?.[p]?.length) merged[p] = source[p]!.map(k => ({ ...k }));
+        else delete merged[p];
+    });
+    return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+/** The update that gives `target` the chosen attributes of `source`. Groups that don't apply to the target are skipped. */
+export const attributeUpdates = (source: Clip, target: Clip, groups: AttributeGroup[]): Partial<Clip> => {
+    const updates: Partial<Clip> = {};
+    const isText = target.type === 'text';
+    const hasAudio = target.type === 'video' || target.type === 'audio' || target.type === 'compound';
+    const keyframed: AnimatableProperty[] = [];
+
+    groups.forEach(group => {
+        if (group === 'transform' && target.type !== 'audio') updates.transform = source.transform ? { ...source.transform } : undefined;
+        else if (group === 'opacity' && target.type !== 'audio') updates.opacity = source.opacity;
+        else if (group === 'volume' && hasAudio) updates.volume = source.volume;
+        // Speed ramps need source media, so compound clips don't take them
+        else if (group === 'speed' && (target.type === 'video' || target.type === 'audio')) updates.speed = source.speed;
+        else if (group === 'textStyle' && isText && source.textStyle) updates.textStyle = { ...source.textStyle };
+        else if (group === 'effects' && target.type !== 'audio') updates.strategy = source.strategy;
+        else return;
+        keyframed.push(...(GROUP_KEYFRAMES[group] || []));
+    });
+
+    if (keyframed.length > 0) updates.keyframes = mergeKeyframes(target.keyframes, source.keyframes, keyframed);
+    return updates;
+};
+
+/** Holds whatever was last copied or cut, for the UI and the agent alike. */
+export class TimelineClipboard {
+    private contents: ClipboardContents | null = null;
+
+    set(contents: ClipboardContents | null) {
+        this.contents = contents;
+    }
+
+    get(): ClipboardContents | null {
+        return this.contents;
+    }
+}
+
+export const clipboard = new TimelineClipboard();
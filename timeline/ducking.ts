@@ -0,0 +1,103 @@
+import { Clip, Track, Keyframe, AudioRole, TimeSpan } from '../types';
+import { evaluateProperty, getStaticValue } from './keyframes';
+import { hasOwnAudio } from './links';
+import { isTrackAudible } from './tracks';
+
+/**
+ * DUCKING
+ *
+ * Music dips under speech. Speech is a set of timeline spans (voiceover clips
+ * whole, camera dialogue where the analyser hears it); ducking turns them into
+ * volume keyframes on music clips: down over `attack` before each phrase, held,
+ * and back up over `release` after it. Phrases closer together than a full
+ * dip-and-recover stay ducked through the gap.
+ */
+
+export interface DuckingOptions {
+    depthDb: number; // How far music dips, e.g. -12
+    attack: number;  // Seconds to reach full depth before speech starts
+    release: number; // Seconds to recover after speech ends
+}
+
+export const DEFAULT_DUCKING: DuckingOptions = { depthDb: -12, attack: 0.25, release: 0.5 };
+
+// How much quieter music must be over a span to count as ducked under it
+const DUCKED_THRESHOLD_DB = -3;
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+/**
+ * What a clip's sound is: its explicit `audioRole`, else voiceovers, camera audio
+ * and detached camera audio are dialogue and any other audio clip is music.
+ * Null for clips with no sound of their own.
+ */
+export const getAudioRole = (clip: Clip): AudioRole | null => {
+    if (!hasOwnAudio(clip)) return null;
+    if (clip.audioRole) return clip.audioRole;
+    if (clip.type === 'video' || clip.linkedClipId || clip.id.startsWith('vo-')) return 'dialogue';
+    return 'music';
+};
+
+/** Dialogue clips that are heard whole rather than analysed: voiceovers and anything marked as dialogue. */
+export const isVoiceover = (clip: Clip): boolean =>
+    clip.type === 'audio' && (clip.audioRole === 'dialogue' || (!clip.audioRole && clip.id.startsWith('vo-')));
+
+/** Sorted spans with overlaps (and gaps up to `gap` seconds) joined. */
+export const mergeSpans = (spans: TimeSpan[], gap = 0): TimeSpan[] =>
+    [...spans]
+        .filter(s => s.end > s.start)
+        .sort((a, b) => a.start - b.start)
+        .reduce<TimeSpan[]>((merged, span) => {
+            const last = merged[merged.length - 1];
+            if (last && span.start - last.end <= gap) last.end = Math.max(last.end, span.end);
+            else merged.push({ ...span });
+            return merged;
+        }, []);
+
+/** Voiceover spans on audible tracks; camera dialogue has to be found by analysis. */
+export const voiceoverSpans = (clips: Clip[], tracks: Track[]): TimeSpan[] =>
+    clips
+        .filter(c => isVoiceover(c) && isTrackAudible(tracks, c.trackId))
+        .map(c => ({ start: c.startTime, end: c.startTime + c.duration }));
+
+/**
+ * Volume keyframes that duck `clip` under `speech` (timeline spans), scaled
+ * from its static volume. Replaces any existing volume automation; null when
+ * no speech reaches the clip.
+ */
+export const duckingKeyframes = (clip: Clip, speech: TimeSpan[], options: DuckingOptions = DEFAULT_DUCKING): Keyframe[] | null => {
+    const { attack, release } = options;
+    const depth = dbToGain(Math.min(0, options.depthDb));
+    const base = getStaticValue(clip, 'volume');
+    const regions = mergeSpans(speech.map(s => ({ start: s.start - clip.startTime, end: s.end - clip.startTime })), attack + release)
+        .filter(r => r.end + release > 0 && r.start - attack < clip.duration);
+    if (regions.length === 0) return null;
+
+    // Piecewise-linear duck factor over clip-local time
+    const points = regions.flatMap((r): [number, number][] => [[r.start - attack, 1], [r.start, depth], [r.end, depth], [r.end + release, 1]]);
+    const factorAt = (t: number): number => {
+        const next = points.findIndex(([time]) => time > t);
+        if (next <= 0) return next === 0 ? 1 : points[points.length - 1][1];
+        const [t0, v0] = points[next - 1], [t1, v1] = points[next];
+        return t1 === t0 ? v1 : v0 + (v1 - v0) * (t - t0) / (t1 - t0);
+    };
+
+    const times = [
+        ...(factorAt(0) < 1 ? [0] : []),
+        ...points.map(([t]) => t).filter(t => t > 0 && t < clip.duration),
+        ...(factorAt(clip.duration) < 1 ? [clip.duration] : [])
+    ];
+    return times
+        .filter((t, i) => i === 0 || t - times[i - 1] > 1e-4)
+        .map(time => ({ time, value: Math.round(base * factorAt(time) * 1000) / 1000 }));
+};
+
+/** Whether `clip` is noticeably quieter than its static volume all through `span` (timeline seconds). */
+export const isDuckedDuring = (clip: Clip, span: TimeSpan): boolean => {
+    if (!clip.keyframes?.volume?.length) return false;
+    const limit = getStaticValue(clip, 'volume') * dbToGain(DUCKED_THRESHOLD_DB);
+    const from = Math.max(span.start, clip.startTime) - clip.startTime;
+    const to = Math.min(span.end, clip.startTime + clip.duration) - clip.startTime;
+    if (to <= from) return true;
+    return [0, 0.25, 0.5, 0.75, 1].every(f => evaluateProperty(clip, 'volume', from + (to - from) * f) <= limit + 1e-6);
+};
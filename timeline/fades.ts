@@ -0,0 +1,77 @@
+import { Clip, Transition } from '../types';
+import { evaluateProperty } from './keyframes';
+import { getLinkPartner } from './links';
+
+/**
+ * FADES AND CROSSFADES
+ *
+ * A clip's gain at any moment is its volume (keyframed or not) times its fade
+ * envelope times any crossfade it is part of. Fades are clip-local handles
+ * (`fadeIn` / `fadeOut`); crossfades come from the timeline's transitions, which
+ * overlap the outgoing and incoming clips, and carry over to linked audio.
+ * The mixer samples `clipGainAt`, so preview and export hear the same thing.
+ */
+
+export const MAX_CLIP_VOLUME = 2; // +6 dB; loudness normalization may lift quiet clips past unity
+
+export interface FadeLengths {
+    fadeIn: number;
+    fadeOut: number;
+}
+
+// A crossfade as one clip experiences it, in timeline time
+export interface Crossfade {
+    startTime: number;
+    duration: number;
+    direction: 'in' | 'out';
+}
+
+/** The clip's fades, clamped to its length (overlapping fades share it proportionally). */
+export const getFades = (clip: Clip): FadeLengths => {
+    const fadeIn = Math.max(0, clip.fadeIn || 0);
+    const fadeOut = Math.max(0, clip.fadeOut || 0);
+    const scale = fadeIn + fadeOut > clip.duration ? clip.duration / (fadeIn + fadeOut) : 1;
+    return { fadeIn: fadeIn * scale, fadeOut: fadeOut * scale };
+};
+
+export const hasFades = (clip: Clip): boolean => (clip.fadeIn || 0) > 0 || (clip.fadeOut || 0) > 0;
+
+/** Fade gain (0-1) at clip-local `localTime`: linear ramps up from the first frame and down to the last. */
+export const fadeGainAt = (clip: Clip, localTime: number): number => {
+    const { fadeIn, fadeOut } = getFades(clip);
+    let gain = 1;
+    if (fadeIn > 0 && localTime < fadeIn) gain *= Math.max(0, localTime / fadeIn);
+    if (fadeOut > 0 && localTime > clip.duration - fadeOut) gain *= Math.max(0, (clip.duration - localTime) / fadeOut);
+    return gain;
+};
+
+/**
+ * The crossfades `clip` takes part in. A transition between two video clips
+ * also crossfades their detached audio, so a clip matches through its link partner.
+ */
+export const getCrossfades = (clip: Clip, clips: Clip[], transitions: Transition[]): Crossfade[] => {
+    const ids = [clip.id, getLinkPartner(clips, clip)?.id].filter((id): id is string => !!id);
+    return transitions.flatMap((t): Crossfade[] => {
+        if (t.duration <= 0) return [];
+        if (ids.includes(t.toClipId)) return [{ startTime: t.startTime, duration: t.duration, direction: 'in' }];
+        if (ids.includes(t.fromClipId)) return [{ startTime: t.startTime, duration: t.duration, direction: 'out' }];
+        return [];
+    });
+};
+
+/** Equal-power crossfade gain at timeline `time`, so the overlap doesn't dip in loudness. */
+export const crossfadeGainAt = (crossfades: Crossfade[], time: number): number =>
+    crossfades.reduce((gain, x) => {
+        const progress = Math.min(1, Math.max(0, (time - x.startTime) / x.duration));
+        return gain * (x.direction === 'in' ? Math.sin(progress * Math.PI / 2) : Math.cos(progress * Math.PI / 2));
+    }, 1);
+
+/** Everything but the track and master bus: volume x fades x crossfades at timeline `time`. */
+export const clipGainAt = (clip: Clip, time: number, crossfades: Crossfade[] = []): number => {
+    const local = time - clip.startTime;
+    return Math.max(0, evaluateProperty(clip, 'volume', local)) * fadeGainAt(clip, local) * crossfadeGainAt(crossfades, time);
+};
+
+/** Whether the clip's gain changes over its length (and so needs an automation curve). */
+export const hasGainEnvelope = (clip: Clip, crossfades: Crossfade[]): boolean =>
+    hasFades(clip) || crossfades.length > 0 || !!clip.keyframes?.volume?.length;
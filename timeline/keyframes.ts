@@ -0,0 +1,180 @@
+import { Clip, AnimatableProperty, Keyframe, KeyframeEasing, ClipKeyframes } from '../types';
+import { applyEasing } from '../utils/canvasDrawing';
+
+/**
+ * KEYFRAMES
+ *
+ * Pure helpers for evaluating and editing per-property keyframes. Keyframe times
+ * are relative to the clip start, so moving a clip carries its animation along.
+ * A property without keyframes falls back to its static value on the clip.
+ */
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = ['x', 'y', 'scale', 'rotation', 'opacity', 'volume', 'speed'];
+export const KEYFRAME_EASINGS: KeyframeEasing[] = ['linear', 'ease_in', 'ease_out', 'ease_in_out', 'bezier'];
+
+// Two keyframes closer than one frame at 30fps are the same keyframe
+export const KEYFRAME_EPSILON = 1 / 30;
+
+const DEFAULT_BEZIER: [number, number, number, number] = [0.25, 0.1, 0.25, 1];
+
+// Solves a CSS cubic-bezier(x1, y1, x2, y2) for y at progress x (Newton, then bisection)
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number, x: number): number => {
+    const sample = (a1: number, a2: number, t: number) => 3 * a1 * t * (1 - t) * (1 - t) + 3 * a2 * t * t * (1 - t) + t * t * t;
+    const slope = (a1: number, a2: number, t: number) => 3 * a1 * (1 - t) * (1 - t) + 6 * (a2 - a1) * t * (1 - t) + 3 * (1 - a2) * t * t;
+
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+        const err = sample(x1, x2, t) - x;
+        if (Math.abs(err) < 1e-5) return sample(y1, y2, t);
+        const d = slope(x1, x2, t);
+        if (Math.abs(d) < 1e-6) break;
+        t -= err / d;
+    }
+    let lo = 0, hi = 1;
+    t = x;
+    for (let i = 0; i < 20; i++) {
+        const value = sample(x1, x2, t);
+        if (Math.abs(value - x) < 1e-5) break;
+        if (value < x) lo = t; else hi = t;
+        t = (lo + hi) / 2;
+    }
+    return sample(y1, y2, t);
+};
+
+const easeSegment = (from: Keyframe, progress: number): number => {
+    if (from.easing === 'bezier') {
+        const [x1, y1, x2, y2] = from.bezier || DEFAULT_BEZIER;
+        return cubicBezier(x1, y1, x2, y2, Math.min(1, Math.max(0, progress)));
+    }
+    return applyEasing(progress, from.easing || 'linear');
+};
+
+export const getStaticValue = (clip: Clip, property: AnimatableProperty): number => {
+    const transform = clip.transform || { x: 0, y: 0, scale: 1, rotation: 0 };
+    switch (property) {
+        case 'opacity': return clip.opacity ?? 1;
+        case 'volume': return clip.volume ?? 1;
+        case 'speed': return clip.speed ?? 1;
+        default: return transform[property];
+    }
+};
+
+export const hasKeyframes = (clip: Clip, property?: AnimatableProperty): boolean => {
+    if (!clip.keyframes) return false;
+    if (property) return (clip.keyframes[property]?.length || 0) > 0;
+    return ANIMATABLE_PROPERTIES.some(p => (clip.keyframes![p]?.length || 0) > 0);
+};
+
+/** Value of `property` at clip-local time `localTime`. */
+export const evaluateProperty = (clip: Clip, property: AnimatableProperty, localTime: number): number => {
+    const frames = clip.keyframes?.[property];
+    if (!frames || frames.length === 0) return getStaticValue(clip, property);
+    if (localTime <= frames[0].time) return frames[0].value;
+    const last = frames[frames.length - 1];
+    if (localTime >= last.time) return last.value;
+
+    const nextIndex = frames.findIndex(k => k.time > localTime);
+    const from = frames[nextIndex - 1];
+    const to = frames[nextIndex];
+    const progress = (localTime - from.time) / (to.time - from.time);
+    return from.value + (to.value - from.value) * easeSegment(from, progress);
+};
+
+/**
+ * Returns a copy of `clip` with transform, opacity and volume resolved at
+ * timeline time `time`, ready for drawing or mixing.
+ */
+export const resolveClipAt = (clip: Clip, time: number): Clip => {
+    if (!hasKeyframes(clip)) return clip;
+    const local = time - clip.startTime;
+    return {
+        ...clip,
+        transform: {
+            x: evaluateProperty(clip, 'x', local),
+            y: evaluateProperty(clip, 'y', local),
+            scale: evaluateProperty(clip, 'scale', local),
+            rotation: evaluateProperty(clip, 'rotation', local)
+        },
+        opacity: evaluateProperty(clip, 'opacity', local),
+        volume: evaluateProperty(clip, 'volume', local)
+    };
+};
+
+export const findKeyframeAt = (clip: Clip, property: AnimatableProperty, localTime: number): Keyframe | undefined =>
+    clip.keyframes?.[property]?.find(k => Math.abs(k.time - localTime) < KEYFRAME_EPSILON);
+
+/** Every distinct keyframe time on the clip (for timeline diamonds and navigation). */
+export const getKeyframeTimes = (clip: Clip): number[] => {
+    const times: number[] = [];
+    ANIMATABLE_PROPERTIES.forEach(p => clip.keyframes?.[p]?.forEach(k => {
+        if (!times.some(t => Math.abs(t - k.time) < KEYFRAME_EPSILON)) times.push(k.time);
+    }));
+    return times.sort((a, b) => a - b);
+};
+
+// Inserts or replaces the keyframe at `localTime`, keeping the list sorted
+export const upsertKeyframe = (frames: Keyframe[] = [], keyframe: Keyframe): Keyframe[] => {
+    const existing = frames.find(k => Math.abs(k.time - keyframe.time) < KEYFRAME_EPSILON);
+    const rest = frames.filter(k => k !== existing);
+    const merged = existing ? { ...existing, ...keyframe, time: existing.time } : keyframe;
+    return [...rest, merged].sort((a, b) => a.time - b.time);
+};
+
+export const setKeyframe = (
+    clip: Clip,
+    property: AnimatableProperty,
+    localTime: number,
+    value: number,
+    easing?: KeyframeEasing
+): ClipKeyframes => ({
+    ...clip.keyframes,
+    [property]: upsertKeyframe(clip.keyframes?.[property], easing ? { time: localTime, value, easing } : { time: localTime, value })
+});
+
+export const removeKeyframesAt = (clip: Clip, localTime: number, properties: AnimatableProperty[] = ANIMATABLE_PROPERTIES): ClipKeyframes => {
+    const next: ClipKeyframes = { ...clip.keyframes };
+    properties.forEach(p => {
+        const frames = next[p]?.filter(k => Math.abs(k.time - localTime) >= KEYFRAME_EPSILON);
+        if (frames && frames.length > 0) next[p] = frames; else delete next[p];
+    });
+    return next;
+};
+
+/**
+ * Turns edited values into clip updates: animated properties get a keyframe at
+ * `localTime`, static ones are written straight to the clip.
+ */
+export const applyAnimatedValues = (
+    clip: Clip,
+    localTime: number,
+    values: Partial<Record<AnimatableProperty, number>>
+): Partial<Clip> => {
+    const updates: Partial<Clip> = {};
+    let keyframes = clip.keyframes;
+    let transform = clip.transform;
+
+    (Object.keys(values) as AnimatableProperty[]).forEach(property => {
+        const value = values[property]!;
+        if (hasKeyframes(clip, property)) {
+            keyframes = setKeyframe({ ...clip, keyframes }, property, localTime, value);
+        } else if (property === 'opacity' || property === 'volume' || property === 'speed') {
+            updates[property] = value;
+        } else {
+            transform = { ...(transform || { x: 0, y: 0, scale: 1, rotation: 0 }), [property]: value };
+        }
+    });
+
+    if (keyframes !== clip.keyframes) updates.keyframes = keyframes;
+    if (transform !== clip.transform) updates.transform = transform;
+    return updates;
+};
+
+// Re-bases keyframes after the clip's start moved by `delta` seconds into its source (split, trim start)
+export const shiftKeyframes = (keyframes: ClipKeyframes | undefined, delta: number): ClipKeyframes | undefined => {
+    if (!keyframes) return keyframes;
+    const shifted: ClipKeyframes = {};
+    (Object.keys(keyframes) as AnimatableProperty[]).forEach(p => {
+        shifted[p] = keyframes[p]!.map(k => ({ ...k, time: k.time - delta }));
+    });
+    return shifted;
+};
@@ -0,0 +1,97 @@
+import { Clip } from '../types';
+import { shiftKeyframes } from './keyframes';
+import { speedAt } from './timeRemap';
+
+/**
+ * LINKED CLIPS
+ *
+ * Detaching a video's audio creates an audio clip linked to it. While the link
+ * holds, time edits to either clip are mirrored onto the other (by the store,
+ * so every edit path gets it). A broken link stops the mirroring but keeps
+ * both pointers, so the pair's sync offset can still be measured.
+ */
+
+// Less drift than this (about a frame at 30fps) isn't flagged
+export const SYNC_TOLERANCE = 1 / 30;
+
+const MIRRORED_FIELDS = ['startTime', 'duration', 'sourceStartTime', 'speed', 'reversed'] as const;
+
+/** Whether the clip's own media reaches the mix (a detached video is silent). */
+export const hasOwnAudio = (clip: Clip): boolean =>
+    clip.type === 'audio' || (clip.type === 'video' && !clip.audioDetached);
+
+/** The other half of `clip`'s link, broken or not. Both sides must point at each other. */
+export const getLinkPartner = (clips: Clip[], clip: Clip): Clip | undefined =>
+    clip.linkedClipId ? clips.find(c => c.id === clip.linkedClipId && c.linkedClipId === clip.id) : undefined;
+
+/** `clip` with its link forgotten. A video left without its audio partner plays its own sound again. */
+export const unlinked = (clip: Clip): Clip => ({ ...clip, linkedClipId: undefined, linkBroken: undefined, audioDetached: undefined });
+
+/** The partner that moves and trims with `clip` (none once the link is broken). */
+export const getLinkedClip = (clips: Clip[], clip: Clip): Clip | undefined =>
+    clip.linkBroken ? undefined : getLinkPartner(clips, clip);
+
+// Timeline time at which the clip's source media would be at 0s (at its opening speed; a reversed clip reaches it later)
+const sourceOrigin = (clip: Clip): number =>
+    clip.startTime + (clip.reversed ? 1 : -1) * clip.sourceStartTime / speedAt(clip, 0);
+
+/** Seconds the partner plays late relative to `clip` (0 without a partner). */
+export const getSyncOffset = (clips: Clip[], clip: Clip): number => {
+    const partner = getLinkPartner(clips, clip);
+    return partner ? sourceOrigin(partner) - sourceOrigin(clip) : 0;
+};
+
+export const isOutOfSync = (clips: Clip[], clip: Clip): boolean =>
+    Math.abs(getSyncOffset(clips, clip)) > SYNC_TOLERANCE;
+
+/**
+ * The update that makes `partner` follow `clip` changing from `before` to `after`:
+ * the same shift of each edge, source offset and speed. Null if no timing changed.
+ * Both clips play the same source file, so source offsets carry over unscaled.
+ */
+export const mirrorLinkedEdit = (before: Clip, after: Clip, partner: Clip): Partial<Clip> | null => {
+    const rampChanged = before.keyframes?.speed !== after.keyframes?.speed;
+    if (MIRRORED_FIELDS.every(f => before[f] === after[f]) && !rampChanged) return null;
+    const startDelta = after.startTime - before.startTime;
+    const endDelta = (after.startTime + after.duration) - (before.startTime + before.duration);
+    const updates: Partial<Clip> = {
+        startTime: partner.startTime + startDelta,
+        duration: partner.duration + endDelta - startDelta,
+        sourceStartTime: partner.sourceStartTime + (after.sourceStartTime - before.sourceStartTime),
+        speed: after.speed !== before.speed ? after.speed : partner.speed,
+        reversed: after.reversed
+    };
+    // Head trims re-base keyframes onto the new in-point; a plain move doesn't
+    if (startDelta !== 0 && after.keyframes !== before.keyframes) updates.keyframes = shiftKeyframes(partner.keyframes, startDelta);
+    // Both halves share one speed curve
+    if (rampChanged) {
+        const { speed: _, ...rest } = updates.keyframes || partner.keyframes || {};
+        const keyframes = after.keyframes?.speed ? { ...rest, speed: after.keyframes.speed } : rest;
+        updates.keyframes = Object.keys(keyframes).length > 0 ? keyframes : undefined;
+    }
+    return updates;
+};
+
+/** The audio clip that takes over `video`'s sound, already linked back to it. */
+export const createDetachedAudio = (video: Clip, trackId: number): Clip => ({
+    id: `audio-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+    title: `${video.title} (audio)`,
+    type: 'audio',
+    sourceUrl: video.sourceUrl,
+    startTime: video.startTime,
+    duration: video.duration,
+    sourceStartTime: video.sourceStartTime,
+    totalDuration: video.totalDuration,
+    trackId,
+    speed: video.speed ?? 1,
+    volume: video.volume ?? 1,
+    reversed: video.reversed,
+    keyframes: video.keyframes?.volume || video.keyframes?.speed
+        ? { ...(video.keyframes.volume ? { volume: video.keyframes.volume } : {}), ...(video.keyframes.speed ? { speed: video.keyframes.speed } : {}) }
+        : undefined,
+    transform: { x: 0, y: 0, scale: 1, rotation: 0 },
+    linkedClipId: video.id
+});
+
+// e.g. "+0.42s" (the partner is late), "-1.20s"
+export const formatSyncOffset = (offset: number): string => `${offset > 0 ? '+' : '-'}${Math.abs(offset).toFixed(2)}s`;
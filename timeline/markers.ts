@@ -0,0 +1,92 @@
+import { Marker } from '../types';
+
+/**
+ * MARKERS
+ *
+ * Pure helpers for timeline markers and the chapter lists they export to.
+ * Chapters are contiguous: each starts at a marker and runs to the next one
+ * (or the end of the timeline).
+ */
+
+export const MARKER_COLORS = ['#f59e0b', '#ef4444', '#22c55e', '#3b82f6', '#a855f7', '#ec4899'];
+
+// YouTube only turns a description's timestamps into chapters if all of these hold
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_LENGTH = 10;
+
+export interface Chapter {
+    title: string;
+    start: number;
+    end: number;
+}
+
+export const createMarker = (time: number, markers: Marker[] = [], name?: string): Marker => ({
+    id: `marker-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+    name: name || `Marker ${markers.length + 1}`,
+    time: Math.max(0, time),
+    color: MARKER_COLORS[markers.length % MARKER_COLORS.length]
+});
+
+export const sortMarkers = (markers: Marker[]): Marker[] => [...markers].sort((a, b) => a.time - b.time);
+
+export const markerEnd = (marker: Marker): number => marker.time + (marker.duration || 0);
+
+/** Looks a marker up by id, then by name (case-insensitive), so agents can say "Reveal". */
+export const findMarker = (markers: Marker[], ref: string): Marker | undefined => {
+    const name = ref.trim().toLowerCase();
+    return markers.find(m => m.id === ref) || markers.find(m => m.name.toLowerCase() === name);
+};
+
+// Prompt-friendly summary, e.g. `"Reveal" at 12.0s - 15.0s (drop the logo here)`
+export const describeMarker = (marker: Marker): string => {
+    const range = marker.duration ? ` - ${markerEnd(marker).toFixed(1)}s` : '';
+    return `"${marker.name}" at ${marker.time.toFixed(1)}s${range}${marker.note ? ` (${marker.note})` : ''}`;
+};
+
+/**
+ * Chapters for a timeline of `duration` seconds. Markers past the end are
+ * ignored; if the first marker isn't at 0 an "Intro" chapter covers the gap.
+ */
+export const getChapters = (markers: Marker[], duration: number): Chapter[] => {
+    const starts = sortMarkers(markers).filter(m => m.time < duration);
+    if (starts.length === 0) return [];
+    const chapters = starts.map((m, i) => ({ title: m.name, start: m.time, end: i + 1 < starts.length ? starts[i + 1].time : duration }));
+    if (chapters[0].start > 0) chapters.unshift({ title: 'Intro', start: 0, end: chapters[0].start });
+    // Markers at the same time would make empty chapters
+    return chapters.filter(c => c.end > c.start);
+};
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+const formatChapterTime = (seconds: number): string => {
+    const total = Math.floor(seconds);
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = (total % 60).toString().padStart(2, '0');
+    return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// 75.5 -> "00:01:15.500"
+const formatVttTime = (seconds: number): string => {
+    const ms = Math.round(seconds * 1000);
+    const h = Math.floor(ms / 3600000).toString().padStart(2, '0');
+    const m = Math.floor((ms % 3600000) / 60000).toString().padStart(2, '0');
+    const s = Math.floor((ms % 60000) / 1000).toString().padStart(2, '0');
+    return `${h}:${m}:${s}.${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+/** The timestamp list YouTube reads from a video description ("0:00 Intro" per line). */
+export const toYouTubeChapters = (chapters: Chapter[]): string =>
+    chapters.map(c => `${formatChapterTime(c.start)} ${c.title}`).join('\n');
+
+/** Reasons YouTube would ignore the list, empty if it will show chapters. */
+export const checkYouTubeChapters = (chapters: Chapter[]): string[] => {
+    const problems: string[] = [];
+    if (chapters.length < YOUTUBE_MIN_CHAPTERS) problems.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters (found ${chapters.length}).`);
+    const short = chapters.filter(c => c.end - c.start < YOUTUBE_MIN_CHAPTER_LENGTH);
+    if (short.length > 0) problems.push(`Chapters must be at least ${YOUTUBE_MIN_CHAPTER_LENGTH}s long: ${short.map(c => `"${c.title}"`).join(', ')}.`);
+    return problems;
+};
+
+/** A WebVTT file of `kind="chapters"` cues. */
+export const toWebVttChapters = (chapters: Chapter[]): string =>
+    ['WEBVTT', ...chapters.map((c, i) => `${i + 1}\n${formatVttTime(c.start)} --> ${formatVttTime(c.end)}\n${c.title.replace(/-->/g, '->')}`)].join('\n\n') + '\n';
@@ -0,0 +1,133 @@
+import { Clip, BeatInfo, TimeSpan, WorkspaceItem } from '../types';
+import { getSourceSpan } from './timeRemap';
+
+/**
+ * MONTAGE
+ *
+ * Cut-to-the-beat assembly. `planCuts` picks cut points from the music's beats
+ * so every shot lasts between `minShot` and `maxShot`, preferring strong beats
+ * and downbeats; `planMontage` then fills each shot with the next stretch of
+ * footage, taking sources in turn (and only their highlights, where given).
+ * Planning is pure; `TimelineOps.buildMontage` lays the shots out in one batch.
+ */
+
+export interface MontageOptions {
+    minShot: number; // Seconds
+    maxShot: number; // Seconds
+    cutOn: 'beat' | 'downbeat';
+}
+
+export const DEFAULT_MONTAGE: MontageOptions = { minShot: 1, maxShot: 4, cutOn: 'beat' };
+
+// Footage for a montage: a timeline clip's source range or a whole project file
+export interface MontageSource {
+    title: string;
+    type: 'video' | 'image';
+    sourceUrl: string;
+    ranges: TimeSpan[]; // Usable source seconds, in order; ignored for images
+    totalDuration?: number;
+}
+
+export interface MontageShot {
+    source: MontageSource;
+    startTime: number;       // Timeline seconds
+    duration: number;
+    sourceStartTime: number;
+}
+
+// What building a montage did to the timeline
+export interface MontageResult {
+    clips: Clip[];        // The shots, in timeline order
+    muted: Clip[];        // Footage clips (or their linked audio) silenced so the music carries the montage
+    stillAudible: Clip[]; // Footage sound left playing because its track is locked
+}
+
+const DOWNBEAT_BONUS = 0.5; // Added to a downbeat's strength when choosing where to cut
+
+/** The part of a clip's source it shows (forwards), with any highlights (source seconds) narrowing it. */
+export const montageSourceFromClip = (clip: Clip, highlights: TimeSpan[] = []): MontageSource | null => {
+    if ((clip.type !== 'video' && clip.type !== 'image') || !clip.sourceUrl) return null;
+    const span = getSourceSpan(clip);
+    const range = clip.reversed ? { start: clip.sourceStartTime - span, end: clip.sourceStartTime } : { start: clip.sourceStartTime, end: clip.sourceStartTime + span };
+    return { title: clip.title, type: clip.type, sourceUrl: clip.sourceUrl, ranges: narrowToHighlights([range], highlights), totalDuration: clip.totalDuration };
+};
+
+export const montageSourceFromItem = (item: WorkspaceItem, highlights: TimeSpan[] = []): MontageSource | null => {
+    if (item.type === 'audio') return null;
+    return { title: item.name, type: item.type, sourceUrl: item.url, ranges: narrowToHighlights([{ start: 0, end: item.duration }], highlights), totalDuration: item.duration };
+};
+
+// Highlights clipped to the usable ranges; the ranges themselves when no highlight falls inside them
+const narrowToHighlights = (ranges: TimeSpan[], highlights: TimeSpan[]): TimeSpan[] => {
+    const narrowed = highlights.flatMap(h => ranges
+        .map(r => ({ start: Math.max(r.start, h.start), end: Math.min(r.end, h.end) }))
+        .filter(r => r.end - r.start > 0.1));
+    return narrowed.length > 0 ? narrowed : ranges;
+};
+
+/**
+ * Cut points from `start` to `end` (both included) on the given beats (timeline
+ * seconds). Each cut is the strongest beat that keeps the shot within
+ * [minShot, maxShot]; where the music has no beat in that window the next beat
+ * after `minShot` is used, and the last shot runs to `end`.
+ */
+export const planCuts = (beats: BeatInfo[], start: number, end: number, options: MontageOptions = DEFAULT_MONTAGE): number[] => {
+    const minShot = Math.max(0.1, options.minShot);
+    const maxShot = Math.max(minShot, options.maxShot);
+    const candidates = beats.filter(b => (options.cutOn === 'beat' || b.isDownbeat) && b.time > start && end - b.time >= minShot);
+    const cuts = [start];
+    let t = start;
+    while (end - t > maxShot) {
+        const window = candidates.filter(b => b.time >= t + minShot - 1e-6 && b.time <= t + maxShot + 1e-6);
+        const next = window.length > 0
+            ? window.reduce((best, b) => b.strength + (b.isDownbeat ? DOWNBEAT_BONUS : 0) > best.strength + (best.isDownbeat ? DOWNBEAT_BONUS : 0) ? b : best)
+            : candidates.find(b => b.time >= t + minShot);
+        if (!next) break;
+        cuts.push(next.time);
+        t = next.time;
+    }
+    cuts.push(end);
+    return cuts;
+};
+
+/**
+ * Shots for the cuts, footage taken from `sources` in turn. Each source plays
+ * on from where it was last used (wrapping round its ranges); a video without
+ * a long enough range for a shot is passed over for that shot.
+ */
+export const planMontage = (cuts: number[], sources: MontageSource[]): MontageShot[] => {
+    if (sources.length === 0) throw new Error('A montage needs at least one video or image');
+    const cursors = sources.map(() => ({ range: 0, offset: 0 }));
+    const shots: MontageShot[] = [];
+    let turn = 0;
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+        const duration = cuts[i + 1] - cuts[i];
+        let placed = false;
+        for (let attempt = 0; attempt < sources.length && !placed; attempt++) {
+            const index = (turn + attempt) % sources.length;
+            const source = sources[index];
+            turn = (index + 1) % sources.length;
+            if (source.type === 'image') {
+                shots.push({ source, startTime: cuts[i], duration, sourceStartTime: 0 });
+                placed = true;
+                break;
+            }
+            const cursor = cursors[index];
+            // Next range (from the cursor on) with room for the whole shot
+            for (let step = 0; step < source.ranges.length && !placed; step++) {
+                const r = (cursor.range + step) % source.ranges.length;
+                const range = source.ranges[r];
+                const from = step === 0 ? range.start + cursor.offset : range.start;
+                const sourceStartTime = from + duration <= range.end ? from : range.end - duration >= range.start ? range.end - duration : null;
+                if (sourceStartTime === null) continue;
+                shots.push({ source, startTime: cuts[i], duration, sourceStartTime });
+                const used = sourceStartTime + duration - range.start;
+                cursors[index] = range.end - (range.start + used) < 0.1 ? { range: (r + 1) % source.ranges.length, offset: 0 } : { range: r, offset: used };
+                placed = true;
+            }
+        }
+        if (!placed) throw new Error(`No footage is long enough for a ${duration.toFixed(1)}s shot; lower the maximum shot length`);
+    }
+    return shots;
+};
@@ -1,36 +1,147 @@
 
-import { TimelineStore } from './store';
-import { Clip } from '../types';
+import { TimelineStore, TrackLockedError } from './store';
+import { Clip, KeyframeEasing, TimeSpan, BeatInfo } from '../types';
+import { shiftKeyframes, resolveClipAt } from './keyframes';
+import { MIN_CLIP_DURATION, ADJACENT_EPSILON } from './validation';
+import { getLinkedClip, getLinkPartner, createDetachedAudio, hasOwnAudio } from './links';
+import {
+  getSourceTime, speedAt, sourceRoomBefore, sourceRoomAfter, slipSourceTime, hasSpeedRamp,
+  speedRampKeyframes, clearSpeedRampUpdates, reverseUpdates, FREEZE_FRAME_DURATION
+} from './timeRemap';
+import { ClipboardContents, AttributeGroup, copyClips, instantiatePaste, attributeUpdates } from './clipboard';
+import { MAX_TRACK_GAIN, createTrack, trackKindForClip } from './tracks';
+import { MAX_CLIP_VOLUME } from './fades';
+import { isCompoundClip } from './sequences';
+import { MontageOptions, MontageSource, MontageResult, DEFAULT_MONTAGE, planCuts, planMontage } from './montage';
+import { DuckingOptions, DEFAULT_DUCKING, getAudioRole, duckingKeyframes } from './ducking';
+
+// Ops throw on locked tracks so the caller (usually an agent tool) learns why nothing changed
+const assertUnlocked = (store: TimelineStore, ...trackIds: number[]) => {
+  const locked = trackIds.find(id => store.isTrackLocked(id));
+  if (locked !== undefined) throw new TrackLockedError(locked, store.getTrack(locked)!.name);
+};
+
+// The store mirrors edits onto a linked partner, so its track has to be unlocked too
+const linkedTrackIds = (store: TimelineStore, clip: Clip): number[] => {
+  const partner = getLinkedClip(store.getClips(), clip);
+  return partner ? [clip.trackId, partner.trackId] : [clip.trackId];
+};
+
+const assertClipUnlocked = (store: TimelineStore, clipId: string) => {
+  const clip = store.getClips().find(c => c.id === clipId);
+  if (clip) assertUnlocked(store, ...linkedTrackIds(store, clip));
+};
+
+const isUnbounded = (clip: Clip) => clip.type === 'image' || clip.type === 'text';
+
+// Timeline seconds a clip can grow at its head before running out of source media
+// (speed holds its edge value beyond a ramp, so the edge speed converts exactly)
+const headHandle = (clip: Clip): number =>
+  isUnbounded(clip) ? Infinity : Math.max(0, sourceRoomBefore(clip) / speedAt(clip, 0));
+
+// ...and at its tail (unknown source length counts as unlimited)
+const tailHandle = (clip: Clip): number =>
+  isUnbounded(clip) ? Infinity : Math.max(0, sourceRoomAfter(clip) / speedAt(clip, clip.duration));
+
+// A handle limited by the linked partner as well, since it gets the same trim
+const linkedHandle = (store: TimelineStore, clip: Clip, handle: (c: Clip) => number): number => {
+  const partner = getLinkedClip(store.getClips(), clip);
+  return Math.min(handle(clip), partner ? handle(partner) : Infinity);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const getClip = (store: TimelineStore, clipId: string): Clip => {
+  const clip = store.getClips().find(c => c.id === clipId);
+  if (!clip) throw new Error(`Clip ${clipId} not found`);
+  return clip;
+};
+
+// Speed ramps and reverse need source media (compound clips play theirs at one constant rate)
+const getRemappableClip = (store: TimelineStore, clipId: string): Clip => {
+  const clip = getClip(store, clipId);
+  if (clip.type !== 'video' && clip.type !== 'audio') throw new Error(`"${clip.title}" has no media to re-time`);
+  return clip;
+};
+
+// The clip touching `clip` on the given side of the same track, if any
+const findNeighbor = (store: TimelineStore, clip: Clip, side: 'prev' | 'next'): Clip | undefined =>
+  store.getClips().find(c => c.id !== clip.id && c.trackId === clip.trackId && (side === 'prev'
+    ? Math.abs(c.startTime + c.duration - clip.startTime) < ADJACENT_EPSILON
+    : Math.abs(clip.startTime + clip.duration - c.startTime) < ADJACENT_EPSILON));
+
+// Moves a clip's in-point by `delta` timeline seconds, keeping its out-point (and content) in place
+const headTrimUpdates = (clip: Clip, delta: number): Partial<Clip> => ({
+  startTime: clip.startTime + delta,
+  duration: clip.duration - delta,
+  sourceStartTime: getSourceTime(clip, delta),
+  keyframes: shiftKeyframes(clip.keyframes, delta)
+});
+
+// Transitions sit on the incoming clip's head, so they follow it when its start moves
+const shiftTransitionsInto = (store: TimelineStore, clipIds: string[], delta: number) => {
+  store.getTransitions()
+    .filter(t => clipIds.includes(t.toClipId))
+    .forEach(t => store.updateTransition(t.id, { startTime: Math.max(0, t.startTime + delta) }));
+};
+
+// Where a ripple starts on `clip`'s track, and on its linked partner's track if it has one
+const rippleLanes = (store: TimelineStore, clip: Clip, from: (c: Clip) => number): { trackId: number, from: number }[] => {
+  const partner = getLinkedClip(store.getClips(), clip);
+  return [clip, ...(partner ? [partner] : [])].map(c => ({ trackId: c.trackId, from: from(c) }));
+};
+
+// Shifts every clip starting at or after its lane's `from` by `delta`. Linked partners
+// follow on their own (the store mirrors the move), so they aren't shifted twice.
+const shiftDownstream = (store: TimelineStore, lanes: { trackId: number, from: number }[], delta: number, excludeIds: string[]) => {
+  const shifted = new Set(excludeIds);
+  const downstream = store.getClips()
+    .filter(c => !shifted.has(c.id) && lanes.some(l => c.trackId === l.trackId && c.startTime >= l.from - ADJACENT_EPSILON));
+  downstream.forEach(c => {
+    if (shifted.has(c.id)) return;
+    store.updateClip(c.id, { startTime: Math.max(0, c.startTime + delta) });
+    shifted.add(c.id);
+    const partner = getLinkedClip(store.getClips(), c);
+    if (partner) shifted.add(partner.id);
+  });
+  shiftTransitionsInto(store, [...shifted].filter(id => !excludeIds.includes(id)), delta);
+};
 
 export const TimelineOps = {
   updateClipProperty: (store: TimelineStore, clipId: string, property: keyof Clip, value: any) => {
-    store.updateClip(clipId, { [property]: value });
+    const clip = store.getClips().find(c => c.id === clipId);
+    assertUnlocked(store, ...(clip ? [clip.trackId] : []), ...(property === 'trackId' ? [Number(value)] : []));
+    store.updateClip(clipId, { [property]: value }, `Set ${String(property)} of ${clip?.title || clipId}`);
   },
 
   rippleDelete: (store: TimelineStore, clipId: string) => {
+    const title = store.getClips().find(c => c.id === clipId)?.title || clipId;
+    assertClipUnlocked(store, clipId);
     store.batch(() => {
         const clips = store.getClips();
         const clip = clips.find(c => c.id === clipId);
         if (!clip) return;
+        // The store deletes a linked partner along with the clip, so its track closes up too
+        const lanes = rippleLanes(store, clip, c => c.startTime + ADJACENT_EPSILON);
 
         // 1. Remove the target clip
         store.removeClip(clipId);
         
         // 2. Shift subsequent clips on the same track
-        const clipsToShift = store.getClips().filter(c => c.trackId === clip.trackId && c.startTime > clip.startTime);
-        clipsToShift.forEach(c => {
-            store.updateClip(c.id, { startTime: Math.max(0, c.startTime - clip.duration) });
-        });
-    });
+        shiftDownstream(store, lanes, -clip.duration, []);
+    }, `Ripple delete ${title}`);
   },
 
   trimClip: (store: TimelineStore, clipId: string, newDuration: number) => {
-    store.updateClip(clipId, { duration: newDuration });
+    const clip = store.getClips().find(c => c.id === clipId);
+    assertClipUnlocked(store, clipId);
+    store.updateClip(clipId, { duration: newDuration }, `Trim ${clip?.title || clipId}`);
   },
 
   trimClipStart: (store: TimelineStore, clipId: string, timeToRemove: number) => {
     const clip = store.getClips().find(c => c.id === clipId);
     if (!clip) return;
+    assertClipUnlocked(store, clipId);
 
     if (timeToRemove >= clip.duration) {
         // Equivalent to delete if we remove everything
@@ -38,30 +149,491 @@ export const TimelineOps = {
         return;
     }
 
-    const speed = clip.speed || 1;
-    store.updateClip(clipId, {
-        startTime: clip.startTime + timeToRemove,
-        duration: clip.duration - timeToRemove,
-        sourceStartTime: clip.sourceStartTime + (timeToRemove * speed)
-    });
+    store.updateClip(clipId, headTrimUpdates(clip, timeToRemove), `Trim start of ${clip.title}`);
   },
 
   setClipLayer: (store: TimelineStore, clipId: string, trackId: number) => {
-      store.updateClip(clipId, { trackId });
+      const clip = getClip(store, clipId);
+      // Checked up front for the linked partner too, so a locked track refuses the whole move
+      assertUnlocked(store, ...linkedTrackIds(store, clip), trackId);
+      // A missing track is created with its kind's next name, which is what the label shows
+      const track = store.getTrack(trackId) ?? createTrack(trackId, trackKindForClip(clip), store.getTracks());
+      store.updateClip(clipId, { trackId }, `Move ${clip.title} to ${track.name}`);
   },
 
   moveClip: (store: TimelineStore, clipId: string, startTime: number, trackId?: number) => {
     const clip = store.getClips().find(c => c.id === clipId);
     if (clip) {
+        assertUnlocked(store, ...linkedTrackIds(store, clip), trackId ?? clip.trackId);
         store.moveClip(clipId, startTime, trackId ?? clip.trackId);
     }
   },
 
   splitClip: (store: TimelineStore, clipId: string, splitTime: number) => {
+    assertClipUnlocked(store, clipId);
     store.splitClip(clipId, splitTime);
   },
 
+  /**
+   * Splits a clip at each of `times` (timeline seconds) as one undo step, skipping
+   * cuts that would leave a piece shorter than MIN_CLIP_DURATION. Returns the
+   * pieces in timeline order.
+   */
+  splitClipAt: (store: TimelineStore, clipId: string, times: number[], label?: string): Clip[] => {
+    const clip = getClip(store, clipId);
+    assertClipUnlocked(store, clipId);
+    const cuts: number[] = [];
+    [...times].sort((a, b) => a - b).forEach(t => {
+      const previous = cuts.length > 0 ? cuts[cuts.length - 1] : clip.startTime;
+      if (t - previous >= MIN_CLIP_DURATION && clip.startTime + clip.duration - t >= MIN_CLIP_DURATION) cuts.push(t);
+    });
+    const before = new Set(store.getClips().map(c => c.id));
+    // From the last cut back, so each split lands on the original (head) clip
+    store.batch(() => [...cuts].reverse().forEach(t => store.splitClip(clipId, t)), label || `Split ${clip.title} at ${cuts.length} points`);
+    return store.getClips()
+      .filter(c => c.trackId === clip.trackId && (c.id === clipId || !before.has(c.id)))
+      .sort((a, b) => a.startTime - b.startTime);
+  },
+
+  /**
+   * Jump cuts: removes the `spans` (timeline seconds) from a clip, splitting at
+   * their edges and ripple-deleting the pieces so what remains closes up, as one
+   * undo step. With `fade`, the sound on each side of a cut ramps over that many
+   * seconds so the joins don't click. Returns the timeline seconds removed.
+   */
+  cutSpans: (store: TimelineStore, clipId: string, spans: TimeSpan[], label?: string, fade = 0): number => {
+    const clip = getClip(store, clipId);
+    assertClipUnlocked(store, clipId);
+    const end = clip.startTime + clip.duration;
+    const cuts = spans
+      .map(s => ({ start: Math.max(clip.startTime, s.start), end: Math.min(end, s.end) }))
+      .filter(s => s.end - s.start >= MIN_CLIP_DURATION);
+    if (cuts.length === 0) return 0;
+    let removed = 0;
+    store.batch(() => {
+      const pieces = TimelineOps.splitClipAt(store, clipId, cuts.flatMap(s => [s.start, s.end]));
+      const isCut = (p: Clip) => cuts.some(s => p.startTime + p.duration / 2 > s.start && p.startTime + p.duration / 2 < s.end);
+      // Last first, so the ripple from one deletion doesn't move the pieces still to go
+      pieces.filter(isCut).reverse().forEach(p => {
+        TimelineOps.rippleDelete(store, p.id);
+        removed += p.duration;
+      });
+      if (fade <= 0) return;
+      // Each kept piece fades where a cut now meets it; a detached video's sound is its linked audio
+      pieces.forEach((piece, i) => {
+        if (isCut(piece)) return;
+        const current = store.getClips().find(c => c.id === piece.id);
+        const sounding = current && (hasOwnAudio(current) ? current : getLinkedClip(store.getClips(), current));
+        if (!sounding) return;
+        const updates: Partial<Clip> = {};
+        if (i > 0 && isCut(pieces[i - 1])) updates.fadeIn = Math.max(sounding.fadeIn || 0, fade);
+        if (i < pieces.length - 1 && isCut(pieces[i + 1])) updates.fadeOut = Math.max(sounding.fadeOut || 0, fade);
+        if (Object.keys(updates).length > 0) store.updateClip(sounding.id, updates);
+      });
+    }, label || `Cut ${cuts.length} spans from ${clip.title}`);
+    return removed;
+  },
+
+  /**
+   * Puts clips of one track in the given order, back to back from where the
+   * first of them starts, as one undo step. Linked partners move with them.
+   * Transitions follow clips that keep their neighbour and are removed elsewhere.
+   */
+  reorderClips: (store: TimelineStore, clipIds: string[], label = 'Reorder clips') => {
+    const clips = clipIds.map(id => getClip(store, id));
+    if (clips.length < 2) return;
+    const trackId = clips[0].trackId;
+    if (clips.some(c => c.trackId !== trackId)) throw new Error('Only clips on the same track can be reordered');
+    assertUnlocked(store, trackId);
+    const start = Math.min(...clips.map(c => c.startTime));
+    const end = Math.max(...clips.map(c => c.startTime + c.duration));
+    const between = store.getClips().find(c => c.trackId === trackId && !clipIds.includes(c.id) && c.startTime < end - ADJACENT_EPSILON && c.startTime + c.duration > start + ADJACENT_EPSILON);
+    if (between) throw new Error(`"${between.title}" sits between the clips being reordered`);
+
+    const moves = new Map<string, number>();
+    let cursor = start;
+    clips.forEach(c => { moves.set(c.id, cursor - c.startTime); cursor += c.duration; });
+    const order = (id: string) => clipIds.indexOf(id);
+    store.batch(() => {
+      clips.forEach(c => store.updateClip(c.id, { startTime: c.startTime + moves.get(c.id)! }));
+      store.getTransitions().forEach(t => {
+        const [from, to] = [order(t.fromClipId), order(t.toClipId)];
+        if (from < 0 && to < 0) return;
+        const stillNeighbours = from >= 0 && to >= 0 ? to === from + 1 : from >= 0 ? from === clipIds.length - 1 : to === 0;
+        if (!stillNeighbours) store.removeTransition(t.id);
+        else if (to >= 0 && moves.get(t.toClipId)) store.updateTransition(t.id, { startTime: t.startTime + moves.get(t.toClipId)! });
+      });
+    }, label);
+  },
+
   addClip: (store: TimelineStore, clip: Clip) => {
+    assertUnlocked(store, clip.trackId);
     store.addClip(clip);
+  },
+
+  // --- TRIM MODES ---
+  // Each takes `delta` in timeline seconds (positive = later), clamps it to the
+  // available source handles and MIN_CLIP_DURATION, and returns the delta applied.
+
+  /** Moves the cut between two touching clips: `fromClipId` gets longer as `toClipId` gets shorter. */
+  rollEdit: (store: TimelineStore, fromClipId: string, toClipId: string, delta: number): number => {
+    const from = getClip(store, fromClipId);
+    const to = getClip(store, toClipId);
+    if (from.trackId !== to.trackId || Math.abs(from.startTime + from.duration - to.startTime) >= ADJACENT_EPSILON) {
+      throw new Error(`"${from.title}" and "${to.title}" don't share a cut`);
+    }
+    assertClipUnlocked(store, from.id);
+    assertClipUnlocked(store, to.id);
+
+    const applied = clamp(delta,
+      -Math.min(from.duration - MIN_CLIP_DURATION, linkedHandle(store, to, headHandle)),
+      Math.min(linkedHandle(store, from, tailHandle), to.duration - MIN_CLIP_DURATION));
+    if (applied === 0) return 0;
+
+    store.batch(() => {
+      store.updateClip(from.id, { duration: from.duration + applied });
+      store.updateClip(to.id, headTrimUpdates(to, applied));
+      shiftTransitionsInto(store, [to.id], applied);
+    }, `Roll cut between ${from.title} and ${to.title}`);
+    return applied;
+  },
+
+  /** Shows a different part of the source without moving or resizing the clip. */
+  slipEdit: (store: TimelineStore, clipId: string, delta: number): number => {
+    const clip = getClip(store, clipId);
+    assertClipUnlocked(store, clipId);
+    if (isUnbounded(clip)) return 0;
+
+    const applied = clamp(delta, -linkedHandle(store, clip, headHandle), linkedHandle(store, clip, tailHandle));
+    if (applied === 0) return 0;
+    store.updateClip(clip.id, { sourceStartTime: slipSourceTime(clip, applied) }, `Slip ${clip.title}`);
+    return applied;
+  },
+
+  /**
+   * Moves a clip along the track, trimming the touching neighbors so the cuts follow it.
+   * A side without a touching neighbor can only slide into the free gap.
+   */
+  slideEdit: (store: TimelineStore, clipId: string, delta: number): number => {
+    const clip = getClip(store, clipId);
+    const prev = findNeighbor(store, clip, 'prev');
+    const next = findNeighbor(store, clip, 'next');
+    [clip, prev, next].forEach(c => c && assertClipUnlocked(store, c.id));
+    const others = store.getClips().filter(c => c.trackId === clip.trackId && c.id !== clip.id);
+
+    const gapBefore = clip.startTime - others
+      .filter(c => c.startTime + c.duration <= clip.startTime + ADJACENT_EPSILON)
+      .reduce((end, c) => Math.max(end, c.startTime + c.duration), 0);
+    const clipEnd = clip.startTime + clip.duration;
+    const gapAfter = others
+      .filter(c => c.startTime >= clipEnd - ADJACENT_EPSILON)
+      .reduce((start, c) => Math.min(start, c.startTime), Infinity) - clipEnd;
+
+    const minDelta = -Math.min(prev ? prev.duration - MIN_CLIP_DURATION : gapBefore, next ? linkedHandle(store, next, headHandle) : Infinity);
+    const maxDelta = Math.min(next ? next.duration - MIN_CLIP_DURATION : gapAfter, prev ? linkedHandle(store, prev, tailHandle) : Infinity);
+    const applied = clamp(delta, minDelta, maxDelta);
+    if (applied === 0) return 0;
+
+    store.batch(() => {
+      if (prev) store.updateClip(prev.id, { duration: prev.duration + applied });
+      store.updateClip(clip.id, { startTime: clip.startTime + applied });
+      if (next) store.updateClip(next.id, headTrimUpdates(next, applied));
+      shiftTransitionsInto(store, next ? [clip.id, next.id] : [clip.id], applied);
+    }, `Slide ${clip.title}`);
+    return applied;
+  },
+
+  /**
+   * Trims one edge and shifts everything downstream on the track so no gap opens.
+   * The clip keeps its start time; for the 'start' edge the head content is removed or restored.
+   */
+  rippleTrim: (store: TimelineStore, clipId: string, edge: 'start' | 'end', delta: number): number => {
+    const clip = getClip(store, clipId);
+    assertClipUnlocked(store, clipId);
+
+    const applied = edge === 'end'
+      ? clamp(delta, MIN_CLIP_DURATION - clip.duration, linkedHandle(store, clip, tailHandle))
+      : clamp(delta, -linkedHandle(store, clip, headHandle), clip.duration - MIN_CLIP_DURATION);
+    if (applied === 0) return 0;
+
+    const shift = edge === 'end' ? applied : -applied;
+    const partner = getLinkedClip(store.getClips(), clip);
+    store.batch(() => {
+      shiftDownstream(store, rippleLanes(store, clip, c => c.startTime + c.duration), shift, partner ? [clip.id, partner.id] : [clip.id]);
+      store.updateClip(clip.id, edge === 'end'
+        ? { duration: clip.duration + applied }
+        : {
+            duration: clip.duration - applied,
+            sourceStartTime: getSourceTime(clip, applied),
+            keyframes: shiftKeyframes(clip.keyframes, applied)
+          });
+    }, `Ripple trim ${edge} of ${clip.title}`);
+    return applied;
+  },
+
+  // --- LINKED AUDIO ---
+
+  /**
+   * Moves a video clip's sound onto a new audio clip, linked to the video so the two
+   * move and trim together. It goes on the topmost unlocked audio track with room for it.
+   * Returns null if the store refused the edit.
+   */
+  detachAudio: (store: TimelineStore, clipId: string): Clip | null => {
+    const video = getClip(store, clipId);
+    if (video.type !== 'video' || !video.sourceUrl) throw new Error(`"${video.title}" has no audio to detach`);
+    if (video.audioDetached) throw new Error(`Audio of "${video.title}" is already detached`);
+    assertUnlocked(store, video.trackId);
+
+    const end = video.startTime + video.duration;
+    const hasRoom = (trackId: number) => !store.getClips()
+      .some(c => c.trackId === trackId && c.startTime < end - ADJACENT_EPSILON && c.startTime + c.duration > video.startTime + ADJACENT_EPSILON);
+    let audioId = '';
+    store.batch(() => {
+      const track = [...store.getTracks()].reverse().find(t => t.kind === 'audio' && !t.locked && hasRoom(t.id)) || store.addTrack('audio', 'top');
+      const audio = createDetachedAudio(video, track.id);
+      audioId = audio.id;
+      store.addClip(audio);
+      store.updateClip(video.id, { audioDetached: true, linkedClipId: audio.id, linkBroken: undefined });
+    }, `Detach audio from ${video.title}`);
+    return store.getClips().find(c => c.id === audioId) || null;
+  },
+
+  /** Breaks (or restores) the link between a clip and its partner. Sync is still tracked while unlinked. */
+  setLinked: (store: TimelineStore, clipId: string, linked: boolean) => {
+    const clip = getClip(store, clipId);
+    const partner = getLinkPartner(store.getClips(), clip);
+    if (!partner) throw new Error(`"${clip.title}" isn't linked to another clip`);
+    store.batch(() => {
+      store.updateClip(clip.id, { linkBroken: linked ? undefined : true });
+      store.updateClip(partner.id, { linkBroken: linked ? undefined : true });
+    }, `${linked ? 'Link' : 'Unlink'} ${clip.title} and ${partner.title}`);
+  },
+
+  // --- CLIPBOARD ---
+
+  /**
+   * Pastes `contents` with fresh ids at `time` (optionally onto `trackId`) as one
+   * undo step. Returns the clips that landed; empty if the store refused the paste.
+   */
+  pasteClips: (store: TimelineStore, contents: ClipboardContents, time: number, trackId?: number): Clip[] => {
+    const pasted = instantiatePaste(contents, Math.max(0, time), store.getTracks(), trackId);
+    assertUnlocked(store, ...pasted.clips.map(c => c.trackId));
+    store.batch(() => {
+      pasted.clips.forEach(c => store.addClip(c));
+      pasted.transitions.forEach(t => store.addTransition(t));
+    }, pasted.clips.length === 1 ? `Paste ${pasted.clips[0].title}` : `Paste ${pasted.clips.length} clips`);
+    const ids = new Set(pasted.clips.map(c => c.id));
+    return store.getClips().filter(c => ids.has(c.id));
+  },
+
+  /** Copies the clips, then removes them (and their linked partners) as one undo step. */
+  cutClips: (store: TimelineStore, clipIds: string[]): ClipboardContents | null => {
+    const contents = copyClips(store.getClips(), store.getTransitions(), clipIds);
+    if (!contents) return null;
+    assertUnlocked(store, ...contents.clips.map(c => c.trackId));
+    store.batch(() => {
+      // Removing a clip also removes its partner, which may be next in the list
+      contents.clips.forEach(c => { if (store.getClips().some(o => o.id === c.id)) store.removeClip(c.id); });
+    }, contents.clips.length === 1 ? `Cut ${contents.clips[0].title}` : `Cut ${contents.clips.length} clips`);
+    return contents;
+  },
+
+  /**
+   * Gives each target the chosen attributes of `source`, as one undo step. The
+   * source may be a clipboard copy no longer on the timeline. Returns the ids changed.
+   */
+  pasteAttributes: (store: TimelineStore, source: Clip, targetClipIds: string[], groups: AttributeGroup[]): string[] => {
+    const targets = targetClipIds.filter(id => id !== source.id).map(id => getClip(store, id));
+    assertUnlocked(store, ...targets.map(c => c.trackId));
+    const changed: string[] = [];
+    store.batch(() => {
+      targets.forEach(target => {
+        const updates = attributeUpdates(source, target, groups);
+        if (Object.keys(updates).length === 0) return;
+        store.updateClip(target.id, updates);
+        changed.push(target.id);
+      });
+    }, `Paste attributes of ${source.title}`);
+    return changed;
+  },
+
+  // --- SPEED ---
+  // Ramps and reverse apply to video and audio clips; a linked partner gets the same curve.
+
+  /** Replaces the clip's speed with a curve through [localTime, speed] points. */
+  setSpeedRamp: (store: TimelineStore, clipId: string, points: [number, number][], easing?: KeyframeEasing) => {
+    const clip = getRemappableClip(store, clipId);
+    if (points.length < 2) throw new Error('A speed ramp needs at least two points');
+    if (!points.every(([t, v]) => Number.isFinite(t) && Number.isFinite(v) && v > 0)) throw new Error('Ramp speeds must be positive numbers');
+    assertClipUnlocked(store, clipId);
+    store.updateClip(clip.id, { keyframes: { ...clip.keyframes, speed: speedRampKeyframes(points, easing) } }, `Speed ramp ${clip.title}`);
+  },
+
+  clearSpeedRamp: (store: TimelineStore, clipId: string) => {
+    const clip = getRemappableClip(store, clipId);
+    if (!hasSpeedRamp(clip)) return;
+    assertClipUnlocked(store, clipId);
+    store.updateClip(clip.id, clearSpeedRampUpdates(clip), `Remove speed ramp from ${clip.title}`);
+  },
+
+  /** Flips playback direction; the clip keeps showing the same part of its source. */
+  reverseClip: (store: TimelineStore, clipId: string) => {
+    const clip = getRemappableClip(store, clipId);
+    assertClipUnlocked(store, clipId);
+    store.updateClip(clip.id, reverseUpdates(clip), `${clip.reversed ? 'Un-reverse' : 'Reverse'} ${clip.title}`);
+  },
+
+  /**
+   * Holds the frame at `time` as a still image (`imageUrl`, captured by the caller):
+   * splits the clip there and pushes the rest of its track(s) later by `holdDuration`.
+   * Returns the still, or null if the store refused the edit.
+   */
+  insertFreezeFrame: (store: TimelineStore, clipId: string, time: number, imageUrl: string, holdDuration = FREEZE_FRAME_DURATION): Clip | null => {
+    const clip = getClip(store, clipId);
+    if (clip.type !== 'video') throw new Error(`"${clip.title}" is not a video clip`);
+    const end = clip.startTime + clip.duration;
+    if (time < clip.startTime || time > end) throw new Error(`${time.toFixed(2)}s is outside "${clip.title}"`);
+    if (!(holdDuration >= MIN_CLIP_DURATION)) throw new Error(`A freeze frame must last at least ${MIN_CLIP_DURATION}s`);
+    assertClipUnlocked(store, clipId);
+
+    // Too close to an edge to split: hold before or after the whole clip instead
+    const at = time - clip.startTime < MIN_CLIP_DURATION ? clip.startTime : end - time < MIN_CLIP_DURATION ? end : time;
+    const still: Clip = {
+      id: `freeze-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      title: `${clip.title} (freeze)`,
+      type: 'image',
+      sourceUrl: imageUrl,
+      startTime: at,
+      duration: holdDuration,
+      sourceStartTime: 0,
+      trackId: clip.trackId,
+      transform: resolveClipAt(clip, at).transform,
+      opacity: clip.opacity,
+      speed: 1,
+      volume: 1
+    };
+    store.batch(() => {
+      const lanes = rippleLanes(store, clip, () => at);
+      if (at > clip.startTime && at < end) store.splitClip(clip.id, at);
+      shiftDownstream(store, lanes, holdDuration, []);
+      store.addClip(still);
+    }, `Freeze frame of ${clip.title}`);
+    return store.getClips().find(c => c.id === still.id) || null;
+  },
+
+  // --- MONTAGE ---
+
+  /**
+   * Lays footage over `musicClipId` cut to its `beats` (timeline seconds), on a new
+   * video track, as one undo step. The shots are silent, and so are the timeline
+   * clips the footage came from (`footageClipIds`, through their linked audio when
+   * detached) unless their track is locked, so the music carries the montage.
+   */
+  buildMontage: (store: TimelineStore, musicClipId: string, beats: BeatInfo[], sources: MontageSource[], options: MontageOptions = DEFAULT_MONTAGE, footageClipIds: string[] = []): MontageResult => {
+    const music = getClip(store, musicClipId);
+    if (!(options.minShot > 0) || !(options.maxShot >= options.minShot)) throw new Error('Shot lengths need 0 < minShot <= maxShot');
+    const shots = planMontage(planCuts(beats, music.startTime, music.startTime + music.duration, options), sources);
+    const stamp = Date.now();
+    const ids = shots.map((_, i) => `montage-${stamp}-${i}`);
+    const audible = footageClipIds
+      .map(id => store.getClips().find(c => c.id === id))
+      .map(clip => clip && !hasOwnAudio(clip) ? getLinkedClip(store.getClips(), clip) : clip)
+      .filter((clip, i, all): clip is Clip => !!clip && clip.id !== music.id && hasOwnAudio(clip) && all.indexOf(clip) === i)
+      .filter(clip => (clip.volume ?? 1) > 0 || !!clip.keyframes?.volume);
+    const muted = audible.filter(c => !store.isTrackLocked(c.trackId));
+    const applied = store.batch(() => {
+      muted.forEach(clip => {
+        const { volume: _, ...keyframes } = clip.keyframes || {};
+        store.updateClip(clip.id, { volume: 0, keyframes: Object.keys(keyframes).length > 0 ? keyframes : undefined });
+      });
+      const track = store.addTrack('video', 'top', 'Montage');
+      shots.forEach((shot, i) => store.addClip({
+        id: ids[i],
+        title: `${shot.source.title} (${i + 1})`,
+        type: shot.source.type,
+        sourceUrl: shot.source.sourceUrl,
+        startTime: shot.startTime,
+        duration: shot.duration,
+        sourceStartTime: shot.sourceStartTime,
+        totalDuration: shot.source.totalDuration,
+        trackId: track.id,
+        transform: { x: 0, y: 0, scale: 1, rotation: 0 },
+        speed: 1,
+        volume: 0
+      }));
+    }, `Beat montage to ${music.title}`);
+    if (!applied) throw new Error(`The montage over "${music.title}" was refused by timeline validation; nothing was changed`);
+    return {
+      clips: store.getClips().filter(c => ids.includes(c.id)),
+      muted: store.getClips().filter(c => muted.some(m => m.id === c.id)),
+      stillAudible: audible.filter(c => !muted.includes(c))
+    };
+  },
+
+  // --- MIX ---
+
+  /** Sets fade-in and/or fade-out lengths (seconds), clamped so the two fit inside the clip. */
+  setClipFades: (store: TimelineStore, clipId: string, fades: { fadeIn?: number, fadeOut?: number }) => {
+    const clip = getClip(store, clipId);
+    if (!hasOwnAudio(clip)) throw new Error(clip.audioDetached ? `"${clip.title}" plays its sound through its linked audio clip; fade that instead` : `"${clip.title}" has no audio to fade`);
+    if (![fades.fadeIn, fades.fadeOut].every(v => v === undefined || Number.isFinite(v))) throw new Error('Fade lengths must be numbers');
+    assertUnlocked(store, clip.trackId);
+    const fadeIn = Math.min(clip.duration, Math.max(0, fades.fadeIn ?? clip.fadeIn ?? 0));
+    const fadeOut = Math.min(clip.duration - fadeIn, Math.max(0, fades.fadeOut ?? clip.fadeOut ?? 0));
+    store.updateClip(clip.id, { fadeIn: fadeIn || undefined, fadeOut: fadeOut || undefined }, `Fade ${clip.title}`);
+  },
+
+  /** Track fader (0-2, 1 is unity) and pan (-1 left to 1 right). Allowed on locked tracks, like mute. */
+  setTrackMix: (store: TimelineStore, trackId: number, mix: { gain?: number, pan?: number }) => {
+    const track = store.getTrack(trackId);
+    if (!track) throw new Error(`Track ${trackId} not found`);
+    if (![mix.gain, mix.pan].every(v => v === undefined || Number.isFinite(v))) throw new Error('Gain and pan must be numbers');
+    const updates: { gain?: number, pan?: number } = {};
+    if (mix.gain !== undefined) updates.gain = Math.min(MAX_TRACK_GAIN, Math.max(0, mix.gain));
+    if (mix.pan !== undefined) updates.pan = Math.min(1, Math.max(-1, mix.pan));
+    store.updateTrack(trackId, updates, `Mix track ${track.name}`);
+  },
+
+  /**
+   * Ducks music clips (or just `musicClipIds`) under the `speech` spans, replacing
+   * their volume keyframes. Clips on locked tracks are left alone. Returns the ids ducked.
+   */
+  duckMusic: (store: TimelineStore, speech: TimeSpan[], options: DuckingOptions = DEFAULT_DUCKING, musicClipIds?: string[]): string[] => {
+    const targets = store.getClips().filter(c =>
+      (musicClipIds ? musicClipIds.includes(c.id) && hasOwnAudio(c) : getAudioRole(c) === 'music') && !store.isTrackLocked(c.trackId)
+    );
+    const ducked: string[] = [];
+    store.batch(() => {
+      targets.forEach(clip => {
+        const volume = duckingKeyframes(clip, speech, options);
+        if (!volume) return;
+        store.updateClip(clip.id, { keyframes: { ...clip.keyframes, volume } });
+        ducked.push(clip.id);
+      });
+    }, `Duck music under speech`);
+    return ducked;
+  },
+
+  /**
+   * Raises or lowers clips by `gainsDb` (clip id -> dB), scaling volume and any
+   * volume automation together so ducking keeps its shape (a compound clip's volume
+   * scales everything inside it). Volume is capped at
+   * MAX_CLIP_VOLUME; clips on locked tracks are left alone. Returns the ids changed.
+   */
+  applyClipGains: (store: TimelineStore, gainsDb: Record<string, number>, label = 'Adjust clip gain'): string[] => {
+    const targets = store.getClips().filter(c =>
+      (hasOwnAudio(c) || isCompoundClip(c)) && Number.isFinite(gainsDb[c.id]) && Math.abs(gainsDb[c.id]) > 0.01 && !store.isTrackLocked(c.trackId)
+    );
+    const scaled: string[] = [];
+    store.batch(() => {
+      targets.forEach(clip => {
+        const factor = Math.pow(10, gainsDb[clip.id] / 20);
+        const scale = (value: number) => Math.round(Math.min(MAX_CLIP_VOLUME, value * factor) * 1000) / 1000;
+        const volume = clip.keyframes?.volume?.map(k => ({ ...k, value: scale(k.value) }));
+        store.updateClip(clip.id, { volume: scale(clip.volume ?? 1), ...(volume ? { keyframes: { ...clip.keyframes, volume } } : {}) });
+        scaled.push(clip.id);
+      });
+    }, label);
+    return scaled;
   }
 };
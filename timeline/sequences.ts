@@ -0,0 +1,91 @@
+import { Clip, ClipKeyframes, Sequence } from '../types';
+import { evaluateProperty, shiftKeyframes } from './keyframes';
+import { isTrackAudible } from './tracks';
+import { getSourceTime } from './timeRemap';
+
+/**
+ * SEQUENCES
+ *
+ * Pure helpers for compound clips. A compound clip plays a nested Sequence the
+ * way a video clip plays its file: `sourceStartTime` is a time inside the
+ * sequence, `speed` scales it, and `totalDuration` is the sequence's length.
+ */
+
+// Deeper nesting than this is treated as a cycle and not rendered
+export const MAX_NESTING_DEPTH = 8;
+
+export const isCompoundClip = (clip: Clip): boolean => clip.type === 'compound' && !!clip.sequenceId;
+
+export const getSequenceDuration = (sequence: Pick<Sequence, 'clips'>): number =>
+    sequence.clips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0);
+
+/** Id a nested clip goes by at the parent level (preview media elements, source resolvers). */
+export const nestedClipId = (compoundId: string, innerId: string): string => `${compoundId}/${innerId}`;
+
+// Compound volume curve re-based onto a flattened clip, scaled by the inner clip's own level.
+// An inner speed ramp is re-based too, then squeezed into parent time by the compound's speed.
+const nestedKeyframes = (compound: Clip, inner: Clip, offset: number, innerOffset: number, innerVolume: number): ClipKeyframes | undefined => {
+    const speed = compound.speed || 1;
+    const volume = shiftKeyframes(compound.keyframes, offset)?.volume;
+    const ramp = shiftKeyframes(inner.keyframes, innerOffset)?.speed;
+    if (!volume && !ramp) return undefined;
+    return {
+        ...(volume ? { volume: volume.map(k => ({ ...k, value: k.value * innerVolume })) } : {}),
+        ...(ramp ? { speed: ramp.map(k => ({ ...k, time: k.time / speed, value: k.value * speed })) } : {})
+    };
+};
+
+/**
+ * Re-times `inner` (a clip of `compound`'s sequence) onto the parent timeline,
+ * cut to the part of the sequence the compound actually plays. Returns null
+ * when the inner clip falls outside that window.
+ */
+export const mapNestedClip = (compound: Clip, inner: Clip, audible = true): Clip | null => {
+    const speed = compound.speed || 1;
+    const windowStart = compound.sourceStartTime;
+    const windowEnd = compound.sourceStartTime + compound.duration * speed;
+    const from = Math.max(windowStart, inner.startTime);
+    const to = Math.min(windowEnd, inner.startTime + inner.duration);
+    if (to <= from) return null;
+
+    const startTime = compound.startTime + (from - windowStart) / speed;
+    const innerVolume = audible ? evaluateProperty(inner, 'volume', from - inner.startTime) : 0;
+    return {
+        ...inner,
+        id: nestedClipId(compound.id, inner.id),
+        startTime,
+        duration: (to - from) / speed,
+        sourceStartTime: getSourceTime(inner, from - inner.startTime),
+        speed: (inner.speed || 1) * speed,
+        trackId: compound.trackId,
+        volume: (compound.volume ?? 1) * innerVolume,
+        keyframes: nestedKeyframes(compound, inner, startTime - compound.startTime, from - inner.startTime, innerVolume)
+    };
+};
+
+/**
+ * The media clips inside every compound clip in `clips`, flattened onto the
+ * parent timeline (recursively). Mixing and the preview's media elements use
+ * these; pictures are composited from the nested structure instead. Inner
+ * keyframed volume is approximated by its level where the window starts.
+ */
+export const flattenCompoundClips = (clips: Clip[], sequences: Sequence[], depth = 0): Clip[] => {
+    if (depth >= MAX_NESTING_DEPTH) return [];
+    return clips.filter(isCompoundClip).flatMap(compound => {
+        const sequence = sequences.find(s => s.id === compound.sequenceId);
+        if (!sequence) return [];
+        const media = sequence.clips.filter(c => c.type === 'video' || c.type === 'audio' || c.type === 'image');
+        const nested = flattenCompoundClips(sequence.clips, sequences, depth + 1);
+        return [...media, ...nested]
+            .map(inner => mapNestedClip(compound, inner, isTrackAudible(sequence.tracks, inner.trackId)))
+            .filter((c): c is Clip => c !== null);
+    });
+};
+
+/** Every clip list in the project: the given top level plus each sequence's. */
+export const allClipLists = (clips: Clip[], sequences: Sequence[]): Clip[][] =>
+    [clips, ...sequences.map(s => s.clips)];
+
+/** Applies `fn` to the clips of every sequence (e.g. rewriting media URLs). */
+export const mapSequenceClips = (sequences: Sequence[], fn: (clip: Clip) => Clip): Sequence[] =>
+    sequences.map(s => ({ ...s, clips: s.clips.map(fn) }));
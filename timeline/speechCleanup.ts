@@ -0,0 +1,128 @@
+import { TimeSpan } from '../types';
+import { TranscriptParagraph, wordCutSpans } from './transcript';
+import { mergeSpans } from './ducking';
+
+/**
+ * SPEECH CLEANUP
+ *
+ * Finds what a talking-head edit usually takes out of the timeline's transcript:
+ * filler words, false starts (a cut-off word, or words said twice where the
+ * first attempt is dropped) and long pauses. Each is an issue with the span
+ * that removes it, for review before anything is cut; accepted issues are cut
+ * clip by clip as tight jump cuts.
+ */
+
+export type SpeechIssueKind = 'filler' | 'false_start' | 'pause';
+
+export interface SpeechIssue {
+    id: string;       // Stable for the same paragraphs and options
+    kind: SpeechIssueKind;
+    clipId: string;
+    text: string;     // What goes, as the review list shows it
+    words: number[];  // Indices into the paragraph's words (none for a pause)
+    span: TimeSpan;   // Timeline seconds to cut
+}
+
+export interface SpeechCleanupOptions {
+    fillers: boolean;
+    falseStarts: boolean;
+    maxPause: number;  // Seconds; longer pauses between words are trimmed (0 leaves pauses alone)
+    keepPause: number; // Seconds of a trimmed pause that stay
+    fade: number;      // Seconds of fade on both sides of each cut (0 for hard cuts)
+}
+
+export const DEFAULT_SPEECH_CLEANUP: SpeechCleanupOptions = { fillers: true, falseStarts: true, maxPause: 1, keepPause: 0.3, fade: 0.02 };
+
+// Never part of a sentence
+const FILLERS = new Set(['um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm']);
+// Fillers only when set off from the sentence ("it was, like, huge" but not "like a dream")
+const DISCOURSE_FILLERS = [['like'], ['you', 'know'], ['i', 'mean']];
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+const endsClause = (text: string) => /[,.;:!?…]$/.test(text.trim());
+const isCutOff = (text: string) => /\p{L}[-–—]$/u.test(text.trim());
+
+/** The issues in one paragraph, in timeline order. */
+export const findSpeechIssues = (paragraph: TranscriptParagraph, options: SpeechCleanupOptions = DEFAULT_SPEECH_CLEANUP): SpeechIssue[] => {
+    const { clip, words } = paragraph;
+    const keys = words.map(w => normalize(w.text));
+    const flagged = new Set<number>();
+    const issues: SpeechIssue[] = [];
+    const flag = (kind: SpeechIssueKind, indices: number[]) => {
+        indices.forEach(i => flagged.add(i));
+        const spans = wordCutSpans(paragraph, indices);
+        issues.push({
+            id: `${clip.id}:${kind}:${indices[0]}`,
+            kind,
+            clipId: clip.id,
+            text: indices.map(i => words[i].text).join(' '),
+            words: indices,
+            span: { start: spans[0].start, end: spans[spans.length - 1].end }
+        });
+    };
+    const range = (from: number, count: number) => Array.from({ length: count }, (_, k) => from + k);
+
+    if (options.fillers) {
+        keys.forEach((key, i) => {
+            if (flagged.has(i)) return;
+            if (FILLERS.has(key)) { flag('filler', [i]); return; }
+            const phrase = DISCOURSE_FILLERS.find(p => p.every((part, k) => keys[i + k] === part && words[i + k].sentence === words[i].sentence));
+            if (!phrase) return;
+            const last = i + phrase.length - 1;
+            const setOffBefore = i === 0 || words[i - 1].sentence !== words[i].sentence || endsClause(words[i - 1].text);
+            const setOffAfter = last === words.length - 1 || words[last + 1].sentence !== words[i].sentence || endsClause(words[last].text);
+            if (setOffBefore && setOffAfter) flag('filler', range(i, phrase.length));
+        });
+    }
+
+    if (options.falseStarts) {
+        words.forEach((word, i) => { if (!flagged.has(i) && isCutOff(word.text)) flag('false_start', [i]); });
+        // Repeats are matched across words already flagged, so "I, um, I think" drops the first "I"
+        const kept = keys.map((_, i) => i).filter(i => !flagged.has(i) && keys[i]);
+        for (let k = 0; k < kept.length; k++) {
+            for (let n = 3; n >= 1; n--) {
+                if (k + 2 * n > kept.length) continue;
+                const first = kept.slice(k, k + n), second = kept.slice(k + n, k + 2 * n);
+                if (!first.every((i, j) => keys[i] === keys[second[j]])) continue;
+                // Said again straight away: no pause long enough to be a deliberate repeat
+                if (words[second[0]].start - words[first[n - 1]].end > options.maxPause && options.maxPause > 0) continue;
+                flag('false_start', range(first[0], first[n - 1] - first[0] + 1).filter(i => first.includes(i) || !flagged.has(i)));
+                k += n - 1;
+                break;
+            }
+        }
+    }
+
+    if (options.maxPause > 0) {
+        words.forEach((word, i) => {
+            const next = words[i + 1];
+            if (!next || flagged.has(i) || flagged.has(i + 1) || next.start - word.end <= options.maxPause) return;
+            const keep = Math.min(options.keepPause, options.maxPause) / 2;
+            issues.push({
+                id: `${clip.id}:pause:${i}`,
+                kind: 'pause',
+                clipId: clip.id,
+                text: `${(next.start - word.end).toFixed(1)}s pause`,
+                words: [],
+                span: { start: word.end + keep, end: next.start - keep }
+            });
+        });
+    }
+
+    return issues.sort((a, b) => a.span.start - b.span.start);
+};
+
+/** The issues across the timeline's transcript. */
+export const findTranscriptIssues = (paragraphs: TranscriptParagraph[], options: SpeechCleanupOptions = DEFAULT_SPEECH_CLEANUP): SpeechIssue[] =>
+    paragraphs.flatMap(p => findSpeechIssues(p, options));
+
+/**
+ * The cuts for accepted issues, one entry per clip with its spans merged, latest
+ * clip first: cutting in that order leaves the clips still to go where they were.
+ */
+export const speechCuts = (paragraphs: TranscriptParagraph[], issues: SpeechIssue[]): { clipId: string, spans: TimeSpan[] }[] =>
+    paragraphs
+        .map(p => ({ clipId: p.clip.id, startTime: p.clip.startTime, spans: mergeSpans(issues.filter(i => i.clipId === p.clip.id).map(i => i.span)) }))
+        .filter(c => c.spans.length > 0)
+        .sort((a, b) => b.startTime - a.startTime)
+        .map(({ clipId, spans }) => ({ clipId, spans }));
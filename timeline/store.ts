@@ -1,12 +1,155 @@
 
-import { Clip, Transition } from '../types';
+import { Clip, Transition, Track, TrackKind, Sequence, Marker } from '../types';
+import { shiftKeyframes } from './keyframes';
+import { DEFAULT_TRACKS, createTrack, nextTrackId, trackKindForClip, isTrackLocked } from './tracks';
+import { TimelineViolation, validateChanges, formatViolations } from './validation';
+import { getSequenceDuration } from './sequences';
+import { getLinkedClip, getLinkPartner, mirrorLinkedEdit, unlinked } from './links';
+import { getSourceTime } from './timeRemap';
+
+export type HistoryActor = 'user' | 'agent';
+
+// One entity's change within a history entry. `null` means the entity didn't exist on that side.
+interface EntityPatch<T> {
+  id: string | number;
+  before: T | null;
+  after: T | null;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;       // e.g. "Split Main Action at 3.2s"
+  actor: HistoryActor;
+  gesture?: string;    // The drag or slider that made it, if any (see `duringGesture`)
+  timestamp: number;
+  clips: EntityPatch<Clip>[];
+  transitions: EntityPatch<Transition>[];
+  tracks: EntityPatch<Track>[];
+  markers: EntityPatch<Marker>[];
+  sequences: EntityPatch<Sequence>[]; // Nested sequences created (or dropped) with the edit
+}
+
+type TimelineListener = (clips: Clip[], transitions: Transition[], tracks: Track[], markers: Marker[]) => void;
+
+// Everything one history entry can change, captured before a mutation
+type TimelineState = { clips: Clip[], transitions: Transition[], tracks: Track[], markers: Marker[] };
+// ...plus the nested sequences, which aren't part of any one level but change with its edits
+type HistoryState = TimelineState & { sequences: Sequence[] };
+
+// What the store refused or clamped for one mutation
+export interface ValidationReport {
+  label: string;
+  actor: HistoryActor;
+  rejected: boolean; // true: nothing was applied; false: applied with `violations` fixed up
+  violations: TimelineViolation[];
+}
+
+type ViolationListener = (report: ValidationReport) => void;
+
+// A timeline level parked while a sequence inside it is open. `sequenceId` null is the root.
+interface ParkedLevel {
+  sequenceId: string | null;
+  clips: Clip[];
+  transitions: Transition[];
+  tracks: Track[];
+  markers: Marker[];
+  history: HistoryEntry[];
+  cursor: number;
+}
+
+export class TrackLockedError extends Error {
+  constructor(public trackId: number, trackName: string) {
+    super(`Track "${trackName}" is locked.`);
+    this.name = 'TrackLockedError';
+  }
+}
+
+const MAX_HISTORY = 200;
+const COALESCE_WINDOW_MS = 1000; // Repeated edits from one drag or slider fold into one entry
+
+const touchesSameEntities = (a: EntityPatch<unknown>[], b: EntityPatch<unknown>[]) =>
+  a.length === b.length && a.every(p => b.some(q => q.id === p.id && q.before && q.after && p.before && p.after));
+
+// Folds `next` into `prev`: keeps prev's "before" side, takes next's "after" side
+const mergePatches = <T extends { id: string | number }>(prev: EntityPatch<T>[], next: EntityPatch<T>[]): EntityPatch<T>[] =>
+  prev.map(p => {
+    const q = next.find(n => n.id === p.id)!;
+    return { ...p, after: q.after, afterIndex: q.afterIndex };
+  });
+
+// Entities are treated as immutable, so a reference change is a content change
+const diffEntities = <T extends { id: string | number }>(before: T[], after: T[]): EntityPatch<T>[] => {
+  const patches: EntityPatch<T>[] = [];
+  const beforeIndex = new Map(before.map((e, i) => [e.id, i]));
+  const afterIndex = new Map(after.map((e, i) => [e.id, i]));
+  before.forEach((e, i) => {
+    const j = afterIndex.get(e.id);
+    if (j === undefined) patches.push({ id: e.id, before: e, after: null, beforeIndex: i, afterIndex: -1 });
+    else if (after[j] !== e) patches.push({ id: e.id, before: e, after: after[j], beforeIndex: i, afterIndex: j });
+  });
+  after.forEach((e, j) => {
+    if (!beforeIndex.has(e.id)) patches.push({ id: e.id, before: null, after: e, beforeIndex: -1, afterIndex: j });
+  });
+  return patches;
+};
+
+// Applies patches forward (redo) or backward (undo), restoring original ordering
+const applyPatches = <T extends { id: string | number }>(items: T[], patches: EntityPatch<T>[], direction: 'forward' | 'backward'): T[] => {
+  const from = (p: EntityPatch<T>) => direction === 'forward' ? p.before : p.after;
+  const to = (p: EntityPatch<T>) => direction === 'forward' ? p.after : p.before;
+  const toIndex = (p: EntityPatch<T>) => direction === 'forward' ? p.afterIndex : p.beforeIndex;
+
+  const byId = new Map(patches.map(p => [p.id, p]));
+  const result = items
+    .filter(e => !(byId.has(e.id) && from(byId.get(e.id)!) && !to(byId.get(e.id)!)))
+    .map(e => byId.has(e.id) && to(byId.get(e.id)!) ? to(byId.get(e.id)!)! : e);
+
+  patches
+    .filter(p => !from(p) && to(p))
+    .sort((a, b) => toIndex(a) - toIndex(b))
+    .forEach(p => result.splice(Math.min(toIndex(p), result.length), 0, to(p)!));
+  return result;
+};
+
+const formatTime = (t: number) => `${Math.round(t * 10) / 10}s`;
+
+const isInside = (clip: Clip, time: number) => time > clip.startTime && time < clip.startTime + clip.duration;
+
+// The part of `clip` after `splitTime`, as a new clip
+const splitTail = (clip: Clip, splitTime: number): Clip => {
+  const offset = splitTime - clip.startTime;
+  return {
+    ...JSON.parse(JSON.stringify(clip)),
+    id: `split-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    startTime: splitTime,
+    duration: clip.duration - offset,
+    sourceStartTime: getSourceTime(clip, offset),
+    keyframes: shiftKeyframes(clip.keyframes, offset),
+    fadeIn: undefined // The fade-in stays on the head, the fade-out goes with the tail
+  };
+};
 
 export class TimelineStore {
   private clips: Clip[] = [];
   private transitions: Transition[] = [];
-  private history: { past: { clips: Clip[], transitions: Transition[] }[]; future: { clips: Clip[], transitions: Transition[] }[] } = { past: [], future: [] };
-  private listeners = new Set<(clips: Clip[], transitions: Transition[]) => void>();
+  private tracks: Track[] = DEFAULT_TRACKS; // Bottom to top
+  private markers: Marker[] = [];
+  private history: HistoryEntry[] = [];
+  private cursor = 0; // Number of history entries currently applied
+  private listeners = new Set<TimelineListener>();
+  private violationListeners = new Set<ViolationListener>();
   private isBatching = false;
+  private actor: HistoryActor = 'user';
+  private actorLabel: string | null = null;
+  private gesture: string | null = null;
+  // Nested sequences. The open level's contents live in clips/transitions/tracks/markers;
+  // `parents` holds the levels above it, and each sequence keeps its own history.
+  private sequences: Sequence[] = [];
+  private sequenceId: string | null = null;
+  private parents: ParkedLevel[] = [];
+  private sequenceHistories = new Map<string, { history: HistoryEntry[], cursor: number }>();
 
   constructor(initialClips: Clip[] = []) {
     this.clips = initialClips;
@@ -21,131 +164,582 @@ export class TimelineStore {
     return this.transitions;
   }
 
-  subscribe(fn: (clips: Clip[], transitions: Transition[]) => void): () => void {
+  getTracks(): Track[] {
+    return this.tracks;
+  }
+
+  getTrack(id: number): Track | undefined {
+    return this.tracks.find(t => t.id === id);
+  }
+
+  isTrackLocked(id: number): boolean {
+    return isTrackLocked(this.tracks, id);
+  }
+
+  getMarkers(): Marker[] {
+    return this.markers;
+  }
+
+  /** Every nested sequence, with the open one's live contents. */
+  getSequences(): Sequence[] {
+    return this.sequences.map(s => s.id === this.sequenceId ? { ...s, clips: this.clips, transitions: this.transitions, tracks: this.tracks, markers: this.markers } : s);
+  }
+
+  getSequence(id: string): Sequence | undefined {
+    return this.getSequences().find(s => s.id === id);
+  }
+
+  /** Breadcrumb from the root timeline (`id` null) to the open sequence. */
+  getSequencePath(): { id: string | null, name: string }[] {
+    const ids = [...this.parents.map(l => l.sequenceId), this.sequenceId];
+    return ids.map(id => ({ id, name: id === null ? 'Timeline' : this.sequences.find(s => s.id === id)?.name || id }));
+  }
+
+  /** The top-level timeline, whichever sequence is open (what gets saved and exported). */
+  getRootTimeline(): TimelineState {
+    const root = this.parents[0];
+    return root
+      ? { clips: root.clips, transitions: root.transitions, tracks: root.tracks, markers: root.markers }
+      : this.snapshot();
+  }
+
+  subscribe(fn: TimelineListener): () => void {
     this.listeners.add(fn);
-    fn(this.clips, this.transitions); // Initial emit
+    fn(this.clips, this.transitions, this.tracks, this.markers); // Initial emit
     return () => this.listeners.delete(fn);
   }
 
+  /** Hears about every rejected or clamped mutation (no initial emit). */
+  onViolation(fn: ViolationListener): () => void {
+    this.violationListeners.add(fn);
+    return () => this.violationListeners.delete(fn);
+  }
+
   private notify() {
-    this.listeners.forEach(fn => fn(this.clips, this.transitions));
+    this.listeners.forEach(fn => fn(this.clips, this.transitions, this.tracks, this.markers));
+  }
+
+  private snapshot(): TimelineState {
+    return { clips: this.clips, transitions: this.transitions, tracks: this.tracks, markers: this.markers };
+  }
+
+  private historySnapshot(): HistoryState {
+    return { ...this.snapshot(), sequences: this.sequences };
+  }
+
+  private clipTitle(id: string) {
+    return this.clips.find(c => c.id === id)?.title || id;
+  }
+
+  private report(label: string, rejected: boolean, violations: TimelineViolation[]) {
+    const report: ValidationReport = { label: this.actorLabel || label, actor: this.actor, rejected, violations };
+    if (rejected) console.warn(`${report.label} refused: ${formatViolations(violations)}`);
+    this.violationListeners.forEach(fn => fn(report));
+  }
+
+  // Edits touching a locked track are refused (UI paths just no-op; TimelineOps throw first)
+  private refuseLocked(action: string, ...trackIds: number[]): boolean {
+    const locked = trackIds.find(id => this.isTrackLocked(id));
+    if (locked === undefined) return false;
+    const { message } = new TrackLockedError(locked, this.getTrack(locked)!.name);
+    this.report(action, true, [{ code: 'track_locked', message, trackId: locked }]);
+    return true;
+  }
+
+  /**
+   * Validates what changed since `before`. Fixable problems are clamped in place;
+   * anything else restores `before` and returns false. Either way listeners hear about it.
+   */
+  private enforceInvariants(label: string, before: HistoryState): boolean {
+    const clipIds = new Set(diffEntities(before.clips, this.clips).map(p => p.id as string));
+    const transitionIds = new Set(diffEntities(before.transitions, this.transitions).filter(p => p.after).map(p => p.id as string));
+    if (clipIds.size === 0 && transitionIds.size === 0) return true;
+
+    const outcome = validateChanges(this.clips, this.transitions, before.clips, clipIds, transitionIds);
+    if (outcome.errors.length > 0) {
+      this.clips = before.clips;
+      this.transitions = before.transitions;
+      this.tracks = before.tracks;
+      this.markers = before.markers;
+      this.sequences = before.sequences;
+      this.report(label, true, outcome.errors);
+      return false;
+    }
+    if (outcome.adjustments.length > 0) {
+      this.clips = outcome.clips;
+      this.transitions = outcome.transitions;
+      this.report(label, false, outcome.adjustments);
+    }
+    return true;
+  }
+
+  // The tracks an edit to clip `id` touches: its own, plus its linked partner's
+  private clipTrack(id: string): number[] {
+    const clip = this.clips.find(c => c.id === id);
+    if (!clip) return [];
+    const partner = getLinkedClip(this.clips, clip);
+    return partner ? [clip.trackId, partner.trackId] : [clip.trackId];
+  }
+
+  // Replays the timing change of clip `id` (from `before`) onto its linked partner
+  private mirrorLinked(id: string, before: Clip | undefined) {
+    const after = this.clips.find(c => c.id === id);
+    const partner = after && getLinkedClip(this.clips, after);
+    if (!before || !partner) return;
+    const updates = mirrorLinkedEdit(before, after, partner);
+    if (updates) this.clips = this.clips.map(c => c.id === partner.id ? { ...c, ...updates } : c);
+  }
+
+  // Clips may name a track that doesn't exist yet (agents picking "a new track"); create it in the same entry
+  private ensureTrackFor(clip: Clip) {
+    if (this.tracks.some(t => t.id === clip.trackId)) return;
+    this.tracks = [...this.tracks, createTrack(clip.trackId, trackKindForClip(clip), this.tracks)];
+  }
+
+  /**
+   * Runs `mutate` as one history entry. Inside a batch, mutations fold into the
+   * batch's entry and listeners are notified once when the batch ends (which is
+   * also when the batch is validated, so intermediate states may break invariants).
+   */
+  private commit(label: string, mutate: () => void) {
+    if (this.isBatching) {
+      mutate();
+      return;
+    }
+    const before = this.historySnapshot();
+    mutate();
+    if (!this.enforceInvariants(label, before)) return;
+    this.record(label, before);
+    this.notify();
+  }
+
+  private record(label: string, before: HistoryState) {
+    const entry: HistoryEntry = {
+      id: `h-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      label: this.actorLabel || label,
+      actor: this.actor,
+      gesture: this.gesture ?? undefined,
+      timestamp: Date.now(),
+      clips: diffEntities(before.clips, this.clips),
+      transitions: diffEntities(before.transitions, this.transitions),
+      tracks: diffEntities(before.tracks, this.tracks),
+      markers: diffEntities(before.markers, this.markers),
+      sequences: diffEntities(before.sequences, this.sequences)
+    };
+    if (entry.clips.length === 0 && entry.transitions.length === 0 && entry.tracks.length === 0 && entry.markers.length === 0 && entry.sequences.length === 0) return;
+
+    const last = this.history[this.cursor - 1];
+    if (
+      last && this.cursor === this.history.length &&
+      entry.gesture !== undefined && last.gesture === entry.gesture &&
+      last.label === entry.label && last.actor === entry.actor &&
+      entry.timestamp - last.timestamp < COALESCE_WINDOW_MS &&
+      touchesSameEntities(last.clips, entry.clips) && touchesSameEntities(last.transitions, entry.transitions) &&
+      touchesSameEntities(last.tracks, entry.tracks) && touchesSameEntities(last.markers, entry.markers) &&
+      touchesSameEntities(last.sequences, entry.sequences)
+    ) {
+      this.history[this.cursor - 1] = {
+        ...last,
+        timestamp: entry.timestamp,
+        clips: mergePatches(last.clips, entry.clips),
+        transitions: mergePatches(last.transitions, entry.transitions),
+        tracks: mergePatches(last.tracks, entry.tracks),
+        markers: mergePatches(last.markers, entry.markers),
+        sequences: mergePatches(last.sequences, entry.sequences)
+      };
+      return;
+    }
+
+    // A new edit discards the redo branch
+    this.history = [...this.history.slice(0, this.cursor), entry];
+    if (this.history.length > MAX_HISTORY) this.history = this.history.slice(this.history.length - MAX_HISTORY);
+    this.cursor = this.history.length;
   }
 
-  private saveHistory() {
-    if (this.isBatching) return;
-    this.history.past.push({
-        clips: JSON.parse(JSON.stringify(this.clips)),
-        transitions: JSON.parse(JSON.stringify(this.transitions))
+  /**
+   * A view of this store whose edits are recorded as `actor`'s (optionally under
+   * a single label, e.g. the agent tool being executed). The actor is only set
+   * for the length of each call on the view, so edits made on the store itself
+   * meanwhile (the user's, while an agent tool awaits) stay attributed to them.
+   */
+  actingAs(actor: HistoryActor, label?: string): TimelineStore {
+    return this.view(fn => this.runAs(actor, label || null, fn));
+  }
+
+  /**
+   * A view of this store for one continuous gesture, named by `key` (e.g. a clip's
+   * opacity slider). Its edits fold into the previous entry when that came from
+   * the same gesture, under the same label, less than a second ago; edits made
+   * any other way always get their own undo step.
+   */
+  duringGesture(key: string): TimelineStore {
+    return this.view(fn => {
+      const previous = this.gesture;
+      this.gesture = key;
+      try {
+        return fn();
+      } finally {
+        this.gesture = previous;
+      }
+    });
+  }
+
+  // Runs every method called on the returned view inside `around`
+  private view(around: (fn: () => unknown) => unknown): TimelineStore {
+    return new Proxy(this, {
+      get: (target, property) => {
+        const value = Reflect.get(target, property, target);
+        if (typeof value !== 'function') return value;
+        return (...args: unknown[]) => around(() => value.apply(target, args));
+      }
     });
-    this.history.future = [];
+  }
+
+  private runAs<T>(actor: HistoryActor, label: string | null, fn: () => T): T {
+    const previous = { actor: this.actor, label: this.actorLabel };
+    this.actor = actor;
+    this.actorLabel = label;
+    try {
+      return fn();
+    } finally {
+      this.actor = previous.actor;
+      this.actorLabel = previous.label;
+    }
   }
 
   // --- Core Mutations ---
-  setClips(newClips: Clip[]) {
-    this.saveHistory();
-    this.clips = newClips;
-    this.notify();
+  setClips(newClips: Clip[], label = 'Update timeline') {
+    this.commit(label, () => {
+      this.clips = newClips;
+    });
   }
 
-  addClip(clip: Clip) {
-    this.saveHistory();
-    this.clips = [...this.clips, clip];
-    this.notify();
+  addClip(clip: Clip, label = `Add ${clip.title}`) {
+    if (this.refuseLocked(label, clip.trackId)) return;
+    this.commit(label, () => {
+      this.ensureTrackFor(clip);
+      this.clips = [...this.clips, clip];
+    });
   }
 
-  removeClip(id: string) {
-    this.saveHistory();
-    this.clips = this.clips.filter(c => c.id !== id);
-    // Also remove associated transitions
-    this.transitions = this.transitions.filter(t => t.fromClipId !== id && t.toClipId !== id);
-    this.notify();
+  removeClip(id: string, label = `Delete ${this.clipTitle(id)}`) {
+    if (this.refuseLocked(label, ...this.clipTrack(id))) return;
+    const clip = this.clips.find(c => c.id === id);
+    const partner = clip && getLinkPartner(this.clips, clip);
+    // A linked partner goes too; a broken-link partner stays and just forgets the link
+    const ids = partner && !clip!.linkBroken ? [id, partner.id] : [id];
+    this.commit(label, () => {
+      this.clips = this.clips
+        .filter(c => !ids.includes(c.id))
+        .map(c => c.id === partner?.id ? unlinked(c) : c);
+      // Also remove associated transitions
+      this.transitions = this.transitions.filter(t => !ids.includes(t.fromClipId) && !ids.includes(t.toClipId));
+    });
   }
 
-  updateClip(id: string, updates: Partial<Clip>) {
-    this.saveHistory();
-    this.clips = this.clips.map(c => c.id === id ? { ...c, ...updates } : c);
-    this.notify();
+  updateClip(id: string, updates: Partial<Clip>, label = `Edit ${this.clipTitle(id)}`) {
+    const trackIds = updates.trackId !== undefined ? [...this.clipTrack(id), updates.trackId] : this.clipTrack(id);
+    if (this.refuseLocked(label, ...trackIds)) return;
+    const before = this.clips.find(c => c.id === id);
+    this.commit(label, () => {
+      this.clips = this.clips.map(c => c.id === id ? { ...c, ...updates } : c);
+      const updated = this.clips.find(c => c.id === id);
+      if (updated) this.ensureTrackFor(updated);
+      this.mirrorLinked(id, before);
+    });
   }
 
-  moveClip(id: string, startTime: number, trackId: number) {
-    this.saveHistory();
-    this.clips = this.clips.map(c => c.id === id ? { ...c, startTime, trackId } : c);
-    this.notify();
+  moveClip(id: string, startTime: number, trackId: number, label = `Move ${this.clipTitle(id)} to ${formatTime(startTime)}`) {
+    if (this.refuseLocked(label, ...this.clipTrack(id), trackId)) return;
+    const before = this.clips.find(c => c.id === id);
+    this.commit(label, () => {
+      this.clips = this.clips.map(c => c.id === id ? { ...c, startTime, trackId } : c);
+      const moved = this.clips.find(c => c.id === id);
+      if (moved) this.ensureTrackFor(moved);
+      this.mirrorLinked(id, before);
+    });
   }
 
   // --- Transition Mutations ---
-  addTransition(transition: Transition) {
-      this.saveHistory();
+  addTransition(transition: Transition, label = `Add ${transition.type.replace(/_/g, ' ')} transition`) {
+    if (this.refuseLocked(label, transition.trackId)) return;
+    this.commit(label, () => {
       // Remove any existing transition between these two clips to prevent duplicates
-      this.transitions = this.transitions.filter(t => !(t.fromClipId === transition.fromClipId && t.toClipId === transition.toClipId));
-      this.transitions.push(transition);
-      this.notify();
+      this.transitions = [
+        ...this.transitions.filter(t => !(t.fromClipId === transition.fromClipId && t.toClipId === transition.toClipId)),
+        transition
+      ];
+    });
+  }
+
+  updateTransition(id: string, updates: Partial<Transition>, label = 'Edit transition') {
+    const transition = this.transitions.find(t => t.id === id);
+    if (transition && this.refuseLocked(label, transition.trackId)) return;
+    this.commit(label, () => {
+      this.transitions = this.transitions.map(t => t.id === id ? { ...t, ...updates } : t);
+    });
   }
 
-  removeTransition(id: string) {
-      this.saveHistory();
+  removeTransition(id: string, label = 'Remove transition') {
+    const transition = this.transitions.find(t => t.id === id);
+    if (transition && this.refuseLocked(label, transition.trackId)) return;
+    this.commit(label, () => {
       this.transitions = this.transitions.filter(t => t.id !== id);
-      this.notify();
+    });
   }
 
-  splitClip(id: string, splitTime: number) {
-    this.saveHistory();
+  splitClip(id: string, splitTime: number, label = `Split ${this.clipTitle(id)} at ${formatTime(splitTime)}`) {
     const original = this.clips.find(c => c.id === id);
     if (!original) return;
+    if (this.refuseLocked(label, ...this.clipTrack(id))) return;
 
-    if (splitTime <= original.startTime || splitTime >= original.startTime + original.duration) {
+    if (!isInside(original, splitTime)) {
       console.warn("Split time out of bounds for clip", id);
       return;
     }
 
-    const offset = splitTime - original.startTime;
-    const speed = original.speed || 1;
+    // A linked partner is cut at the same point, and the two tail halves are linked to each other
+    const partner = getLinkedClip(this.clips, original);
+    const partnerTail = partner && isInside(partner, splitTime) ? splitTail(partner, splitTime) : null;
+    const tail = partnerTail ? splitTail(original, splitTime) : unlinked(splitTail(original, splitTime));
+    if (partnerTail) {
+      tail.linkedClipId = partnerTail.id;
+      partnerTail.linkedClipId = tail.id;
+    }
+
+    const cuts = partnerTail ? [original, partner!] : [original];
+    this.commit(label, () => {
+      this.clips = [
+        ...this.clips.map(c => cuts.includes(c) ? { ...c, duration: splitTime - c.startTime, fadeOut: undefined } : c),
+        tail,
+        ...(partnerTail ? [partnerTail] : [])
+      ];
+    });
+  }
+
+  // --- Track Mutations ---
+  addTrack(kind: TrackKind, position: 'top' | 'bottom' = 'top', name?: string, label?: string): Track {
+    const track = createTrack(nextTrackId(this.tracks), kind, this.tracks, name);
+    this.commit(label || `Add track ${track.name}`, () => {
+      this.tracks = position === 'top' ? [...this.tracks, track] : [track, ...this.tracks];
+    });
+    return track;
+  }
+
+  // Lock, mute, solo, hide, rename and resize are always allowed (that's how you unlock)
+  updateTrack(id: number, updates: Partial<Omit<Track, 'id'>>, label = `Edit track ${this.getTrack(id)?.name || id}`) {
+    this.commit(label, () => {
+      this.tracks = this.tracks.map(t => t.id === id ? { ...t, ...updates } : t);
+    });
+  }
+
+  /** The topmost unlocked track of `kind`. */
+  findTrack(kind: TrackKind): Track | undefined {
+    return [...this.tracks].reverse().find(t => t.kind === kind && !t.locked);
+  }
+
+  /** Like findTrack, but creates the track on top if there is none. */
+  ensureTrack(kind: TrackKind): Track {
+    return this.findTrack(kind) || this.addTrack(kind, 'top');
+  }
+
+  // --- Marker Mutations ---
+  // Markers aren't tied to tracks, so locks don't apply
+  addMarker(marker: Marker, label = `Add marker ${marker.name}`) {
+    this.commit(label, () => {
+      this.markers = [...this.markers, { ...marker, time: Math.max(0, marker.time) }];
+    });
+  }
 
-    const newClip: Clip = {
-      ...JSON.parse(JSON.stringify(original)), 
-      id: `split-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      startTime: splitTime,
-      duration: original.duration - offset,
-      sourceStartTime: original.sourceStartTime + (offset * speed)
+  updateMarker(id: string, updates: Partial<Omit<Marker, 'id'>>, label = `Edit marker ${this.markers.find(m => m.id === id)?.name || id}`) {
+    this.commit(label, () => {
+      this.markers = this.markers.map(m => m.id === id ? { ...m, ...updates, time: Math.max(0, updates.time ?? m.time) } : m);
+    });
+  }
+
+  removeMarker(id: string, label = `Delete marker ${this.markers.find(m => m.id === id)?.name || id}`) {
+    this.commit(label, () => {
+      this.markers = this.markers.filter(m => m.id !== id);
+    });
+  }
+
+  // --- Sequence Mutations ---
+  /**
+   * Collapses `clipIds` into one compound clip playing a new sequence that holds
+   * them (and the transitions between them), keeping their relative timing and tracks.
+   */
+  createCompoundClip(clipIds: string[], name = 'Compound clip', label = `Create compound clip ${name}`): Clip | null {
+    const selected = this.clips.filter(c => clipIds.includes(c.id));
+    if (selected.length === 0) return null;
+    if (this.refuseLocked(label, ...selected.map(c => c.trackId))) return null;
+
+    const start = Math.min(...selected.map(c => c.startTime));
+    const end = Math.max(...selected.map(c => c.startTime + c.duration));
+    const inside = (t: Transition) => clipIds.includes(t.fromClipId) && clipIds.includes(t.toClipId);
+    const sequence: Sequence = {
+      id: `seq-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      name,
+      clips: selected.map(c => ({ ...c, startTime: c.startTime - start })),
+      transitions: this.transitions.filter(inside).map(t => ({ ...t, startTime: t.startTime - start })),
+      tracks: this.tracks.filter(t => selected.some(c => c.trackId === t.id)).map(t => ({ ...t, locked: false, solo: false }))
+    };
+    // The compound takes the lowest track of its contents, so whatever was stacked above stays above
+    const trackId = sequence.tracks[0].id;
+    const compound: Clip = {
+      id: `compound-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+      title: name,
+      type: 'compound',
+      sequenceId: sequence.id,
+      startTime: start,
+      duration: end - start,
+      sourceStartTime: 0,
+      totalDuration: end - start,
+      trackId,
+      transform: { x: 0, y: 0, scale: 1, rotation: 0 },
+      speed: 1,
+      volume: 1
     };
 
-    this.updateClip(id, { duration: offset });
-    this.clips = [...this.clips, newClip];
+    // The sequence is part of the same history entry, so undo drops it and redo brings it back
+    this.commit(label, () => {
+      this.sequences = [...this.sequences, sequence];
+      this.clips = [...this.clips.filter(c => !clipIds.includes(c.id)), compound];
+      this.transitions = this.transitions.filter(t => !clipIds.includes(t.fromClipId) && !clipIds.includes(t.toClipId));
+    });
+    // Rejected (e.g. the compound would overlap a clip on its track): nothing was kept
+    return this.clips.some(c => c.id === compound.id) ? compound : null;
+  }
+
+  /** Opens a nested sequence for editing. Edits and undo then apply inside it until closeSequence. */
+  openSequence(id: string) {
+    const sequence = this.getSequence(id);
+    if (!sequence || id === this.sequenceId || this.parents.some(l => l.sequenceId === id)) return;
+    this.parkOpenSequence();
+    this.parents.push({ sequenceId: this.sequenceId, ...this.snapshot(), history: this.history, cursor: this.cursor });
+    const saved = this.sequenceHistories.get(id);
+    this.sequenceId = id;
+    this.clips = sequence.clips;
+    this.transitions = sequence.transitions;
+    this.tracks = sequence.tracks;
+    this.markers = sequence.markers || [];
+    this.history = saved?.history || [];
+    this.cursor = saved?.cursor || 0;
     this.notify();
   }
 
-  batch(fn: () => void) {
-    this.saveHistory(); 
+  /** Returns to the enclosing level, refitting the compound clips that play the closed sequence. */
+  closeSequence() {
+    const parent = this.parents.pop();
+    if (!parent || this.sequenceId === null) return;
+    this.parkOpenSequence();
+    const closed = this.sequences.find(s => s.id === this.sequenceId)!;
+    this.sequenceHistories.set(closed.id, { history: this.history, cursor: this.cursor });
+
+    this.sequenceId = parent.sequenceId;
+    this.clips = parent.clips;
+    this.transitions = parent.transitions;
+    this.tracks = parent.tracks;
+    this.markers = parent.markers;
+    this.history = parent.history;
+    this.cursor = parent.cursor;
+
+    // The sequence may have grown or shrunk; compounds past its new end are clamped by validation
+    const duration = getSequenceDuration(closed);
+    const stale = this.clips.filter(c => c.sequenceId === closed.id && c.totalDuration !== duration);
+    if (stale.length > 0) {
+      this.batch(() => stale.forEach(c => this.updateClip(c.id, { totalDuration: duration })), `Edit ${closed.name}`);
+    } else {
+      this.notify();
+    }
+  }
+
+  // Writes the open sequence's working contents back into `sequences`
+  private parkOpenSequence() {
+    if (this.sequenceId === null) return;
+    this.sequences = this.getSequences();
+  }
+
+  // False when validation refused the batch and nothing was applied (a nested batch answers for its outermost one)
+  batch(fn: () => void, label = 'Edit timeline'): boolean {
+    if (this.isBatching) {
+      fn();
+      return true;
+    }
+    const before = this.historySnapshot();
+    let applied = false;
     this.isBatching = true;
     try {
       fn();
     } finally {
       this.isBatching = false;
-      this.notify(); 
+      applied = this.enforceInvariants(label, before);
+      if (applied) {
+        this.record(label, before);
+        this.notify();
+      }
     }
+    return applied;
+  }
+
+  // Replaces the whole timeline (opening a project). History starts fresh: undo can't cross projects.
+  load(clips: Clip[], transitions: Transition[], tracks: Track[] = DEFAULT_TRACKS, sequences: Sequence[] = [], markers: Marker[] = []) {
+    this.clips = clips;
+    this.transitions = transitions;
+    this.tracks = tracks;
+    this.markers = markers;
+    this.sequences = sequences;
+    this.sequenceId = null;
+    this.parents = [];
+    this.sequenceHistories.clear();
+    this.history = [];
+    this.cursor = 0;
+    this.notify();
   }
 
   // --- History ---
+  private step(direction: 'forward' | 'backward') {
+    const entry = direction === 'forward' ? this.history[this.cursor++] : this.history[--this.cursor];
+    this.clips = applyPatches(this.clips, entry.clips, direction);
+    this.transitions = applyPatches(this.transitions, entry.transitions, direction);
+    this.tracks = applyPatches(this.tracks, entry.tracks, direction);
+    this.markers = applyPatches(this.markers, entry.markers, direction);
+    // A sequence undone away takes its latest contents along, so redo restores those rather than the originals
+    if (direction === 'backward') {
+      entry.sequences.forEach(p => {
+        const current = this.sequences.find(s => s.id === p.id);
+        if (p.after && current) p.after = current;
+      });
+    }
+    this.sequences = applyPatches(this.sequences, entry.sequences, direction);
+  }
+
   undo() {
-    if (this.history.past.length === 0) return;
-    const previous = this.history.past.pop()!;
-    this.history.future.unshift({ clips: this.clips, transitions: this.transitions });
-    this.clips = previous.clips;
-    this.transitions = previous.transitions;
+    if (!this.canUndo()) return;
+    this.step('backward');
     this.notify();
   }
 
   redo() {
-    if (this.history.future.length === 0) return;
-    const next = this.history.future.shift()!;
-    this.history.past.push({ clips: this.clips, transitions: this.transitions });
-    this.clips = next.clips;
-    this.transitions = next.transitions;
+    if (!this.canRedo()) return;
+    this.step('forward');
     this.notify();
   }
+
+  /** Moves the timeline to the state right after `history[index]` (-1 = before any recorded edit). */
+  jumpTo(index: number) {
+    const target = Math.max(0, Math.min(index + 1, this.history.length));
+    if (target === this.cursor) return;
+    while (this.cursor > target) this.step('backward');
+    while (this.cursor < target) this.step('forward');
+    this.notify();
+  }
+
+  getHistory(): { entries: HistoryEntry[], cursor: number } {
+    return { entries: this.history, cursor: this.cursor };
+  }
   
-  canUndo() { return this.history.past.length > 0; }
-  canRedo() { return this.history.future.length > 0; }
+  canUndo() { return this.cursor > 0; }
+  canRedo() { return this.cursor < this.history.length; }
 }
 
 const INITIAL_CLIPS: Clip[] = [
@@ -0,0 +1,164 @@
+import { Clip, Keyframe, KeyframeEasing } from '../types';
+import { evaluateProperty, hasKeyframes } from './keyframes';
+
+/**
+ * TIME REMAPPING
+ *
+ * Maps clip-local timeline time to source media time. Speed may be a constant
+ * (`Clip.speed`) or a curve (`keyframes.speed`); the source distance covered is
+ * the integral of speed over local time. `sourceStartTime` is always the source
+ * time shown on the clip's first frame, so a reversed clip counts *down* from it.
+ * Every consumer (compositor, preview, export, split and trim) goes through here
+ * rather than multiplying by `speed`.
+ */
+
+// Simpson intervals per keyframe segment; eased speed curves are smooth within a segment
+const SEGMENT_SAMPLES = 16;
+
+export type SpeedRampPreset = 'ramp_up' | 'ramp_down' | 'bullet_time' | 'speed_bump';
+
+// [fraction of the clip, speed] pairs, stretched over the clip when applied
+export const SPEED_RAMP_PRESETS: Record<SpeedRampPreset, { label: string, points: [number, number][] }> = {
+    ramp_up: { label: 'Ramp up (1x to 3x)', points: [[0, 1], [1, 3]] },
+    ramp_down: { label: 'Ramp down (3x to 1x)', points: [[0, 3], [1, 1]] },
+    bullet_time: { label: 'Bullet time (slow middle)', points: [[0, 1], [0.4, 0.25], [0.6, 0.25], [1, 1]] },
+    speed_bump: { label: 'Speed bump (fast middle)', points: [[0, 1], [0.4, 3], [0.6, 3], [1, 1]] }
+};
+
+// How long a freeze frame holds by default
+export const FREEZE_FRAME_DURATION = 2;
+
+const MIRRORED_EASING: Record<KeyframeEasing, KeyframeEasing> = {
+    linear: 'linear', ease_in: 'ease_out', ease_out: 'ease_in', ease_in_out: 'ease_in_out', bezier: 'bezier'
+};
+
+export const hasSpeedRamp = (clip: Clip): boolean => hasKeyframes(clip, 'speed');
+
+/** Whether the clip plays its source at anything but a constant forward rate. */
+export const isTimeRemapped = (clip: Clip): boolean => hasSpeedRamp(clip) || !!clip.reversed;
+
+export const speedAt = (clip: Clip, localTime: number): number => evaluateProperty(clip, 'speed', localTime);
+
+// Signed integral of speed over [from, to], which must not cross a keyframe
+const integrateSegment = (clip: Clip, from: number, to: number): number => {
+    const h = (to - from) / SEGMENT_SAMPLES;
+    let sum = speedAt(clip, from) + speedAt(clip, to);
+    for (let i = 1; i < SEGMENT_SAMPLES; i++) sum += speedAt(clip, from + i * h) * (i % 2 === 0 ? 2 : 4);
+    return (sum * h) / 3;
+};
+
+/**
+ * Source seconds played between the clip's first frame and `localTime` (negative
+ * before the first frame). Speed holds its first / last keyframe value outside the curve.
+ */
+export const sourceDistance = (clip: Clip, localTime: number): number => {
+    const frames = clip.keyframes?.speed;
+    if (!frames || frames.length === 0) return localTime * (clip.speed || 1);
+    const lo = Math.min(0, localTime), hi = Math.max(0, localTime);
+    const cuts = [lo, ...frames.map(k => k.time).filter(t => t > lo && t < hi), hi];
+    let total = 0;
+    for (let i = 1; i < cuts.length; i++) total += integrateSegment(clip, cuts[i - 1], cuts[i]);
+    return localTime < 0 ? -total : total;
+};
+
+/** Source media time shown at clip-local `localTime`. */
+export const getSourceTime = (clip: Clip, localTime: number): number =>
+    clip.sourceStartTime + (clip.reversed ? -1 : 1) * sourceDistance(clip, localTime);
+
+/** Source seconds the whole clip plays. */
+export const getSourceSpan = (clip: Clip): number => sourceDistance(clip, clip.duration);
+
+/** Local time at which the clip has played `distance` source seconds (speed is always positive). */
+export const localTimeAtDistance = (clip: Clip, distance: number): number => {
+    if (!hasSpeedRamp(clip)) return distance / (clip.speed || 1);
+    const last = clip.keyframes!.speed![clip.keyframes!.speed!.length - 1];
+    // Past the last keyframe speed is constant, so only the curve itself needs a search
+    const curveEnd = Math.max(0, last.time);
+    const curveDistance = sourceDistance(clip, curveEnd);
+    if (distance >= curveDistance) return curveEnd + (distance - curveDistance) / last.value;
+    let lo = 0, hi = curveEnd;
+    for (let i = 0; i < 40; i++) {
+        const mid = (lo + hi) / 2;
+        if (sourceDistance(clip, mid) < distance) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+};
+
+/** Events at source times that the clip plays, moved to timeline seconds and put in timeline order. */
+export const sourceEventsInClip = <T extends { time: number }>(clip: Clip, events: T[]): T[] => {
+    const span = getSourceSpan(clip);
+    const inClip = events.flatMap(event => {
+        const distance = clip.reversed ? clip.sourceStartTime - event.time : event.time - clip.sourceStartTime;
+        if (distance < 0 || distance > span) return [];
+        return [{ ...event, time: clip.startTime + localTimeAtDistance(clip, distance) }];
+    });
+    return clip.reversed ? inClip.reverse() : inClip;
+};
+
+/** The first frame after slipping the content by `delta` timeline seconds (at the clip's opening speed). */
+export const slipSourceTime = (clip: Clip, delta: number): number =>
+    clip.sourceStartTime + (clip.reversed ? -1 : 1) * delta * speedAt(clip, 0);
+
+// Source seconds available beyond the clip's first frame (backwards) and last frame (onwards)
+export const sourceRoomBefore = (clip: Clip): number =>
+    clip.reversed ? (clip.totalDuration ?? Infinity) - clip.sourceStartTime : clip.sourceStartTime;
+
+export const sourceRoomAfter = (clip: Clip): number => {
+    const end = getSourceTime(clip, clip.duration);
+    return clip.reversed ? end : (clip.totalDuration ?? Infinity) - end;
+};
+
+/**
+ * The update that flips playback direction while showing the same source range:
+ * the old last frame becomes the first, and the speed curve is mirrored in time.
+ */
+export const reverseUpdates = (clip: Clip): Partial<Clip> => {
+    const frames = clip.keyframes?.speed;
+    const updates: Partial<Clip> = {
+        reversed: clip.reversed ? undefined : true,
+        sourceStartTime: getSourceTime(clip, clip.duration)
+    };
+    if (frames?.length) {
+        // A mirrored segment keeps its easing but played backwards, so it moves to the segment's other keyframe
+        const mirrored = frames.map((k, i): Keyframe => {
+            const leaving = frames[i - 1];
+            const frame: Keyframe = { time: clip.duration - k.time, value: k.value };
+            if (leaving?.easing) frame.easing = MIRRORED_EASING[leaving.easing];
+            if (leaving?.easing === 'bezier' && leaving.bezier) {
+                const [x1, y1, x2, y2] = leaving.bezier;
+                frame.bezier = [1 - x2, 1 - y2, 1 - x1, 1 - y1];
+            }
+            return frame;
+        }).reverse();
+        updates.keyframes = { ...clip.keyframes, speed: mirrored };
+    }
+    return updates;
+};
+
+/**
+ * Speed keyframes from [localTime, speed] pairs, eased between points.
+ * Like a constant speed change, the clip keeps its length and plays more or
+ * less of its source (validation clamps it if the media runs out).
+ */
+export const speedRampKeyframes = (points: [number, number][], easing: KeyframeEasing = 'ease_in_out'): Keyframe[] =>
+    [...points]
+        .sort((a, b) => a[0] - b[0])
+        .map(([time, value], i, all): Keyframe => i < all.length - 1 ? { time, value, easing } : { time, value });
+
+export const presetRampPoints = (clip: Clip, preset: SpeedRampPreset): [number, number][] =>
+    SPEED_RAMP_PRESETS[preset].points.map(([fraction, speed]) => [fraction * clip.duration, speed]);
+
+/** Drops the speed curve, keeping the clip's source range at its average speed. */
+export const clearSpeedRampUpdates = (clip: Clip): Partial<Clip> => {
+    const { speed: _, ...rest } = clip.keyframes || {};
+    const average = getSourceSpan(clip) / clip.duration;
+    return { keyframes: Object.keys(rest).length > 0 ? rest : undefined, speed: Math.round(average * 100) / 100 };
+};
+
+// e.g. "2x", "ramp 0.5x-3x", "1x reversed"
+export const describeSpeed = (clip: Clip): string => {
+    const frames = clip.keyframes?.speed;
+    const values = frames?.length ? frames.map(k => k.value) : null;
+    const rate = values ? `ramp ${Math.min(...values)}x-${Math.max(...values)}x` : `${clip.speed ?? 1}x`;
+    return clip.reversed ? `${rate} reversed` : rate;
+};
@@ -0,0 +1,105 @@
+import { Clip, Track, TrackKind } from '../types';
+
+/**
+ * TRACKS
+ *
+ * Pure helpers for the Track model. The store keeps tracks ordered bottom to top:
+ * array position decides compositing order, `id` is what clips point at.
+ */
+
+export const DEFAULT_TRACK_HEIGHT = 96;
+
+const KIND_LABELS: Record<TrackKind, string> = { video: 'Video', audio: 'Audio', text: 'Text' };
+
+export const DEFAULT_TRACKS: Track[] = [
+    { id: 0, name: 'Background', kind: 'video' },
+    { id: 1, name: 'Main', kind: 'video' },
+    { id: 2, name: 'Voiceover', kind: 'audio' },
+    { id: 3, name: 'Text', kind: 'text' }
+];
+
+export const trackKindForClip = (clip: Pick<Clip, 'type'>): TrackKind =>
+    clip.type === 'text' ? 'text' : clip.type === 'audio' ? 'audio' : 'video';
+
+export const createTrack = (id: number, kind: TrackKind, tracks: Track[] = [], name?: string): Track => {
+    const count = tracks.filter(t => t.kind === kind).length;
+    return { id, kind, name: name || `${KIND_LABELS[kind]} ${count + 1}` };
+};
+
+export const nextTrackId = (tracks: Track[]): number =>
+    tracks.length > 0 ? Math.max(...tracks.map(t => t.id)) + 1 : 0;
+
+/** Upgrades the old `number[]` track list (and fills gaps for clips on unknown tracks). */
+export const normalizeTracks = (raw: Array<Track | number> | undefined, clips: Clip[] = []): Track[] => {
+    if (!raw || raw.length === 0) raw = DEFAULT_TRACKS;
+    const tracks: Track[] = [];
+    raw.forEach(entry => {
+        if (typeof entry !== 'number') { tracks.push(entry); return; }
+        const preset = DEFAULT_TRACKS.find(t => t.id === entry);
+        const onTrack = clips.find(c => c.trackId === entry);
+        tracks.push(preset || createTrack(entry, onTrack ? trackKindForClip(onTrack) : 'video', tracks));
+    });
+    clips.forEach(c => {
+        if (!tracks.some(t => t.id === c.trackId)) tracks.push(createTrack(c.trackId, trackKindForClip(c), tracks));
+    });
+    return tracks;
+};
+
+// Stacking position; clips on tracks the list doesn't know about go on top, by id
+export const getTrackOrder = (tracks: Track[], trackId: number): number => {
+    const index = tracks.findIndex(t => t.id === trackId);
+    return index >= 0 ? index : tracks.length + trackId;
+};
+
+const isSoloActive = (tracks: Track[], predicate: (t: Track) => boolean = () => true) =>
+    tracks.some(t => t.solo && predicate(t));
+
+/**
+ * Whether a track's clips are composited. Soloing a visual track hides the other
+ * visual tracks; audio solo doesn't affect the picture.
+ */
+export const isTrackVisible = (tracks: Track[], trackId: number): boolean => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return true;
+    if (track.hidden) return false;
+    return !isSoloActive(tracks, t => t.kind !== 'audio') || track.kind === 'audio' || !!track.solo;
+};
+
+/** Whether a track's clips reach the mix. Any solo silences every non-soloed track. */
+export const isTrackAudible = (tracks: Track[], trackId: number): boolean => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return true;
+    if (track.muted) return false;
+    return !isSoloActive(tracks) || !!track.solo;
+};
+
+export const MAX_TRACK_GAIN = 2;
+
+/** The track's fader and pan, clamped to range (unity gain, centred, for unknown tracks). */
+export const getTrackMix = (tracks: Track[], trackId: number): { gain: number, pan: number } => {
+    const track = tracks.find(t => t.id === trackId);
+    return {
+        gain: Math.min(MAX_TRACK_GAIN, Math.max(0, track?.gain ?? 1)),
+        pan: Math.min(1, Math.max(-1, track?.pan ?? 0))
+    };
+};
+
+// e.g. "-6.0 dB", "-inf dB"
+export const formatGain = (gain: number): string =>
+    gain > 0 ? `${(20 * Math.log10(gain)).toFixed(1)} dB` : '-inf dB';
+
+// e.g. "C", "L40", "R100"
+export const formatPan = (pan: number): string =>
+    Math.abs(pan) < 0.005 ? 'C' : `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+
+export const isTrackLocked = (tracks: Track[], trackId: number): boolean =>
+    !!tracks.find(t => t.id === trackId)?.locked;
+
+// Prompt-friendly summary, e.g. `Track 3 "Text" (text, locked)`
+export const describeTrack = (track: Track): string => {
+    const flags = [
+        track.kind, track.locked && 'locked', track.muted && 'muted', track.solo && 'solo', track.hidden && 'hidden',
+        (track.gain ?? 1) !== 1 && `gain ${formatGain(track.gain!)}`, (track.pan ?? 0) !== 0 && `pan ${formatPan(track.pan!)}`
+    ].filter(Boolean);
+    return `Track ${track.id} "${track.name}" (${flags.join(', ')})`;
+};
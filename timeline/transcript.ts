@@ -0,0 +1,91 @@
+import { Clip, TimeSpan, TranscriptSentence, TranscriptWord } from '../types';
+import { localTimeAtDistance } from './timeRemap';
+import { hasOwnAudio } from './links';
+
+/**
+ * TRANSCRIPT
+ *
+ * Transcripts belong to a source (source seconds, keyed by URL), like beat
+ * analyses. The timeline's transcript is read through the clips: each clip
+ * with sound is a paragraph of the words it plays, moved to timeline time.
+ * Editing the text maps back to edits of those clips: removed words become
+ * spans to cut, reordered paragraphs become reordered clips.
+ */
+
+export type TranscriptMap = Record<string, TranscriptSentence[]>;
+
+// A word as the timeline plays it
+export interface ClipWord extends TranscriptWord {
+    sentence: number; // Index of its sentence in the source transcript
+}
+
+export interface TranscriptParagraph {
+    clip: Clip;
+    words: ClipWord[]; // Timeline seconds, in order
+}
+
+/**
+ * The sentence with a timing for every word. Words the transcriber didn't time
+ * (or timed outside the sentence) are spread over it in proportion to length.
+ */
+export const withWordTimings = (sentence: TranscriptSentence): TranscriptSentence => {
+    const given = sentence.words.filter(w => w.text.trim());
+    const timed = given.length > 0 && given.every((w, i) =>
+        Number.isFinite(w.start) && Number.isFinite(w.end) && w.end >= w.start &&
+        w.start >= sentence.start - 0.5 && w.end <= sentence.end + 0.5 && (i === 0 || w.start >= given[i - 1].start));
+    if (timed) return { ...sentence, words: given };
+
+    const texts = given.length > 0 ? given.map(w => w.text.trim()) : sentence.text.split(/\s+/).filter(Boolean);
+    const total = texts.reduce((sum, t) => sum + t.length, 0) || 1;
+    let at = sentence.start;
+    const words = texts.map(text => {
+        const length = (sentence.end - sentence.start) * text.length / total;
+        const word = { text, start: at, end: at + length };
+        at += length;
+        return word;
+    });
+    return { ...sentence, words };
+};
+
+/** The words `clip` plays (those whose middle it reaches), in timeline seconds and timeline order. */
+export const clipWords = (clip: Clip, sentences: TranscriptSentence[]): ClipWord[] => {
+    const toTimeline = (sourceTime: number) =>
+        clip.startTime + localTimeAtDistance(clip, clip.reversed ? clip.sourceStartTime - sourceTime : sourceTime - clip.sourceStartTime);
+    const end = clip.startTime + clip.duration;
+    const words = sentences.flatMap((sentence, index) => sentence.words.flatMap(word => {
+        const middle = toTimeline((word.start + word.end) / 2);
+        if (middle < clip.startTime || middle > end) return [];
+        const [a, b] = [toTimeline(word.start), toTimeline(word.end)];
+        return [{ text: word.text, start: Math.max(clip.startTime, Math.min(a, b)), end: Math.min(end, Math.max(a, b)), sentence: index }];
+    }));
+    return words.sort((a, b) => a.start - b.start);
+};
+
+/** The timeline's transcript: a paragraph per transcribed clip with sound, in timeline order. */
+export const timelineTranscript = (clips: Clip[], transcripts: TranscriptMap): TranscriptParagraph[] =>
+    clips
+        .filter(c => hasOwnAudio(c) && c.sourceUrl && transcripts[c.sourceUrl])
+        .sort((a, b) => a.startTime - b.startTime || a.trackId - b.trackId)
+        .map(clip => ({ clip, words: clipWords(clip, transcripts[clip.sourceUrl!]) }))
+        .filter(p => p.words.length > 0);
+
+/**
+ * Timeline spans that remove the words at `indices` from a paragraph. Each run
+ * of removed words is cut up to the next kept word, so the pause after it goes
+ * too; a run at either end of the clip is cut to that end.
+ */
+export const wordCutSpans = (paragraph: TranscriptParagraph, indices: number[]): TimeSpan[] => {
+    const { clip, words } = paragraph;
+    const removed = new Set(indices.filter(i => i >= 0 && i < words.length));
+    const spans: TimeSpan[] = [];
+    for (let i = 0; i < words.length; i++) {
+        if (!removed.has(i) || removed.has(i - 1)) continue;
+        let last = i;
+        while (removed.has(last + 1)) last++;
+        spans.push({
+            start: i === 0 ? clip.startTime : words[i].start,
+            end: last === words.length - 1 ? clip.startTime + clip.duration : words[last + 1].start
+        });
+    }
+    return spans;
+};
@@ -0,0 +1,191 @@
+import { Clip, Transition } from '../types';
+import { localTimeAtDistance, describeSpeed } from './timeRemap';
+
+/**
+ * TIMELINE INVARIANTS
+ *
+ * The store runs every mutation (or whole batch) through `validateChanges`.
+ * Problems with one obvious fix are clamped and reported as adjustments; anything
+ * else is an error and the store rejects the mutation. Only entities the mutation
+ * touched are checked, so a project that was already inconsistent stays editable.
+ */
+
+export const MIN_CLIP_DURATION = 0.1;
+export const ADJACENT_EPSILON = 0.05; // Clips closer than this count as touching (a cut)
+
+export type ViolationCode =
+    | 'invalid_value'
+    | 'negative_time'
+    | 'min_duration'
+    | 'source_out_of_bounds'
+    | 'track_overlap'
+    | 'transition_invalid'
+    | 'track_locked';
+
+export interface TimelineViolation {
+    code: ViolationCode;
+    message: string;
+    clipId?: string;
+    transitionId?: string;
+    trackId?: number;
+}
+
+export interface ValidationOutcome {
+    clips: Clip[];
+    transitions: Transition[];
+    adjustments: TimelineViolation[]; // Applied fixes, already reflected in `clips` / `transitions`
+    errors: TimelineViolation[];      // Non-empty means the mutation must be rejected
+}
+
+// Images and text have no source media to run out of
+const isUnbounded = (clip: Clip) => clip.type === 'image' || clip.type === 'text';
+
+const clipEnd = (clip: Clip) => clip.startTime + clip.duration;
+
+const overlapOf = (a: Clip, b: Clip) => Math.min(clipEnd(a), clipEnd(b)) - Math.max(a.startTime, b.startTime);
+
+const isLinked = (t: Transition, a: Clip, b: Clip) =>
+    (t.fromClipId === a.id && t.toClipId === b.id) || (t.fromClipId === b.id && t.toClipId === a.id);
+
+// The incoming clip must start inside (or right at the end of) the outgoing one, on the same track
+const areAdjacent = (from: Clip, to: Clip) =>
+    from.trackId === to.trackId &&
+    to.startTime >= from.startTime &&
+    to.startTime <= clipEnd(from) + ADJACENT_EPSILON &&
+    clipEnd(to) > clipEnd(from);
+
+const round = (t: number) => `${Math.round(t * 100) / 100}s`;
+
+/** Clamps one clip's times into range. Returns the fixed clip plus what was changed or couldn't be. */
+export const sanitizeClip = (clip: Clip): { clip: Clip, adjustments: TimelineViolation[], errors: TimelineViolation[] } => {
+    const adjustments: TimelineViolation[] = [];
+    const errors: TimelineViolation[] = [];
+    const at = { clipId: clip.id, trackId: clip.trackId };
+    const speed = clip.speed ?? 1;
+
+    const rampSpeeds = clip.keyframes?.speed?.map(k => k.value) || [];
+    if (![clip.startTime, clip.duration, clip.sourceStartTime, speed, ...rampSpeeds].every(Number.isFinite) || speed <= 0 || rampSpeeds.some(v => v <= 0)) {
+        errors.push({ code: 'invalid_value', message: `"${clip.title}" has a non-numeric or non-positive time or speed.`, ...at });
+        return { clip, adjustments, errors };
+    }
+
+    const fixed = { ...clip };
+    if (fixed.startTime < 0) {
+        adjustments.push({ code: 'negative_time', message: `"${clip.title}" start clamped from ${round(clip.startTime)} to 0s.`, ...at });
+        fixed.startTime = 0;
+    }
+    if (fixed.sourceStartTime < 0) {
+        adjustments.push({ code: 'negative_time', message: `"${clip.title}" source in-point clamped from ${round(clip.sourceStartTime)} to 0s.`, ...at });
+        fixed.sourceStartTime = 0;
+    }
+    if (fixed.duration < MIN_CLIP_DURATION) {
+        adjustments.push({ code: 'min_duration', message: `"${clip.title}" duration raised from ${round(clip.duration)} to ${MIN_CLIP_DURATION}s.`, ...at });
+        fixed.duration = MIN_CLIP_DURATION;
+    }
+
+    if (fixed.reversed && fixed.totalDuration !== undefined && fixed.sourceStartTime > fixed.totalDuration) {
+        adjustments.push({ code: 'source_out_of_bounds', message: `"${clip.title}" reversed in-point clamped from ${round(clip.sourceStartTime)} to ${round(fixed.totalDuration)}.`, ...at });
+        fixed.sourceStartTime = fixed.totalDuration;
+    }
+
+    if (!isUnbounded(fixed) && fixed.totalDuration !== undefined) {
+        // A reversed clip runs out at the start of its media instead of the end
+        const room = fixed.reversed ? fixed.sourceStartTime : fixed.totalDuration - fixed.sourceStartTime;
+        const available = room > 0 ? localTimeAtDistance(fixed, room) : 0;
+        if (available < MIN_CLIP_DURATION) {
+            errors.push({
+                code: 'source_out_of_bounds',
+                message: `"${clip.title}" starts at ${round(fixed.sourceStartTime)} into media that is only ${round(fixed.totalDuration)} long.`,
+                ...at
+            });
+        } else if (fixed.duration > available + 1e-3) {
+            adjustments.push({
+                code: 'source_out_of_bounds',
+                message: `"${clip.title}" duration clamped from ${round(fixed.duration)} to ${round(available)} (${fixed.reversed ? 'start' : 'end'} of source media at ${describeSpeed(fixed)}).`,
+                ...at
+            });
+            fixed.duration = available;
+        }
+    }
+
+    return { clip: adjustments.length > 0 ? fixed : clip, adjustments, errors };
+};
+
+/**
+ * Checks the entities a mutation touched against the timeline invariants:
+ * non-negative times, source range within media length, no same-track overlap
+ * except where a transition joins the two clips, and transitions that reference
+ * existing adjacent clips. `before` is the pre-mutation clip list, so overlaps
+ * that already existed aren't blamed on this edit.
+ */
+export const validateChanges = (
+    clips: Clip[],
+    transitions: Transition[],
+    before: Clip[],
+    changedClipIds: Set<string>,
+    changedTransitionIds: Set<string>
+): ValidationOutcome => {
+    const adjustments: TimelineViolation[] = [];
+    const errors: TimelineViolation[] = [];
+
+    // 1. Per-clip bounds
+    const nextClips = clips.map(c => {
+        if (!changedClipIds.has(c.id)) return c;
+        const result = sanitizeClip(c);
+        adjustments.push(...result.adjustments);
+        errors.push(...result.errors);
+        return result.clip;
+    });
+    const byId = new Map(nextClips.map(c => [c.id, c]));
+
+    // 2. Transitions. A new or edited transition that doesn't fit is an error; an existing one
+    //    whose clips were moved apart (or deleted) is dropped along with the edit.
+    const nextTransitions = transitions.filter(t => {
+        const edited = changedTransitionIds.has(t.id);
+        if (!edited && !changedClipIds.has(t.fromClipId) && !changedClipIds.has(t.toClipId)) return true;
+
+        const from = byId.get(t.fromClipId);
+        const to = byId.get(t.toClipId);
+        let problem: string | null = null;
+        if (!from || !to) problem = `references a clip that doesn't exist`;
+        else if (!areAdjacent(from, to)) problem = `needs "${to.title}" to start where "${from.title}" ends, on the same track`;
+        else if (!Number.isFinite(t.duration) || t.duration <= 0) problem = `has an invalid duration`;
+        if (!problem) return true;
+
+        const violation: TimelineViolation = { code: 'transition_invalid', message: `The ${t.type} transition ${problem}.`, transitionId: t.id, trackId: t.trackId };
+        if (edited) errors.push(violation);
+        else adjustments.push({ ...violation, message: `Removed the ${t.type} transition: it ${problem}.` });
+        return false;
+    });
+
+    // 3. Same-track overlaps
+    const reported = new Set<string>();
+    nextClips.forEach(clip => {
+        if (!changedClipIds.has(clip.id)) return;
+        nextClips.forEach(other => {
+            if (other.id === clip.id || other.trackId !== clip.trackId) return;
+            const overlap = overlapOf(clip, other);
+            if (overlap <= ADJACENT_EPSILON) return;
+
+            const key = [clip.id, other.id].sort().join('|');
+            if (reported.has(key)) return;
+            const link = nextTransitions.find(t => isLinked(t, clip, other));
+            if (link && overlap <= link.duration + ADJACENT_EPSILON) return;
+            const was = { clip: before.find(c => c.id === clip.id), other: before.find(c => c.id === other.id) };
+            if (was.clip && was.other && was.clip.trackId === was.other.trackId && overlapOf(was.clip, was.other) >= overlap - ADJACENT_EPSILON) return;
+
+            reported.add(key);
+            errors.push({
+                code: 'track_overlap',
+                message: `"${clip.title}" would overlap "${other.title}" by ${round(overlap)} on track ${clip.trackId}.`,
+                clipId: clip.id,
+                trackId: clip.trackId
+            });
+        });
+    });
+
+    return { clips: nextClips, transitions: nextTransitions, adjustments, errors };
+};
+
+export const formatViolations = (violations: TimelineViolation[]): string =>
+    violations.map(v => v.message).join(' ');
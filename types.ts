@@ -5,7 +5,8 @@ export interface Clip {
   duration: number; // in seconds (Timeline duration)
   startTime: number; // Where it sits on the timeline
   sourceStartTime: number; // Where it starts in the original video file
-  type?: 'video' | 'image' | 'audio' | 'text';
+  type?: 'video' | 'image' | 'audio' | 'text' | 'compound';
+  sequenceId?: string; // For compound clips: the nested Sequence it plays
   strategy?: 'chroma' | 'screen' | 'morph'; // New property for Asset Foundry
   sourceUrl?: string;
   text?: string; // For caption clips
@@ -28,8 +29,75 @@ export interface Clip {
     scale: number; // 1 is 100%
     rotation: number; // degrees
   };
-  speed?: number; // Playback speed multiplier (default 1)
-  volume?: number; // Audio volume 0-1 (default 1)
+  speed?: number; // Playback speed multiplier (default 1); `keyframes.speed` ramps it
+  reversed?: boolean; // Plays the source backwards from sourceStartTime
+  volume?: number; // Audio gain 0-2, 1 is unity (default 1)
+  fadeIn?: number; // Seconds of audio fade from silence at the clip's start
+  fadeOut?: number; // Seconds of audio fade to silence at the clip's end
+  audioRole?: AudioRole; // What the clip's sound is, for ducking; inferred when unset
+  opacity?: number; // 0-1 (default 1)
+  keyframes?: ClipKeyframes; // Animated overrides for transform, opacity, volume and speed
+  linkedClipId?: string; // A video and its detached audio point at each other
+  linkBroken?: boolean; // Set on both sides: the pair edits independently, but sync is still tracked
+  audioDetached?: boolean; // Video only: its sound is played by the linked audio clip instead
+}
+
+// Dialogue ducks music; effects are left alone
+export type AudioRole = 'dialogue' | 'music' | 'effects';
+
+// A stretch of timeline seconds
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+export type AnimatableProperty = 'x' | 'y' | 'scale' | 'rotation' | 'opacity' | 'volume' | 'speed';
+
+// Easing of the segment that *leaves* a keyframe
+export type KeyframeEasing = 'linear' | 'ease_in' | 'ease_out' | 'ease_in_out' | 'bezier';
+
+export interface Keyframe {
+  time: number; // Seconds from the clip's start (moves with the clip)
+  value: number;
+  easing?: KeyframeEasing;
+  bezier?: [number, number, number, number]; // CSS-style control points when easing is 'bezier'
+}
+
+export type ClipKeyframes = Partial<Record<AnimatableProperty, Keyframe[]>>;
+
+export type TrackKind = 'video' | 'audio' | 'text';
+
+export interface Track {
+  id: number; // Referenced by Clip.trackId and Transition.trackId
+  name: string;
+  kind: TrackKind;
+  locked?: boolean; // Clips on a locked track can't be edited
+  muted?: boolean;
+  solo?: boolean;
+  hidden?: boolean; // Not composited (preview, export, agent frames)
+  gain?: number; // Track fader, 0-2 (default 1)
+  pan?: number; // -1 (left) to 1 (right), default 0
+  height?: number; // Timeline lane height in px
+}
+
+// A named point (or range, with `duration`) on the ruler. Markers also become chapters on export.
+export interface Marker {
+  id: string;
+  name: string;
+  time: number; // Timeline seconds
+  color: string;
+  note?: string;
+  duration?: number; // Range markers only
+}
+
+// A nested timeline played by compound clips. The root timeline isn't a Sequence.
+export interface Sequence {
+  id: string;
+  name: string;
+  clips: Clip[];
+  transitions: Transition[];
+  tracks: Track[];
+  markers?: Marker[];
 }
 
 export interface Transition {
@@ -68,6 +136,11 @@ export interface WorkspaceItem {
 
 export interface AgentContext {
   clips: Clip[];
+  transitions?: Transition[];
+  tracks?: Track[];
+  sequences?: Sequence[]; // Contents of compound clips
+  markers?: Marker[];
+  intent?: VideoIntent;   // What the video is for, as established so far
   selectedClipIds: string[];
   currentTime: number;
   range: { start: number, end: number };
@@ -164,3 +237,30 @@ export interface BeatInfo {
   strength: number; // 0-1
   isDownbeat: boolean;
 }
+
+// Beats of one source, in source seconds
+export interface BeatAnalysis {
+  bpm: number;
+  beats: BeatInfo[];
+}
+
+// A shot boundary: where the next shot starts
+export interface SceneCut {
+  time: number;
+  confidence: number; // 0-1
+}
+
+// A transcribed word, in source seconds of the media it was heard in
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A sentence of a transcript, with its words
+export interface TranscriptSentence {
+  start: number;
+  end: number;
+  text: string;
+  words: TranscriptWord[];
+}
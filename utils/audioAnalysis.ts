@@ -0,0 +1,264 @@
+import { Clip, Track, TimeSpan, Transition, Sequence, BeatAnalysis } from '../types';
+import { isTrackAudible } from '../timeline/tracks';
+import { hasOwnAudio } from '../timeline/links';
+import { getSourceTime, speedAt } from '../timeline/timeRemap';
+import { getAudioRole, isVoiceover, voiceoverSpans, mergeSpans } from '../timeline/ducking';
+import { flattenCompoundClips, isCompoundClip } from '../timeline/sequences';
+import { decodeAudioFromUrl } from './videoUtils';
+import { renderMix, MasterSettings, DEFAULT_MASTER } from './audioMixer';
+import { measureBuffer, LoudnessReport } from './loudness';
+import { detectBeatsInSamples } from './beatDetection';
+import { MIN_CLIP_DURATION } from '../timeline/validation';
+
+/**
+ * AUDIO ANALYSIS
+ *
+ * Offline measurements of clip sound. Sources are decoded once (mono, at a low
+ * analysis rate) and cached by URL; every measurement walks the clip in
+ * timeline time through the time remapping, so speed, ramps and reverse are
+ * heard the way they play. Loudness is measured on the mixer's own render at
+ * full rate, so it matches what the export will contain.
+ */
+
+export interface DecodedAudio {
+    samples: Float32Array; // Mono mixdown
+    sampleRate: number;
+}
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const FRAME = 0.02; // Seconds per level frame
+
+// Speech gate: louder than the clip's own noise floor by this much, and above an absolute floor
+const SPEECH_MARGIN_DB = 12;
+const SPEECH_FLOOR_DB = -50;
+const SPEECH_HANGOVER = 0.3; // Pauses shorter than this stay inside a phrase
+const MIN_SPEECH = 0.15;     // Shorter bursts are clicks, not words
+
+// Silence removal: frames quieter than `thresholdDb` for at least `minSilence`
+// seconds, less `padding` of air kept beside the sound on each side
+export interface SilenceOptions {
+    thresholdDb: number;
+    minSilence: number;
+    padding: number;
+}
+
+export const DEFAULT_SILENCE: SilenceOptions = { thresholdDb: -40, minSilence: 0.5, padding: 0.1 };
+
+const decoded = new Map<string, Promise<DecodedAudio | null>>();
+
+/** The source's sound as mono samples, or null if it has none (or can't be fetched). */
+export const decodeAudio = (url: string): Promise<DecodedAudio | null> => {
+    if (!decoded.has(url)) {
+        decoded.set(url, (async () => {
+            const buffer = await decodeAudioFromUrl(url, ANALYSIS_SAMPLE_RATE);
+            if (!buffer) return null;
+            const samples = new Float32Array(buffer.length);
+            for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+                const channel = buffer.getChannelData(ch);
+                for (let i = 0; i < channel.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+            }
+            return { samples, sampleRate: buffer.sampleRate };
+        })());
+    }
+    return decoded.get(url)!;
+};
+
+export const toDb = (level: number): number => level > 0 ? 20 * Math.log10(level) : -Infinity;
+
+/** RMS level (dBFS) of every FRAME of the clip, in clip-local order. */
+export const clipLevels = (clip: Clip, audio: DecodedAudio): number[] => {
+    const levels: number[] = [];
+    for (let t = 0; t < clip.duration; t += FRAME) {
+        // A frame covers more (or less) source when the clip is sped up (or slowed down)
+        const centre = getSourceTime(clip, Math.min(clip.duration, t + FRAME / 2)) * audio.sampleRate;
+        const half = Math.max(1, Math.round(FRAME * speedAt(clip, t) * audio.sampleRate / 2));
+        const from = Math.max(0, Math.round(centre) - half), to = Math.min(audio.samples.length, Math.round(centre) + half);
+        let sum = 0;
+        for (let i = from; i < to; i++) sum += audio.samples[i] * audio.samples[i];
+        levels.push(to > from ? toDb(Math.sqrt(sum / (to - from))) : -Infinity);
+    }
+    return levels;
+};
+
+/**
+ * Where the clip is speaking, as timeline spans: frames well above its own
+ * noise floor, joined across short pauses. An energy gate, so loud non-speech
+ * counts too; it is meant for camera dialogue, not for telling speech from music.
+ */
+export const detectSpeech = async (clip: Clip): Promise<TimeSpan[]> => {
+    const audio = clip.sourceUrl ? await decodeAudio(clip.sourceUrl) : null;
+    if (!audio) return [];
+    const levels = clipLevels(clip, audio);
+    const finite = levels.filter(Number.isFinite).sort((a, b) => a - b);
+    if (finite.length === 0) return [];
+    const noiseFloor = finite[Math.floor(finite.length * 0.2)];
+    const gate = Math.max(SPEECH_FLOOR_DB, noiseFloor + SPEECH_MARGIN_DB);
+
+    const spans: TimeSpan[] = [];
+    levels.forEach((db, i) => {
+        if (db > gate) spans.push({ start: clip.startTime + i * FRAME, end: clip.startTime + Math.min(clip.duration, (i + 1) * FRAME) });
+    });
+    return mergeSpans(spans, SPEECH_HANGOVER).filter(s => s.end - s.start >= MIN_SPEECH);
+};
+
+/**
+ * The clip's silent stretches as timeline spans, padded in from the sound on
+ * either side (a silence running to the clip's edge isn't padded there).
+ */
+export const detectSilences = async (clip: Clip, options: SilenceOptions = DEFAULT_SILENCE): Promise<TimeSpan[]> => {
+    const audio = clip.sourceUrl ? await decodeAudio(clip.sourceUrl) : null;
+    if (!audio) return [];
+    const levels = clipLevels(clip, audio);
+    const spans: TimeSpan[] = [];
+    let runStart = -1;
+    levels.forEach((db, i) => {
+        const silent = db < options.thresholdDb;
+        if (silent && runStart < 0) runStart = i;
+        if ((!silent || i === levels.length - 1) && runStart >= 0) {
+            const runEnd = silent ? i + 1 : i;
+            if ((runEnd - runStart) * FRAME >= options.minSilence) {
+                const start = runStart === 0 ? 0 : runStart * FRAME + options.padding;
+                const end = runEnd === levels.length ? clip.duration : runEnd * FRAME - options.padding;
+                if (end - start >= MIN_CLIP_DURATION) spans.push({ start: clip.startTime + start, end: clip.startTime + Math.min(clip.duration, end) });
+            }
+            runStart = -1;
+        }
+    });
+    return spans;
+};
+
+/**
+ * Dead air in a stretch of the timeline: at least `minSilence` where no dialogue
+ * (or, without any, no clip at all) is sounding, as timeline spans inside `range`.
+ */
+export const findDeadAir = async (clips: Clip[], tracks: Track[], range: TimeSpan, options: SilenceOptions = DEFAULT_SILENCE): Promise<TimeSpan[]> => {
+    const audible = clips.filter(c => hasOwnAudio(c) && isTrackAudible(tracks, c.trackId) && (c.volume ?? 1) > 0 && c.startTime < range.end && c.startTime + c.duration > range.start);
+    const dialogue = audible.filter(c => getAudioRole(c) === 'dialogue');
+    const sounding: TimeSpan[] = [];
+    for (const clip of dialogue.length > 0 ? dialogue : audible) {
+        // The clip's span between its silences (unpadded, so the silences are as long as measured)
+        let from = clip.startTime;
+        for (const silence of await detectSilences(clip, { ...options, padding: 0 })) {
+            sounding.push({ start: from, end: silence.start });
+            from = silence.end;
+        }
+        sounding.push({ start: from, end: clip.startTime + clip.duration });
+    }
+    const dead: TimeSpan[] = [];
+    let from = range.start;
+    for (const span of [...mergeSpans(sounding), { start: range.end, end: range.end }]) {
+        const end = Math.min(range.end, span.start);
+        if (end - from >= options.minSilence) dead.push({ start: from, end });
+        from = Math.max(from, span.end);
+    }
+    return dead;
+};
+
+/**
+ * Every span of the timeline with audible speech: voiceovers whole, plus what
+ * `detectSpeech` hears in other dialogue clips. `speechClipIds` overrides which
+ * clips count as speech.
+ */
+export const findSpeechSpans = async (clips: Clip[], tracks: Track[], speechClipIds?: string[]): Promise<TimeSpan[]> => {
+    const speakers = clips.filter(c =>
+        (speechClipIds ? speechClipIds.includes(c.id) && hasOwnAudio(c) : getAudioRole(c) === 'dialogue') &&
+        isTrackAudible(tracks, c.trackId) && (c.volume ?? 1) > 0
+    );
+    const detected = await Promise.all(speakers.filter(c => !isVoiceover(c)).map(detectSpeech));
+    return mergeSpans([...voiceoverSpans(speakers, tracks), ...detected.flat()]);
+};
+
+// Clip loudness at unity gain, keyed by everything that changes which samples the clip plays
+const clipLoudness = new Map<string, LoudnessReport>();
+
+const loudnessKey = (clip: Clip): string =>
+    JSON.stringify([clip.sourceUrl, clip.sourceStartTime, clip.duration, clip.speed ?? 1, clip.keyframes?.speed || null, !!clip.reversed]);
+
+/**
+ * Loudness of the clip's sound on its own, before volume, fades, track and
+ * master: what normalizing it has to correct. Null when it has no sound.
+ */
+export const analyzeClipLoudness = async (clip: Clip): Promise<LoudnessReport | null> => {
+    if (!hasOwnAudio(clip) || !clip.sourceUrl) return null;
+    const key = loudnessKey(clip);
+    if (!clipLoudness.has(key)) {
+        const solo: Clip = {
+            ...clip, startTime: 0, volume: 1, fadeIn: undefined, fadeOut: undefined,
+            keyframes: clip.keyframes?.speed ? { speed: clip.keyframes.speed } : undefined
+        };
+        const buffer = await renderMix([solo], [], clip.duration, [], undefined, { ...DEFAULT_MASTER, limiter: false });
+        if (!buffer) return null;
+        clipLoudness.set(key, measureBuffer(buffer));
+    }
+    return clipLoudness.get(key)!;
+};
+
+/**
+ * A clip's integrated loudness and true peak at its current volume, from an
+ * earlier `analyzeClipLoudness`; null if it hasn't been measured. Volume
+ * automation (e.g. ducking) is ignored, so this is the clip at its full level.
+ */
+export const estimateClipLoudness = (clip: Clip): { integrated: number, truePeak: number } | null => {
+    const report = clipLoudness.get(loudnessKey(clip));
+    if (!report) return null;
+    const gainDb = toDb(clip.volume ?? 1);
+    return { integrated: report.integrated + gainDb, truePeak: report.truePeak + gainDb };
+};
+
+/**
+ * Loudness of the whole mix as it would export. Pass a master with the limiter
+ * off to measure the raw sum, which scales exactly with clip volumes.
+ */
+export const analyzeMixLoudness = async (
+    clips: Clip[],
+    transitions: Transition[],
+    tracks: Track[],
+    master: MasterSettings = DEFAULT_MASTER
+): Promise<LoudnessReport | null> => {
+    const duration = clips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0);
+    const buffer = await renderMix(clips, transitions, duration, tracks, undefined, master);
+    return buffer ? measureBuffer(buffer) : null;
+};
+
+/**
+ * Gain (dB) for each clip that brings it, on its own, to `targetLufs`.
+ * Clips that measure as silent are left out.
+ */
+export const clipNormalizationGains = async (clips: Clip[], targetLufs: number): Promise<Record<string, number>> => {
+    const gains: Record<string, number> = {};
+    for (const clip of clips) {
+        const report = await analyzeClipLoudness(clip);
+        if (report && Number.isFinite(report.integrated)) gains[clip.id] = targetLufs - report.integrated - toDb(clip.volume ?? 1);
+    }
+    return gains;
+};
+
+/**
+ * One gain (dB) for every sounding clip (compound clips included) that brings
+ * the whole mix to `targetLufs`. Measured without the limiter, where the mix is
+ * a plain sum, so scaling every clip moves it by exactly that much. Null when
+ * the mix is silent.
+ */
+export const mixNormalizationGains = async (
+    clips: Clip[],
+    transitions: Transition[],
+    tracks: Track[],
+    sequences: Sequence[],
+    targetLufs: number
+): Promise<{ gains: Record<string, number>, before: LoudnessReport } | null> => {
+    const before = await analyzeMixLoudness([...clips, ...flattenCompoundClips(clips, sequences)], transitions, tracks, { ...DEFAULT_MASTER, limiter: false });
+    if (!before || !Number.isFinite(before.integrated)) return null;
+    const gain = targetLufs - before.integrated;
+    const sounding = clips.filter(c => hasOwnAudio(c) || isCompoundClip(c));
+    return { gains: Object.fromEntries(sounding.map(c => [c.id, gain])), before };
+};
+
+const beatAnalyses = new Map<string, Promise<BeatAnalysis | null>>();
+
+/** Tempo and beats of a source (source seconds), detected once per URL. Null without a steady pulse. */
+export const analyzeBeats = (url: string): Promise<BeatAnalysis | null> => {
+    if (!beatAnalyses.has(url)) {
+        beatAnalyses.set(url, decodeAudio(url).then(audio => audio ? detectBeatsInSamples(audio.samples, audio.sampleRate) : null));
+    }
+    return beatAnalyses.get(url)!;
+};
@@ -0,0 +1,274 @@
+import { Clip, Transition, Track } from '../types';
+import { isTrackAudible, getTrackMix } from '../timeline/tracks';
+import { hasOwnAudio } from '../timeline/links';
+import { hasSpeedRamp, speedAt, getSourceTime, getSourceSpan, sourceDistance } from '../timeline/timeRemap';
+import { getCrossfades, hasGainEnvelope, clipGainAt, Crossfade } from '../timeline/fades';
+import { decodeAudioFromUrl } from './videoUtils';
+
+/**
+ * THE MIXER
+ *
+ * One Web Audio graph for preview and export alike:
+ *
+ *   clip source -> clip gain (volume x fades x crossfades) -> track gain -> track pan -> master -> limiter -> out
+ *
+ * `renderMix` builds it on an OfflineAudioContext for a sample-accurate mixdown;
+ * `audioMixer` builds it on a live AudioContext while the preview plays, so the
+ * media elements only ever supply pictures.
+ */
+
+export const MIX_SAMPLE_RATE = 48000;
+export const MIX_CHANNELS = 2;
+
+const CURVE_RATE = 100; // Automation samples per second for gain and speed curves
+const MASTER_GAIN = 1;
+// A brickwall-ish limiter under 0 dBFS so stacked tracks can't clip the export; the threshold is the master ceiling
+const LIMITER = { knee: 0, ratio: 20, attack: 0.003, release: 0.1 };
+const DRIFT_TOLERANCE = 0.15; // Seconds the live mix may wander from the playhead before it restarts
+const START_LATENCY = 0.05; // Head start for scheduling a live mix
+const PARAM_SMOOTHING = 0.02; // Time constant for live fader and pan moves
+
+export interface MasterSettings {
+    limiter: boolean; // Off only for measuring the raw mix
+    ceilingDb: number; // Limiter threshold, dBFS
+}
+
+export const DEFAULT_MASTER: MasterSettings = { limiter: true, ceilingDb: -1 };
+
+interface MixBus {
+    input: (trackId: number) => AudioNode;
+    trackNodes: Map<number, { gain: GainNode, pan: StereoPannerNode }>;
+    limiter: DynamicsCompressorNode | null;
+    output: AudioNode;
+}
+
+/** Clips that can reach the mix: own sound, a source, and an audible track. */
+const mixableClips = (clips: Clip[], tracks: Track[]): Clip[] =>
+    clips.filter(c => hasOwnAudio(c) && c.sourceUrl && isTrackAudible(tracks, c.trackId));
+
+// The same samples back to front, for reversed clips
+const reverseBuffer = (ctx: BaseAudioContext, buffer: AudioBuffer): AudioBuffer => {
+    const reversed = ctx.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        reversed.getChannelData(ch).set(buffer.getChannelData(ch).slice().reverse());
+    }
+    return reversed;
+};
+
+// A clip-local curve from `from` to the clip's end, for an AudioParam (which interpolates linearly between samples)
+const sampleCurve = (clip: Clip, from: number, value: (localTime: number) => number): Float32Array => {
+    const span = clip.duration - from;
+    const samples = Math.max(2, Math.ceil(span * CURVE_RATE));
+    const curve = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) curve[i] = value(from + (i / (samples - 1)) * span);
+    return curve;
+};
+
+// Track faders and pans feeding the master gain and limiter; muted and non-soloed tracks sit at zero gain
+const createBus = (ctx: BaseAudioContext, tracks: Track[], trackIds: number[], settings: MasterSettings): MixBus => {
+    const master = ctx.createGain();
+    master.gain.value = MASTER_GAIN;
+    let limiter: DynamicsCompressorNode | null = null;
+    if (settings.limiter) {
+        limiter = ctx.createDynamicsCompressor();
+        limiter.threshold.value = settings.ceilingDb;
+        limiter.knee.value = LIMITER.knee;
+        limiter.ratio.value = LIMITER.ratio;
+        limiter.attack.value = LIMITER.attack;
+        limiter.release.value = LIMITER.release;
+        master.connect(limiter).connect(ctx.destination);
+    } else {
+        master.connect(ctx.destination);
+    }
+
+    const trackNodes = new Map<number, { gain: GainNode, pan: StereoPannerNode }>();
+    new Set(trackIds).forEach(id => {
+        const { gain, pan } = getTrackMix(tracks, id);
+        const gainNode = ctx.createGain();
+        gainNode.gain.value = isTrackAudible(tracks, id) ? gain : 0;
+        const panNode = ctx.createStereoPanner();
+        panNode.pan.value = pan;
+        gainNode.connect(panNode).connect(master);
+        trackNodes.set(id, { gain: gainNode, pan: panNode });
+    });
+    return { input: id => trackNodes.get(id)!.gain, trackNodes, limiter, output: limiter || master };
+};
+
+/**
+ * Schedules the part of `clip` from timeline time `from` onwards, with timeline
+ * 0 at context time `origin`. Returns the source node, or null if nothing is left to play.
+ */
+const scheduleClip = (
+    ctx: BaseAudioContext,
+    clip: Clip,
+    buffer: AudioBuffer,
+    destination: AudioNode,
+    crossfades: Crossfade[],
+    origin: number,
+    from: number
+): AudioBufferSourceNode | null => {
+    const local = Math.max(0, from - clip.startTime);
+    if (clip.duration - local < 1e-3) return null;
+    const when = origin + clip.startTime + local;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    // A reversed clip plays the reversed buffer forwards, from the mirror of its source position
+    const sourceTime = getSourceTime(clip, local);
+    const offset = clip.reversed ? Math.max(0, buffer.duration - sourceTime) : sourceTime;
+    if (hasSpeedRamp(clip)) {
+        source.playbackRate.setValueCurveAtTime(sampleCurve(clip, local, t => speedAt(clip, t)), when, clip.duration - local);
+    } else {
+        source.playbackRate.value = clip.speed || 1;
+    }
+
+    const gain = ctx.createGain();
+    if (hasGainEnvelope(clip, crossfades)) {
+        gain.gain.setValueCurveAtTime(sampleCurve(clip, local, t => clipGainAt(clip, clip.startTime + t, crossfades)), when, clip.duration - local);
+    } else {
+        gain.gain.value = clip.volume ?? 1;
+    }
+    source.connect(gain).connect(destination);
+    source.start(when, offset, getSourceSpan(clip) - sourceDistance(clip, local));
+    return source;
+};
+
+/**
+ * Mixes the timeline offline: every audible clip through its gain envelope,
+ * track fader and pan, and the master limiter. Null when nothing is audible.
+ */
+export const renderMix = async (
+    clips: Clip[],
+    transitions: Transition[],
+    duration: number,
+    tracks: Track[] = [],
+    signal?: AbortSignal,
+    master: MasterSettings = DEFAULT_MASTER
+): Promise<AudioBuffer | null> => {
+    const audible = mixableClips(clips, tracks);
+    if (audible.length === 0 || duration <= 0) return null;
+
+    const ctx = new OfflineAudioContext(MIX_CHANNELS, Math.ceil(duration * MIX_SAMPLE_RATE), MIX_SAMPLE_RATE);
+    const bus = createBus(ctx, tracks, audible.map(c => c.trackId), master);
+    const decoded = new Map<string, AudioBuffer | null>();
+    const reversedBuffers = new Map<string, AudioBuffer>();
+    let hasSignal = false;
+
+    for (const clip of audible) {
+        if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+        const url = clip.sourceUrl!;
+        if (!decoded.has(url)) decoded.set(url, await decodeAudioFromUrl(url, ctx.sampleRate));
+        const buffer = decoded.get(url);
+        if (!buffer) continue;
+        if (clip.reversed && !reversedBuffers.has(url)) reversedBuffers.set(url, reverseBuffer(ctx, buffer));
+
+        const crossfades = getCrossfades(clip, clips, transitions);
+        if (scheduleClip(ctx, clip, clip.reversed ? reversedBuffers.get(url)! : buffer, bus.input(clip.trackId), crossfades, 0, 0)) hasSignal = true;
+    }
+
+    if (!hasSignal) return null;
+    return ctx.startRendering();
+};
+
+/**
+ * The live mix behind preview playback. `play` schedules everything from a
+ * timeline position; the App calls `sync` every frame so a seek (or drift from
+ * the playhead clock) restarts the mix at the right place.
+ */
+export class AudioMixer {
+    private ctx: AudioContext | null = null;
+    private buffers = new Map<string, Promise<AudioBuffer | null>>();
+    private reversedBuffers = new Map<string, AudioBuffer>();
+    private sources: AudioBufferSourceNode[] = [];
+    private bus: MixBus | null = null;
+    private generation = 0;
+    private origin: number | null = null; // Context time at which timeline 0 plays; null until scheduled
+    private master: MasterSettings = DEFAULT_MASTER;
+    private timeline: { clips: Clip[], transitions: Transition[], tracks: Track[] } = { clips: [], transitions: [], tracks: [] };
+
+    private context(): AudioContext {
+        if (!this.ctx) this.ctx = new AudioContext({ latencyHint: 'playback' });
+        return this.ctx;
+    }
+
+    private buffer(ctx: AudioContext, url: string): Promise<AudioBuffer | null> {
+        if (!this.buffers.has(url)) this.buffers.set(url, decodeAudioFromUrl(url, ctx.sampleRate));
+        return this.buffers.get(url)!;
+    }
+
+    /** Starts (or restarts) the mix at timeline time `from`. */
+    async play(clips: Clip[], transitions: Transition[], tracks: Track[], from: number): Promise<void> {
+        this.stop();
+        const generation = this.generation;
+        this.timeline = { clips, transitions, tracks };
+        const ctx = this.context();
+        if (ctx.state === 'suspended') await ctx.resume();
+
+        // Muted tracks are scheduled too (at zero gain) so unmuting doesn't need a restart
+        const pending = clips.filter(c => hasOwnAudio(c) && c.sourceUrl && c.startTime + c.duration > from);
+        const buffers = await Promise.all(pending.map(c => this.buffer(ctx, c.sourceUrl!)));
+        if (generation !== this.generation) return; // Stopped or restarted while decoding
+
+        this.bus = createBus(ctx, tracks, pending.map(c => c.trackId), this.master);
+        this.origin = ctx.currentTime + START_LATENCY - from;
+        pending.forEach((clip, i) => {
+            let buffer = buffers[i];
+            if (!buffer) return;
+            if (clip.reversed) {
+                const url = clip.sourceUrl!;
+                if (!this.reversedBuffers.has(url)) this.reversedBuffers.set(url, reverseBuffer(ctx, buffer));
+                buffer = this.reversedBuffers.get(url)!;
+            }
+            const source = scheduleClip(ctx, clip, buffer, this.bus!.input(clip.trackId), getCrossfades(clip, clips, transitions), this.origin!, from);
+            if (source) this.sources.push(source);
+        });
+    }
+
+    stop() {
+        this.generation++;
+        this.sources.forEach(s => { try { s.stop(); } catch { /* never started */ } s.disconnect(); });
+        this.sources = [];
+        this.bus?.output.disconnect();
+        this.bus = null;
+        this.origin = null;
+    }
+
+    /** Timeline time the mix is hearing now, or null while stopped or still decoding. */
+    getPosition(): number | null {
+        return this.ctx && this.origin !== null ? this.ctx.currentTime - this.origin : null;
+    }
+
+    /** Restarts the mix at `time` if it has wandered from it. */
+    sync(time: number) {
+        const position = this.getPosition();
+        if (position !== null && Math.abs(position - time) > DRIFT_TOLERANCE) {
+            const { clips, transitions, tracks } = this.timeline;
+            this.play(clips, transitions, tracks, time);
+        }
+    }
+
+    /** Moves track faders, pans, mutes and solos without restarting the mix. */
+    setTracks(tracks: Track[]) {
+        this.timeline = { ...this.timeline, tracks };
+        if (!this.ctx || !this.bus) return;
+        const now = this.ctx.currentTime;
+        this.bus.trackNodes.forEach((nodes, id) => {
+            const { gain, pan } = getTrackMix(tracks, id);
+            nodes.gain.gain.setTargetAtTime(isTrackAudible(tracks, id) ? gain : 0, now, PARAM_SMOOTHING);
+            nodes.pan.pan.setTargetAtTime(pan, now, PARAM_SMOOTHING);
+        });
+    }
+
+    /** The master bus settings the preview uses, and the export should too. */
+    getMaster(): MasterSettings {
+        return this.master;
+    }
+
+    /** Moves the limiter ceiling live; switching the limiter on or off takes effect on the next `play`. */
+    setMaster(master: MasterSettings) {
+        this.master = master;
+        if (this.ctx && this.bus?.limiter) this.bus.limiter.threshold.setTargetAtTime(master.ceilingDb, this.ctx.currentTime, PARAM_SMOOTHING);
+    }
+}
+
+export const audioMixer = new AudioMixer();
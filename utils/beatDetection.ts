@@ -0,0 +1,175 @@
+import { BeatAnalysis, BeatInfo } from '../types';
+
+/**
+ * BEAT DETECTION
+ *
+ * On-device onset and tempo tracking of decoded (mono) audio:
+ *
+ *   spectral flux onset envelope -> tempo from its autocorrelation -> beats by dynamic programming
+ *
+ * The tracker (Ellis 2007) picks the beat sequence that lands on strong onsets
+ * while keeping an even period. Downbeats assume 4/4: the bar phase whose beats
+ * carry the most low-frequency attack (kick drums) wins. Deterministic and
+ * offline; times are source seconds.
+ */
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 256;
+const BASS_CUTOFF = 150; // Hz; flux below this scores downbeats
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120; // Centre of the tempo prior, which settles double/half-time ambiguity
+const TEMPO_SPREAD = 1; // Octaves of standard deviation in the tempo prior
+const TIGHTNESS = 100; // How strongly the tracker holds the period against off-beat onsets
+const BEATS_PER_BAR = 4;
+
+// In-place iterative radix-2 FFT; `re` and `im` have a power-of-two length
+const fft = (re: Float64Array, im: Float64Array) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        const wr = Math.cos(angle), wi = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let cr = 1, ci = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k, b = a + size / 2;
+                const tr = re[b] * cr - im[b] * ci, ti = re[b] * ci + im[b] * cr;
+                re[b] = re[a] - tr; im[b] = im[a] - ti;
+                re[a] += tr; im[a] += ti;
+                [cr, ci] = [cr * wr - ci * wi, cr * wi + ci * wr];
+            }
+        }
+    }
+};
+
+/** Full-band and bass spectral flux per hop, from log-compressed magnitude spectra of frames centred on each hop. */
+const spectralFlux = (samples: Float32Array, sampleRate: number): { onset: Float64Array, bass: Float64Array } => {
+    const frames = Math.ceil(samples.length / HOP_SIZE);
+    const bins = FRAME_SIZE / 2;
+    const bassBins = Math.max(1, Math.round(BASS_CUTOFF / (sampleRate / FRAME_SIZE)));
+    const window = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / FRAME_SIZE));
+    const onset = new Float64Array(frames), bass = new Float64Array(frames);
+    const re = new Float64Array(FRAME_SIZE), im = new Float64Array(FRAME_SIZE);
+    let previous = new Float64Array(bins), current = new Float64Array(bins);
+
+    for (let f = 0; f < frames; f++) {
+        const start = f * HOP_SIZE - FRAME_SIZE / 2;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const s = start + i;
+            re[i] = s >= 0 && s < samples.length ? samples[s] * window[i] : 0;
+            im[i] = 0;
+        }
+        fft(re, im);
+        for (let k = 0; k < bins; k++) {
+            current[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+            const rise = f > 0 ? Math.max(0, current[k] - previous[k]) : 0;
+            onset[f] += rise;
+            if (k < bassBins) bass[f] += rise;
+        }
+        [previous, current] = [current, previous];
+    }
+    return { onset, bass };
+};
+
+// Onsets relative to their surroundings, so sustained loudness doesn't read as attack
+const normalizeEnvelope = (envelope: Float64Array): Float64Array => {
+    const radius = 8;
+    const out = new Float64Array(envelope.length);
+    for (let i = 0; i < envelope.length; i++) {
+        let sum = 0, count = 0;
+        for (let j = Math.max(0, i - radius); j <= Math.min(envelope.length - 1, i + radius); j++, count++) sum += envelope[j];
+        out[i] = Math.max(0, envelope[i] - sum / count);
+    }
+    const mean = out.reduce((a, b) => a + b, 0) / (out.length || 1);
+    const std = Math.sqrt(out.reduce((a, b) => a + (b - mean) * (b - mean), 0) / (out.length || 1));
+    return std > 0 ? out.map(v => v / std) : out;
+};
+
+/** Beat period in hops (fractional): the autocorrelation peak, weighted by a log-normal prior around PREFERRED_BPM. */
+const estimatePeriod = (onset: Float64Array, framesPerSecond: number): number | null => {
+    const minLag = Math.floor(framesPerSecond * 60 / MAX_BPM);
+    const maxLag = Math.min(onset.length - 1, Math.ceil(framesPerSecond * 60 / MIN_BPM));
+    if (maxLag <= minLag + 1) return null;
+    const correlation = new Float64Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let i = lag; i < onset.length; i++) sum += onset[i] * onset[i - lag];
+        correlation[lag] = sum / (onset.length - lag);
+    }
+    let best = -1, bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const bpm = 60 * framesPerSecond / lag;
+        const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / TEMPO_SPREAD, 2));
+        if (correlation[lag] * prior > bestScore) { bestScore = correlation[lag] * prior; best = lag; }
+    }
+    if (best < 0) return null;
+    // Parabolic interpolation between lags for a tempo finer than one hop
+    const [a, b, c] = [correlation[best - 1], correlation[best], correlation[best + 1]];
+    const denominator = a - 2 * b + c;
+    return best + (denominator < 0 ? 0.5 * (a - c) / denominator : 0);
+};
+
+/** Hops of the best beat sequence with period `period`, in order. */
+const trackBeats = (onset: Float64Array, period: number): number[] => {
+    const score = new Float64Array(onset.length);
+    const backlink = new Int32Array(onset.length).fill(-1);
+    const from = Math.round(period / 2), to = Math.round(2 * period);
+    for (let t = 0; t < onset.length; t++) {
+        let best = 0;
+        for (let prev = t - to; prev <= t - from; prev++) {
+            if (prev < 0) continue;
+            const penalty = TIGHTNESS * Math.pow(Math.log((t - prev) / period), 2);
+            if (score[prev] - penalty > best) { best = score[prev] - penalty; backlink[t] = prev; }
+        }
+        score[t] = onset[t] + best;
+    }
+    // The sequence ends at the best-scoring hop within the last period
+    let end = Math.max(0, onset.length - Math.ceil(period));
+    for (let t = end; t < onset.length; t++) if (score[t] > score[end]) end = t;
+    const beats: number[] = [];
+    for (let t = end; t >= 0; t = backlink[t]) beats.unshift(t);
+    return beats;
+};
+
+/**
+ * Tempo and beats of mono `samples`. Null when there is no steady pulse to
+ * find (too short, or silent).
+ */
+export const detectBeatsInSamples = (samples: Float32Array, sampleRate: number): BeatAnalysis | null => {
+    const framesPerSecond = sampleRate / HOP_SIZE;
+    const flux = spectralFlux(samples, sampleRate);
+    const onset = normalizeEnvelope(flux.onset);
+    const period = estimatePeriod(onset, framesPerSecond);
+    if (!period) return null;
+
+    // Trim the ends where the tracker only coasts on the period over silence
+    const hops = trackBeats(onset, period);
+    const peakAt = (hop: number) => Math.max(...Array.from({ length: 5 }, (_, i) => onset[hop + i - 2] || 0));
+    const typical = hops.reduce((sum, h) => sum + peakAt(h), 0) / (hops.length || 1);
+    while (hops.length > 0 && peakAt(hops[0]) < typical * 0.1) hops.shift();
+    while (hops.length > 0 && peakAt(hops[hops.length - 1]) < typical * 0.1) hops.pop();
+    if (hops.length < BEATS_PER_BAR) return null;
+
+    const strongest = Math.max(...hops.map(peakAt));
+    let downbeatPhase = 0, bestBass = -1;
+    for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+        const bass = hops.reduce((sum, h, i) => sum + (i % BEATS_PER_BAR === phase ? flux.bass[h] : 0), 0);
+        if (bass > bestBass) { bestBass = bass; downbeatPhase = phase; }
+    }
+
+    const beats: BeatInfo[] = hops.map((hop, i) => ({
+        time: Math.round(hop / framesPerSecond * 1000) / 1000,
+        strength: strongest > 0 ? Math.min(1, Math.round(peakAt(hop) / strongest * 100) / 100) : 0,
+        isDownbeat: i % BEATS_PER_BAR === downbeatPhase
+    }));
+    return { bpm: Math.round(60 * framesPerSecond / period * 10) / 10, beats };
+};
@@ -13,8 +13,20 @@ export const DEFAULT_TEXT_STYLE = {
     align: 'center' as const
 };
 
+// Everything here draws identically onto on-screen and offscreen canvases
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const getSourceSize = (source: CanvasImageSource): { width: number, height: number } => {
+    if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+    if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+    if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) return { width: source.displayWidth, height: source.displayHeight };
+    if (source instanceof SVGImageElement) return { width: source.width.baseVal.value, height: source.height.baseVal.value };
+    const sized = source as HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+    return { width: sized.width, height: sized.height };
+};
+
 // Simple CPU-based Green Screen removal for Canvas Analysis/Export
-const applyChromaKey = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+const applyChromaKey = (ctx: DrawingContext, width: number, height: number) => {
     const frameData = ctx.getImageData(0, 0, width, height);
     const data = frameData.data;
     const l = data.length / 4;
@@ -41,7 +53,7 @@ const applyChromaKey = (ctx: CanvasRenderingContext2D, width: number, height: nu
 };
 
 export const drawClipToCanvas = (
-    ctx: CanvasRenderingContext2D, 
+    ctx: DrawingContext, 
     clip: Clip, 
     source: CanvasImageSource | null, 
     containerW: number, 
@@ -58,6 +70,9 @@ export const drawClipToCanvas = (
     ctx.scale(transform.scale, transform.scale);
     ctx.rotate((transform.rotation * Math.PI) / 180);
 
+    // Opacity multiplies with any transition fade already on the context
+    ctx.globalAlpha *= Math.min(1, Math.max(0, clip.opacity ?? 1));
+
     // Apply Blend Mode if Screen Strategy
     if (clip.strategy === 'screen') {
         ctx.globalCompositeOperation = 'screen';
@@ -101,9 +116,7 @@ export const drawClipToCanvas = (
             }
         });
     } else if (source) {
-      let srcW = 0, srcH = 0;
-      if (source instanceof HTMLVideoElement) { srcW = source.videoWidth; srcH = source.videoHeight; } 
-      else if (source instanceof HTMLImageElement) { srcW = source.naturalWidth; srcH = source.naturalHeight; }
+      const { width: srcW, height: srcH } = getSourceSize(source);
 
       if (srcW && srcH) {
           const aspectSrc = srcW / srcH;
@@ -119,10 +132,8 @@ export const drawClipToCanvas = (
               // Processing on main canvas is risky if other items are behind.
               // So we draw source -> offscreen canvas -> process -> main canvas.
               
-              const tempCanvas = document.createElement('canvas');
-              tempCanvas.width = drawW;
-              tempCanvas.height = drawH;
-              const tempCtx = tempCanvas.getContext('2d');
+              const tempCanvas = new OffscreenCanvas(Math.max(1, Math.round(drawW)), Math.max(1, Math.round(drawH)));
+              const tempCtx = tempCanvas.getContext('2d', { willReadFrequently: true });
               
               if (tempCtx) {
                   tempCtx.drawImage(source, 0, 0, drawW, drawH);
@@ -140,8 +151,26 @@ export const drawClipToCanvas = (
     ctx.restore();
 };
 
+// Maps linear transition progress (0-1) through the easing named in Transition.params
+export const applyEasing = (t: number, easing: string = 'linear'): number => {
+    const p = Math.min(1, Math.max(0, t));
+    switch (easing) {
+        case 'ease_in':
+        case 'easeIn':
+            return p * p;
+        case 'ease_out':
+        case 'easeOut':
+            return 1 - (1 - p) * (1 - p);
+        case 'ease_in_out':
+        case 'easeInOut':
+            return p < 0.5 ? 2 * p * p : 1 - Math.pow(-2 * p + 2, 2) / 2;
+        default:
+            return p;
+    }
+};
+
 export const applyTransitionEffect = (
-    ctx: CanvasRenderingContext2D,
+    ctx: DrawingContext,
     type: TransitionType,
     progress: number, 
     width: number,
@@ -0,0 +1,270 @@
+import { Clip, Transition, Track, Sequence } from '../types';
+import { drawClipToCanvas, applyTransitionEffect, applyEasing, DrawingContext } from './canvasDrawing';
+import { resolveClipAt } from '../timeline/keyframes';
+import { getSourceTime } from '../timeline/timeRemap';
+import { getTrackOrder, isTrackVisible } from '../timeline/tracks';
+import { MAX_NESTING_DEPTH, nestedClipId } from '../timeline/sequences';
+
+/**
+ * THE COMPOSITOR
+ *
+ * Single source of truth for "what does the timeline look like at time t".
+ * Preview, export, the Gemini adapter and the verifier's observation pass all
+ * render through `renderFrameAt`, so what the AI sees is exactly what ships.
+ */
+
+export interface FrameSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * Resolves the pixels for a clip at a given source time.
+ * Returning null means "not available (yet)" — the compositor skips the clip
+ * or draws a placeholder, depending on RenderOptions.
+ */
+export type SourceResolver = (clip: Clip, sourceTime: number) => Promise<CanvasImageSource | null>;
+
+export interface RenderOptions {
+    resolveSource?: SourceResolver;  // Defaults to a seeking pool disposed after the frame
+    canvas?: OffscreenCanvas;        // Reuse a canvas across frames (export, preview)
+    background?: string;             // 'transparent' leaves the canvas cleared (nested sequences)
+    placeholders?: boolean;          // Draw a labelled card when a source fails to load
+    tracks?: Track[];                // Stacking order plus hide/solo; without it clips stack by trackId
+    sequences?: Sequence[];          // Contents of compound clips; without them compound clips are skipped
+}
+
+// Maps a timeline time to the matching time inside the clip's source media (speed ramps and reverse included)
+export const getClipSourceTime = (clip: Clip, time: number): number =>
+    getSourceTime(clip, time - clip.startTime);
+
+export const isClipActiveAt = (clip: Clip, time: number): boolean =>
+    time >= clip.startTime && time < clip.startTime + clip.duration;
+
+// --- MEDIA SOURCES ---
+// One detached <video> per source URL, seeked on demand. Images are decoded once.
+export class MediaSourcePool {
+    private videos = new Map<string, Promise<HTMLVideoElement | null>>();
+    private images = new Map<string, Promise<HTMLImageElement | null>>();
+    // Seeks on the same element must not interleave
+    private seekQueue = new Map<string, Promise<unknown>>();
+
+    private getVideo(url: string): Promise<HTMLVideoElement | null> {
+        if (!this.videos.has(url)) {
+            this.videos.set(url, new Promise(resolve => {
+                const video = document.createElement('video');
+                if (!url.startsWith('blob:') && !url.startsWith('data:')) video.crossOrigin = 'anonymous';
+                video.muted = true;
+                video.playsInline = true;
+                video.preload = 'auto';
+                video.onloadeddata = () => resolve(video);
+                video.onerror = () => resolve(null);
+                video.src = url;
+            }));
+        }
+        return this.videos.get(url)!;
+    }
+
+    async seekVideo(url: string, time: number): Promise<HTMLVideoElement | null> {
+        const previous = this.seekQueue.get(url) || Promise.resolve();
+        const next = previous.then(async () => {
+            const video = await this.getVideo(url);
+            if (!video) return null;
+            const target = Math.max(0, Math.min(time, (video.duration || time) - 0.001));
+            if (Math.abs(video.currentTime - target) < 0.001 && video.readyState >= 2) return video;
+            await new Promise<void>(resolve => {
+                const timeout = setTimeout(resolve, 3000);
+                video.onseeked = () => { clearTimeout(timeout); resolve(); };
+                video.currentTime = target;
+            });
+            return video;
+        });
+        this.seekQueue.set(url, next.catch(() => null));
+        return next;
+    }
+
+    getImage(url: string): Promise<HTMLImageElement | null> {
+        if (!this.images.has(url)) {
+            this.images.set(url, new Promise(resolve => {
+                const img = new Image();
+                if (!url.startsWith('blob:') && !url.startsWith('data:')) img.crossOrigin = 'anonymous';
+                img.onload = () => resolve(img);
+                img.onerror = () => resolve(null);
+                img.src = url;
+            }));
+        }
+        return this.images.get(url)!;
+    }
+
+    resolver(): SourceResolver {
+        return async (clip, sourceTime) => {
+            if (!clip.sourceUrl) return null;
+            if (clip.type === 'video') return this.seekVideo(clip.sourceUrl, sourceTime);
+            if (clip.type === 'image') return this.getImage(clip.sourceUrl);
+            return null;
+        };
+    }
+
+    dispose() {
+        this.videos.forEach(p => p.then(v => { if (v) { v.removeAttribute('src'); v.load(); } }));
+        this.videos.clear();
+        this.images.clear();
+        this.seekQueue.clear();
+    }
+}
+
+/**
+ * Resolver backed by the live preview elements. Never seeks — the preview's
+ * media sync effect owns playback position — so it returns immediately and
+ * reports null while an element is still seeking or loading.
+ */
+export const createLiveSourceResolver = (
+    elements: { [key: string]: HTMLVideoElement | HTMLAudioElement | HTMLImageElement | null }
+): SourceResolver => {
+    return async (clip) => {
+        const el = elements[clip.id];
+        if (!el) return null;
+        if (el instanceof HTMLVideoElement) return el.readyState >= 2 ? el : null;
+        if (el instanceof HTMLImageElement) return el.complete && el.naturalWidth > 0 ? el : null;
+        return null;
+    };
+};
+
+const drawPlaceholder = (ctx: DrawingContext, clip: Clip, width: number, height: number) => {
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.fillStyle = '#1a1a1a';
+    ctx.fillRect(-width / 2, -height / 2, width, height);
+
+    ctx.fillStyle = '#404040';
+    ctx.fillRect(-width / 4, -height / 4, width / 2, height / 2);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 30px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`[${(clip.type || 'video').toUpperCase()}]`, 0, -20);
+    ctx.font = '20px sans-serif';
+    ctx.fillText(clip.title, 0, 20);
+    ctx.restore();
+};
+
+/**
+ * Renders the sequence a compound clip plays, at the matching time inside it, as a
+ * full-frame transparent layer. Its clips resolve under nested ids, so live
+ * preview elements for them can be found.
+ */
+const renderCompoundSource = async (
+    clip: Clip,
+    time: number,
+    size: FrameSize,
+    options: RenderOptions,
+    resolveSource: SourceResolver,
+    depth: number
+): Promise<CanvasImageSource | null> => {
+    const sequence = options.sequences?.find(s => s.id === clip.sequenceId);
+    if (!sequence || depth + 1 >= MAX_NESTING_DEPTH) return null;
+    return renderFrameAt(sequence.clips, sequence.transitions, getClipSourceTime(clip, time), size, {
+        ...options,
+        canvas: undefined,
+        background: 'transparent',
+        tracks: sequence.tracks,
+        resolveSource: (inner, sourceTime) => resolveSource({ ...inner, id: nestedClipId(clip.id, inner.id) }, sourceTime)
+    }, depth + 1);
+};
+
+/**
+ * Composites every visible clip at `time` onto an OffscreenCanvas.
+ * Lower tracks are drawn first and hidden tracks are skipped; keyframed properties are resolved at `time`, and a
+ * clip that is the target of an active transition is drawn through the transition
+ * mask with the transition's easing applied. Compound clips render their sequence
+ * recursively and are then drawn like any other layer.
+ */
+export const renderFrameAt = async (
+    clips: Clip[],
+    transitions: Transition[],
+    time: number,
+    size: FrameSize,
+    options: RenderOptions = {},
+    depth: number = 0 // Compound clip nesting level
+): Promise<OffscreenCanvas> => {
+    // Without a resolver the frame gets a pool of its own, released once it's drawn;
+    // callers rendering many frames pass one pool's resolver and dispose it after
+    if (!options.resolveSource) {
+        const pool = new MediaSourcePool();
+        try {
+            return await renderFrameAt(clips, transitions, time, size, { ...options, resolveSource: pool.resolver() }, depth);
+        } finally {
+            pool.dispose();
+        }
+    }
+    const { width, height } = size;
+    const resolveSource = options.resolveSource;
+
+    let canvas = options.canvas;
+    if (!canvas) {
+        canvas = new OffscreenCanvas(width, height);
+    } else if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
+    if (!ctx) throw new Error('Could not create compositor context');
+
+    const tracks = options.tracks || [];
+    const visible = clips
+        .filter(c => c.type !== 'audio' && isClipActiveAt(c, time) && isTrackVisible(tracks, c.trackId))
+        .sort((a, b) => getTrackOrder(tracks, a.trackId) - getTrackOrder(tracks, b.trackId));
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, width, height);
+    if (options.background !== 'transparent') {
+        ctx.fillStyle = options.background || '#000000';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.restore();
+
+    // Resolve and draw one clip at a time: two clips cut from the same source
+    // share a pooled element, so each must be drawn before the next seek.
+    for (const clip of visible) {
+        let source: CanvasImageSource | null = null;
+        if (clip.type !== 'text') {
+            try {
+                source = clip.type === 'compound'
+                    ? await renderCompoundSource(clip, time, size, options, resolveSource, depth)
+                    : await resolveSource(clip, getClipSourceTime(clip, time));
+            } catch (e) {
+                console.warn(`Compositor: source unavailable for ${clip.title}`, e);
+            }
+            if (!source) {
+                if (options.placeholders) drawPlaceholder(ctx, clip, width, height);
+                continue;
+            }
+        }
+
+        const transition = transitions.find(t => t.toClipId === clip.id && time >= t.startTime && time < t.startTime + t.duration);
+        ctx.save();
+        if (transition) {
+            const progress = applyEasing((time - transition.startTime) / transition.duration, transition.params?.easing);
+            applyTransitionEffect(ctx, transition.type, progress, width, height);
+        }
+        drawClipToCanvas(ctx, resolveClipAt(clip, time), source, width, height);
+        ctx.restore();
+    }
+
+    return canvas;
+};
+
+// Encodes a composited frame as a JPEG data URL (what the agents consume)
+export const frameToDataUrl = async (canvas: OffscreenCanvas, quality: number = 0.8): Promise<string> => {
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
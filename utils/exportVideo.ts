@@ -0,0 +1,186 @@
+import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
+import { Clip, Transition, Track, Sequence } from '../types';
+import { renderFrameAt, MediaSourcePool } from './compositor';
+import { flattenCompoundClips } from '../timeline/sequences';
+import { renderMix, MIX_SAMPLE_RATE, MIX_CHANNELS, MasterSettings } from './audioMixer';
+
+/**
+ * THE EXPORTER
+ *
+ * Renders the timeline frame-by-frame through the shared compositor, encodes it
+ * with WebCodecs and muxes the result (plus the mixer's offline mixdown) into an MP4 file.
+ */
+
+export interface ExportOptions {
+    width?: number;
+    height?: number;
+    fps?: number;
+    videoBitrate?: number;
+    audioBitrate?: number;
+    tracks?: Track[]; // Honors hide/solo in the picture and mute/solo, gain and pan in the mix
+    sequences?: Sequence[]; // Contents of compound clips
+    master?: MasterSettings; // Limiter ceiling of the mix
+    onProgress?: (progress: number) => void; // 0-100
+    onWarning?: (message: string) => void; // The export went ahead without something (e.g. its sound)
+    signal?: AbortSignal;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+};
+
+export const getTimelineDuration = (clips: Clip[]): number =>
+    clips.reduce((max, c) => Math.max(max, c.startTime + c.duration), 0);
+
+// --- VIDEO ---
+const pickVideoCodec = async (width: number, height: number, fps: number, bitrate: number): Promise<VideoEncoderConfig> => {
+    // High profile for HD, baseline as a fallback for older encoders
+    const candidates = ['avc1.640028', 'avc1.4d0028', 'avc1.42001f'];
+    for (const codec of candidates) {
+        const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+        const support = await VideoEncoder.isConfigSupported(config);
+        if (support.supported) return config;
+    }
+    throw new Error(`H.264 encoding at ${width}x${height} is not supported by this browser.`);
+};
+
+// --- AUDIO ---
+const encodeAudio = async (
+    buffer: AudioBuffer,
+    muxer: Muxer<ArrayBufferTarget>,
+    bitrate: number,
+    signal?: AbortSignal
+) => {
+    let encoderError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: (e) => { encoderError = e as Error; }
+    });
+    encoder.configure({ codec: 'mp4a.40.2', sampleRate: buffer.sampleRate, numberOfChannels: buffer.numberOfChannels, bitrate });
+
+    const frameSize = 1024 * 8;
+    try {
+        for (let offset = 0; offset < buffer.length; offset += frameSize) {
+            throwIfAborted(signal);
+            if (encoderError) throw encoderError;
+            const length = Math.min(frameSize, buffer.length - offset);
+            const planar = new Float32Array(length * buffer.numberOfChannels);
+            for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+                planar.set(buffer.getChannelData(ch).subarray(offset, offset + length), ch * length);
+            }
+            const data = new AudioData({
+                format: 'f32-planar',
+                sampleRate: buffer.sampleRate,
+                numberOfFrames: length,
+                numberOfChannels: buffer.numberOfChannels,
+                timestamp: Math.round((offset / buffer.sampleRate) * 1e6),
+                data: planar
+            });
+            encoder.encode(data);
+            data.close();
+        }
+        // A failed encoder rejects the flush too; its own error says why
+        await encoder.flush().catch(e => { throw encoderError || e; });
+        if (encoderError) throw encoderError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+};
+
+const isAudioEncodingSupported = async (bitrate: number): Promise<boolean> => {
+    if (typeof AudioEncoder === 'undefined') return false;
+    try {
+        const support = await AudioEncoder.isConfigSupported({ codec: 'mp4a.40.2', sampleRate: MIX_SAMPLE_RATE, numberOfChannels: MIX_CHANNELS, bitrate });
+        return !!support.supported;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Renders the full timeline to an MP4 Blob.
+ * Audio is mixed offline up front; progress tracks video rendering (0-95%), then audio encode + mux.
+ */
+export const exportTimelineToMp4 = async (
+    clips: Clip[],
+    transitions: Transition[],
+    options: ExportOptions = {}
+): Promise<Blob> => {
+    const { width = 1280, height = 720, fps = 30, videoBitrate = 8_000_000, audioBitrate = 128_000, tracks = [], sequences = [], master, onProgress, onWarning, signal } = options;
+
+    if (typeof VideoEncoder === 'undefined') {
+        throw new Error('This browser does not support WebCodecs video encoding.');
+    }
+
+    const duration = getTimelineDuration(clips);
+    if (duration <= 0) throw new Error('Timeline is empty.');
+
+    const videoConfig = await pickVideoCodec(width, height, fps, videoBitrate);
+    const mixClips = [...clips, ...flattenCompoundClips(clips, sequences)];
+    const canEncodeAudio = await isAudioEncodingSupported(audioBitrate);
+    if (!canEncodeAudio) onWarning?.("This browser can't encode AAC audio, so the export has no sound.");
+    const mix = canEncodeAudio ? await renderMix(mixClips, transitions, duration, tracks, signal, master) : null;
+
+    const muxer = new Muxer({
+        target: new ArrayBufferTarget(),
+        video: { codec: 'avc', width, height, frameRate: fps },
+        audio: mix ? { codec: 'aac', numberOfChannels: MIX_CHANNELS, sampleRate: MIX_SAMPLE_RATE } : undefined,
+        fastStart: 'in-memory',
+        firstTimestampBehavior: 'offset'
+    });
+
+    let encoderError: Error | null = null;
+    const videoEncoder = new VideoEncoder({
+        output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+        error: (e) => { encoderError = e as Error; }
+    });
+    videoEncoder.configure(videoConfig);
+
+    // A private pool so export seeks never fight the preview or the agents
+    const pool = new MediaSourcePool();
+    const canvas = new OffscreenCanvas(width, height);
+    const frameOptions = { canvas, resolveSource: pool.resolver(), tracks, sequences };
+    const totalFrames = Math.ceil(duration * fps);
+    const frameDuration = 1e6 / fps;
+
+    try {
+        for (let i = 0; i < totalFrames; i++) {
+            throwIfAborted(signal);
+            if (encoderError) throw encoderError;
+
+            await renderFrameAt(clips, transitions, i / fps, { width, height }, frameOptions);
+
+            const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+            videoEncoder.encode(frame, { keyFrame: i % (fps * 2) === 0 });
+            frame.close();
+
+            // Back-pressure: don't let the encoder queue grow unbounded
+            while (videoEncoder.encodeQueueSize > 8) {
+                await new Promise(r => setTimeout(r, 5));
+            }
+            onProgress?.(Math.round(((i + 1) / totalFrames) * 95));
+        }
+        await videoEncoder.flush();
+        if (encoderError) throw encoderError;
+
+        if (mix) await encodeAudio(mix, muxer, audioBitrate, signal);
+
+        muxer.finalize();
+        onProgress?.(100);
+        return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+    } finally {
+        if (videoEncoder.state !== 'closed') videoEncoder.close();
+        pool.dispose();
+    }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
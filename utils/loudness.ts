@@ -0,0 +1,179 @@
+/**
+ * LOUDNESS
+ *
+ * ITU-R BS.1770 / EBU R128 measurement of decoded audio: K-weighted mean
+ * square over 400 ms (momentary) and 3 s (short-term) windows, gated
+ * integrated loudness, and true peak from 4x oversampling. Pure DSP on sample
+ * arrays; decoding and rendering happen in the analysis and mixer modules.
+ */
+
+export interface LoudnessReport {
+    integrated: number;   // LUFS; -Infinity when everything is below the absolute gate
+    momentaryMax: number; // LUFS
+    shortTermMax: number; // LUFS
+    shortTerm: number[];  // LUFS every SHORT_TERM_STEP seconds, for the meter
+    truePeak: number;     // dBTP
+    duration: number;     // Seconds measured
+}
+
+export type LoudnessTargetId = 'youtube' | 'tiktok' | 'podcast';
+
+export interface LoudnessTarget {
+    label: string;
+    integrated: number; // LUFS
+    truePeak: number;   // dBTP ceiling
+}
+
+export const LOUDNESS_TARGETS: Record<LoudnessTargetId, LoudnessTarget> = {
+    youtube: { label: 'YouTube', integrated: -14, truePeak: -1 },
+    tiktok: { label: 'TikTok / Reels', integrated: -14, truePeak: -1 },
+    podcast: { label: 'Podcast', integrated: -16, truePeak: -1 }
+};
+
+export const LOUDNESS_TOLERANCE = 1; // LU either side of a target that still counts as on target
+export const SHORT_TERM_STEP = 0.5;
+
+const SEGMENT = 0.1; // Seconds; momentary and short-term windows are whole numbers of segments
+const MOMENTARY_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+type Biquad = { b: [number, number, number], a: [number, number] };
+
+// The two K-weighting stages (high shelf, then high-pass), re-derived for any sample rate
+const kWeighting = (sampleRate: number): Biquad[] => {
+    let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+    const Vh = Math.pow(10, 3.999843853973347 / 20);
+    const Vb = Math.pow(Vh, 0.4996667741545416);
+    let Q = 0.7071752369554196;
+    let a0 = 1 + K / Q + K * K;
+    const shelf: Biquad = {
+        b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+        a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0]
+    };
+    K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+    Q = 0.5003270373238773;
+    a0 = 1 + K / Q + K * K;
+    const highPass: Biquad = { b: [1, -2, 1], a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0] };
+    return [shelf, highPass];
+};
+
+const filter = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+        x2 = x1; x1 = x; y2 = y1; y1 = y;
+        output[i] = y;
+    }
+    return output;
+};
+
+const toLufs = (meanSquare: number): number => meanSquare > 0 ? -0.691 + 10 * Math.log10(meanSquare) : -Infinity;
+
+// Windowed-sinc interpolator, split into one FIR per oversampled phase
+const interpolationPhases = (): Float32Array[] => {
+    const length = OVERSAMPLING * TAPS_PER_PHASE;
+    const centre = (length - 1) / 2;
+    const taps = Array.from({ length }, (_, i) => {
+        const t = (i - centre) / OVERSAMPLING;
+        const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+        const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * (i + 0.5) / length);
+        return sinc * window;
+    });
+    return Array.from({ length: OVERSAMPLING }, (_, p) => Float32Array.from({ length: TAPS_PER_PHASE }, (_, k) => taps[p + k * OVERSAMPLING]));
+};
+
+/**
+ * Highest inter-sample peak of one channel. Only neighbourhoods within 6 dB of
+ * the sample peak are oversampled; an inter-sample overshoot larger than that
+ * doesn't occur in real programme material.
+ */
+const channelTruePeak = (samples: Float32Array, phases: Float32Array[]): number => {
+    let samplePeak = 0;
+    for (let i = 0; i < samples.length; i++) samplePeak = Math.max(samplePeak, Math.abs(samples[i]));
+    const threshold = samplePeak / 2;
+    let peak = samplePeak;
+    for (let n = TAPS_PER_PHASE; n < samples.length; n++) {
+        if (Math.abs(samples[n]) < threshold && Math.abs(samples[n - 1]) < threshold) continue;
+        for (const phase of phases) {
+            let sum = 0;
+            for (let k = 0; k < TAPS_PER_PHASE; k++) sum += phase[k] * samples[n - k];
+            peak = Math.max(peak, Math.abs(sum));
+        }
+    }
+    return peak;
+};
+
+/** Measures one or two channels (left/right weighted equally, as BS.1770 does for stereo). */
+export const measureLoudness = (channels: Float32Array[], sampleRate: number): LoudnessReport => {
+    const length = channels[0]?.length || 0;
+    const segmentLength = Math.round(SEGMENT * sampleRate);
+    const segments = Math.floor(length / segmentLength);
+
+    // Channel-summed K-weighted energy per segment; every window is a run of segments
+    const energy = new Float64Array(segments);
+    const stages = kWeighting(sampleRate);
+    channels.forEach(channel => {
+        const weighted = stages.reduce(filter, channel);
+        for (let s = 0; s < segments; s++) {
+            let sum = 0;
+            for (let i = s * segmentLength; i < (s + 1) * segmentLength; i++) sum += weighted[i] * weighted[i];
+            energy[s] += sum / segmentLength;
+        }
+    });
+    const windowLoudness = (end: number, count: number): number => {
+        let sum = 0;
+        for (let s = end - count; s < end; s++) sum += energy[s];
+        return toLufs(sum / count);
+    };
+
+    const momentaryPower: number[] = [];
+    let momentaryMax = -Infinity;
+    for (let end = MOMENTARY_SEGMENTS; end <= segments; end++) {
+        let sum = 0;
+        for (let s = end - MOMENTARY_SEGMENTS; s < end; s++) sum += energy[s];
+        momentaryPower.push(sum / MOMENTARY_SEGMENTS);
+        momentaryMax = Math.max(momentaryMax, toLufs(sum / MOMENTARY_SEGMENTS));
+    }
+
+    // Short-term over the full window where there is one, over what there is for short material
+    const shortTerm: number[] = [];
+    const step = Math.round(SHORT_TERM_STEP / SEGMENT);
+    for (let end = Math.min(SHORT_TERM_SEGMENTS, segments); end <= segments; end += step) {
+        shortTerm.push(windowLoudness(end, Math.min(SHORT_TERM_SEGMENTS, end)));
+    }
+
+    // Gated integrated loudness: drop near-silence, then anything 10 LU under the remaining average
+    const mean = (powers: number[]) => powers.reduce((a, b) => a + b, 0) / powers.length;
+    const audible = momentaryPower.filter(p => toLufs(p) > ABSOLUTE_GATE);
+    const relativeGate = audible.length > 0 ? toLufs(mean(audible)) + RELATIVE_GATE : Infinity;
+    const gated = audible.filter(p => toLufs(p) > relativeGate);
+
+    const phases = interpolationPhases();
+    const truePeak = Math.max(0, ...channels.map(c => channelTruePeak(c, phases)));
+
+    return {
+        integrated: gated.length > 0 ? toLufs(mean(gated)) : -Infinity,
+        momentaryMax,
+        shortTermMax: shortTerm.length > 0 ? Math.max(...shortTerm) : -Infinity,
+        shortTerm,
+        truePeak: 20 * Math.log10(truePeak),
+        duration: length / sampleRate
+    };
+};
+
+export const measureBuffer = (buffer: AudioBuffer): LoudnessReport =>
+    measureLoudness(Array.from({ length: Math.min(2, buffer.numberOfChannels) }, (_, ch) => buffer.getChannelData(ch)), buffer.sampleRate);
+
+// e.g. "-14.2 LUFS", "-inf LUFS"
+export const formatLoudness = (value: number, unit = 'LUFS'): string =>
+    Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-inf ${unit}`;
+
+/** Whether an integrated loudness is within tolerance of the target. */
+export const isOnTarget = (integrated: number, target: LoudnessTarget): boolean =>
+    Math.abs(integrated - target.integrated) <= LOUDNESS_TOLERANCE;
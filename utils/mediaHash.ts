@@ -0,0 +1,13 @@
+// Content hashing for media blobs: the stable identity of a source across
+// reloads, project files and caches (blob: URLs change every session).
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const fetchBlob = async (url: string): Promise<Blob> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to read media (${response.status})`);
+    return response.blob();
+};
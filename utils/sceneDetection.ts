@@ -0,0 +1,162 @@
+import { SceneCut } from '../types';
+import { seekVideo } from './videoUtils';
+
+/**
+ * SCENE DETECTION
+ *
+ * On-device shot boundary detection. Frames are sampled at a steady rate and
+ * reduced to a signature (a coarse colour histogram and a difference hash of
+ * the luma); a cut is where consecutive signatures differ much more than their
+ * neighbours do, so handheld motion or flicker inside a shot doesn't count.
+ * Each cut is then narrowed down between its two samples by bisection. Times
+ * are source seconds.
+ */
+
+export interface SceneOptions {
+    threshold: number; // 0-1: how much more than the local change a cut must be; lower finds more
+    minShot: number;   // Seconds; of two cuts closer than this, the weaker is dropped
+}
+
+export const DEFAULT_SCENES: SceneOptions = { threshold: 0.3, minShot: 0.5 };
+
+export interface FrameSignature {
+    histogram: Float32Array; // RGB, 4 levels per channel, sums to 1
+    hash: Uint8Array;        // 64 bits (0/1): is each 9x8 luma cell brighter than the next
+}
+
+const SAMPLE_WIDTH = 32;
+const SAMPLE_HEIGHT = 18;
+const SAMPLE_INTERVAL = 0.25; // Seconds between samples...
+const MAX_SAMPLES = 2400;     // ...widened for long ranges
+const REFINE_STEPS = 3;       // Bisections per cut: 0.25s narrows to ~0.03s
+const NEIGHBOURHOOD = 4;      // Samples each side that set the local level of change
+
+/** The signature of an RGBA frame. */
+export const frameSignature = (data: Uint8ClampedArray, width: number, height: number): FrameSignature => {
+    const histogram = new Float32Array(64);
+    const cells = new Float32Array(72), counts = new Float32Array(72);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+            histogram[(r >> 6) * 16 + (g >> 6) * 4 + (b >> 6)]++;
+            const cell = Math.floor(y * 8 / height) * 9 + Math.floor(x * 9 / width);
+            cells[cell] += 0.299 * r + 0.587 * g + 0.114 * b;
+            counts[cell]++;
+        }
+    }
+    histogram.forEach((v, i) => histogram[i] = v / (width * height));
+    const hash = new Uint8Array(64);
+    for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+            const left = cells[row * 9 + col] / (counts[row * 9 + col] || 1);
+            const right = cells[row * 9 + col + 1] / (counts[row * 9 + col + 1] || 1);
+            hash[row * 8 + col] = left > right ? 1 : 0;
+        }
+    }
+    return { histogram, hash };
+};
+
+/** 0 (same picture) to 1: the mean of the histogram distance and the share of hash bits that differ. */
+export const frameDifference = (a: FrameSignature, b: FrameSignature): number => {
+    let histogram = 0, bits = 0;
+    for (let i = 0; i < 64; i++) {
+        histogram += Math.abs(a.histogram[i] - b.histogram[i]);
+        bits += a.hash[i] ^ b.hash[i];
+    }
+    return (histogram / 2 + bits / 64) / 2;
+};
+
+/**
+ * Cuts among consecutive samples: `differences[i]` is the change from sample
+ * `i` to `i + 1`, and the cut falls after `times[i]`. Returns the indices with
+ * their confidence, strongest kept where two are closer than `minShot`.
+ */
+export const findCuts = (times: number[], differences: number[], options: SceneOptions = DEFAULT_SCENES): { index: number, confidence: number }[] => {
+    const candidates: { index: number, confidence: number }[] = [];
+    differences.forEach((difference, i) => {
+        const around = differences.slice(Math.max(0, i - NEIGHBOURHOOD), i + NEIGHBOURHOOD + 1).filter((_, j) => j !== Math.min(i, NEIGHBOURHOOD));
+        const local = around.length > 0 ? [...around].sort((a, b) => a - b)[Math.floor(around.length / 2)] : 0;
+        const excess = difference - local;
+        if (excess < options.threshold) return;
+        candidates.push({ index: i, confidence: Math.round(Math.min(1, 0.5 + 0.5 * (excess - options.threshold) / Math.max(0.01, 1 - options.threshold)) * 100) / 100 });
+    });
+    const kept: { index: number, confidence: number }[] = [];
+    candidates.forEach(c => {
+        const last = kept[kept.length - 1];
+        if (last && times[c.index] - times[last.index] < options.minShot) {
+            if (c.confidence > last.confidence) kept[kept.length - 1] = c;
+        } else kept.push(c);
+    });
+    return kept;
+};
+
+// --- SAMPLING ---
+
+const analyses = new Map<string, Promise<SceneCut[]>>();
+
+const openVideo = (url: string): Promise<HTMLVideoElement> => new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not load the video for scene detection"));
+    video.src = url;
+});
+
+const detect = async (url: string, start: number, end: number, options: SceneOptions): Promise<SceneCut[]> => {
+    const video = await openVideo(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = SAMPLE_WIDTH;
+    canvas.height = SAMPLE_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const signatureAt = async (time: number): Promise<FrameSignature> => {
+        await seekVideo(video, time);
+        ctx.drawImage(video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+        return frameSignature(ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT).data, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+    };
+
+    try {
+        end = Math.min(end, video.duration);
+        const interval = Math.max(SAMPLE_INTERVAL, (end - start) / MAX_SAMPLES);
+        const times: number[] = [];
+        for (let t = start; t < end; t += interval) times.push(t);
+        if (times.length < 2) return [];
+        const signatures: FrameSignature[] = [];
+        for (const t of times) signatures.push(await signatureAt(t));
+        const differences = signatures.slice(1).map((s, i) => frameDifference(signatures[i], s));
+
+        const cuts: SceneCut[] = [];
+        for (const { index, confidence } of findCuts(times, differences, options)) {
+            // The cut lies between the two samples: keep the half whose ends look different
+            let [before, after] = [times[index], times[index + 1]];
+            const [first, last] = [signatures[index], signatures[index + 1]];
+            for (let step = 0; step < REFINE_STEPS; step++) {
+                const mid = (before + after) / 2;
+                const signature = await signatureAt(mid);
+                if (frameDifference(first, signature) < frameDifference(signature, last)) before = mid; else after = mid;
+            }
+            cuts.push({ time: Math.round(after * 1000) / 1000, confidence });
+        }
+        return cuts;
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+    }
+};
+
+/**
+ * Shot boundaries in `url` between `start` and `end` (source seconds), in order.
+ * Cached per source, range and options.
+ */
+export const detectScenes = (url: string, start: number, end: number, options: SceneOptions = DEFAULT_SCENES): Promise<SceneCut[]> => {
+    const key = `${url}@${start.toFixed(2)}-${end.toFixed(2)}@${options.threshold}/${options.minShot}`;
+    if (!analyses.has(key)) {
+        const analysis = detect(url, start, end, options);
+        analyses.set(key, analysis);
+        analysis.catch(() => analyses.delete(key));
+    }
+    return analyses.get(key)!;
+};
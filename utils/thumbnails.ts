@@ -0,0 +1,158 @@
+import { seekVideo } from './videoUtils';
+
+/**
+ * THUMBNAILS
+ *
+ * Small video frames for the timeline filmstrips and workspace scrub previews.
+ * Each source gets one hidden <video> decoder that serves its frame requests
+ * one seek at a time; only the few most recently used decoders are kept.
+ * Frames are cached as ImageBitmaps in a least-recently-used cache keyed by
+ * source and time (rounded to THUMBNAIL_STEP), so redrawing after a zoom or a
+ * trim mostly reuses frames already decoded. Evicted frames aren't closed: a
+ * mounted filmstrip may still be drawing one, so they're left to the GC.
+ */
+
+export const THUMBNAIL_HEIGHT = 90;
+const THUMBNAIL_STEP = 0.1;    // Seconds; requests closer than this share a frame
+const MAX_THUMBNAILS = 600;    // ~20 MB of 160x90 bitmaps
+const MAX_DECODERS = 3;
+const SEEK_TIMEOUT = 5000;
+
+// One decode, shared by every caller asking for the same frame
+interface FrameRequest {
+    time: number;
+    waiters: number; // Callers still interested; skipped when all have aborted
+    frame: Promise<ImageBitmap | null>;
+    resolve: (frame: ImageBitmap | null) => void;
+}
+
+interface Decoder {
+    video: HTMLVideoElement;
+    ready: Promise<boolean>; // False when the source can't be loaded
+    queue: FrameRequest[];
+    busy: boolean;
+}
+
+const cache = new Map<string, ImageBitmap>();           // Insertion order is recency: oldest first
+const inFlight = new Map<string, FrameRequest>();
+const decoders = new Map<string, Decoder>();            // Same: least recently used first
+
+const frameKey = (url: string, time: number) => `${url}@${time.toFixed(1)}`;
+const snapTime = (time: number) => Math.max(0, Math.round(time / THUMBNAIL_STEP) * THUMBNAIL_STEP);
+
+const remember = (key: string, frame: ImageBitmap) => {
+    cache.delete(key);
+    cache.set(key, frame);
+    while (cache.size > MAX_THUMBNAILS) cache.delete(cache.keys().next().value!);
+};
+
+const closeDecoder = (url: string) => {
+    const decoder = decoders.get(url);
+    if (!decoder) return;
+    decoder.queue.forEach(r => r.resolve(null));
+    decoder.video.removeAttribute('src');
+    decoder.video.load();
+    decoders.delete(url);
+};
+
+const getDecoder = (url: string): Decoder => {
+    let decoder = decoders.get(url);
+    if (decoder) {
+        decoders.delete(url);
+        decoders.set(url, decoder);
+        return decoder;
+    }
+    const video = document.createElement('video');
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    const ready = new Promise<boolean>(resolve => {
+        video.onloadeddata = () => resolve(true);
+        video.onerror = () => resolve(false);
+    });
+    video.src = url;
+    decoder = { video, ready, queue: [], busy: false };
+    decoders.set(url, decoder);
+
+    // Make room, dropping idle decoders first
+    for (const [other, d] of decoders) {
+        if (decoders.size <= MAX_DECODERS) break;
+        if (other !== url && !d.busy) closeDecoder(other);
+    }
+    return decoder;
+};
+
+// Serves the decoder's queue in order, skipping requests whose caller has gone
+const drain = async (decoder: Decoder) => {
+    if (decoder.busy) return;
+    decoder.busy = true;
+    const loaded = await decoder.ready;
+    while (decoder.queue.length > 0) {
+        const request = decoder.queue.shift()!;
+        if (request.waiters === 0 || !loaded) { request.resolve(null); continue; }
+        try {
+            const { video } = decoder;
+            if (!(await seekVideo(video, request.time, SEEK_TIMEOUT)) || !video.videoWidth) { request.resolve(null); continue; }
+            const width = Math.max(1, Math.round(THUMBNAIL_HEIGHT * video.videoWidth / video.videoHeight));
+            request.resolve(await createImageBitmap(video, { resizeWidth: width, resizeHeight: THUMBNAIL_HEIGHT, resizeQuality: 'low' }));
+        } catch (e) {
+            console.warn("Thumbnail failed", e);
+            request.resolve(null);
+        }
+    }
+    decoder.busy = false;
+};
+
+/** A cached frame of `url` near `time` (source seconds), without decoding anything. */
+export const peekThumbnail = (url: string, time: number): ImageBitmap | undefined => {
+    const key = frameKey(url, snapTime(time));
+    const frame = cache.get(key);
+    if (frame) remember(key, frame);
+    return frame;
+};
+
+const requestFrame = (url: string, key: string, time: number): FrameRequest => {
+    let resolve!: (frame: ImageBitmap | null) => void;
+    const frame = new Promise<ImageBitmap | null>(r => resolve = r).then(frame => {
+        inFlight.delete(key);
+        if (frame) remember(key, frame);
+        return frame;
+    });
+    const request: FrameRequest = { time, waiters: 0, frame, resolve };
+    inFlight.set(key, request);
+    const decoder = getDecoder(url);
+    decoder.queue.push(request);
+    drain(decoder);
+    return request;
+};
+
+/**
+ * A frame of `url` near `time` (source seconds), decoded if it isn't cached.
+ * Null when the source can't be decoded, or when `signal` aborts first. Callers
+ * asking for the same frame share its decode, which is skipped only once every
+ * one of them has aborted.
+ */
+export const getThumbnail = (url: string, time: number, signal?: AbortSignal): Promise<ImageBitmap | null> => {
+    if (signal?.aborted) return Promise.resolve(null);
+    const snapped = snapTime(time);
+    const key = frameKey(url, snapped);
+    const cached = peekThumbnail(url, snapped);
+    if (cached) return Promise.resolve(cached);
+
+    const request = inFlight.get(key) || requestFrame(url, key, snapped);
+    request.waiters++;
+    if (!signal) return request.frame;
+    return new Promise(resolve => {
+        const abort = () => { request.waiters--; resolve(null); };
+        signal.addEventListener('abort', abort, { once: true });
+        request.frame.then(frame => { signal.removeEventListener('abort', abort); resolve(frame); });
+    });
+};
+
+/** Draws `frame` to fill a `width` x `height` box at `x`, cropping to keep its aspect. */
+export const drawThumbnail = (ctx: CanvasRenderingContext2D, frame: ImageBitmap, x: number, width: number, height: number) => {
+    const scale = Math.max(width / frame.width, height / frame.height);
+    const sw = width / scale, sh = height / scale;
+    ctx.drawImage(frame, (frame.width - sw) / 2, (frame.height - sh) / 2, sw, sh, x, 0, width, height);
+};
@@ -142,6 +142,22 @@ export const captureFrameFromVideoUrl = async (
     });
 };
 
+/**
+ * Seeks a loaded video and waits for the frame to be ready, clamping `time` to
+ * the video. False when the seek doesn't finish within `timeout` ms.
+ */
+export const seekVideo = (video: HTMLVideoElement, time: number, timeout: number = 5000): Promise<boolean> => new Promise(resolve => {
+    const done = (ok: boolean) => {
+        clearTimeout(timer);
+        video.removeEventListener('seeked', onSeeked);
+        resolve(ok);
+    };
+    const onSeeked = () => done(true);
+    const timer = setTimeout(() => done(false), timeout);
+    video.addEventListener('seeked', onSeeked);
+    video.currentTime = Math.min(Math.max(0, time), Math.max(0, video.duration - 0.05));
+});
+
 // Helper to convert Blob to Base64 string (no header)
 const blobToBase64 = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -160,19 +176,35 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
 };
 
 /**
- * Extracts audio from a video file/blob and returns it as a base64 encoded string.
- * This is used to send lighter payloads to Gemini for transcription.
+ * Decodes the sound of a video or audio file/blob, resampled to `sampleRate` when
+ * given (the device rate otherwise). Throws when there is none: silent or
+ * audio-less media (e.g. Veo output) fails to decode.
  */
-export const extractAudioFromVideo = async (file: File | Blob): Promise<string> => {
+export const decodeAudioFile = async (file: File | Blob, sampleRate?: number): Promise<AudioBuffer> => {
+    const arrayBuffer = await file.arrayBuffer();
+    if (sampleRate) return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(arrayBuffer);
+
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     if (!AudioContextClass) {
         throw new Error("AudioContext not supported");
     }
     const audioContext = new AudioContextClass();
-    
     try {
-        const arrayBuffer = await file.arrayBuffer();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+        return await audioContext.decodeAudioData(arrayBuffer);
+    } finally {
+        if (audioContext.state !== 'closed') {
+            await audioContext.close();
+        }
+    }
+};
+
+/**
+ * Extracts audio from a video file/blob and returns it as a base64 encoded string.
+ * This is used to send lighter payloads to Gemini for transcription.
+ */
+export const extractAudioFromVideo = async (file: File | Blob): Promise<string> => {
+    try {
+        const audioBuffer = await decodeAudioFile(file);
         
         // Re-encode to WAV
         const wavBlob = bufferToWav(audioBuffer);
@@ -181,10 +213,18 @@ export const extractAudioFromVideo = async (file: File | Blob): Promise<string>
         // If decoding fails, it likely means no audio track or unsupported format.
         console.warn("Audio extraction failed (likely silent video):", err);
         throw new Error("Could not extract audio from video. The video might be silent.");
-    } finally {
-        if (audioContext.state !== 'closed') {
-            await audioContext.close();
-        }
+    }
+};
+
+/**
+ * Downloads a source URL and decodes its sound (as `decodeAudioFile`), resampled
+ * to `sampleRate`. Null when there is none.
+ */
+export const decodeAudioFromUrl = async (sourceUrl: string, sampleRate: number = 48000): Promise<AudioBuffer | null> => {
+    try {
+        return await decodeAudioFile(await (await fetch(sourceUrl)).blob(), sampleRate);
+    } catch (e) {
+        return null;
     }
 };
 
@@ -244,6 +284,13 @@ export const sliceAudioBlob = async (sourceUrl: string, start: number, duration:
     }
 }
 
+/** Mono samples as a base64 WAV (no header), for sending audio to a model. */
+export const samplesToWavBase64 = (samples: Float32Array, sampleRate: number): Promise<string> => {
+    const buffer = new AudioBuffer({ length: Math.max(1, samples.length), numberOfChannels: 1, sampleRate });
+    buffer.copyToChannel(samples, 0);
+    return blobToBase64(bufferToWav(buffer));
+};
+
 // Simple WAV encoder helper
 function bufferToWav(abuffer: AudioBuffer) {
     const numOfChan = abuffer.numberOfChannels;
@@ -0,0 +1,11 @@
+// Peak extraction off the main thread: the highest |sample| in each bucket of
+// mono samples. Receives { id, samples, sampleRate, peaksPerSecond }, answers
+// { id, peaks } with the buffer transferred back.
+
+import { computePeaks } from './waveformPeaks';
+
+self.onmessage = (e: MessageEvent<{ id: number, samples: Float32Array, sampleRate: number, peaksPerSecond: number }>) => {
+    const { id, samples, sampleRate, peaksPerSecond } = e.data;
+    const peaks = computePeaks(samples, sampleRate, peaksPerSecond);
+    self.postMessage({ id, peaks }, { transfer: [peaks.buffer] });
+};
@@ -0,0 +1,16 @@
+// Shared by the waveform worker and its main-thread fallback.
+
+/** The highest |sample| in each 1/peaksPerSecond bucket. */
+export const computePeaks = (samples: Float32Array, sampleRate: number, peaksPerSecond: number): Float32Array => {
+    const bucket = sampleRate / peaksPerSecond;
+    const peaks = new Float32Array(Math.ceil(samples.length / bucket));
+    for (let p = 0; p < peaks.length; p++) {
+        let peak = 0;
+        for (let i = Math.floor(p * bucket); i < Math.min(samples.length, Math.floor((p + 1) * bucket)); i++) {
+            const v = Math.abs(samples[i]);
+            if (v > peak) peak = v;
+        }
+        peaks[p] = peak;
+    }
+    return peaks;
+};
@@ -0,0 +1,128 @@
+import { Clip } from '../types';
+import { getSourceTime } from '../timeline/timeRemap';
+import { hashBlob, fetchBlob } from './mediaHash';
+import { decodeAudioFile } from './videoUtils';
+import { computePeaks } from './waveformPeaks';
+
+/**
+ * WAVEFORMS
+ *
+ * Peak envelopes for drawing sound in the timeline. Each source is decoded
+ * once (mono, low rate) and reduced to peaks in a worker; results are cached by
+ * content hash, so the same media under another URL (a reload, a re-import)
+ * isn't analysed twice. `clipWaveform` maps the peaks through a clip's time
+ * remapping, one value per pixel column, so trims, speed and zoom line up.
+ */
+
+export interface WaveformPeaks {
+    peaks: Float32Array;    // Highest |sample| per bucket, 0-1
+    peaksPerSecond: number; // Buckets per source second
+}
+
+const WAVEFORM_SAMPLE_RATE = 8000;
+const PEAKS_PER_SECOND = 200; // 5 ms: finer than a pixel at the deepest zoom
+
+const byHash = new Map<string, Promise<WaveformPeaks | null>>();
+const byUrl = new Map<string, Promise<WaveformPeaks | null>>();
+
+interface PeaksRequest {
+    samples: Float32Array; // Kept (the worker gets a copy) so a failed worker can be covered inline
+    sampleRate: number;
+    resolve: (peaks: Float32Array) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PeaksRequest>();
+
+// A worker that fails to load or throws is dropped for good; what it had queued is computed inline
+const abandonWorker = (e: Event) => {
+    console.warn("Waveform worker failed; computing peaks inline", e);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pending.forEach(({ samples, sampleRate, resolve }) => resolve(computePeaks(samples, sampleRate, PEAKS_PER_SECOND)));
+    pending.clear();
+};
+
+// The shared worker, or null where workers can't be created (peaks are then computed inline)
+const getWorker = (): Worker | null => {
+    if (worker || workerFailed) return worker;
+    try {
+        worker = new Worker(new URL('./waveform.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<{ id: number, peaks: Float32Array }>) => {
+            pending.get(e.data.id)?.resolve(e.data.peaks);
+            pending.delete(e.data.id);
+        };
+        worker.onerror = abandonWorker;
+        worker.onmessageerror = abandonWorker;
+        return worker;
+    } catch (e) {
+        console.warn("Waveform worker unavailable", e);
+        workerFailed = true;
+        return null;
+    }
+};
+
+const peaksOf = (samples: Float32Array, sampleRate: number): Promise<Float32Array> => {
+    const target = getWorker();
+    if (!target) return Promise.resolve(computePeaks(samples, sampleRate, PEAKS_PER_SECOND));
+    return new Promise(resolve => {
+        const id = nextRequestId++;
+        pending.set(id, { samples, sampleRate, resolve });
+        target.postMessage({ id, samples, sampleRate, peaksPerSecond: PEAKS_PER_SECOND });
+    });
+};
+
+const analyze = async (blob: Blob): Promise<WaveformPeaks | null> => {
+    let buffer: AudioBuffer;
+    try {
+        buffer = await decodeAudioFile(blob, WAVEFORM_SAMPLE_RATE);
+    } catch {
+        return null; // No sound
+    }
+    const mono = new Float32Array(buffer.length);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const channel = buffer.getChannelData(ch);
+        for (let i = 0; i < channel.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+    }
+    return { peaks: await peaksOf(mono, buffer.sampleRate), peaksPerSecond: PEAKS_PER_SECOND };
+};
+
+/** The source's peaks, computed once per content. Null when it has no sound. */
+export const loadWaveform = (url: string): Promise<WaveformPeaks | null> => {
+    if (!byUrl.has(url)) {
+        byUrl.set(url, (async () => {
+            const blob = await fetchBlob(url);
+            const hash = await hashBlob(blob);
+            if (!byHash.has(hash)) byHash.set(hash, analyze(blob));
+            return byHash.get(hash)!;
+        })().catch(e => {
+            console.warn("Waveform failed", e);
+            return null;
+        }));
+    }
+    return byUrl.get(url)!;
+};
+
+/**
+ * Column heights (0-1) for drawing `clip` `width` pixels wide at `pxPerSec`:
+ * the loudest peak in the source each column plays, scaled by the clip's volume.
+ */
+export const clipWaveform = (clip: Clip, waveform: WaveformPeaks, pxPerSec: number, width: number): Float32Array => {
+    const { peaks, peaksPerSecond } = waveform;
+    const gain = Math.min(1, clip.volume ?? 1);
+    const columns = new Float32Array(Math.max(0, Math.floor(width)));
+    let edge = getSourceTime(clip, 0);
+    for (let x = 0; x < columns.length; x++) {
+        const next = getSourceTime(clip, (x + 1) / pxPerSec);
+        const from = Math.max(0, Math.floor(Math.min(edge, next) * peaksPerSecond));
+        const to = Math.min(peaks.length, Math.max(from + 1, Math.ceil(Math.max(edge, next) * peaksPerSecond)));
+        let peak = 0;
+        for (let p = from; p < to; p++) if (peaks[p] > peak) peak = peaks[p];
+        columns[x] = Math.min(1, peak * gain);
+        edge = next;
+    }
+    return columns;
+};
@@ -0,0 +1,129 @@
+/**
+ * Minimal ZIP container (STORE method only, no compression).
+ *
+ * Project media is already compressed (H.264, AAC, JPEG/PNG), so deflate would
+ * buy nothing; storing keeps this dependency-free and fast on large files.
+ * There is no ZIP64: archives past the 32-bit limits are refused rather than
+ * written with wrapped offsets.
+ */
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const MAX_ZIP_BYTES = 0xffffffff; // Sizes and offsets are 32-bit fields
+const MAX_ZIP_ENTRIES = 0xffff;
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+    if (entries.length > MAX_ZIP_ENTRIES) throw new Error(`Too many files for a project archive (${entries.length}, the limit is ${MAX_ZIP_ENTRIES})`);
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+        // The central directory follows the entries, so everything must stay addressable
+        if (offset + 30 + name.length + size > MAX_ZIP_BYTES) {
+            throw new Error(`The project archive would pass 4 GB at "${entry.name}". Save with media referenced instead of embedded.`);
+        }
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);   // Local file header signature
+        local.setUint16(4, 20, true);           // Version needed
+        local.setUint16(6, 0x0800, true);       // UTF-8 names
+        local.setUint16(8, 0, true);            // STORE
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, name.length, true);
+
+        const dir = new DataView(new ArrayBuffer(46));
+        dir.setUint32(0, 0x02014b50, true);     // Central directory signature
+        dir.setUint16(4, 20, true);
+        dir.setUint16(6, 20, true);
+        dir.setUint16(8, 0x0800, true);
+        dir.setUint16(10, 0, true);
+        dir.setUint32(16, crc, true);
+        dir.setUint32(20, size, true);
+        dir.setUint32(24, size, true);
+        dir.setUint16(28, name.length, true);
+        dir.setUint32(42, offset, true);
+
+        parts.push(local.buffer, name, entry.data);
+        central.push(new Uint8Array(dir.buffer), name);
+        offset += 30 + name.length + size;
+    }
+
+    const centralSize = central.reduce((sum, b) => sum + b.length, 0);
+    if (offset + centralSize + 22 > MAX_ZIP_BYTES) throw new Error('The project archive would pass 4 GB. Save with media referenced instead of embedded.');
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);         // End of central directory
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+export const isZip = async (blob: Blob): Promise<boolean> => {
+    const head = new DataView(await blob.slice(0, 4).arrayBuffer());
+    return head.byteLength === 4 && head.getUint32(0, true) === 0x04034b50;
+};
+
+export const readZip = async (blob: Blob): Promise<Map<string, Blob>> => {
+    const buffer = await blob.arrayBuffer();
+    const view = new DataView(buffer);
+    const decoder = new TextDecoder();
+
+    // The end-of-central-directory record sits in the last 22 bytes (plus an optional comment)
+    let eocd = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+    }
+    if (eocd < 0) throw new Error('Not a valid zip archive');
+
+    const count = view.getUint16(eocd + 10, true);
+    let ptr = view.getUint32(eocd + 16, true);
+    const entries = new Map<string, Blob>();
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(ptr, true) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+        const method = view.getUint16(ptr + 10, true);
+        const size = view.getUint32(ptr + 20, true);
+        const nameLength = view.getUint16(ptr + 28, true);
+        const extraLength = view.getUint16(ptr + 30, true);
+        const commentLength = view.getUint16(ptr + 32, true);
+        const localOffset = view.getUint32(ptr + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, ptr + 46, nameLength));
+        if (method !== 0) throw new Error(`Unsupported zip compression for ${name}`);
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        entries.set(name, new Blob([new Uint8Array(buffer, dataStart, size)]));
+
+        ptr += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};